@@ -0,0 +1,57 @@
+// Example: live updates between editors
+//
+// Route handlers cannot accept WebSocket upgrades, so run a small `ws` server
+// next to Next.js (here in a custom server) and share one broadcaster with the
+// route handlers.
+
+// File: lib/translation-broadcaster.ts
+import { TranslationBroadcaster } from 'next-intl-admin/server';
+
+// Stored on globalThis so the custom server and the bundled route share one instance
+const globalForBroadcaster = globalThis as unknown as {
+  translationBroadcaster?: TranslationBroadcaster;
+};
+
+export const broadcaster =
+  globalForBroadcaster.translationBroadcaster ??
+  (globalForBroadcaster.translationBroadcaster = new TranslationBroadcaster());
+
+// File: app/api/translations/[[...path]]/route.ts
+//
+// export const { GET, POST, PUT, DELETE } = createTranslationRouteHandlers({
+//   storage,
+//   supportedLocales: ['en', 'ar', 'fr', 'es'],
+//   broadcaster
+// });
+
+// File: server.ts (run with `node server.js` instead of `next start`)
+//
+// import { createServer } from 'http';
+// import next from 'next';
+// import { WebSocketServer } from 'ws';
+// import { broadcaster } from './lib/translation-broadcaster';
+//
+// const app = next({ dev: process.env.NODE_ENV !== 'production' });
+// const handle = app.getRequestHandler();
+//
+// app.prepare().then(() => {
+//   createServer((req, res) => handle(req, res)).listen(3000);
+//
+//   const wss = new WebSocketServer({ port: 8080, path: '/translations' });
+//   wss.on('connection', (socket) => {
+//     const remove = broadcaster.addClient(socket);
+//     socket.on('close', remove);
+//   });
+// });
+
+// File: app/[locale]/admin/translations/page.tsx
+//
+// <TranslationManager
+//   apiEndpoint="/api/translations"
+//   supportedLocales={['en', 'ar', 'fr', 'es']}
+//   realTimeUpdates={{
+//     enabled: true,
+//     websocketUrl: 'ws://localhost:8080/translations',
+//     reconnectInterval: 5000
+//   }}
+// />
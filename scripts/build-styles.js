@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Builds dist/styles.css from src/styles.css
+ * Run with: node scripts/build-styles.js
+ *
+ * Class names are collected from the string literals in src, Tailwind drops
+ * everything that is not a utility.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { compile } = require('tailwindcss');
+
+const rootDir = path.join(__dirname, '..');
+const srcDir = path.join(rootDir, 'src');
+const input = path.join(srcDir, 'styles.css');
+const output = path.join(rootDir, 'dist', 'styles.css');
+
+function listSourceFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listSourceFiles(entryPath);
+    return /\.tsx?$/.test(entry.name) ? [entryPath] : [];
+  });
+}
+
+function collectCandidates(files) {
+  const candidates = new Set();
+  const literal = /'([^'\n]*)'|"([^"\n]*)"|`([^`]*)`/g;
+
+  for (const file of files) {
+    const content = fs.readFileSync(file, 'utf8');
+    let match;
+    while ((match = literal.exec(content))) {
+      const value = match[1] ?? match[2] ?? match[3];
+      for (const candidate of value.split(/[\s${}'"]+/)) {
+        if (candidate) candidates.add(candidate);
+      }
+    }
+  }
+
+  return Array.from(candidates);
+}
+
+async function loadStylesheet(id, base) {
+  const file = require.resolve(id, { paths: [base] });
+  return { path: file, base: path.dirname(file), content: fs.readFileSync(file, 'utf8') };
+}
+
+async function main() {
+  const compiler = await compile(fs.readFileSync(input, 'utf8'), {
+    base: srcDir,
+    loadStylesheet
+  });
+
+  const css = compiler.build(collectCandidates(listSourceFiles(srcDir)));
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, css);
+  console.log(`✅ ${path.relative(rootDir, output)} (${(css.length / 1024).toFixed(1)} kB)`);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to build styles:', error.message);
+  process.exit(1);
+});
@@ -145,23 +145,1223 @@ for (const { file, required } of requiredForNpm) {
   }
 }
 
-console.log('\n🎯 Test Summary:');
-if (npmReady) {
-  console.log('✅ Package is ready for npm publishing!');
-  console.log('✅ All required files are present');
-  console.log('✅ Documentation looks good');
-  console.log('\nNext steps:');
-  console.log('1. Run: npm run build');
-  console.log('2. Run: npm run type-check');
-  console.log('3. Run: npm run lint');
-  console.log('4. Test locally: npm link');
-  console.log('5. Commit to git: git add . && git commit -m "feat: ready for release"');
-  console.log('6. Push to GitHub: git push origin main');
-  console.log('7. Create release on GitHub');
-  console.log('8. Publish to npm: npm publish');
-} else {
-  console.log('❌ Package has issues that need to be fixed before publishing');
-  process.exit(1);
+// Test 7: Behavior checks, run against the TypeScript sources
+console.log('\n🧩 Running behavior checks...');
+const ts = require('typescript');
+const os = require('os');
+const assert = require('assert');
+
+require.extensions['.ts'] = require.extensions['.tsx'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.React
+    }
+  });
+  module._compile(outputText, filename);
+};
+
+const srcDir = path.join(__dirname, '..', 'src');
+const checks = [];
+const check = (name, run) => checks.push({ name, run });
+
+// A StandaloneAPI that starts from an empty catalog instead of fetching message files
+function createStandaloneAPI(storage, options = {}) {
+  const { StandaloneAPI } = require(path.join(srcDir, 'lib', 'standalone-api.ts'));
+  const { FileManager } = require(path.join(srcDir, 'lib', 'file-manager.ts'));
+  const supportedLocales = options.supportedLocales || ['en', 'fr'];
+  const fileManager = new FileManager('/messages', supportedLocales);
+  fileManager.loadTranslations = async () => [];
+
+  return new StandaloneAPI({ storage, supportedLocales, fileManager, autoExport: false, syncChannel: false, ...options });
+}
+
+// Send a request to route handlers mounted at /api/translations
+function callRoute(handlers, method, pathname, body, headers = {}) {
+  return handlers[method](new Request(`http://localhost/api/translations${pathname}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  }));
 }
 
-console.log('\n🚀 Happy coding!');
+check('message files keep arrays, numbers and booleans after an unrelated edit', async () => {
+  const { FsMessagesStorageAdapter } = require(path.join(srcDir, 'lib', 'fs-storage.ts'));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nia-fs-'));
+
+  try {
+    const en = JSON.stringify({
+      list: ['a', 'b'],
+      n: 3,
+      flags: { on: true, off: false, none: null },
+      home: { title: 'Home', sizes: [1, 2] }
+    }, null, 2) + '\n';
+    fs.writeFileSync(path.join(dir, 'en.json'), en);
+    fs.writeFileSync(path.join(dir, 'fr.json'), JSON.stringify({ home: { title: 'Accueil' } }, null, 2) + '\n');
+
+    const storage = new FsMessagesStorageAdapter({ messagesDir: dir, supportedLocales: ['en', 'fr'] });
+    await storage.update('home.title', { translations: { en: 'Home', fr: 'Page d\'accueil' } });
+    assert.strictEqual(fs.readFileSync(path.join(dir, 'en.json'), 'utf8'), en);
+
+    await storage.update('home.title', { translations: { en: 'Start', fr: 'Page d\'accueil' } });
+    const expected = JSON.parse(en);
+    expected.home.title = 'Start';
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(dir, 'en.json'), 'utf8')), expected);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+check('imports drop columns that are not supported locales', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const storage = new MemoryStorageAdapter();
+  const { POST } = createTranslationRouteHandlers({ storage, supportedLocales: ['en', 'fr'] });
+
+  const response = await POST(new Request('http://localhost/api/translations/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      translations: [{ key: 'home.title', translations: { en: 'Home', fr: 'Accueil', Notes: 'Title of the page' } }]
+    })
+  }));
+  const result = await response.json();
+
+  assert.strictEqual(result.imported, 1);
+  assert.deepStrictEqual((await storage.load())[0].translations, { en: 'Home', fr: 'Accueil' });
+
+  const standaloneStorage = new MemoryStorageAdapter();
+  const json = JSON.stringify([{ key: 'home.title', translations: { en: 'Home', fr: 'Accueil', notes: 'Title of the page' } }]);
+  const standaloneResult = await createStandaloneAPI(standaloneStorage)
+    .importTranslations({ name: 'messages.json', text: async () => json });
+
+  assert.strictEqual(standaloneResult.imported, 1);
+  assert.deepStrictEqual(standaloneResult.warnings, ['Ignored values for unsupported locales: notes']);
+  assert.deepStrictEqual((await standaloneStorage.load())[0].translations, { en: 'Home', fr: 'Accueil' });
+
+  const update = await createStandaloneAPI(standaloneStorage)
+    .importTranslations({ name: 'messages.csv', text: async () => 'Key,en,notes\nhome.title,Start,Title\n' });
+  assert.strictEqual(update.updated, 1);
+  assert.deepStrictEqual(update.changes.map(change => [change.before.translations, change.after.translations]), [
+    [{ en: 'Home', fr: 'Accueil' }, { en: 'Start', fr: 'Accueil' }]
+  ]);
+});
+
+check('spreadsheet cells keep a literal _xHHHH_', async () => {
+  const { writeXlsx, readXlsx } = require(path.join(srcDir, 'lib', 'xlsx.ts'));
+  const rows = [['key', 'en'], ['code', 'Type _x000D_ or _x005F_ as is\r\nok']];
+
+  const [sheet] = await readXlsx(writeXlsx([{ name: 'Translations', rows }]));
+  assert.deepStrictEqual(sheet.rows, rows);
+});
+
+check('PO files with translations need a locale', async () => {
+  const { importTranslations } = require(path.join(srcDir, 'lib', 'import-export.ts'));
+  const po = 'msgctxt "home.title"\nmsgid "Home"\nmsgstr "Accueil"\n';
+  const file = () => ({ name: 'messages.po', text: async () => po });
+
+  await assert.rejects(importTranslations(file()), /Language header/);
+  const [translation] = await importTranslations(file(), 'fr');
+  assert.deepStrictEqual(translation.translations, { fr: 'Accueil' });
+
+  const template = await importTranslations({ name: 'messages.pot', text: async () => po.replace('"Accueil"', '""') });
+  assert.deepStrictEqual(template[0].translations, {});
+});
+
+check('plural messages with apostrophes survive splitting and joining', async () => {
+  const { parseMessage, printMessage, splitPluralMessage, joinPluralMessage } = require(path.join(srcDir, 'lib', 'icu.ts'));
+  const messages = [
+    "Don't {count, plural, one {it's # file} other {they're # files}}",
+    "{count, plural, one {the dog''} other {the dogs''}} ''{name}' said it's '{'fine'}'",
+    "{count, plural, =0 {'#' isn't set} other {'#'''s # and '{}' and '<'b>}} <b>it's</b>"
+  ];
+
+  messages.forEach(message => {
+    assert.strictEqual(joinPluralMessage(splitPluralMessage(message)), message);
+  });
+
+  // Quoted runs next to apostrophes still read back the same
+  ["'{}'''", "''''{x}", "'{'''", "a'''{'b"].forEach(message => {
+    const nodes = parseMessage(message);
+    assert.deepStrictEqual(parseMessage(printMessage(nodes)), nodes);
+  });
+});
+
+check('a key repeated in one bulk import is written once', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const storage = new MemoryStorageAdapter();
+  const batches = [];
+  storage.bulkPut = async translations => {
+    batches.push(translations);
+    return Promise.all(translations.map(t => storage.create(t)));
+  };
+
+  const api = createStandaloneAPI(storage);
+  const csv = 'Key,en,fr\nhome.title,Home,\nhome.title,,Accueil\n';
+  const result = await api.importTranslations({ name: 'messages.csv', text: async () => csv });
+
+  assert.strictEqual(result.imported, 1);
+  assert.strictEqual(result.updated, 0);
+  assert.strictEqual(batches.length, 1);
+  assert.deepStrictEqual(batches[0].map(t => [t.key, t.translations]), [['home.title', { en: 'Home', fr: 'Accueil' }]]);
+  // What undo needs, from the import itself
+  assert.deepStrictEqual(result.changes.map(change => [change.before, change.after.translations]), [[undefined, { en: 'Home', fr: 'Accueil' }]]);
+});
+
+check('searches match inside words and can be limited to locales', async () => {
+  const { translationUtils } = require(path.join(srcDir, 'lib', 'utils.ts'));
+  const translations = [
+    { key: 'file.save', translations: { en: 'Save file', fr: 'Enregistrer' } },
+    { key: 'file.open', translations: { en: 'Open', fr: 'Ouvrir le fichier' } }
+  ];
+  const keys = (term, locales) => translationUtils.searchTranslations(translations, term, locales).map(t => t.key);
+
+  assert.deepStrictEqual(keys('ave'), ['file.save']);
+  assert.deepStrictEqual(keys('e.o'), ['file.open']);
+  assert.deepStrictEqual(keys('fichier'), ['file.open']);
+  assert.deepStrictEqual(keys('fichier', ['en']), []);
+});
+
+check('tabs only sync with tabs on the same storage', async () => {
+  const { getSyncChannel } = require(path.join(srcDir, 'lib', 'tab-sync.ts'));
+  const { LocalStorageAdapter, IndexedDBAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+
+  assert.notStrictEqual(getSyncChannel(new IndexedDBAdapter('project-a')), getSyncChannel(new IndexedDBAdapter('project-b')));
+  assert.notStrictEqual(getSyncChannel(new LocalStorageAdapter('a')), getSyncChannel(new IndexedDBAdapter('a')));
+  assert.strictEqual(getSyncChannel(new LocalStorageAdapter('a')), getSyncChannel(new LocalStorageAdapter('a')));
+});
+
+check('the CLI takes the default locale from the flag or the routing config', async () => {
+  const { resolveDefaultLocale } = require(path.join(srcDir, 'cli', 'storage.ts'));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nia-cli-'));
+
+  try {
+    await assert.rejects(resolveDefaultLocale({}, ['de', 'en'], dir), /--default-locale/);
+    assert.strictEqual(await resolveDefaultLocale({}, ['en'], dir), 'en');
+    assert.strictEqual(await resolveDefaultLocale({ 'default-locale': 'en' }, ['de', 'en'], dir), 'en');
+
+    fs.mkdirSync(path.join(dir, 'src', 'i18n'), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'src', 'i18n', 'routing.ts'),
+      "export const routing = defineRouting({ locales: ['de', 'en'], defaultLocale: 'en' });\n"
+    );
+    assert.strictEqual(await resolveDefaultLocale({}, ['de', 'en'], dir), 'en');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+check('extract --check --write succeeds once the keys are written', async () => {
+  const { runExtract } = require(path.join(srcDir, 'cli', 'extract.ts'));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nia-extract-'));
+  const log = console.log;
+
+  try {
+    fs.mkdirSync(path.join(dir, 'messages'));
+    fs.writeFileSync(path.join(dir, 'messages', 'en.json'), '{}\n');
+    fs.writeFileSync(
+      path.join(dir, 'page.tsx'),
+      "const t = useTranslations('home');\nexport const title = t('title');\n"
+    );
+    const args = [path.join(dir, 'page.tsx'), '--messages', path.join(dir, 'messages'), '--check'];
+
+    console.log = () => {};
+    assert.strictEqual(await runExtract(args), 1);
+    assert.strictEqual(await runExtract(args.concat('--write')), 0);
+    assert.strictEqual(await runExtract(args), 0);
+  } finally {
+    console.log = log;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+check('IndexedDB searches only read the matching index entries', async () => {
+  require('fake-indexeddb/auto');
+  const { IndexedDBAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const storage = new IndexedDBAdapter('nia-search-check');
+  const translations = [{ id: 'save', key: 'file.save', translations: { en: 'Save file', fr: 'Enregistrer' } }];
+  for (let i = 0; i < 300; i++) {
+    translations.push({ id: `item-${i}`, key: `list.item${i}`, translations: { en: `Entry number ${i}`, fr: `Entrée ${i}` } });
+  }
+  await storage.bulkPut(translations);
+
+  const { continue: next } = IDBCursor.prototype;
+  const { getAll } = IDBObjectStore.prototype;
+  let steps = 0;
+  let loads = 0;
+  IDBCursor.prototype.continue = function (...args) {
+    steps++;
+    return next.apply(this, args);
+  };
+  IDBObjectStore.prototype.getAll = function (...args) {
+    loads++;
+    return getAll.apply(this, args);
+  };
+
+  try {
+    const { results, count } = await storage.query({ search: 'ave' });
+    assert.deepStrictEqual([results.map(t => t.key), count], [['file.save'], 1]);
+    assert.strictEqual(loads, 0);
+    assert.ok(steps <= 2, `read ${steps} index entries`);
+
+    const inKeys = await storage.query({ search: 'item12', searchLocales: ['fr'] });
+    assert.deepStrictEqual(inKeys.results.map(t => t.key), ['list.item12', 'list.item120', 'list.item121', 'list.item122',
+      'list.item123', 'list.item124', 'list.item125', 'list.item126', 'list.item127', 'list.item128', 'list.item129']);
+    assert.deepStrictEqual((await storage.query({ search: 'number 7', searchLocales: ['fr'] })).results.map(t => t.key), []);
+  } finally {
+    IDBCursor.prototype.continue = next;
+    IDBObjectStore.prototype.getAll = getAll;
+  }
+});
+
+check('message files filter by the dates of their revisions', async () => {
+  const { FsMessagesStorageAdapter } = require(path.join(srcDir, 'lib', 'fs-storage.ts'));
+  const { translationUtils } = require(path.join(srcDir, 'lib', 'utils.ts'));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nia-dates-'));
+
+  try {
+    fs.writeFileSync(path.join(dir, 'en.json'), JSON.stringify({ old: 'Edited by hand' }));
+    const storage = new FsMessagesStorageAdapter({ messagesDir: dir, supportedLocales: ['en'] });
+    const created = await storage.create({ key: 'home.title', translations: { en: 'Home' } });
+    await storage.update(created.id, { translations: { en: 'Start' } });
+
+    const loaded = await storage.load();
+    const title = loaded.find(t => t.key === 'home.title');
+    assert.ok(title.createdAt && title.updatedAt >= title.createdAt);
+
+    const day = 24 * 60 * 60 * 1000;
+    const lastWeek = { from: new Date(Date.now() - 7 * day).toISOString(), to: new Date(Date.now() + day).toISOString() };
+    assert.deepStrictEqual(translationUtils.filterTranslations(loaded, { dateRange: lastWeek }).map(t => t.key), ['home.title']);
+    assert.deepStrictEqual(
+      translationUtils.filterTranslations(loaded, { dateRange: { from: '1999-01-01T00:00:00.000Z', to: '2000-01-01T00:00:00.000Z' } }).map(t => t.key),
+      []
+    );
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+check('imports report new keys that are not valid', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const { writeXliff } = require(path.join(srcDir, 'lib', 'xliff.ts'));
+  const storage = new MemoryStorageAdapter();
+  const { POST } = createTranslationRouteHandlers({ storage, supportedLocales: ['en', 'fr'] });
+  const post = body => POST(new Request('http://localhost/api/translations/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })).then(response => response.json());
+
+  const result = await post({
+    translations: [
+      { key: 'home.title', translations: { en: 'Home' } },
+      { key: 'home..title', translations: { en: 'Home' } },
+      { key: '1st', translations: { en: 'First' } }
+    ]
+  });
+  assert.strictEqual(result.imported, 1);
+  assert.deepStrictEqual(result.errors, [
+    '"home..title": Key cannot contain consecutive dots',
+    '"1st": Key must start with a letter and contain only letters, numbers, dots, underscores, and hyphens'
+  ]);
+  assert.deepStrictEqual((await storage.load()).map(t => t.key), ['home.title']);
+
+  const xliff = writeXliff({
+    version: '1.2',
+    sourceLocale: 'en',
+    targetLocale: 'fr',
+    units: [
+      { key: 'home.title', source: 'Home', target: 'Accueil' },
+      { key: 'home title', source: 'Home', target: 'Accueil' }
+    ]
+  });
+  const xliffResult = await post({ xliff });
+  assert.strictEqual(xliffResult.updated, 1);
+  assert.deepStrictEqual(xliffResult.errors, [
+    '"home title": Key must start with a letter and contain only letters, numbers, dots, underscores, and hyphens'
+  ]);
+});
+
+check('disposing the standalone API stops listening to other tabs', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const storage = new MemoryStorageAdapter();
+  const api = createStandaloneAPI(storage, { syncChannel: 'nia-dispose-check' });
+  await api.createTranslation({ key: 'home.title', translations: { en: 'Home page', fr: 'Accueil' } });
+
+  const suggestions = await api.getSuggestions('Home page', 'fr');
+  assert.deepStrictEqual(suggestions.map(suggestion => suggestion.value), ['Accueil']);
+  assert.strictEqual(api.tabSync.listeners.size, 1);
+
+  api.dispose();
+  assert.strictEqual(api.tabSync.listeners.size, 0);
+  assert.strictEqual(api.tabSync.channel, null);
+});
+
+check('plural rules cover every CLDR category of a locale', async () => {
+  const { getPluralCategories, checkPluralCategories } = require(path.join(srcDir, 'lib', 'plural-rules.ts'));
+
+  assert.deepStrictEqual(getPluralCategories('en-US'), ['one', 'other']);
+  assert.deepStrictEqual(getPluralCategories('pt_BR'), ['one', 'many', 'other']);
+  assert.deepStrictEqual(getPluralCategories('ja'), ['other']);
+  assert.deepStrictEqual(getPluralCategories('mt'), ['one', 'two', 'few', 'many', 'other']);
+  assert.deepStrictEqual(getPluralCategories('gd'), ['one', 'two', 'few', 'other']);
+  assert.deepStrictEqual(getPluralCategories('br'), ['one', 'two', 'few', 'many', 'other']);
+  assert.deepStrictEqual(getPluralCategories('kw'), ['zero', 'one', 'two', 'few', 'many', 'other']);
+
+  assert.deepStrictEqual(checkPluralCategories('ru', ['=0', 'one', 'few', 'other', 'two']), {
+    missing: ['many'],
+    extra: ['two']
+  });
+  assert.deepStrictEqual(checkPluralCategories('gd', ['one', 'other']), { missing: ['two', 'few'], extra: [] });
+});
+
+check('XLIFF 1.2 and 2.0 exports read back into the same units', async () => {
+  const { exportTranslations, mergeXLIFFTargets } = require(path.join(srcDir, 'lib', 'import-export.ts'));
+  const { readXliff } = require(path.join(srcDir, 'lib', 'xliff.ts'));
+  const translations = [
+    {
+      id: 1,
+      key: 'toolbar.save',
+      translations: { en: '<b>Save</b> & "quit"', fr: 'Enregistrer' },
+      metadata: { description: 'Button', context: 'Toolbar' }
+    },
+    { id: 2, key: 'greeting', translations: { en: 'Hi {name}', de: 'Hallo {name}' } }
+  ];
+  const units = [
+    { key: 'toolbar.save', source: '<b>Save</b> & "quit"', target: 'Enregistrer', description: 'Button', context: 'Toolbar' },
+    { key: 'greeting', source: 'Hi {name}', target: '' }
+  ];
+
+  for (const [format, version] of [['xliff', '1.2'], ['xliff2', '2.0']]) {
+    const blob = await exportTranslations(translations, format, ['en', 'fr'], { sourceLocale: 'en' });
+    assert.deepStrictEqual(readXliff(await blob.text()), { version, sourceLocale: 'en', targetLocale: 'fr', units });
+  }
+
+  const bundle = await exportTranslations(translations, 'xliff', ['en', 'fr', 'de'], { sourceLocale: 'en' });
+  assert.strictEqual(bundle.type, 'application/zip');
+
+  const { translations: merged, warnings } = mergeXLIFFTargets(translations, {
+    version: '1.2',
+    sourceLocale: 'en',
+    targetLocale: 'fr',
+    units: [
+      { key: 'toolbar.save', source: 'Save', target: 'Sauvegarder' },
+      { key: 'greeting', source: 'Hi {name}', target: 'Salut {name}' },
+      { key: 'missing', source: 'Gone', target: 'Parti' }
+    ]
+  }, ['en', 'fr', 'de']);
+  assert.deepStrictEqual(merged.map(t => [t.key, t.translations.fr]), [
+    ['toolbar.save', 'Sauvegarder'],
+    ['greeting', 'Salut {name}']
+  ]);
+  assert.deepStrictEqual(warnings, [
+    'Source text of "toolbar.save" changed since the file was exported',
+    'Skipped unknown key "missing"'
+  ]);
+  assert.deepStrictEqual(
+    mergeXLIFFTargets(translations, { version: '1.2', sourceLocale: 'en', targetLocale: 'it', units: [] }, ['en', 'fr']).warnings,
+    ['Target language "it" is not a supported locale']
+  );
+
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const storage = new MemoryStorageAdapter();
+  await storage.save(translations);
+  const { POST } = createTranslationRouteHandlers({ storage, supportedLocales: ['en', 'fr', 'de'] });
+  const xliff = await (await exportTranslations(translations, 'xliff2', ['en', 'de'], { sourceLocale: 'en' })).text();
+  const response = await POST(new Request('http://localhost/api/translations/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ xliff: xliff.replace('Hallo {name}', 'Servus {name}') })
+  }));
+  const result = await response.json();
+
+  assert.deepStrictEqual([result.updated, result.errors, result.warnings], [1, [], []]);
+  assert.strictEqual((await storage.load()).find(t => t.key === 'greeting').translations.de, 'Servus {name}');
+});
+
+check('PO exports read back into the same translations', async () => {
+  const { exportTranslations, importTranslations } = require(path.join(srcDir, 'lib', 'import-export.ts'));
+  const { getPluralForms } = require(path.join(srcDir, 'lib', 'gettext.ts'));
+  const translations = [
+    {
+      id: 1,
+      key: 'inbox.count',
+      translations: { en: '{count, plural, one {# message} other {# messages}}', fr: '{count, plural, one {# message} other {# messages non lus}}' },
+      metadata: { description: 'Inbox' },
+      status: { fr: 'needs-review' }
+    },
+    { id: 2, key: 'quote', translations: { en: 'Say "hi"\nnow', fr: 'Dis « salut »\nmaintenant' } },
+    { id: 3, key: 'empty', translations: { en: 'Not yet' } }
+  ];
+
+  const po = await (await exportTranslations(translations, 'po', ['en', 'fr'], { sourceLocale: 'en' })).text();
+  assert.ok(po.includes('"Language: fr\\n"'));
+  assert.ok(po.includes('#, fuzzy'));
+  const imported = await importTranslations(new File([po], 'fr.po'));
+  assert.deepStrictEqual(imported.map(t => [t.key, t.translations, t.status]), [
+    ['inbox.count', { fr: translations[0].translations.fr }, { fr: 'needs-review' }],
+    ['quote', { fr: translations[1].translations.fr }, { fr: 'translated' }],
+    ['empty', {}, undefined]
+  ]);
+  assert.deepStrictEqual(imported[0].metadata, { description: 'Inbox' });
+
+  const pot = await (await exportTranslations(translations, 'pot', ['en', 'fr'], { sourceLocale: 'en' })).text();
+  assert.ok(!pot.includes('Language:'));
+  assert.deepStrictEqual((await importTranslations(new File([pot], 'messages.pot'))).map(t => t.translations), [{}, {}, {}]);
+
+  assert.deepStrictEqual(getPluralForms('ru_RU').categories, ['one', 'few', 'many']);
+  assert.deepStrictEqual(getPluralForms('de').categories, ['one', 'other']);
+});
+
+check('ICU messages parse, print back and compare arguments across locales', async () => {
+  const { parseMessage, printMessage, getMessageArguments, validateMessages } = require(path.join(srcDir, 'lib', 'icu.ts'));
+  const message = 'Hi <b>{name}</b>, {count, plural, offset:1 =0 {none} one {# item} other {{count, number} items}} on {day, date, short}';
+  const nodes = parseMessage(message);
+
+  assert.deepStrictEqual(nodes[3], {
+    type: 'plural',
+    name: 'count',
+    offset: 1,
+    options: {
+      '=0': [{ type: 'literal', value: 'none' }],
+      one: [{ type: 'pound' }, { type: 'literal', value: ' item' }],
+      other: [{ type: 'number', name: 'count' }, { type: 'literal', value: ' items' }]
+    }
+  });
+  assert.strictEqual(printMessage(nodes), message);
+  assert.deepStrictEqual(getMessageArguments(nodes), { '<b>': 'tag', name: 'string', count: 'plural', day: 'date' });
+  assert.deepStrictEqual(parseMessage("It's '{literal}'"), [{ type: 'literal', value: "It's {literal}" }]);
+
+  for (const [invalid, error, offset] of [
+    ['Hi {name', 'Expected "," or "}" after argument "name"', 8],
+    ['Hi {name}}', 'Unmatched "}"', 9],
+    ['{n, plural, one {x}}', 'The plural argument needs an "other" option', 19],
+    ['{n, plural, other {x}', 'Unclosed plural argument', 21]
+  ]) {
+    assert.throws(() => parseMessage(invalid), thrown => thrown.message === error && thrown.offset === offset);
+  }
+
+  assert.deepStrictEqual(validateMessages({
+    en: 'Hi {name}, {count, plural, other {# items}} <b>x</b>',
+    fr: 'Salut {nom}, {count} <i>x</i>',
+    de: 'Hallo {name',
+    es: ''
+  }, 'en'), {
+    de: ['Invalid message syntax: Expected "," or "}" after argument "name" at position 12'],
+    fr: [
+      'Missing placeholder {name}',
+      'Placeholder {count} must be a plural argument like in EN, found a plain argument',
+      'Missing tag <b>',
+      'Unexpected placeholder {nom}, not used in EN',
+      'Unexpected tag <i>, not used in EN'
+    ]
+  });
+});
+
+check('changes made through the route handlers reach every open editor', async () => {
+  const { TranslationBroadcaster } = require(path.join(srcDir, 'lib', 'broadcaster.ts'));
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const broadcaster = new TranslationBroadcaster();
+  const client = (readyState) => ({ readyState, sent: [], send(data) { this.sent.push(JSON.parse(data)); } });
+  const open = client(1);
+  const connecting = client(0);
+  const closed = client(3);
+  const removeOpen = broadcaster.addClient(open);
+  broadcaster.addClient(connecting);
+  broadcaster.addClient(closed);
+  const events = [];
+  const unsubscribe = broadcaster.subscribe(event => events.push(event));
+
+  const handlers = createTranslationRouteHandlers({ storage: new MemoryStorageAdapter(), supportedLocales: ['en'], broadcaster });
+  const created = await (await callRoute(handlers, 'POST', '', { key: 'home.title', translations: { en: 'Home' } })).json();
+  await callRoute(handlers, 'PUT', `/${created.id}`, { translations: { en: 'Start' } });
+
+  assert.deepStrictEqual(open.sent.map(event => [event.type, event.translation.translations.en]), [['create', 'Home'], ['update', 'Start']]);
+  assert.ok(open.sent.every(event => typeof event.timestamp === 'string'));
+  assert.deepStrictEqual(events, open.sent);
+  assert.deepStrictEqual([connecting.sent, closed.sent], [[], []]);
+  assert.strictEqual(broadcaster.clientCount, 2);
+
+  removeOpen();
+  unsubscribe();
+  await callRoute(handlers, 'DELETE', `/${created.id}`);
+  assert.deepStrictEqual([open.sent.length, events.length], [2, 2]);
+});
+
+check('filters combine their criteria and survive the query string', async () => {
+  const { translationUtils } = require(path.join(srcDir, 'lib', 'utils.ts'));
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const translations = [
+    { id: 1, key: 'home.title', translations: { en: 'Home', fr: 'Accueil' }, metadata: { tags: ['home'] }, updatedAt: '2024-03-01T00:00:00.000Z' },
+    { id: 2, key: 'home.intro', translations: { en: 'Welcome', fr: ' ' }, metadata: { tags: ['home', 'marketing'] }, updatedAt: '2024-05-01T00:00:00.000Z' },
+    { id: 3, key: 'cart.empty', translations: { en: 'Empty', fr: 'Vide' }, status: { fr: 'needs-review' }, updatedAt: '2024-07-01T00:00:00.000Z' },
+    { id: 4, key: 'cart.total', translations: { en: '' }, status: { en: 'approved' }, updatedAt: '2024-07-02T00:00:00.000Z' }
+  ];
+  const keys = filter => translationUtils.filterTranslations(translations, filter).map(t => t.key);
+
+  assert.deepStrictEqual(keys({ hasTranslation: ['en', 'fr'] }), ['home.title', 'cart.empty']);
+  assert.deepStrictEqual(keys({ missingTranslation: ['fr'] }), ['home.intro', 'cart.total']);
+  assert.deepStrictEqual(keys({ locales: ['fr'] }), ['home.title', 'cart.empty']);
+  assert.deepStrictEqual(keys({ tags: ['marketing', 'other'] }), ['home.intro']);
+  assert.deepStrictEqual(keys({ status: ['needs-review', 'approved'] }), ['cart.empty']);
+  assert.deepStrictEqual(keys({ dateRange: { from: '2024-04-01T00:00:00.000Z', to: '' } }), ['home.intro', 'cart.empty', 'cart.total']);
+  assert.deepStrictEqual(keys({ dateRange: { from: '', to: '2024-06-01T00:00:00.000Z' } }), ['home.title', 'home.intro']);
+  assert.deepStrictEqual(keys({ search: 'home', tags: ['home'], missingTranslation: ['fr'] }), ['home.intro']);
+
+  const filter = {
+    search: 'home',
+    locales: ['en'],
+    hasTranslation: ['en'],
+    missingTranslation: ['fr'],
+    tags: ['home', 'marketing'],
+    status: ['draft'],
+    dateRange: { from: '2024-01-01T00:00:00.000Z', to: '2024-12-31T00:00:00.000Z' },
+    unused: true,
+    openComments: true
+  };
+  const params = translationUtils.filterToSearchParams(filter);
+  assert.strictEqual(params.get('tags'), 'home,marketing');
+  assert.deepStrictEqual(JSON.parse(JSON.stringify(translationUtils.filterFromSearchParams(params))), filter);
+
+  const storage = new MemoryStorageAdapter();
+  await storage.save(translations);
+  const handlers = createTranslationRouteHandlers({ storage, supportedLocales: ['en', 'fr'] });
+  const page = await (await callRoute(handlers, 'GET', '?page_size=1&missing_translation=fr&tags=home')).json();
+  assert.deepStrictEqual([page.count, page.results.map(t => t.key)], [1, ['home.intro']]);
+  const firstPage = await (await callRoute(handlers, 'GET', '?page_size=1&has_translation=en')).json();
+  assert.deepStrictEqual([firstPage.count, firstPage.next], [3, '?page=2&page_size=1&has_translation=en']);
+
+  const unused = await callRoute(handlers, 'GET', '?unused=true');
+  assert.strictEqual(unused.status, 501);
+});
+
+check('plural messages split into one message per category', async () => {
+  const { splitPluralMessage, joinPluralMessage } = require(path.join(srcDir, 'lib', 'icu.ts'));
+  const message = 'You have {count, plural, offset:1 =0 {no messages} one {# message} other {# messages from {name}}} today';
+  const parts = splitPluralMessage(message);
+
+  assert.deepStrictEqual(parts, {
+    prefix: 'You have ',
+    name: 'count',
+    offset: 1,
+    options: { '=0': 'no messages', one: '# message', other: '# messages from {name}' },
+    suffix: ' today'
+  });
+  assert.strictEqual(joinPluralMessage({ ...parts, options: { ...parts.options, few: '# messages' } }),
+    'You have {count, plural, offset:1 =0 {no messages} one {# message} other {# messages from {name}} few {# messages}} today');
+
+  assert.strictEqual(splitPluralMessage('Hello {name}'), null);
+  assert.strictEqual(splitPluralMessage('{count, select, other {x}}'), null);
+  assert.strictEqual(splitPluralMessage('{count, plural, one {x}'), null);
+});
+
+check('message previews format every locale with the sample values', async () => {
+  const React = require('react');
+  const { renderToStaticMarkup } = require('react-dom/server');
+  const { NextIntlClientProvider } = require('next-intl');
+  const { MessagePreview } = require(path.join(srcDir, 'components', 'MessagePreview.tsx'));
+  const render = props => renderToStaticMarkup(React.createElement(
+    NextIntlClientProvider,
+    { locale: 'en', messages: {}, timeZone: 'UTC', onError() {}, getMessageFallback: ({ key }) => key },
+    React.createElement(MessagePreview, props)
+  ));
+  const previews = html => Array.from(html.matchAll(/<dd[^>]*dir="(\w+)"[^>]*>(.*?)<\/dd>/g)).map(match => [match[1], match[2]]);
+
+  const html = render({
+    messages: {
+      en: 'You have {count, plural, one {# message} other {# messages}} from <b>{name}</b>',
+      fr: 'Vous avez {count, plural, one {# message} other {# messages}}',
+      de: 'Sie haben {count',
+      ar: 'لديك {count, plural, other {# رسائل}}'
+    },
+    locales: ['en', 'fr', 'de', 'ar', 'es'],
+    sampleValues: { name: 'Ada' },
+    enableRTL: true
+  });
+
+  assert.ok(html.includes('value="Ada"'));
+  assert.ok(html.includes('placeholder="2"'));
+  assert.deepStrictEqual(previews(html), [
+    ['ltr', 'You have 2 messages from <strong>Ada</strong>'],
+    ['ltr', 'Vous avez 2 messages'],
+    ['ltr', '<span class="text-xs text-nia-danger">INVALID_MESSAGE: EXPECT_ARGUMENT_CLOSING_BRACE</span>'],
+    ['rtl', 'لديك 2 رسائل'],
+    ['ltr', '<span class="text-nia-secondary/70 italic">emptyTranslation</span>']
+  ]);
+});
+
+check('revision history lists every change and restores earlier values', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const storage = new MemoryStorageAdapter();
+  const handlers = createTranslationRouteHandlers({
+    storage,
+    supportedLocales: ['en', 'fr'],
+    getAuthor: request => request.headers.get('x-user') || undefined
+  });
+
+  const created = await (await callRoute(handlers, 'POST', '', { key: 'home.title', translations: { en: 'Home' } }, { 'x-user': 'ada' })).json();
+  await callRoute(handlers, 'PUT', `/${created.id}`, { translations: { en: 'Start', fr: 'Début' } }, { 'x-user': 'grace' });
+  await callRoute(handlers, 'PUT', `/${created.id}`, { translations: { en: 'Start', fr: 'Début' } });
+
+  const history = await (await callRoute(handlers, 'GET', `/${created.id}/history`)).json();
+  assert.deepStrictEqual(history.map(revision => [revision.action, revision.author, revision.previous, revision.current]), [
+    ['update', 'grace', { en: 'Home' }, { en: 'Start', fr: 'Début' }],
+    ['create', 'ada', undefined, { en: 'Home' }]
+  ]);
+
+  const restored = await (await callRoute(handlers, 'POST', `/${created.id}/restore`, { revisionId: history[1].id })).json();
+  assert.deepStrictEqual(restored.translations, { en: 'Home' });
+  const [latest] = await storage.getHistory('home.title');
+  assert.deepStrictEqual([latest.action, latest.restoredFrom, latest.current], ['restore', history[1].id, { en: 'Home' }]);
+
+  const other = await (await callRoute(handlers, 'POST', '', { key: 'home.intro', translations: { en: 'Hi' } })).json();
+  const missing = await callRoute(handlers, 'POST', `/${other.id}/restore`, { revisionId: history[1].id });
+  assert.deepStrictEqual([missing.status, (await missing.json()).message], [404, 'Revision not found']);
+
+  await storage.delete(created.id);
+  const [deleted] = await storage.getHistory('home.title');
+  await assert.rejects(storage.restoreRevision(deleted.id), /A deleted state cannot be restored/);
+  const recreated = await storage.restoreRevision(history[0].id);
+  assert.deepStrictEqual([recreated.key, recreated.translations], ['home.title', { en: 'Start', fr: 'Début' }]);
+});
+
+check('undo and redo follow translations recreated with a new id', async () => {
+  const { UndoStack, diffSnapshots } = require(path.join(srcDir, 'lib', 'undo-stack.ts'));
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const storage = new MemoryStorageAdapter();
+  const operations = {
+    create: translation => storage.create(translation),
+    update: (id, updates) => storage.update(id, updates),
+    delete: id => storage.delete(id)
+  };
+  const values = async () => (await storage.load()).map(t => [t.key, t.translations.en]);
+  const stack = new UndoStack();
+
+  const created = await storage.create({ key: 'home.title', translations: { en: 'Home' } });
+  stack.record({ action: 'create', changes: [{ after: created }] });
+  const updated = await storage.update(created.id, { translations: { en: 'Start' } });
+  stack.record({ action: 'update', changes: [{ before: created, after: updated }] });
+  await storage.delete(created.id);
+  stack.record({ action: 'delete', changes: [{ before: updated }] });
+
+  assert.strictEqual((await stack.undo(operations)).action, 'delete');
+  const [recreated] = await storage.load();
+  assert.notStrictEqual(recreated.id, created.id);
+  assert.deepStrictEqual(await values(), [['home.title', 'Start']]);
+
+  await stack.undo(operations);
+  assert.deepStrictEqual(await values(), [['home.title', 'Home']]);
+  await stack.undo(operations);
+  assert.deepStrictEqual(await values(), []);
+  assert.strictEqual(stack.canUndo, false);
+  assert.strictEqual(await stack.undo(operations), null);
+
+  await stack.redo(operations);
+  await stack.redo(operations);
+  assert.deepStrictEqual(await values(), [['home.title', 'Start']]);
+  await stack.redo(operations);
+  assert.deepStrictEqual(await values(), []);
+  assert.strictEqual(stack.canRedo, false);
+
+  await stack.undo(operations);
+  stack.record({ action: 'update', changes: [] });
+  assert.strictEqual(stack.canRedo, true);
+  stack.record({ action: 'update', changes: [{ before: updated, after: { ...updated, translations: { en: 'Begin' } } }] });
+  assert.strictEqual(stack.canRedo, false);
+
+  const limited = new UndoStack(2);
+  const deleted = [];
+  const recordDeletes = { ...operations, delete: async id => { deleted.push(id); } };
+  ['a', 'b', 'c'].forEach(key => limited.record({ action: 'create', changes: [{ after: { id: key, key, translations: {} } }] }));
+  await limited.undo(recordDeletes);
+  await limited.undo(recordDeletes);
+  assert.deepStrictEqual(deleted, ['c', 'b']);
+  assert.strictEqual(limited.canUndo, false);
+
+  const before = [{ id: 1, key: 'a', translations: { en: 'A' } }, { id: 2, key: 'b', translations: { en: 'B' } }];
+  const after = [{ id: 1, key: 'a', translations: { en: 'A' } }, { id: 2, key: 'b', translations: { en: 'Bee' } }, { id: 3, key: 'c', translations: {} }];
+  assert.deepStrictEqual(diffSnapshots(before, after).map(change => [change.before && change.before.key, change.after && change.after.key]), [
+    ['b', 'b'],
+    [undefined, 'c']
+  ]);
+  assert.deepStrictEqual(diffSnapshots(before, after, ['c']).length, 1);
+});
+
+check('keyboard shortcuts resolve overrides and match key events', async () => {
+  const { resolveShortcuts, pickShortcuts, matchesShortcut, formatShortcut, isTextField } = require(path.join(srcDir, 'lib', 'shortcuts.ts'));
+  const key = (value, modifiers = {}) => ({ key: value, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...modifiers });
+
+  const bindings = resolveShortcuts({ REFRESH: null, SEARCH: 'mod+k' });
+  assert.deepStrictEqual([bindings.REFRESH, bindings.SEARCH, bindings.UNDO], [null, 'mod+k', 'ctrl+z']);
+  const picked = pickShortcuts(bindings, ['UNDO', 'REDO']);
+  assert.deepStrictEqual(Object.keys(picked).filter(action => picked[action]), ['UNDO', 'REDO']);
+
+  assert.ok(matchesShortcut(key('z', { ctrlKey: true }), bindings.UNDO));
+  assert.ok(matchesShortcut(key('z', { metaKey: true }), bindings.UNDO));
+  assert.ok(!matchesShortcut(key('z', { ctrlKey: true, shiftKey: true }), bindings.UNDO));
+  assert.ok(matchesShortcut(key('Z', { ctrlKey: true, shiftKey: true }), bindings.REDO));
+  assert.ok(matchesShortcut(key('K', { metaKey: true }), bindings.SEARCH));
+  assert.ok(matchesShortcut(key('?', { shiftKey: true }), bindings.HELP));
+  assert.ok(matchesShortcut(key('Escape'), 'esc'));
+  assert.ok(!matchesShortcut(key('F5'), bindings.REFRESH));
+  assert.ok(!matchesShortcut(key('s', { ctrlKey: true, altKey: true }), bindings.SAVE));
+
+  assert.strictEqual(formatShortcut('ctrl+shift+z'), 'Ctrl+Shift+Z');
+  assert.strictEqual(formatShortcut('ctrl+shift+z', true), '⌘⇧Z');
+  assert.strictEqual(formatShortcut('esc'), 'Esc');
+  assert.strictEqual(formatShortcut('f5'), 'F5');
+
+  assert.ok(isTextField({ tagName: 'TEXTAREA' }));
+  assert.ok(isTextField({ tagName: 'DIV', isContentEditable: true }));
+  assert.ok(!isTextField({ tagName: 'BUTTON' }));
+  assert.ok(!isTextField(null));
+});
+
+check('virtualized tables only render the rows in view', async () => {
+  const React = require('react');
+  const { renderToStaticMarkup } = require('react-dom/server');
+  const { NextIntlClientProvider } = require('next-intl');
+  const { TranslationTable } = require(path.join(srcDir, 'components', 'TranslationTable.tsx'));
+  const { useVirtualList } = require(path.join(srcDir, 'hooks', 'useVirtualList.ts'));
+  const render = element => renderToStaticMarkup(React.createElement(
+    NextIntlClientProvider,
+    { locale: 'en', messages: {}, timeZone: 'UTC', onError() {}, getMessageFallback: ({ key }) => key },
+    element
+  ));
+
+  const translations = Array.from({ length: 20000 }, (_, index) => ({
+    id: index + 1,
+    key: `key.${String(index).padStart(5, '0')}`,
+    translations: { en: `Value ${index}` }
+  }));
+  const html = render(React.createElement(TranslationTable, { translations, supportedLocales: ['en'], virtualized: true }));
+  const keys = html.match(/key\.\d{5}/g);
+  // 600px of 56px rows plus the overscan of 8
+  assert.deepStrictEqual([keys.length, keys[0], keys[keys.length - 1]], [19, 'key.00000', 'key.00018']);
+  assert.ok(html.includes(`height:${(20000 - 19) * 56}px`));
+
+  const Probe = props => {
+    const { start, end, paddingTop, paddingBottom, totalHeight } = useVirtualList(props);
+    return React.createElement('pre', null, JSON.stringify({ start, end, paddingTop, paddingBottom, totalHeight }));
+  };
+  const probe = props => JSON.parse(render(React.createElement(Probe, props)).replace(/<\/?pre>/g, '').replace(/&quot;/g, '"'));
+
+  assert.deepStrictEqual(probe({ count: 1000, itemHeight: index => (index % 2 ? 20 : 40), overscan: 2 }), {
+    start: 0,
+    end: 23,
+    paddingTop: 0,
+    paddingBottom: 29300,
+    totalHeight: 30000
+  });
+  assert.deepStrictEqual(probe({ count: 1000, itemHeight: 30, enabled: false }), {
+    start: 0,
+    end: 1000,
+    paddingTop: 0,
+    paddingBottom: 0,
+    totalHeight: 30000
+  });
+});
+
+check('stale saves get a 409 with the current value to merge with', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const { compareLocales, applyMerge } = require(path.join(srcDir, 'lib', 'merge.ts'));
+  const handlers = createTranslationRouteHandlers({ storage: new MemoryStorageAdapter(), supportedLocales: ['en', 'fr', 'de'] });
+
+  const base = await (await callRoute(handlers, 'POST', '', { key: 'home.title', translations: { en: 'Home', fr: 'Accueil', de: 'Start' } })).json();
+  assert.strictEqual(base.version, 1);
+  const saved = await callRoute(handlers, 'PUT', `/${base.id}`, { translations: { ...base.translations, fr: 'Page d\'accueil' } }, { 'If-Match': '"1"' });
+  assert.deepStrictEqual([saved.status, saved.headers.get('ETag')], [200, '"2"']);
+
+  const mine = { ...base, translations: { en: 'Homepage', fr: 'Accueil', de: 'Startseite' } };
+  const stale = await callRoute(handlers, 'PUT', `/${base.id}`, mine, { 'If-Match': 'W/"1"' });
+  const conflict = await stale.json();
+  assert.strictEqual(stale.status, 409);
+  assert.deepStrictEqual([conflict.current.version, conflict.current.translations.fr], [2, 'Page d\'accueil']);
+
+  const theirs = { ...conflict.current, translations: { ...conflict.current.translations, de: 'Anfang' } };
+  const merges = compareLocales(['en', 'fr', 'de'], mine, theirs, base);
+  assert.deepStrictEqual(merges.map(merge => [merge.locale, merge.changed]), [['en', 'mine'], ['fr', 'theirs'], ['de', 'both']]);
+  assert.deepStrictEqual(compareLocales(['en', 'fr'], mine, theirs).map(merge => merge.changed), ['both', 'both']);
+
+  const merged = applyMerge(mine, theirs, merges, { de: 'theirs' });
+  assert.deepStrictEqual([merged.version, merged.translations], [2, { en: 'Homepage', fr: 'Page d\'accueil', de: 'Anfang' }]);
+  assert.deepStrictEqual(applyMerge(mine, theirs, merges).translations.de, 'Startseite');
+
+  const retried = await callRoute(handlers, 'PUT', `/${base.id}`, merged, { 'If-Match': `"${merged.version}"` });
+  assert.deepStrictEqual([retried.status, (await retried.json()).translations], [200, merged.translations]);
+
+  await callRoute(handlers, 'DELETE', `/${base.id}`);
+  const deleted = await callRoute(handlers, 'PUT', `/${base.id}`, merged, { 'If-Match': '"3"' });
+  assert.deepStrictEqual([deleted.status, (await deleted.json()).current], [409, null]);
+});
+
+check('extraction finds the keys of every translator in a file', async () => {
+  const { extractKeys, findMissingKeys, addMissingKeys } = require(path.join(srcDir, 'lib', 'extract.ts'));
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const source = [
+    "import { useTranslations } from 'next-intl';",
+    "import { getTranslations } from 'next-intl/server';",
+    '',
+    'export function Header({ status, ns }) {',
+    "  const t = useTranslations('header');",
+    '  const tAll = useTranslations();',
+    '  const other = useTranslations(ns);',
+    "  const label = a < b ? t('less') : t(\"more\");",
+    '  return (',
+    "    <nav title={t('title')}>",
+    "      {t.rich('welcome', { b: chunks => <b>{chunks}</b> })}",
+    "      {tAll('common.save')}",
+    '      {t(`status.${status}`)}',
+    "      {/* t('commented.out') */}",
+    "      {'t(\"not.a.call\")'}",
+    "      {other('x')}",
+    '    </nav>',
+    '  );',
+    '}',
+    '',
+    'export async function generateMetadata() {',
+    "  const t = await getTranslations('meta');",
+    "  const re = /t\\('regex'\\)/;",
+    "  return { title: t('title') };",
+    '}'
+  ].join('\n');
+
+  const result = extractKeys(source, 'src/Header.tsx');
+  assert.deepStrictEqual(result.keys.map(extracted => [extracted.key, extracted.line, extracted.column]), [
+    ['header.less', 8, 25],
+    ['header.more', 8, 37],
+    ['header.title', 10, 17],
+    ['header.welcome', 11, 8],
+    ['common.save', 12, 8],
+    ['meta.title', 24, 19]
+  ]);
+  assert.deepStrictEqual(result.prefixes.map(extracted => extracted.key), ['header.status.']);
+  assert.deepStrictEqual(result.warnings, [
+    'src/Header.tsx:13: Skipped a key that is not a string literal',
+    'src/Header.tsx:16: Skipped a call of "other", its namespace is not a string literal'
+  ]);
+
+  const storage = new MemoryStorageAdapter();
+  await storage.save([
+    { id: 1, key: 'header.title', translations: { en: 'Title' } },
+    { id: 2, key: 'common.save.label', translations: { en: 'Save' } }
+  ]);
+  const keys = result.keys.concat(extractKeys("const t = useTranslations('header');\nt('less');", 'src/Footer.ts').keys);
+  assert.deepStrictEqual(Array.from(findMissingKeys(keys, await storage.load()).keys()), ['header.less', 'header.more', 'header.welcome', 'meta.title']);
+
+  const created = await addMissingKeys(storage, keys, { placeholderLocale: 'en' });
+  assert.deepStrictEqual(created.map(t => [t.key, t.translations.en, t.metadata.context]).slice(0, 2), [
+    ['header.less', 'header.less', 'src/Header.tsx:8, src/Footer.ts:2'],
+    ['header.more', 'header.more', 'src/Header.tsx:8']
+  ]);
+  assert.deepStrictEqual(await addMissingKeys(storage, keys), []);
+});
+
+check('unused keys can be archived and restored', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const { extractKeys, findUnusedKeys } = require(path.join(srcDir, 'lib', 'extract.ts'));
+  const usage = extractKeys([
+    "const t = useTranslations('home');",
+    "t('title');",
+    "t.raw('features');",
+    't(`status.${status}`);'
+  ].join('\n'), 'src/Home.tsx');
+  const storage = new MemoryStorageAdapter();
+  await storage.save([
+    { id: 1, key: 'home.title', translations: { en: 'Home' } },
+    { id: 2, key: 'home.features.fast', translations: { en: 'Fast' } },
+    { id: 3, key: 'home.status.open', translations: { en: 'Open' } },
+    { id: 4, key: 'home.legacy', translations: { en: 'Old' } },
+    { id: 5, key: 'about.title', translations: { en: 'About' } }
+  ]);
+  assert.deepStrictEqual(findUnusedKeys(usage, await storage.load()).map(t => t.key), ['home.legacy', 'about.title']);
+
+  const handlers = createTranslationRouteHandlers({
+    storage,
+    supportedLocales: ['en'],
+    getAuthor: () => 'ada',
+    getKeyUsage: () => usage
+  });
+  const unused = await (await callRoute(handlers, 'GET', '?unused=true')).json();
+  assert.deepStrictEqual(unused.results.map(t => t.key), ['about.title', 'home.legacy']);
+
+  const archived = await (await callRoute(handlers, 'POST', '/archive', { ids: unused.results.map(t => t.id).concat(99) })).json();
+  assert.deepStrictEqual(archived.map(t => [t.key, t.archivedBy]), [['home.legacy', 'ada'], ['about.title', 'ada']]);
+  assert.deepStrictEqual((await storage.load()).map(t => t.key), ['home.title', 'home.features.fast', 'home.status.open']);
+  const archive = await (await callRoute(handlers, 'GET', '/archive')).json();
+  assert.deepStrictEqual(archive.map(t => t.key), ['home.legacy', 'about.title']);
+
+  // A key created again keeps its newer values
+  await callRoute(handlers, 'POST', '', { key: 'about.title', translations: { en: 'About us' } });
+  const restored = await (await callRoute(handlers, 'POST', '/archive/restore', { keys: ['home.legacy', 'about.title'] })).json();
+  assert.deepStrictEqual(restored.map(t => [t.key, t.translations.en, t.archivedAt]), [['home.legacy', 'Old', undefined]]);
+  assert.deepStrictEqual((await storage.loadArchive()).map(t => t.key), ['about.title']);
+  assert.strictEqual((await storage.load()).find(t => t.key === 'about.title').translations.en, 'About us');
+});
+
+check('generated message types reject unknown keys', async () => {
+  const { generateMessageTypes, getArgumentTypes } = require(path.join(srcDir, 'lib', 'message-types.ts'));
+  const translations = [
+    { key: 'nav.home', translations: { en: 'Home' } },
+    { key: 'nav.items', translations: { en: '{count, plural, one {# item} other {# items}} on {day, date}' } },
+    // Shadowed by the nav namespace
+    { key: 'nav', translations: { en: 'Navigation' } },
+    { key: 'legal.terms-of-use', translations: { fr: '<b>CGU</b> {name}' } }
+  ];
+
+  const withArguments = generateMessageTypes(translations, { locale: 'en', arguments: true });
+  assert.ok(withArguments.includes('  "legal.terms-of-use": { b: (chunks: ReactNode) => ReactNode; name: string | number };\n'));
+  assert.ok(withArguments.includes('  "nav.items": { count: number; day: Date };\n'));
+  assert.ok(generateMessageTypes(translations, { locale: 'en', declaration: 'AppConfig' }).includes("declare module 'next-intl' {"));
+  assert.strictEqual(getArgumentTypes('{'), null);
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nia-types-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'messages.d.ts'), generateMessageTypes(translations, { locale: 'en' }));
+    fs.writeFileSync(path.join(dir, 'usage.ts'), [
+      "const home: keyof IntlMessages['nav'] = 'home';",
+      "const terms: keyof IntlMessages['legal'] = 'terms-of-use';",
+      "const typo: keyof IntlMessages['nav'] = 'hom';",
+      'export { home, terms, typo };'
+    ].join('\n'));
+    const program = ts.createProgram([path.join(dir, 'messages.d.ts'), path.join(dir, 'usage.ts')], {
+      noEmit: true,
+      strict: true,
+      types: [],
+      lib: ['lib.es2015.d.ts']
+    });
+    const errors = ts.getPreEmitDiagnostics(program).map(diagnostic => [
+      path.basename(diagnostic.file.fileName),
+      diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+    ]);
+    assert.deepStrictEqual(errors, [['usage.ts', 3]]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+check('split message files keep one file per namespace', async () => {
+  const { FsMessagesStorageAdapter } = require(path.join(srcDir, 'lib', 'fs-storage.ts'));
+  const { getMessageFilePath, splitMessageFiles } = require(path.join(srcDir, 'lib', 'message-files.ts'));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nia-split-'));
+  const read = file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+
+  try {
+    fs.mkdirSync(path.join(dir, 'en'));
+    fs.mkdirSync(path.join(dir, 'fr'));
+    fs.writeFileSync(path.join(dir, 'en', 'common.json'), JSON.stringify({ save: 'Save', actions: { cancel: 'Cancel' } }));
+    fs.writeFileSync(path.join(dir, 'en', 'home.json'), JSON.stringify({ title: 'Home' }));
+    fs.writeFileSync(path.join(dir, 'fr', 'common.json'), JSON.stringify({ save: 'Enregistrer' }));
+
+    const storage = new FsMessagesStorageAdapter({ messagesDir: dir, supportedLocales: ['en', 'fr'], layout: 'locale/namespace' });
+    assert.deepStrictEqual((await storage.load()).map(t => [t.key, t.translations]), [
+      ['common.save', { en: 'Save', fr: 'Enregistrer' }],
+      ['common.actions.cancel', { en: 'Cancel' }],
+      ['home.title', { en: 'Home' }]
+    ]);
+
+    await storage.create({ key: 'auth.login', translations: { en: 'Log in' } });
+    assert.deepStrictEqual([read('en/auth.json'), read('fr/auth.json'), read('fr/home.json')], [{ login: 'Log in' }, {}, {}]);
+    assert.deepStrictEqual(read('en/common.json'), { save: 'Save', actions: { cancel: 'Cancel' } });
+
+    await assert.rejects(storage.create({ key: 'orphan', translations: { en: 'No namespace' } }), /"orphan" has no namespace/);
+    assert.ok(!fs.existsSync(path.join(dir, 'en', 'orphan.json')));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  assert.deepStrictEqual(
+    ['single', 'locale/namespace', 'namespace/locale'].map(layout => getMessageFilePath(layout, 'en', 'common')),
+    ['en.json', 'en/common.json', 'common/en.json']
+  );
+  assert.deepStrictEqual(splitMessageFiles('namespace/locale', 'fr', { common: { save: 'Enregistrer' }, home: { title: 'Accueil' } }), {
+    'common/fr.json': { save: 'Enregistrer' },
+    'home/fr.json': { title: 'Accueil' }
+  });
+  assert.throws(() => splitMessageFiles('locale/namespace', 'en', { 'a/b': { c: 'd' } }), /cannot be used as a file name/);
+});
+
+check('only reviewers approve or reject translations', async () => {
+  const { applyEditStatus, getApprovalChanges, filterApproved } = require(path.join(srcDir, 'lib', 'review.ts'));
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const approved = { id: 1, key: 'home.title', translations: { en: 'Home', fr: 'Accueil' }, status: { en: 'approved', fr: 'approved' } };
+
+  assert.deepStrictEqual(applyEditStatus(approved, { ...approved, translations: { en: 'Start', fr: 'Accueil', de: '' } }, 'needs-review'), {
+    en: 'needs-review',
+    fr: 'approved'
+  });
+  assert.deepStrictEqual(getApprovalChanges(undefined, { ...approved, status: { en: 'rejected', fr: 'draft' } }), ['en']);
+  assert.deepStrictEqual(getApprovalChanges(approved, approved), []);
+  assert.deepStrictEqual(getApprovalChanges(approved, { ...approved, translations: { en: 'Start', fr: 'Accueil' } }), ['en']);
+  assert.deepStrictEqual(getApprovalChanges(approved, { ...approved, status: { en: 'needs-review', fr: 'approved' } }), []);
+  assert.deepStrictEqual(
+    filterApproved([{ ...approved, status: { en: 'approved', fr: 'draft' } }, { id: 2, key: 'draft', translations: { en: 'x' }, status: { en: 'draft' } }])
+      .map(t => [t.key, t.translations, t.status]),
+    [['home.title', { en: 'Home' }, { en: 'approved' }]]
+  );
+
+  const storage = new MemoryStorageAdapter();
+  const handlers = createTranslationRouteHandlers({
+    storage,
+    supportedLocales: ['en', 'fr'],
+    canApprove: request => request.headers.get('x-role') === 'reviewer'
+  });
+  const reviewer = { 'x-role': 'reviewer' };
+  const created = await (await callRoute(handlers, 'POST', '', { key: 'home.title', translations: { en: 'Home' }, status: { en: 'needs-review' } })).json();
+
+  const refused = await callRoute(handlers, 'PUT', `/${created.id}`, { status: { en: 'approved' } });
+  assert.deepStrictEqual([refused.status, (await refused.json()).message], [403, 'Only reviewers can approve or reject translations']);
+  assert.strictEqual((await callRoute(handlers, 'PUT', `/${created.id}`, { status: { en: 'approved' } }, reviewer)).status, 200);
+
+  // Changing an approved value keeps it approved, which also needs a reviewer
+  assert.strictEqual((await callRoute(handlers, 'PUT', `/${created.id}`, { translations: { en: 'Start' } })).status, 403);
+  const resubmitted = await callRoute(handlers, 'PUT', `/${created.id}`, { translations: { en: 'Start' }, status: { en: 'needs-review' } });
+  assert.strictEqual(resubmitted.status, 200);
+  assert.strictEqual((await callRoute(handlers, 'POST', '', { key: 'home.intro', translations: { en: 'Hi' }, status: { en: 'approved' } })).status, 403);
+
+  await callRoute(handlers, 'PUT', `/${created.id}`, { status: { en: 'approved' } }, reviewer);
+  await callRoute(handlers, 'POST', '', { key: 'home.intro', translations: { en: 'Hi' }, status: { en: 'draft' } });
+  const exported = await (await callRoute(handlers, 'GET', '/export?format=json&approved_only=true')).json();
+  assert.deepStrictEqual(exported, { en: { home: { title: 'Start' } }, fr: {} });
+});
+
+check('comment threads are resolved and counted as a whole', async () => {
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const { getCommentThreads } = require(path.join(srcDir, 'lib', 'comments.ts'));
+  const storage = new MemoryStorageAdapter();
+  const handlers = createTranslationRouteHandlers({ storage, supportedLocales: ['en', 'fr'], getAuthor: () => 'ada' });
+  const title = await (await callRoute(handlers, 'POST', '', { key: 'home.title', translations: { en: 'Home' } })).json();
+  const intro = await (await callRoute(handlers, 'POST', '', { key: 'home.intro', translations: { en: 'Hi' } })).json();
+  const comment = async (id, body) => {
+    const response = await callRoute(handlers, 'POST', `/${id}/comments`, body);
+    return [response.status, await response.json()];
+  };
+
+  const [status, question] = await comment(title.id, { body: '  Too short?  ', locale: 'fr' });
+  assert.deepStrictEqual([status, question.body, question.locale, question.author], [201, 'Too short?', 'fr', 'ada']);
+  const [, answer] = await comment(title.id, { body: 'Fine as is', parentId: question.id });
+  const [, followUp] = await comment(title.id, { body: 'Agreed', parentId: answer.id, locale: 'en' });
+  assert.deepStrictEqual([followUp.parentId, followUp.locale], [question.id, 'fr']);
+  await comment(title.id, { body: 'Second thread' });
+
+  assert.deepStrictEqual((await comment(title.id, { body: ' ' }))[1].message, 'Comment body is required');
+  assert.deepStrictEqual((await comment(title.id, { body: 'x', locale: 'de' }))[1].message, 'Unsupported locale "de"');
+  assert.deepStrictEqual((await comment(intro.id, { body: 'x', parentId: question.id }))[1].message, 'Comment to reply to not found');
+
+  const listed = await (await callRoute(handlers, 'GET', '?open_comments=true')).json();
+  assert.deepStrictEqual(listed.results.map(t => [t.key, t.openComments]), [['home.title', 2]]);
+
+  const wrongUrl = await callRoute(handlers, 'POST', `/${intro.id}/comments/${question.id}/resolve`, { resolved: true });
+  assert.strictEqual(wrongUrl.status, 404);
+  const resolved = await (await callRoute(handlers, 'POST', `/${title.id}/comments/${followUp.id}/resolve`, { resolved: true })).json();
+  assert.deepStrictEqual([resolved.id, resolved.resolved, resolved.resolvedBy], [question.id, true, 'ada']);
+  const stillOpen = await (await callRoute(handlers, 'GET', '?open_comments=true')).json();
+  assert.deepStrictEqual(stillOpen.results.map(t => [t.key, t.openComments]), [['home.title', 1]]);
+
+  const comments = await (await callRoute(handlers, 'GET', `/${title.id}/comments`)).json();
+  assert.deepStrictEqual(getCommentThreads(comments).map(thread => [thread.comment.body, thread.replies.map(reply => reply.body)]), [
+    ['Too short?', ['Fine as is', 'Agreed']],
+    ['Second thread', []]
+  ]);
+
+  const reopened = await (await callRoute(handlers, 'POST', `/${title.id}/comments/${question.id}/resolve`, { resolved: false })).json();
+  assert.deepStrictEqual([reopened.resolved, reopened.resolvedAt], [undefined, undefined]);
+});
+
+check('translation memory scores matches and suggests each value once', async () => {
+  const { TranslationMemory, similarity } = require(path.join(srcDir, 'lib', 'translation-memory.ts'));
+  const { MemoryStorageAdapter } = require(path.join(srcDir, 'lib', 'storage.ts'));
+  const { createTranslationRouteHandlers } = require(path.join(srcDir, 'lib', 'route-handlers.ts'));
+  const translations = [
+    { id: 1, key: 'a.save', translations: { en: 'Save changes', fr: 'Enregistrer les modifications' } },
+    { id: 2, key: 'b.save', translations: { en: 'Save  changes ', fr: 'Sauvegarder' }, status: { fr: 'approved' } },
+    { id: 3, key: 'c.save', translations: { en: 'save changes', fr: 'Enregistrer les modifications' } },
+    { id: 4, key: 'd.save', translations: { en: 'Save the changes', fr: 'Enregistrer' } },
+    { id: 5, key: 'e.delete', translations: { en: 'Delete everything', fr: 'Tout supprimer' } },
+    { id: 6, key: 'f.save', translations: { en: 'Save changes' } }
+  ];
+  const memory = new TranslationMemory('en', translations);
+  const suggest = (text, locale, options) => memory.suggest(text, locale, options)
+    .map(suggestion => [suggestion.key, suggestion.value, suggestion.score, suggestion.exact]);
+
+  // Approved values first among exact matches, c.save repeats a.save's value
+  assert.deepStrictEqual(suggest('Save changes', 'fr'), [
+    ['b.save', 'Sauvegarder', 1, true],
+    ['a.save', 'Enregistrer les modifications', 1, true],
+    ['d.save', 'Enregistrer', 0.75, false]
+  ]);
+  assert.deepStrictEqual(suggest('SAVE CHANGES', 'fr').map(([key, , score]) => [key, score]), [
+    ['b.save', 0.99],
+    ['a.save', 0.99],
+    ['d.save', 0.75]
+  ]);
+  assert.deepStrictEqual(suggest('Save changes', 'fr', { excludeKey: 'b.save', limit: 1 }), [['a.save', 'Enregistrer les modifications', 1, true]]);
+  assert.deepStrictEqual(suggest('Save changes', 'fr', { minScore: 0.8 }).length, 2);
+  assert.deepStrictEqual(suggest('Save changes', 'en'), []);
+  assert.strictEqual(Math.round(similarity('kitten', 'sitting') * 1000) / 1000, 0.571);
+
+  assert.strictEqual(memory.applyEvent({ type: 'update', translation: { ...translations[3], translations: { en: 'Save changes', fr: 'Valider' } } }), true);
+  assert.strictEqual(memory.applyEvent({ type: 'delete', ids: [2] }), true);
+  assert.strictEqual(memory.applyEvent({ type: 'import' }), false);
+  assert.deepStrictEqual(suggest('Save changes', 'fr').map(([key]) => key), ['a.save', 'd.save']);
+
+  const storage = new MemoryStorageAdapter();
+  await storage.save(translations);
+  const handlers = createTranslationRouteHandlers({ storage, supportedLocales: ['en', 'fr'] });
+  const response = await callRoute(handlers, 'GET', '/suggestions?text=Save%20changes&locale=fr&exclude=a.save&limit=2');
+  assert.deepStrictEqual((await response.json()).map(suggestion => suggestion.key), ['b.save', 'c.save']);
+  assert.strictEqual((await callRoute(handlers, 'GET', '/suggestions?text=Save&locale=de')).status, 400);
+});
+
+async function runChecks() {
+  let failed = 0;
+  for (const { name, run } of checks) {
+    try {
+      await run();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}\n   ${error && error.message}`);
+    }
+  }
+  return failed === 0;
+}
+
+runChecks().then(checksPassed => {
+  console.log('\n🎯 Test Summary:');
+  if (!checksPassed) {
+    console.log('❌ Behavior checks failed');
+    process.exit(1);
+  }
+  if (npmReady) {
+    console.log('✅ Package is ready for npm publishing!');
+    console.log('✅ All required files are present');
+    console.log('✅ Documentation looks good');
+    console.log('\nNext steps:');
+    console.log('1. Run: npm run build');
+    console.log('2. Run: npm run type-check');
+    console.log('3. Run: npm run lint');
+    console.log('4. Test locally: npm link');
+    console.log('5. Commit to git: git add . && git commit -m "feat: ready for release"');
+    console.log('6. Push to GitHub: git push origin main');
+    console.log('7. Create release on GitHub');
+    console.log('8. Publish to npm: npm publish');
+  } else {
+    console.log('❌ Package has issues that need to be fixed before publishing');
+    process.exit(1);
+  }
+
+  console.log('\n🚀 Happy coding!');
+});
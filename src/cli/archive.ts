@@ -0,0 +1,62 @@
+import { parseArgs } from 'util';
+import { resolveStorage, STORAGE_OPTIONS, STORAGE_USAGE } from './storage';
+
+export const ARCHIVE_USAGE = `Usage: next-intl-admin archive [options]
+
+Lists the archived translations, or puts some of them back.
+
+${STORAGE_USAGE}
+  --restore <keys>     Comma-separated keys to restore. Keys that exist in the
+                       catalog again stay archived
+  --json               Print the result as JSON`;
+
+/**
+ * next-intl-admin archive
+ */
+export async function runArchive(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...STORAGE_OPTIONS,
+      restore: { type: 'string' },
+      json: { type: 'boolean' }
+    }
+  });
+
+  const { storage, label } = await resolveStorage(values);
+  if (!storage.loadArchive || !storage.unarchive) {
+    throw new Error(`${label} does not support archiving`);
+  }
+
+  if (values.restore) {
+    const keys = values.restore.split(',').map(key => key.trim()).filter(Boolean);
+    const restored = await storage.unarchive(keys, { author: 'next-intl-admin archive' });
+    const skipped = keys.filter(key => !restored.some(t => t.key === key));
+
+    if (values.json) {
+      console.log(JSON.stringify({ restored: restored.map(t => t.key), skipped }, null, 2));
+    } else {
+      console.log(`✅ Restored ${restored.length} keys to ${label}`);
+      skipped.forEach(key => console.warn(`⚠️  ${key} is not archived or exists again`));
+    }
+    return skipped.length > 0 ? 1 : 0;
+  }
+
+  const archive = await storage.loadArchive();
+
+  if (values.json) {
+    console.log(JSON.stringify(archive, null, 2));
+    return 0;
+  }
+
+  if (archive.length === 0) {
+    console.log('The archive is empty');
+    return 0;
+  }
+
+  archive.forEach(entry => {
+    const by = entry.archivedBy ? ` by ${entry.archivedBy}` : '';
+    console.log(`  ${entry.key}  (${new Date(entry.archivedAt).toLocaleString()}${by})`);
+  });
+  return 0;
+}
@@ -0,0 +1,95 @@
+import { parseArgs } from 'util';
+import { extractFromFiles } from '../lib/fs-extract';
+import { groupExtractedKeys, findMissingKeys, addMissingKeys } from '../lib/extract';
+import type { ExtractedKey } from '../lib/extract';
+import { resolveStorage, resolveDefaultLocale, STORAGE_OPTIONS, STORAGE_USAGE } from './storage';
+
+export const EXTRACT_USAGE = `Usage: next-intl-admin extract [paths...] [options]
+
+Scans TS/TSX/JS files for useTranslations()/getTranslations() and t('key')
+calls and reports the keys that have no translation yet.
+
+  paths                Files or directories to scan (default: src)
+${STORAGE_USAGE}
+  --write              Create the missing keys, with the file:line they are used
+                       at as context
+  --default-locale <l> Locale new keys get the key as placeholder value in
+                       (default: defaultLocale in src/i18n/routing.ts)
+  --check              Exit with code 1 when keys are missing, or with --write
+                       when some could not be added
+  --json               Print the result as JSON`;
+
+/**
+ * next-intl-admin extract
+ */
+export async function runExtract(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...STORAGE_OPTIONS,
+      write: { type: 'boolean' },
+      'default-locale': { type: 'string' },
+      check: { type: 'boolean' },
+      json: { type: 'boolean' }
+    }
+  });
+
+  const { keys, warnings } = await extractFromFiles(positionals.length > 0 ? positionals : ['src']);
+  const { storage, locales, label } = await resolveStorage(values);
+  const missing = findMissingKeys(keys, await storage.load());
+
+  const added = values.write
+    ? await addMissingKeys(storage, keys, {
+        placeholderLocale: await resolveDefaultLocale(values, locales),
+        author: 'next-intl-admin extract'
+      })
+    : [];
+  // With --write, --check only fails for keys that could not be added
+  const outstanding = missing.size - added.length;
+
+  if (values.json) {
+    console.log(JSON.stringify({
+      keys: toJson(groupExtractedKeys(keys)),
+      missing: toJson(missing),
+      added: added.length,
+      warnings
+    }, null, 2));
+    return values.check && outstanding > 0 ? 1 : 0;
+  }
+
+  warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+
+  const files = new Set(keys.map(extracted => extracted.file));
+  console.log(`Found ${groupExtractedKeys(keys).size} keys in ${files.size} files`);
+
+  if (missing.size === 0) {
+    console.log(`✅ Every key is in ${label}`);
+    return 0;
+  }
+
+  console.log(`\n${missing.size} keys are missing from ${label}:`);
+  missing.forEach((locations, key) => {
+    console.log(`  ${key}  ${formatLocations(locations)}`);
+  });
+
+  if (values.write) {
+    console.log(`\n✅ Added ${added.length} keys to ${label}`);
+  } else {
+    console.log('\nRun again with --write to add them.');
+  }
+
+  return values.check && outstanding > 0 ? 1 : 0;
+}
+
+// Helper functions
+function formatLocations(locations: ExtractedKey[]): string {
+  return locations.map(location => `${location.file}:${location.line}`).join(', ');
+}
+
+function toJson(keys: Map<string, ExtractedKey[]>) {
+  return Array.from(keys.entries()).map(([key, locations]) => ({
+    key,
+    locations: locations.map(location => `${location.file}:${location.line}`)
+  }));
+}
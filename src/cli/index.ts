@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+/**
+ * next-intl-admin command line, built to CommonJS by tsconfig.cli.json.
+ * Run with: npx next-intl-admin <command>
+ */
+
+import { runExtract, EXTRACT_USAGE } from './extract';
+import { runUnused, UNUSED_USAGE } from './unused';
+import { runArchive, ARCHIVE_USAGE } from './archive';
+import { runTypes, TYPES_USAGE } from './types';
+
+const COMMANDS: Record<string, { run: (args: string[]) => Promise<number>; usage: string }> = {
+  extract: { run: runExtract, usage: EXTRACT_USAGE },
+  unused: { run: runUnused, usage: UNUSED_USAGE },
+  archive: { run: runArchive, usage: ARCHIVE_USAGE },
+  types: { run: runTypes, usage: TYPES_USAGE }
+};
+
+const USAGE = `Usage: next-intl-admin <command> [options]
+
+Commands:
+  extract   Find the keys used in source code and add the missing ones
+  unused    List the keys no source file uses and archive them
+  archive   List archived translations and restore them
+  types     Generate TypeScript types of the messages for next-intl
+
+Run next-intl-admin <command> --help for the options of a command.`;
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+  const command = name ? COMMANDS[name] : undefined;
+
+  if (!command) {
+    if (name && name !== '--help' && name !== '-h') {
+      console.error(`Unknown command "${name}"\n`);
+    }
+    console.log(USAGE);
+    return name && name !== '--help' && name !== '-h' ? 1 : 0;
+  }
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(command.usage);
+    return 0;
+  }
+
+  return command.run(args);
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageAdapter, MessageFileLayout } from '../types';
+import { FsMessagesStorageAdapter } from '../lib/fs-storage';
+
+export interface StorageFlags {
+  messages?: string;
+  locales?: string;
+  layout?: string;
+  storage?: string;
+}
+
+export interface ResolvedStorage {
+  storage: StorageAdapter;
+  locales: string[];
+  // Shown in messages, e.g. "messages"
+  label: string;
+}
+
+// Options shared by the commands that read translations
+export const STORAGE_OPTIONS = {
+  messages: { type: 'string' },
+  locales: { type: 'string' },
+  layout: { type: 'string' },
+  storage: { type: 'string' }
+} as const;
+
+export const STORAGE_USAGE = `  --messages <dir>     Directory with the {locale}.json message files (default: messages)
+  --locales <list>     Comma-separated locales (default: the files in --messages)
+  --layout <layout>    single ({locale}.json, default), locale/namespace
+                       ({locale}/{ns}.json) or namespace/locale ({ns}/{locale}.json)
+  --storage <module>   JavaScript module exporting a StorageAdapter, or a function
+                       returning one, as default export or "storage"`;
+
+/**
+ * The storage selected by --storage, or the message files in --messages.
+ */
+export async function resolveStorage(flags: StorageFlags, cwd = process.cwd()): Promise<ResolvedStorage> {
+  const messagesDir = path.resolve(cwd, flags.messages || 'messages');
+  const layout = (flags.layout || 'single') as MessageFileLayout;
+  if (LAYOUTS.indexOf(layout) === -1) {
+    throw new Error(`Unknown layout "${flags.layout}", use ${LAYOUTS.join(', ')}`);
+  }
+
+  const locales = flags.locales
+    ? flags.locales.split(',').map(locale => locale.trim()).filter(Boolean)
+    : await findLocales(messagesDir, layout);
+
+  if (flags.storage) {
+    const modulePath = path.resolve(cwd, flags.storage);
+    const exported = require(modulePath);
+    let storage = exported.storage || exported.default || exported;
+    if (typeof storage === 'function') storage = await storage();
+
+    if (!storage || typeof storage.load !== 'function') {
+      throw new Error(`${flags.storage} does not export a storage adapter`);
+    }
+    return { storage, locales, label: flags.storage };
+  }
+
+  if (locales.length === 0) {
+    throw new Error(`No message files found in ${path.relative(cwd, messagesDir) || '.'}, pass --locales`);
+  }
+
+  return {
+    storage: new FsMessagesStorageAdapter({ messagesDir, supportedLocales: locales, layout }),
+    locales,
+    label: path.relative(cwd, messagesDir) || '.'
+  };
+}
+
+/**
+ * The locale of --default-locale, else the defaultLocale of the next-intl
+ * routing config, else the only locale there is.
+ */
+export async function resolveDefaultLocale(
+  flags: { 'default-locale'?: string },
+  locales: string[],
+  cwd = process.cwd()
+): Promise<string> {
+  const locale = flags['default-locale'] ||
+    await readRoutingDefaultLocale(cwd) ||
+    (locales.length === 1 ? locales[0] : undefined);
+
+  if (!locale) {
+    throw new Error(
+      `Cannot tell which of ${locales.join(', ') || 'the locales'} is the default locale, ` +
+      `pass --default-locale or set defaultLocale in ${ROUTING_FILES[0]}`
+    );
+  }
+  if (locales.length > 0 && locales.indexOf(locale) === -1) {
+    throw new Error(`Default locale "${locale}" is not one of ${locales.join(', ')}`);
+  }
+  return locale;
+}
+
+const LAYOUTS: MessageFileLayout[] = ['single', 'locale/namespace', 'namespace/locale'];
+
+// Where next-intl projects define their routing, with defineRouting({ defaultLocale })
+const ROUTING_FILES = ['src/i18n/routing.ts', 'src/i18n/routing.js', 'i18n/routing.ts', 'i18n/routing.js'];
+
+// Read as text, the config is TypeScript and imports next-intl
+async function readRoutingDefaultLocale(cwd: string): Promise<string | undefined> {
+  for (const file of ROUTING_FILES) {
+    const source = await fs.readFile(path.resolve(cwd, file), 'utf-8').catch(() => null);
+    const match = source ? /defaultLocale\s*:\s*['"`]([^'"`]+)['"`]/.exec(source) : null;
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+async function findLocales(messagesDir: string, layout: MessageFileLayout): Promise<string[]> {
+  const jsonNames = (files: string[]) => files
+    .filter(file => file.endsWith('.json') && !file.startsWith('.'))
+    .map(file => file.slice(0, -'.json'.length));
+
+  try {
+    const entries = await fs.readdir(messagesDir, { withFileTypes: true });
+    const directories = entries
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => entry.name);
+
+    switch (layout) {
+      case 'locale/namespace':
+        return directories.sort();
+      case 'namespace/locale': {
+        const locales = new Set<string>();
+        for (const directory of directories) {
+          jsonNames(await fs.readdir(path.join(messagesDir, directory))).forEach(locale => locales.add(locale));
+        }
+        return Array.from(locales).sort();
+      }
+      default:
+        return jsonNames(entries.filter(entry => entry.isFile()).map(entry => entry.name)).sort();
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
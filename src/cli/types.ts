@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { generateMessageTypes } from '../lib/message-types';
+import { resolveStorage, resolveDefaultLocale, STORAGE_OPTIONS, STORAGE_USAGE } from './storage';
+
+export const TYPES_USAGE = `Usage: next-intl-admin types [options]
+
+Writes a .d.ts declaring the shape of the messages as next-intl's global
+IntlMessages (next-intl 3) or AppConfig (next-intl 4, --app-config), so
+unknown keys fail to compile.
+
+${STORAGE_USAGE}
+  --out <file>         Declaration file to write (default: global.d.ts)
+  --default-locale <l> Locale the argument types are read from (default:
+                       defaultLocale in src/i18n/routing.ts)
+  --arguments          Also emit IntlMessageArguments with the ICU arguments
+                       of every message
+  --app-config         Augment AppConfig, which next-intl 4 reads instead of
+                       IntlMessages
+  --check              Do not write, exit with code 1 when the file is outdated`;
+
+/**
+ * next-intl-admin types
+ */
+export async function runTypes(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...STORAGE_OPTIONS,
+      out: { type: 'string' },
+      'default-locale': { type: 'string' },
+      arguments: { type: 'boolean' },
+      'app-config': { type: 'boolean' },
+      check: { type: 'boolean' }
+    }
+  });
+
+  const { storage, locales, label } = await resolveStorage(values);
+  const outFile = path.resolve(values.out || 'global.d.ts');
+  const content = generateMessageTypes(await storage.load(), {
+    locale: await resolveDefaultLocale(values, locales),
+    arguments: values.arguments,
+    declaration: values['app-config'] ? 'AppConfig' : 'IntlMessages'
+  });
+
+  const current = await fs.readFile(outFile, 'utf-8').catch(() => null);
+  const relative = path.relative(process.cwd(), outFile);
+
+  if (content === current) {
+    console.log(`✅ ${relative} is up to date`);
+    return 0;
+  }
+
+  if (values.check) {
+    console.log(`${relative} does not match ${label}, run next-intl-admin types`);
+    return 1;
+  }
+
+  await fs.mkdir(path.dirname(outFile), { recursive: true });
+  await fs.writeFile(outFile, content, 'utf-8');
+  console.log(`✅ Wrote the message types of ${label} to ${relative}`);
+  return 0;
+}
@@ -0,0 +1,71 @@
+import { parseArgs } from 'util';
+import { extractFromFiles } from '../lib/fs-extract';
+import { findUnusedKeys } from '../lib/extract';
+import { resolveStorage, STORAGE_OPTIONS, STORAGE_USAGE } from './storage';
+
+export const UNUSED_USAGE = `Usage: next-intl-admin unused [paths...] [options]
+
+Lists the keys no source file references. Keys under a namespace read with
+t.raw('ns') or starting like a key built at runtime (t(\`status.\${s}\`)) count
+as used.
+
+  paths                Files or directories to scan (default: src)
+${STORAGE_USAGE}
+  --archive            Move the unused keys to the archive, restore them with
+                       next-intl-admin archive --restore
+  --check              Exit with code 1 when keys are unused
+  --json               Print the result as JSON`;
+
+/**
+ * next-intl-admin unused
+ */
+export async function runUnused(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...STORAGE_OPTIONS,
+      archive: { type: 'boolean' },
+      check: { type: 'boolean' },
+      json: { type: 'boolean' }
+    }
+  });
+
+  const usage = await extractFromFiles(positionals.length > 0 ? positionals : ['src']);
+  const { storage, label } = await resolveStorage(values);
+  const unused = findUnusedKeys(usage, await storage.load());
+
+  if (values.archive && unused.length > 0) {
+    if (!storage.archive) {
+      throw new Error(`${label} does not support archiving`);
+    }
+    await storage.archive(unused.map(t => t.id!), { author: 'next-intl-admin unused' });
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify({
+      unused: unused.map(t => t.key),
+      archived: values.archive ? unused.length : 0,
+      warnings: usage.warnings
+    }, null, 2));
+    return values.check && unused.length > 0 ? 1 : 0;
+  }
+
+  usage.warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+
+  if (unused.length === 0) {
+    console.log(`✅ Every key in ${label} is used`);
+    return 0;
+  }
+
+  console.log(`${unused.length} keys in ${label} are not used:`);
+  unused.forEach(t => console.log(`  ${t.key}`));
+
+  if (values.archive) {
+    console.log(`\n✅ Archived ${unused.length} keys`);
+  } else {
+    console.log('\nRun again with --archive to move them to the archive.');
+  }
+
+  return values.check ? 1 : 0;
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RotateCcw } from 'lucide-react';
+import clsx from 'clsx';
+import type { ArchiveDialogProps, ArchivedTranslation } from '../types';
+
+export const ArchiveDialog: React.FC<ArchiveDialogProps> = ({
+  isOpen,
+  onClose,
+  loadArchive,
+  onRestore,
+  supportedLocales,
+  canRestore = true
+}) => {
+  const t = useTranslations('translationManager');
+  const [entries, setEntries] = useState<ArchivedTranslation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringKey, setRestoringKey] = useState<string | null>(null);
+
+  // Reloaded every time the dialog opens, loadArchive is usually inline
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+
+    loadArchive()
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const handleRestore = async (entry: ArchivedTranslation) => {
+    setRestoringKey(entry.key);
+    try {
+      await onRestore([entry.key]);
+      setEntries(prev => prev && prev.filter(e => e.key !== entry.key));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRestoringKey(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-2xl max-h-[80vh] flex flex-col bg-nia-background rounded-lg shadow-xl p-6"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="archive-title"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 id="archive-title" className="text-lg font-medium text-nia-foreground">
+                {t('archive.title')}
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="p-1 text-nia-secondary/70 hover:text-nia-foreground rounded"
+              >
+                <span className="sr-only">{t('cancel')}</span>
+                <X size={18} />
+              </button>
+            </div>
+
+            {error && <p className="mb-3 text-xs text-nia-danger">{error}</p>}
+
+            {entries === null && !error && (
+              <p className="text-sm text-nia-secondary">{t('archive.loading')}</p>
+            )}
+
+            {entries && entries.length === 0 && (
+              <p className="text-sm text-nia-secondary italic">{t('archive.empty')}</p>
+            )}
+
+            {entries && entries.length > 0 && (
+              <ul className="flex-1 overflow-y-auto divide-y divide-nia-border">
+                {entries.map(entry => (
+                  <li key={entry.key} className="flex items-start gap-4 py-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-mono text-nia-foreground truncate">{entry.key}</div>
+                      <div className="text-xs text-nia-secondary">
+                        {t('archive.archivedAt', { date: new Date(entry.archivedAt).toLocaleString() })}
+                        {entry.archivedBy && ` · ${entry.archivedBy}`}
+                      </div>
+                      <dl className="mt-1 space-y-0.5">
+                        {supportedLocales.filter(locale => entry.translations[locale]).map(locale => (
+                          <div key={locale} className="flex items-baseline gap-3">
+                            <dt className="w-10 shrink-0 text-xs font-medium text-nia-secondary uppercase">
+                              {locale}
+                            </dt>
+                            <dd className="flex-1 truncate text-nia-foreground/80">{entry.translations[locale]}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    </div>
+
+                    {canRestore && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(entry)}
+                        disabled={restoringKey !== null}
+                        className={clsx(
+                          'flex items-center gap-1 px-2 py-1 text-xs text-nia-primary hover:bg-nia-primary/10 rounded',
+                          restoringKey !== null && 'opacity-50 cursor-not-allowed'
+                        )}
+                      >
+                        <RotateCcw size={12} />
+                        {t('archive.restore')}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { CheckCircle2, RotateCcw, Reply } from 'lucide-react';
+import clsx from 'clsx';
+import type { CommentThreadsProps, TranslationComment, CommentInput } from '../types';
+import { getCommentThreads } from '../lib/comments';
+
+export const CommentThreads: React.FC<CommentThreadsProps> = ({
+  translation,
+  supportedLocales,
+  onLoad,
+  onAdd,
+  onResolve,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+  const [comments, setComments] = useState<TranslationComment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [body, setBody] = useState('');
+  const [locale, setLocale] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+
+  // Keyed on the translation rather than onLoad, which is usually an inline function
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    onLoad(translation)
+      .then(result => {
+        if (!cancelled) setComments(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [translation.id]);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = (input: CommentInput, done: () => void) => run(async () => {
+    if (!onAdd || !input.body.trim()) return;
+    const added = await onAdd(translation, input);
+    setComments(prev => [...(prev || []), added]);
+    done();
+  });
+
+  const handleResolve = (comment: TranslationComment, resolved: boolean) => run(async () => {
+    if (!onResolve) return;
+    const thread = await onResolve(translation, comment, resolved);
+    setComments(prev => prev && prev.map(c => (c.id === thread.id ? thread : c)));
+  });
+
+  if (comments === null) {
+    return error
+      ? <p className={clsx('text-xs text-nia-danger', className)}>{error}</p>
+      : <p className={clsx('text-xs text-nia-secondary', className)}>{t('comments.loading')}</p>;
+  }
+
+  const threads = getCommentThreads(comments);
+
+  const renderComment = (comment: TranslationComment) => (
+    <div className="text-sm">
+      <div className="flex items-baseline gap-2 text-xs text-nia-secondary">
+        {comment.author && <span className="font-medium text-nia-foreground/80">{comment.author}</span>}
+        <span>{new Date(comment.createdAt).toLocaleString()}</span>
+      </div>
+      {/* Written in any language, so the text picks its own direction */}
+      <p className="mt-0.5 whitespace-pre-wrap break-words text-nia-foreground" dir="auto">
+        {comment.body}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className={clsx('space-y-3', className)}>
+      {error && <p className="text-xs text-nia-danger">{error}</p>}
+
+      {threads.length === 0 && (
+        <p className="text-xs text-nia-secondary italic">{t('comments.empty')}</p>
+      )}
+
+      {threads.map(({ comment, replies }) => (
+        <div
+          key={comment.id}
+          className={clsx(
+            'p-3 border border-nia-border rounded-lg bg-nia-background',
+            comment.resolved && 'opacity-60'
+          )}
+        >
+          <div className="flex items-start gap-3">
+            <span
+              className={clsx(
+                'shrink-0 px-1.5 py-0.5 text-xs font-medium rounded bg-nia-muted text-nia-secondary',
+                comment.locale && 'uppercase'
+              )}
+            >
+              {comment.locale || t('comments.allLocales')}
+            </span>
+
+            <div className="flex-1 min-w-0 space-y-2">
+              {renderComment(comment)}
+              {replies.map(replyComment => (
+                <div key={replyComment.id} className="pl-3 border-l-2 border-nia-border">
+                  {renderComment(replyComment)}
+                </div>
+              ))}
+
+              {replyTo === comment.id && (
+                <div className="flex gap-2">
+                  <textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder={t('comments.replyPlaceholder')}
+                    rows={2}
+                    autoFocus
+                    className="flex-1 p-2 text-sm border border-nia-border rounded bg-nia-background text-nia-foreground focus:ring-2 focus:ring-nia-primary focus:border-nia-primary resize-none"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleAdd({ body: reply, parentId: comment.id }, () => {
+                      setReply('');
+                      setReplyTo(null);
+                    })}
+                    disabled={busy || !reply.trim()}
+                    className="self-end px-3 py-1 text-xs text-white bg-nia-primary rounded hover:bg-nia-primary-hover disabled:opacity-50"
+                  >
+                    {t('comments.reply')}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-1 shrink-0">
+              {comment.resolved && (
+                <span className="text-xs text-nia-success">{t('comments.resolved')}</span>
+              )}
+              {onAdd && !comment.resolved && replyTo !== comment.id && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReplyTo(comment.id);
+                    setReply('');
+                  }}
+                  className="p-1 text-nia-secondary/70 hover:text-nia-primary rounded"
+                  title={t('comments.reply')}
+                >
+                  <Reply size={14} />
+                </button>
+              )}
+              {onResolve && (
+                <button
+                  type="button"
+                  onClick={() => handleResolve(comment, !comment.resolved)}
+                  disabled={busy}
+                  className={clsx(
+                    'p-1 rounded',
+                    comment.resolved
+                      ? 'text-nia-secondary/70 hover:text-nia-primary'
+                      : 'text-nia-success hover:bg-nia-success/10',
+                    busy && 'opacity-50 cursor-not-allowed'
+                  )}
+                  title={t(comment.resolved ? 'comments.reopen' : 'comments.resolve')}
+                >
+                  {comment.resolved ? <RotateCcw size={14} /> : <CheckCircle2 size={14} />}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {onAdd && (
+        <div className="flex gap-2">
+          <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+            className="self-start text-sm border border-nia-border rounded px-2 py-2 bg-nia-background text-nia-foreground"
+            title={t('comments.locale')}
+          >
+            <option value="">{t('comments.allLocales')}</option>
+            {supportedLocales.map(l => (
+              <option key={l} value={l}>{l.toUpperCase()}</option>
+            ))}
+          </select>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={t('comments.placeholder')}
+            rows={2}
+            className="flex-1 p-2 text-sm border border-nia-border rounded bg-nia-background text-nia-foreground focus:ring-2 focus:ring-nia-primary focus:border-nia-primary resize-none"
+          />
+          <button
+            type="button"
+            onClick={() => handleAdd({ body, ...(locale && { locale }) }, () => setBody(''))}
+            disabled={busy || !body.trim()}
+            className="self-end px-3 py-2 text-sm text-white bg-nia-primary rounded hover:bg-nia-primary-hover disabled:opacity-50"
+          >
+            {t('comments.add')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -30,16 +30,16 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
 }) => {
   const variantStyles = {
     danger: {
-      icon: 'text-red-600',
-      button: 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+      icon: 'text-nia-danger',
+      button: 'bg-nia-danger hover:bg-nia-danger-hover focus:ring-nia-danger'
     },
     warning: {
-      icon: 'text-yellow-600',
-      button: 'bg-yellow-600 hover:bg-yellow-700 focus:ring-yellow-500'
+      icon: 'text-nia-warning',
+      button: 'bg-nia-warning hover:bg-nia-warning-hover focus:ring-nia-warning'
     },
     info: {
-      icon: 'text-blue-600',
-      button: 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+      icon: 'text-nia-primary',
+      button: 'bg-nia-primary hover:bg-nia-primary-hover focus:ring-nia-primary'
     }
   };
 
@@ -53,7 +53,7 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              className="fixed inset-0 bg-black/50 transition-opacity"
               onClick={onCancel}
             />
 
@@ -67,12 +67,12 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
               initial={{ opacity: 0, scale: 0.95, y: 20 }}
               animate={{ opacity: 1, scale: 1, y: 0 }}
               exit={{ opacity: 0, scale: 0.95, y: 20 }}
-              className="relative inline-block align-bottom bg-white rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full sm:p-6 dark:bg-gray-800"
+              className="relative inline-block align-bottom bg-nia-background rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full sm:p-6"
             >
               <div className="absolute top-0 right-0 pt-4 pr-4">
                 <button
                   type="button"
-                  className="bg-white rounded-md text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-500 dark:hover:text-gray-300"
+                  className="bg-nia-background rounded-md text-nia-secondary/70 hover:text-nia-foreground focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-nia-primary"
                   onClick={onCancel}
                 >
                   <span className="sr-only">Close</span>
@@ -83,17 +83,17 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
               <div className="sm:flex sm:items-start">
                 <div className={clsx(
                   'mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full sm:mx-0 sm:h-10 sm:w-10',
-                  variant === 'danger' ? 'bg-red-100' : variant === 'warning' ? 'bg-yellow-100' : 'bg-blue-100'
+                  variant === 'danger' ? 'bg-nia-danger/15' : variant === 'warning' ? 'bg-nia-warning/15' : 'bg-nia-primary/15'
                 )}>
                   <AlertTriangle className={clsx('h-6 w-6', variantStyles[variant].icon)} />
                 </div>
                 
                 <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left">
-                  <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+                  <h3 className="text-lg leading-6 font-medium text-nia-foreground">
                     {title}
                   </h3>
                   <div className="mt-2">
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                    <p className="text-sm text-nia-secondary">
                       {message}
                     </p>
                   </div>
@@ -125,7 +125,7 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
                   type="button"
                   disabled={loading}
                   onClick={onCancel}
-                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:w-auto sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300 dark:hover:text-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-nia-border shadow-sm px-4 py-2 bg-nia-background text-base font-medium text-nia-foreground/80 hover:text-nia-secondary focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-nia-primary sm:mt-0 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {cancelText}
                 </button>
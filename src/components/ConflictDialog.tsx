@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslations } from 'next-intl';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitMerge, X } from 'lucide-react';
+import clsx from 'clsx';
+import type { ConflictDialogProps, LocaleCode } from '../types';
+import { compareLocales, defaultMergeSide, applyMerge } from '../lib/merge';
+import type { MergeSide } from '../lib/merge';
+
+// Shown when a save finds the translation changed or deleted since the edit
+// started, by another editor or another tab. Only the locales where mine and
+// theirs differ are listed, each with the side to keep.
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  isOpen,
+  mine,
+  theirs,
+  base,
+  supportedLocales,
+  onSave,
+  onUseTheirs,
+  onCancel,
+  loading = false
+}) => {
+  const t = useTranslations('translationManager');
+  const [choices, setChoices] = useState<Partial<Record<LocaleCode, MergeSide>>>({});
+
+  const merges = useMemo(
+    () => theirs ? compareLocales(supportedLocales, mine, theirs, base).filter(merge => merge.changed !== 'none') : [],
+    [supportedLocales, mine, theirs, base]
+  );
+
+  // A newer conflict starts from the default choices again
+  useEffect(() => {
+    setChoices({});
+  }, [theirs]);
+
+  const handleSave = () => {
+    onSave(theirs ? applyMerge(mine, theirs, merges, choices) : mine);
+  };
+
+  const renderValue = (value: string | undefined) => value
+    ? value
+    : <span className="italic text-nia-secondary/70">{t('conflict.empty')}</span>;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50"
+            onClick={onCancel}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-nia-background rounded-lg shadow-xl p-6"
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="conflict-dialog-title"
+          >
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div className="flex items-start gap-3">
+                <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-nia-warning/15">
+                  <GitMerge className="h-5 w-5 text-nia-warning" />
+                </div>
+                <div>
+                  <h3 id="conflict-dialog-title" className="text-lg font-medium text-nia-foreground">
+                    {t('conflict.title')}
+                  </h3>
+                  <p className="mt-1 text-sm text-nia-secondary">
+                    {theirs
+                      ? t('conflict.message', { key: mine.key })
+                      : t('conflict.deletedMessage', { key: mine.key })}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={onCancel}
+                className="p-1 text-nia-secondary/70 hover:text-nia-foreground rounded"
+              >
+                <span className="sr-only">{t('cancel')}</span>
+                <X size={18} />
+              </button>
+            </div>
+
+            {theirs && (merges.length > 0 ? (
+              <table className="w-full text-sm border border-nia-border rounded">
+                <thead className="bg-nia-subtle">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-nia-secondary w-16"></th>
+                    {base && (
+                      <th className="px-3 py-2 text-left font-medium text-nia-secondary">{t('conflict.base')}</th>
+                    )}
+                    <th className="px-3 py-2 text-left font-medium text-nia-secondary">{t('conflict.theirs')}</th>
+                    <th className="px-3 py-2 text-left font-medium text-nia-secondary">{t('conflict.mine')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-nia-border">
+                  {merges.map(merge => {
+                    const side = choices[merge.locale] || defaultMergeSide(merge);
+                    const choose = (value: MergeSide) => setChoices(prev => ({ ...prev, [merge.locale]: value }));
+
+                    return (
+                      <tr key={merge.locale} className={clsx(merge.changed === 'both' && 'bg-nia-warning/10')}>
+                        <td className="px-3 py-2 align-top">
+                          <div className="font-mono text-xs text-nia-secondary uppercase">{merge.locale}</div>
+                          {merge.changed === 'both' && (
+                            <div className="mt-1 text-xs text-nia-warning">{t('conflict.both')}</div>
+                          )}
+                        </td>
+                        {base && (
+                          <td className="px-3 py-2 align-top whitespace-pre-wrap break-words text-nia-secondary">
+                            {renderValue(merge.base)}
+                          </td>
+                        )}
+                        {(['theirs', 'mine'] as const).map(option => (
+                          <td key={option} className="px-3 py-2 align-top">
+                            <label className={clsx(
+                              'flex items-start gap-2 p-1 rounded cursor-pointer',
+                              side === option ? 'text-nia-foreground ring-1 ring-nia-primary' : 'text-nia-foreground/70'
+                            )}>
+                              <input
+                                type="radio"
+                                name={`conflict-${merge.locale}`}
+                                checked={side === option}
+                                onChange={() => choose(option)}
+                                className="mt-0.5 accent-nia-primary"
+                              />
+                              <span className="whitespace-pre-wrap break-words">{renderValue(merge[option])}</span>
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-nia-secondary">{t('conflict.sameValues')}</p>
+            ))}
+
+            <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+              <button
+                type="button"
+                disabled={loading}
+                onClick={onCancel}
+                className="px-4 py-2 text-sm text-nia-foreground/80 hover:bg-nia-muted rounded-md disabled:opacity-50"
+              >
+                {t('conflict.keepEditing')}
+              </button>
+              <button
+                type="button"
+                disabled={loading}
+                onClick={onUseTheirs}
+                className="px-4 py-2 text-sm border border-nia-border text-nia-foreground/80 hover:bg-nia-muted rounded-md disabled:opacity-50"
+              >
+                {theirs ? t('conflict.useTheirs') : t('conflict.discardMine')}
+              </button>
+              <button
+                type="button"
+                disabled={loading}
+                onClick={handleSave}
+                className={clsx(
+                  'px-4 py-2 text-sm text-white bg-nia-primary hover:bg-nia-primary-hover rounded-md',
+                  loading && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                {theirs ? t('conflict.saveMerged') : t('conflict.recreate')}
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import clsx from 'clsx';
+import type { RealTimeStatus } from '../types';
+
+interface ConnectionIndicatorProps {
+  status: RealTimeStatus;
+  className?: string;
+}
+
+export const ConnectionIndicator: React.FC<ConnectionIndicatorProps> = ({
+  status,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+
+  if (status === 'disabled') {
+    return null;
+  }
+
+  const dotClasses = {
+    connecting: 'bg-nia-warning animate-pulse',
+    connected: 'bg-nia-success',
+    disconnected: 'bg-nia-danger'
+  } as const;
+
+  return (
+    <div
+      className={clsx('flex items-center gap-2 text-xs text-nia-secondary', className)}
+      role="status"
+      aria-live="polite"
+    >
+      <span className={clsx('w-2 h-2 rounded-full', dotClasses[status])} />
+      {t(`connection.${status}`)}
+    </div>
+  );
+};
@@ -19,20 +19,20 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
 }) => {
   const baseClasses = {
     default: 'flex flex-col items-center justify-center p-8 text-center',
-    inline: 'flex items-center gap-3 p-4 bg-red-50 border border-red-200 rounded-lg',
-    banner: 'flex items-center justify-between p-4 bg-red-50 border-l-4 border-red-400'
+    inline: 'flex items-center gap-3 p-4 bg-nia-danger/10 border border-nia-danger/30 rounded-lg',
+    banner: 'flex items-center justify-between p-4 bg-nia-danger/10 border-l-4 border-nia-danger'
   };
 
   const iconClasses = {
-    default: 'w-12 h-12 text-red-500 mb-4',
-    inline: 'w-5 h-5 text-red-500 flex-shrink-0',
-    banner: 'w-5 h-5 text-red-500'
+    default: 'w-12 h-12 text-nia-danger mb-4',
+    inline: 'w-5 h-5 text-nia-danger flex-shrink-0',
+    banner: 'w-5 h-5 text-nia-danger'
   };
 
   const textClasses = {
-    default: 'text-lg font-medium text-gray-900 mb-2',
-    inline: 'text-sm font-medium text-red-800',
-    banner: 'text-sm font-medium text-red-800'
+    default: 'text-lg font-medium text-nia-foreground mb-2',
+    inline: 'text-sm font-medium text-nia-danger-hover',
+    banner: 'text-sm font-medium text-nia-danger-hover'
   };
 
   return (
@@ -46,7 +46,7 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
             {message}
           </p>
           {variant === 'default' && (
-            <p className="text-sm text-gray-500 mt-1">
+            <p className="text-sm text-nia-secondary mt-1">
               Something went wrong. Please try again.
             </p>
           )}
@@ -57,7 +57,7 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
         <button
           onClick={onRetry}
           className={clsx(
-            'flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors',
+            'flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-nia-danger rounded-lg hover:bg-nia-danger-hover transition-colors',
             variant === 'default' ? 'mt-4' : 'ml-4 flex-shrink-0'
           )}
         >
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+import type { FilterPanelProps, TranslationFilter } from '../types';
+import { translationUtils } from '../lib/utils';
+
+// Presets for the "updated within" select, in days
+const UPDATED_WITHIN_OPTIONS = [1, 7, 30] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FilterPanel: React.FC<FilterPanelProps> = ({
+  value,
+  onChange,
+  supportedLocales,
+  availableTags = [],
+  showUnused = false,
+  showOpenComments = false,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+  const [tagInput, setTagInput] = useState('');
+
+  const selectedTags = value.tags || [];
+  const tagOptions = Array.from(new Set([...availableTags, ...selectedTags])).sort();
+  const activeCount = translationUtils.countActiveFilters(value);
+
+  // Match the current range back to a preset
+  const updatedWithin = value.dateRange?.from && !value.dateRange.to
+    ? UPDATED_WITHIN_OPTIONS.find(days =>
+        Math.round((Date.now() - new Date(value.dateRange!.from).getTime()) / DAY_MS) === days
+      ) || ''
+    : '';
+
+  const update = (changes: Partial<TranslationFilter>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const toggle = (list: string[] | undefined, item: string): string[] => {
+    const current = list || [];
+    return current.includes(item)
+      ? current.filter(entry => entry !== item)
+      : [...current, item];
+  };
+
+  const handleUpdatedWithinChange = (days: string) => {
+    update({
+      dateRange: days
+        ? { from: new Date(Date.now() - Number(days) * DAY_MS).toISOString(), to: '' }
+        : undefined
+    });
+  };
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim();
+    if (tag && !selectedTags.includes(tag)) {
+      update({ tags: [...selectedTags, tag] });
+    }
+    setTagInput('');
+  };
+
+  const chipClasses = (active: boolean) => clsx(
+    'px-2 py-1 text-xs rounded-full border transition-colors',
+    active
+      ? 'bg-nia-primary border-nia-primary text-white'
+      : 'border-nia-border text-nia-foreground/80 hover:bg-nia-muted'
+  );
+
+  return (
+    <div className={clsx('flex flex-col gap-3 text-sm', className)}>
+      {/* Missing translations */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-28 text-nia-secondary">{t('filters.missingIn')}</span>
+        {supportedLocales.map((locale) => (
+          <button
+            key={locale}
+            type="button"
+            onClick={() => update({ missingTranslation: toggle(value.missingTranslation, locale) })}
+            className={chipClasses(Boolean(value.missingTranslation?.includes(locale)))}
+          >
+            {locale.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {/* Existing translations */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-28 text-nia-secondary">{t('filters.translatedIn')}</span>
+        {supportedLocales.map((locale) => (
+          <button
+            key={locale}
+            type="button"
+            onClick={() => update({ hasTranslation: toggle(value.hasTranslation, locale) })}
+            className={chipClasses(Boolean(value.hasTranslation?.includes(locale)))}
+          >
+            {locale.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {/* Tags */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-28 text-nia-secondary">{t('filters.tags')}</span>
+        {tagOptions.map((tag) => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => update({ tags: toggle(value.tags, tag) })}
+            className={chipClasses(selectedTags.includes(tag))}
+          >
+            {tag}
+          </button>
+        ))}
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddTag();
+            }
+          }}
+          onBlur={handleAddTag}
+          placeholder={t('filters.addTag')}
+          className="w-32 px-2 py-1 text-xs border border-nia-border rounded bg-nia-background text-nia-foreground"
+        />
+      </div>
+
+      {/* Keys no source file references */}
+      {showUnused && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-28 text-nia-secondary">{t('filters.usage')}</span>
+          <button
+            type="button"
+            onClick={() => update({ unused: value.unused ? undefined : true })}
+            className={chipClasses(Boolean(value.unused))}
+          >
+            {t('filters.unused')}
+          </button>
+        </div>
+      )}
+
+      {/* Unresolved comment threads */}
+      {showOpenComments && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-28 text-nia-secondary">{t('filters.comments')}</span>
+          <button
+            type="button"
+            onClick={() => update({ openComments: value.openComments ? undefined : true })}
+            className={chipClasses(Boolean(value.openComments))}
+          >
+            {t('filters.openComments')}
+          </button>
+        </div>
+      )}
+
+      {/* Last change */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-28 text-nia-secondary">{t('filters.updated')}</span>
+        <select
+          value={updatedWithin}
+          onChange={(e) => handleUpdatedWithinChange(e.target.value)}
+          className="px-2 py-1 text-xs border border-nia-border rounded bg-nia-background text-nia-foreground"
+        >
+          <option value="">{t('filters.anyTime')}</option>
+          {UPDATED_WITHIN_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {t('filters.lastDays', { count: days })}
+            </option>
+          ))}
+        </select>
+
+        {activeCount > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(value.search ? { search: value.search } : {})}
+            className="ml-auto flex items-center gap-1 text-xs text-nia-secondary hover:text-nia-foreground"
+          >
+            <X size={12} />
+            {t('filters.clear')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,42 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Download, Upload } from 'lucide-react';
 import clsx from 'clsx';
-import type { ImportExportProps } from '../types';
+import type { ImportExportProps, ExportOptions } from '../types';
+import { SUPPORTED_FORMATS, FORMAT_FILE_EXTENSIONS } from '../lib/constants';
+
+const EXPORT_FORMAT_LABELS: Record<string, string> = {
+  xliff: 'XLIFF 1.2',
+  xliff2: 'XLIFF 2.0'
+};
 
 export const ImportExportControls: React.FC<ImportExportProps> = ({
   onImport,
   onExport,
-  supportedFormats = ['json', 'csv'],
+  supportedFormats = [...SUPPORTED_FORMATS],
   loading = false,
   permissions = { canImport: true, canExport: true },
+  showApprovedOnly = false,
   className = ''
 }) => {
+  const [exportFormat, setExportFormat] = useState(supportedFormats[0] || 'json');
+  const [approvedOnly, setApprovedOnly] = useState(false);
+
+  // XLIFF 1.2 and 2.0 share their file extensions
+  const acceptedExtensions = Array.from(new Set(
+    supportedFormats.flatMap(format =>
+      FORMAT_FILE_EXTENSIONS[format as ExportOptions['format']] || [format]
+    )
+  ));
+
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       // Check file format
       const extension = file.name.split('.').pop()?.toLowerCase();
-      if (!extension || !supportedFormats.includes(extension)) {
-        alert(`Unsupported file format. Please use: ${supportedFormats.join(', ')}`);
+      if (!extension || !acceptedExtensions.includes(extension)) {
+        alert(`Unsupported file format. Please use: ${acceptedExtensions.join(', ')}`);
         return;
       }
 
@@ -36,7 +53,7 @@ export const ImportExportControls: React.FC<ImportExportProps> = ({
           <input
             type="file"
             id="import-file"
-            accept={supportedFormats.map(f => `.${f}`).join(',')}
+            accept={acceptedExtensions.map(extension => `.${extension}`).join(',')}
             onChange={handleFileImport}
             className="hidden"
             disabled={loading}
@@ -44,7 +61,7 @@ export const ImportExportControls: React.FC<ImportExportProps> = ({
           <label
             htmlFor="import-file"
             className={clsx(
-              'flex items-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors cursor-pointer',
+              'flex items-center gap-2 px-3 py-2 text-sm bg-nia-success text-white rounded-lg hover:bg-nia-success-hover transition-colors cursor-pointer',
               loading && 'opacity-50 cursor-not-allowed'
             )}
           >
@@ -54,13 +71,47 @@ export const ImportExportControls: React.FC<ImportExportProps> = ({
         </>
       )}
 
+      {/* Export Format */}
+      {permissions.canExport && supportedFormats.length > 1 && (
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value)}
+          disabled={loading}
+          className="text-sm border border-nia-border rounded-lg px-2 py-2 bg-nia-background text-nia-foreground disabled:opacity-50"
+          title="Export format"
+        >
+          {supportedFormats.map((format) => (
+            <option key={format} value={format}>
+              {EXPORT_FORMAT_LABELS[format] || format.toUpperCase()}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* Approved Only */}
+      {permissions.canExport && showApprovedOnly && (
+        <label className="flex items-center gap-1.5 text-sm text-nia-foreground/80">
+          <input
+            type="checkbox"
+            checked={approvedOnly}
+            onChange={(e) => setApprovedOnly(e.target.checked)}
+            disabled={loading}
+            className="rounded border-nia-border text-nia-primary focus:ring-nia-primary"
+          />
+          Approved only
+        </label>
+      )}
+
       {/* Export Button */}
       {permissions.canExport && (
         <button
-          onClick={onExport}
+          onClick={() => onExport(
+            exportFormat as ExportOptions['format'],
+            showApprovedOnly ? { approvedOnly } : undefined
+          )}
           disabled={loading}
           className={clsx(
-            'flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors',
+            'flex items-center gap-2 px-3 py-2 text-sm bg-nia-primary text-white rounded-lg hover:bg-nia-primary-hover transition-colors',
             loading && 'opacity-50 cursor-not-allowed'
           )}
         >
@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import clsx from 'clsx';
+import type { InfiniteScrollFooterProps } from '../types';
+
+// Replaces PaginationControls in infinite mode. The button is a fallback for
+// when scrolling does not reach the end, e.g. a failed request.
+export const InfiniteScrollFooter: React.FC<InfiniteScrollFooterProps> = ({
+  loadedCount,
+  totalCount,
+  loading = false,
+  onLoadMore,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+  const hasMore = loadedCount < totalCount;
+
+  return (
+    <div className={clsx('flex items-center justify-between text-sm text-nia-secondary', className)}>
+      <span>{t('infiniteScroll.loaded', { loaded: loadedCount, total: totalCount })}</span>
+
+      {loading ? (
+        <div className="flex items-center gap-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-nia-primary"></div>
+          {t('infiniteScroll.loading')}
+        </div>
+      ) : hasMore && (
+        <button
+          onClick={onLoadMore}
+          className="px-3 py-1 text-nia-primary hover:bg-nia-primary/10 rounded"
+        >
+          {t('infiniteScroll.loadMore')}
+        </button>
+      )}
+    </div>
+  );
+};
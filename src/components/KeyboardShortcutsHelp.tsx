@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X } from 'lucide-react';
+import type { KeyboardShortcutsHelpProps, ShortcutAction } from '../types';
+import { formatShortcut } from '../lib/shortcuts';
+
+// Message keys below translationManager.shortcuts
+const ACTION_LABELS: Record<ShortcutAction, string> = {
+  CREATE_NEW: 'createNew',
+  SAVE: 'save',
+  DELETE: 'delete',
+  SEARCH: 'search',
+  EXPORT: 'export',
+  IMPORT: 'import',
+  REFRESH: 'refresh',
+  ESCAPE: 'escape',
+  UNDO: 'undo',
+  REDO: 'redo',
+  HELP: 'help'
+};
+
+const TABLE_KEYS = [
+  { keys: ['↑', '↓'], label: 'nextRow' },
+  { keys: ['←', '→'], label: 'nextLocale' },
+  { keys: ['Enter'], label: 'editCell' },
+  { keys: ['Tab'], label: 'nextCell' }
+];
+
+const Key: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="px-1.5 py-0.5 text-xs font-mono bg-nia-muted border border-nia-border rounded">
+    {children}
+  </kbd>
+);
+
+export const KeyboardShortcutsHelp: React.FC<KeyboardShortcutsHelpProps> = ({
+  isOpen,
+  onClose,
+  bindings,
+  showTableKeys = true
+}) => {
+  const t = useTranslations('translationManager');
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+  const actions = (Object.keys(ACTION_LABELS) as ShortcutAction[]).filter(action => bindings[action]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-md bg-nia-background rounded-lg shadow-xl p-6"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="keyboard-shortcuts-title"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 id="keyboard-shortcuts-title" className="text-lg font-medium text-nia-foreground">
+                {t('shortcuts.title')}
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="p-1 text-nia-secondary/70 hover:text-nia-foreground rounded"
+              >
+                <span className="sr-only">{t('cancel')}</span>
+                <X size={18} />
+              </button>
+            </div>
+
+            <dl className="space-y-2 text-sm">
+              {actions.map(action => (
+                <div key={action} className="flex items-center justify-between">
+                  <dt className="text-nia-foreground/80">{t(`shortcuts.${ACTION_LABELS[action]}`)}</dt>
+                  <dd><Key>{formatShortcut(bindings[action]!, isMac)}</Key></dd>
+                </div>
+              ))}
+
+              {showTableKeys && TABLE_KEYS.map(({ keys, label }) => (
+                <div key={label} className="flex items-center justify-between">
+                  <dt className="text-nia-foreground/80">{t(`shortcuts.${label}`)}</dt>
+                  <dd className="flex gap-1">
+                    {keys.map(key => <Key key={key}>{key}</Key>)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -5,13 +5,14 @@ import clsx from 'clsx';
 
 interface LoadingSpinnerProps {
   size?: 'sm' | 'md' | 'lg' | 'xl';
+  // Tailwind color name, defaults to the theme's primary color
   color?: string;
   className?: string;
 }
 
 export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   size = 'md',
-  color = 'blue-600',
+  color,
   className = ''
 }) => {
   const sizeClasses = {
@@ -22,6 +23,6 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   } as const;
 
   return (
-    <div className={clsx('animate-spin rounded-full border-2 border-gray-200',sizeClasses[size],`border-t-${color}`, className )} role="status" aria-label="Loading"
+    <div className={clsx('animate-spin rounded-full border-2 border-nia-border',sizeClasses[size],color ? `border-t-${color}` : 'border-t-nia-primary', className )} role="status" aria-label="Loading"
     ><span className="sr-only">Loading...</span></div >);
 };
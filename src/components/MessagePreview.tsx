@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { createTranslator, useTranslations } from 'next-intl';
+import type { IntlError } from 'next-intl';
+import clsx from 'clsx';
+import type { MessagePreviewProps } from '../types';
+import { parseMessage, getMessageArguments } from '../lib/icu';
+import type { MessageArgumentType } from '../lib/icu';
+
+const RTL_LOCALES = ['ar', 'he', 'fa', 'ur'];
+
+const NUMBER_TYPES: MessageArgumentType[] = ['number', 'plural', 'selectordinal'];
+const DATE_TYPES: MessageArgumentType[] = ['date', 'time'];
+
+const DEFAULT_NUMBER = '2';
+
+// Arguments of every locale that parses; the first type seen wins
+const collectArguments = (messages: Record<string, string>, locales: string[]) => {
+  const result: Record<string, MessageArgumentType> = {};
+
+  locales.forEach(locale => {
+    const message = messages[locale];
+    if (!message) return;
+
+    try {
+      const args = getMessageArguments(parseMessage(message));
+      Object.keys(args).forEach(name => {
+        if (!result[name]) result[name] = args[name];
+      });
+    } catch {
+      // Reported by the translator below
+    }
+  });
+
+  return result;
+};
+
+const renderTag = (tag: string) => (chunks: React.ReactNode) => {
+  switch (tag) {
+    case 'b':
+    case 'strong':
+      return <strong>{chunks}</strong>;
+    case 'i':
+    case 'em':
+      return <em>{chunks}</em>;
+    default:
+      return <span className="underline decoration-dotted" title={`<${tag}>`}>{chunks}</span>;
+  }
+};
+
+const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+export const MessagePreview: React.FC<MessagePreviewProps> = ({
+  messages,
+  locales,
+  sampleValues = {},
+  enableRTL = false,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+  const [inputs, setInputs] = useState<Record<string, string>>(sampleValues);
+  const [now] = useState(() => new Date());
+
+  const args = useMemo(() => collectArguments(messages, locales), [messages, locales]);
+  const names = Object.keys(args).filter(name => args[name] !== 'tag');
+
+  const values = useMemo(() => {
+    const result: Record<string, any> = {};
+
+    Object.keys(args).forEach(name => {
+      const type = args[name];
+      const input = inputs[name];
+
+      if (type === 'tag') {
+        const tag = name.slice(1, -1);
+        result[tag] = renderTag(tag);
+      } else if (NUMBER_TYPES.includes(type)) {
+        const number = Number(input || DEFAULT_NUMBER);
+        result[name] = isNaN(number) ? 0 : number;
+      } else if (DATE_TYPES.includes(type)) {
+        const date = input ? new Date(input) : now;
+        result[name] = isNaN(date.getTime()) ? now : date;
+      } else if (type === 'select') {
+        result[name] = input || 'other';
+      } else {
+        result[name] = input || name;
+      }
+    });
+
+    return result;
+  }, [args, inputs, now]);
+
+  const previews = useMemo(() => locales.map(locale => {
+    const message = messages[locale];
+    if (!message) {
+      return { locale, output: null, error: null };
+    }
+
+    const errors: string[] = [];
+    const translate = createTranslator({
+      locale,
+      messages: { preview: message },
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      onError: (intlError: IntlError) => {
+        errors.push(intlError.message);
+      },
+      getMessageFallback: () => ''
+    });
+    const output = translate.rich('preview', values);
+
+    return { locale, output, error: errors[0] || null };
+  }), [locales, messages, values]);
+
+  const inputType = (type: MessageArgumentType) => NUMBER_TYPES.includes(type)
+    ? 'number'
+    : DATE_TYPES.includes(type) ? 'datetime-local' : 'text';
+
+  const placeholder = (name: string, type: MessageArgumentType) => NUMBER_TYPES.includes(type)
+    ? DEFAULT_NUMBER
+    : type === 'select' ? 'other' : name;
+
+  return (
+    <div className={clsx('space-y-3', className)}>
+      {/* Sample arguments */}
+      {names.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-nia-secondary">{t('preview.arguments')}</span>
+          {names.map((name) => (
+            <label key={name} className="flex items-center gap-1 text-xs text-nia-foreground/80">
+              <span className="font-mono">{name}</span>
+              <input
+                type={inputType(args[name])}
+                value={inputs[name] ?? (DATE_TYPES.includes(args[name]) ? toDateInput(now) : '')}
+                onChange={(e) => setInputs(prev => ({ ...prev, [name]: e.target.value }))}
+                placeholder={placeholder(name, args[name])}
+                className="w-32 px-2 py-1 text-xs border border-nia-border rounded bg-nia-background text-nia-foreground"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Formatted messages */}
+      <dl className="space-y-1">
+        {previews.map(({ locale, output, error }) => (
+          <div key={locale} className="flex items-baseline gap-3 text-sm">
+            <dt className="w-10 shrink-0 text-xs font-medium text-nia-secondary uppercase">
+              {locale}
+            </dt>
+            <dd
+              className="flex-1 text-nia-foreground"
+              dir={enableRTL && RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr'}
+            >
+              {error ? (
+                <span className="text-xs text-nia-danger">{error}</span>
+              ) : output === null ? (
+                <span className="text-nia-secondary/70 italic">{t('emptyTranslation')}</span>
+              ) : (
+                output
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
@@ -65,7 +65,7 @@ export const PaginationControls: React.FC<PaginationProps> = ({
     )}>
       {/* Results info */}
       <div className="flex items-center gap-4">
-        <p className="text-sm text-gray-700 dark:text-gray-300">
+        <p className="text-sm text-nia-foreground/80">
           Showing <span className="font-medium">{startItem}</span> to{' '}
           <span className="font-medium">{endItem}</span> of{' '}
           <span className="font-medium">{totalCount}</span> results
@@ -74,7 +74,7 @@ export const PaginationControls: React.FC<PaginationProps> = ({
         {/* Page size selector */}
         {showPageSizeSelector && (
           <div className="flex items-center gap-2">
-            <label htmlFor="page-size" className="text-sm text-gray-700 dark:text-gray-300">
+            <label htmlFor="page-size" className="text-sm text-nia-foreground/80">
               Show:
             </label>
             <select
@@ -82,7 +82,7 @@ export const PaginationControls: React.FC<PaginationProps> = ({
               value={pageSize}
               onChange={(e) => onPageSizeChange(parseInt(e.target.value))}
               disabled={loading}
-              className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+              className="text-sm border border-nia-border rounded px-2 py-1 bg-nia-background text-nia-foreground disabled:opacity-50"
             >
               {pageSizeOptions.map((size) => (
                 <option key={size} value={size}>
@@ -101,7 +101,7 @@ export const PaginationControls: React.FC<PaginationProps> = ({
           <button
             onClick={() => onPageChange(currentPage - 1)}
             disabled={currentPage <= 1 || loading}
-            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-l-lg hover:bg-gray-50 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-nia-secondary bg-nia-background border border-nia-border rounded-l-lg hover:bg-nia-subtle hover:text-nia-foreground disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <ChevronLeft size={16} />
             Previous
@@ -114,7 +114,7 @@ export const PaginationControls: React.FC<PaginationProps> = ({
                 return (
                   <span
                     key={`dots-${index}`}
-                    className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border-t border-b border-gray-300 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-400"
+                    className="px-3 py-2 text-sm font-medium text-nia-foreground/80 bg-nia-background border-t border-b border-nia-border"
                   >
                     ...
                   </span>
@@ -130,10 +130,10 @@ export const PaginationControls: React.FC<PaginationProps> = ({
                   onClick={() => onPageChange(pageNumber)}
                   disabled={loading}
                   className={clsx(
-                    'px-3 py-2 text-sm font-medium border-t border-b border-gray-300 dark:border-gray-600 disabled:cursor-not-allowed',
+                    'px-3 py-2 text-sm font-medium border-t border-b border-nia-border disabled:cursor-not-allowed',
                     isActive
-                      ? 'z-10 bg-blue-50 border-blue-500 text-blue-600 dark:bg-blue-900/50 dark:border-blue-500 dark:text-blue-400'
-                      : 'bg-white text-gray-500 hover:bg-gray-50 hover:text-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white',
+                      ? 'z-10 bg-nia-primary/10 border-nia-primary text-nia-primary'
+                      : 'bg-nia-background text-nia-secondary hover:bg-nia-subtle hover:text-nia-foreground',
                     loading && 'opacity-50'
                   )}
                 >
@@ -147,7 +147,7 @@ export const PaginationControls: React.FC<PaginationProps> = ({
           <button
             onClick={() => onPageChange(currentPage + 1)}
             disabled={currentPage >= totalPages || loading}
-            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-r-lg hover:bg-gray-50 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-nia-secondary bg-nia-background border border-nia-border rounded-r-lg hover:bg-nia-subtle hover:text-nia-foreground disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Next
             <ChevronRight size={16} />
@@ -157,8 +157,8 @@ export const PaginationControls: React.FC<PaginationProps> = ({
 
       {/* Loading indicator */}
       {loading && (
-        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
-          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+        <div className="flex items-center gap-2 text-sm text-nia-secondary">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-nia-primary"></div>
           Loading...
         </div>
       )}
@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Plus, X } from 'lucide-react';
+import clsx from 'clsx';
+import type { PluralEditorProps } from '../types';
+import { splitPluralMessage, joinPluralMessage } from '../lib/icu';
+import type { PluralMessage } from '../lib/icu';
+import { getPluralRule, PLURAL_CATEGORIES } from '../lib/plural-rules';
+import type { PluralCategory } from '../lib/plural-rules';
+
+// Start from the reference plural argument while the locale has no message yet
+const toParts = (value: string, referenceMessage?: string): PluralMessage | null => {
+  if (value.trim()) {
+    return splitPluralMessage(value);
+  }
+
+  const reference = referenceMessage ? splitPluralMessage(referenceMessage) : null;
+  return reference
+    ? { prefix: '', name: reference.name, offset: reference.offset, options: {}, suffix: '' }
+    : null;
+};
+
+// Exact matches first, then CLDR categories in their usual order, then anything else
+const orderSelectors = (selectors: string[]): string[] => {
+  const unique = Array.from(new Set(selectors));
+  const rank = (selector: string) => selector.startsWith('=')
+    ? -1
+    : PLURAL_CATEGORIES.includes(selector as PluralCategory)
+      ? PLURAL_CATEGORIES.indexOf(selector as PluralCategory)
+      : PLURAL_CATEGORIES.length;
+
+  return unique.sort((a, b) => rank(a) - rank(b));
+};
+
+export const PluralEditor: React.FC<PluralEditorProps> = ({
+  locale,
+  value,
+  onChange,
+  referenceMessage,
+  dir = 'ltr',
+  className = ''
+}) => {
+  const [parts, setParts] = useState<PluralMessage | null>(() => toParts(value, referenceMessage));
+  const [exactValue, setExactValue] = useState('');
+  const emitted = useRef(value);
+
+  // Follow changes made outside the editor. Our own output may not parse
+  // while an option is half typed, so it is never read back.
+  useEffect(() => {
+    if (value === emitted.current) return;
+    emitted.current = value;
+
+    const next = toParts(value, referenceMessage);
+    if (next) {
+      setParts(next);
+    }
+  }, [value, referenceMessage]);
+
+  if (!parts) {
+    return null;
+  }
+
+  const rule = getPluralRule(locale);
+  const rows = orderSelectors([...Object.keys(parts.options), ...rule.categories]);
+  const isRequired = (selector: string) => rule.categories.includes(selector as PluralCategory);
+  const missing = rule.categories.filter(category => !parts.options[category]?.trim());
+  const extra = rows.filter(selector =>
+    !selector.startsWith('=') && !isRequired(selector) && parts.options[selector]?.trim()
+  );
+
+  const update = (next: PluralMessage) => {
+    // Empty options fall back to "other", which always stays in the message
+    const options: Record<string, string> = {};
+    orderSelectors(Object.keys(next.options)).forEach(selector => {
+      const text = next.options[selector];
+      if (text || selector === 'other') {
+        options[selector] = text;
+      }
+    });
+
+    if (!('other' in options)) {
+      options.other = '';
+    }
+
+    const message = joinPluralMessage({ ...next, options });
+    emitted.current = message;
+    setParts(next);
+    onChange(message);
+  };
+
+  const setOption = (selector: string, text: string) => {
+    update({ ...parts, options: { ...parts.options, [selector]: text } });
+  };
+
+  const removeOption = (selector: string) => {
+    const options = { ...parts.options };
+    delete options[selector];
+    update({ ...parts, options });
+  };
+
+  const handleAddExact = () => {
+    const number = exactValue.trim();
+    if (!/^\d+$/.test(number)) return;
+
+    const selector = `=${number}`;
+    if (!(selector in parts.options)) {
+      setParts({ ...parts, options: { ...parts.options, [selector]: '' } });
+    }
+    setExactValue('');
+  };
+
+  const inputClasses = 'flex-1 px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-nia-primary focus:border-nia-primary';
+
+  const textRow = (label: string, text: string, field: 'prefix' | 'suffix') => (
+    <div className="flex items-center gap-2">
+      <span className="w-28 text-xs text-nia-secondary">{label}</span>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => update({ ...parts, [field]: e.target.value })}
+        dir={dir}
+        className={clsx(inputClasses, 'border-nia-border')}
+      />
+    </div>
+  );
+
+  return (
+    <div className={clsx('space-y-2 p-3 border border-nia-border rounded-lg', className)}>
+      <div className="text-xs font-mono text-nia-secondary">
+        {`{${parts.name}, plural${parts.offset ? `, offset:${parts.offset}` : ''}}`}
+      </div>
+
+      {parts.prefix && textRow('Before', parts.prefix, 'prefix')}
+
+      {rows.map((selector) => {
+        const isExtra = !selector.startsWith('=') && !isRequired(selector);
+        const example = rule.examples[selector as PluralCategory];
+
+        return (
+          <div key={selector} className="flex items-center gap-2">
+            <label
+              htmlFor={`plural-${locale}-${selector}`}
+              className="w-28 text-xs text-nia-foreground/80"
+            >
+              <span className="font-mono">{selector}</span>
+              {example && (
+                <span className="block text-nia-secondary/70 truncate" title={example}>
+                  {example}
+                </span>
+              )}
+            </label>
+            <input
+              id={`plural-${locale}-${selector}`}
+              type="text"
+              value={parts.options[selector] || ''}
+              onChange={(e) => setOption(selector, e.target.value)}
+              placeholder={selector === 'other' ? '# items' : undefined}
+              dir={dir}
+              className={clsx(inputClasses, isExtra ? 'border-nia-warning' : 'border-nia-border')}
+            />
+            {(isExtra || selector.startsWith('=')) && (
+              <button
+                type="button"
+                onClick={() => removeOption(selector)}
+                title="Remove"
+                className="p-1 text-nia-secondary/70 hover:text-nia-danger rounded"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {parts.suffix && textRow('After', parts.suffix, 'suffix')}
+
+      {/* Exact matches such as =0 */}
+      <div className="flex items-center gap-2">
+        <span className="w-28 text-xs text-nia-secondary">Exact value</span>
+        <input
+          type="number"
+          min={0}
+          value={exactValue}
+          onChange={(e) => setExactValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddExact();
+            }
+          }}
+          className="w-20 px-2 py-1 text-xs border border-nia-border rounded bg-nia-background text-nia-foreground"
+        />
+        <button
+          type="button"
+          onClick={handleAddExact}
+          className="flex items-center gap-1 text-xs text-nia-primary hover:underline"
+        >
+          <Plus size={12} />
+          Add
+        </button>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-nia-warning">
+          <AlertTriangle size={12} />
+          {locale.toUpperCase()} needs: {missing.join(', ')}
+        </p>
+      )}
+      {extra.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-nia-warning">
+          <AlertTriangle size={12} />
+          Not used in {locale.toUpperCase()}: {extra.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import { Check, X, Edit } from 'lucide-react';
+import clsx from 'clsx';
+import type { ReviewQueueProps } from '../types';
+import { getLocalesInStatus } from '../lib/review';
+
+const RTL_LOCALES = ['ar', 'he', 'fa', 'ur'];
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({
+  translations,
+  supportedLocales,
+  onApprove,
+  onReject,
+  onEdit,
+  canApprove = true,
+  enableRTL = true,
+  customStyles = {}
+}) => {
+  const t = useTranslations('translationManager');
+
+  // Locales outside supportedLocales are not shown, so they are not approved either
+  const pending = translations
+    .map(translation => ({
+      translation,
+      locales: getLocalesInStatus(translation, 'needs-review').filter(l => supportedLocales.includes(l))
+    }))
+    .filter(item => item.locales.length > 0);
+
+  if (pending.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 text-sm text-nia-secondary italic">
+        {t('review.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <ul className={clsx('h-full overflow-y-auto divide-y divide-nia-border', customStyles.table)}>
+      {pending.map(({ translation, locales }) => (
+        <li key={translation.id || translation.key} className="px-4 py-3">
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <div className="min-w-0">
+              <div className="font-mono text-sm text-nia-foreground truncate">{translation.key}</div>
+              {translation.metadata?.context && (
+                <div className="text-xs text-nia-secondary truncate">{translation.metadata.context}</div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-1 shrink-0">
+              {canApprove && locales.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onApprove(translation, locales)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-nia-success hover:bg-nia-success/10 rounded"
+                >
+                  <Check size={12} />
+                  {t('review.approveAll')}
+                </button>
+              )}
+              {onEdit && (
+                <button
+                  type="button"
+                  onClick={() => onEdit(translation)}
+                  className="p-1 text-nia-secondary/70 hover:text-nia-primary rounded"
+                  title={t('edit')}
+                >
+                  <Edit size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <dl className="space-y-1">
+            {locales.map(locale => (
+              <div key={locale} className="flex items-baseline gap-3 text-sm">
+                <dt className="w-10 shrink-0 text-xs font-medium text-nia-secondary uppercase">
+                  {locale}
+                </dt>
+                <dd
+                  className="flex-1 min-w-0 break-words text-nia-foreground/80"
+                  dir={enableRTL && RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr'}
+                >
+                  {translation.translations[locale]}
+                </dd>
+                {canApprove && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => onApprove(translation, [locale])}
+                      className="p-1 text-nia-success hover:bg-nia-success/10 rounded"
+                      title={t('review.approve')}
+                    >
+                      <Check size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onReject(translation, [locale])}
+                      className="p-1 text-nia-danger hover:bg-nia-danger/10 rounded"
+                      title={t('review.reject')}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </dl>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { RotateCcw } from 'lucide-react';
+import clsx from 'clsx';
+import type { RevisionHistoryProps, TranslationRevision } from '../types';
+
+const RTL_LOCALES = ['ar', 'he', 'fa', 'ur'];
+
+// Locales whose value differs between the two sides of a revision
+const changedLocales = (revision: TranslationRevision, supportedLocales: string[]) => {
+  const previous = revision.previous || {};
+  const current = revision.current || {};
+  const locales = supportedLocales.filter(locale => (previous[locale] || '') !== (current[locale] || ''));
+
+  // Locales dropped from the config still show up when they changed
+  Object.keys({ ...previous, ...current }).forEach(locale => {
+    if (!locales.includes(locale) && (previous[locale] || '') !== (current[locale] || '')) {
+      locales.push(locale);
+    }
+  });
+
+  return locales;
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  translation,
+  supportedLocales,
+  onLoad,
+  onRestore,
+  enableRTL = false,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+  const [revisions, setRevisions] = useState<TranslationRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Keyed on the translation rather than onLoad, which is usually an inline
+  // function. A restore bumps updatedAt, so the new revision shows up too
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    onLoad(translation)
+      .then(result => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [translation.id, translation.updatedAt]);
+
+  const handleRestore = async (revision: TranslationRevision) => {
+    if (!onRestore) return;
+
+    setRestoringId(revision.id);
+    try {
+      await onRestore(translation, revision);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (error) {
+    return <p className={clsx('text-xs text-nia-danger', className)}>{error}</p>;
+  }
+
+  if (revisions === null) {
+    return <p className={clsx('text-xs text-nia-secondary', className)}>{t('history.loading')}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className={clsx('text-xs text-nia-secondary italic', className)}>{t('history.empty')}</p>;
+  }
+
+  return (
+    <ol className={clsx('space-y-3', className)}>
+      {revisions.map((revision, index) => (
+        <li key={revision.id} className="flex items-start gap-4 text-sm">
+          <div className="w-44 shrink-0 text-xs text-nia-secondary">
+            <div className="font-medium text-nia-foreground/80">
+              {t(`history.actions.${revision.action}`)}
+            </div>
+            <div>{new Date(revision.timestamp).toLocaleString()}</div>
+            {revision.author && <div>{revision.author}</div>}
+          </div>
+
+          <dl className="flex-1 space-y-1">
+            {changedLocales(revision, supportedLocales).map(locale => (
+              <div key={locale} className="flex items-baseline gap-3">
+                <dt className="w-10 shrink-0 text-xs font-medium text-nia-secondary uppercase">
+                  {locale}
+                </dt>
+                <dd
+                  className="flex-1 space-x-2"
+                  dir={enableRTL && RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr'}
+                >
+                  {revision.previous?.[locale] && (
+                    <del className="text-nia-danger">{revision.previous[locale]}</del>
+                  )}
+                  {revision.current?.[locale] && (
+                    <ins className="no-underline text-nia-success-hover">{revision.current[locale]}</ins>
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          {/* The newest revision is the current state, older ones can be brought back */}
+          {onRestore && index > 0 && revision.current && (
+            <button
+              onClick={() => handleRestore(revision)}
+              disabled={restoringId !== null}
+              className={clsx(
+                'flex items-center gap-1 px-2 py-1 text-xs text-nia-primary hover:bg-nia-primary/10 rounded',
+                restoringId !== null && 'opacity-50 cursor-not-allowed'
+              )}
+            >
+              <RotateCcw size={12} />
+              {t('history.restore')}
+            </button>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
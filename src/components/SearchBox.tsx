@@ -63,7 +63,7 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
           'absolute inset-y-0 flex items-center pointer-events-none',
           enableRTL ? 'right-0 pr-3' : 'left-0 pl-3'
         )}>
-          <Search className="h-4 w-4 text-gray-400" />
+          <Search className="h-4 w-4 text-nia-secondary/70" />
         </div>
 
         {/* Input field */}
@@ -74,10 +74,8 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
           onChange={(e) => handleInputChange(e.target.value)}
           placeholder={placeholder}
           className={clsx(
-            'block w-full rounded-lg border border-gray-300 bg-white py-2 text-sm text-gray-900 placeholder-gray-500',
-            'focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500',
-            'dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400',
-            'dark:focus:border-blue-400 dark:focus:ring-blue-400',
+            'block w-full rounded-lg border border-nia-border bg-nia-background py-2 text-sm text-nia-foreground placeholder-nia-secondary',
+            'focus:border-nia-primary focus:outline-none focus:ring-1 focus:ring-nia-primary',
             enableRTL ? 'pr-9 pl-9' : 'pl-9 pr-9'
           )}
           dir={enableRTL ? 'rtl' : 'ltr'}
@@ -89,7 +87,7 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
             type="button"
             onClick={handleClear}
             className={clsx(
-              'absolute inset-y-0 flex items-center px-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300',
+              'absolute inset-y-0 flex items-center px-2 text-nia-secondary/70 hover:text-nia-foreground',
               enableRTL ? 'left-0' : 'right-0'
             )}
             title="Clear search"
@@ -1,35 +1,66 @@
 'use client';
 
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Download, Upload, Save, BarChart3, Trash2, RefreshCw } from 'lucide-react';
+import { Plus, Download, Upload, Save, BarChart3, Trash2, RefreshCw, Filter } from 'lucide-react';
 import clsx from 'clsx';
 
 import { TranslationTable } from './TranslationTable';
 import { TranslationForm } from './TranslationForm';
 import { SearchBox } from './SearchBox';
+import { FilterPanel } from './FilterPanel';
 import { PaginationControls } from './PaginationControls';
+import { InfiniteScrollFooter } from './InfiniteScrollFooter';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ErrorMessage } from './ErrorMessage';
 import { ConfirmDialog } from './ConfirmDialog';
+import { UndoRedoControls } from './UndoRedoControls';
+import { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
+
+import { useUndoRedo } from '../hooks/useUndoRedo';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import type { ShortcutHandlers } from '../hooks/useKeyboardShortcuts';
 
 import { StandaloneAPI } from '../lib/standalone-api';
 import { LocalStorageAdapter, IndexedDBAdapter, MemoryStorageAdapter } from '../lib/storage';
 import { FileManager } from '../lib/file-manager';
+import { getExportFileExtension } from '../lib/import-export';
+import { translationUtils } from '../lib/utils';
+import { resolveShortcuts, pickShortcuts } from '../lib/shortcuts';
+import { DEFAULT_FEATURES, CSS_PREFIXES } from '../lib/constants';
+import { themeToCssVariables } from '../lib/theme';
 
 import type {
   Translation,
   TranslationManagerProps,
-  StorageAdapter
+  StorageAdapter,
+  ExportOptions,
+  TranslationFilter,
+  TranslationRevision,
+  TranslationComment,
+  CommentInput,
+  SuggestionOptions,
+  ShortcutAction,
+  TranslationConflict,
+  ImportResult
 } from '../types';
+import { ConflictError } from '../types';
 
 interface StandaloneTranslationManagerProps extends Omit<TranslationManagerProps, 'apiEndpoint'> {
   storageType?: 'localStorage' | 'indexedDB' | 'memory';
   messagesPath?: string;
+  // Namespace files to load from messagesPath with a split fileLayout
+  namespaces?: string[];
   autoSave?: boolean;
   autoExport?: boolean;
   showStatistics?: boolean;
+  // Recorded as the author of every revision made in this editor
+  author?: string;
+  // Refresh when another tab changes the same storage and catch conflicting edits
+  syncTabs?: boolean;
+  // Called after every file import with its counts, errors and warnings
+  onImport?: (result: ImportResult) => void;
 }
 
 export const StandaloneTranslationManager: React.FC<StandaloneTranslationManagerProps> = ({
@@ -39,9 +70,19 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
   enableExport = true,
   enableImport = true,
   enableBatchOperations = false,
+  enableFiltering = DEFAULT_FEATURES.ENABLE_FILTERING,
+  enableHistory = DEFAULT_FEATURES.ENABLE_HISTORY,
+  enableComments = DEFAULT_FEATURES.ENABLE_COMMENTS,
+  enableSuggestions = DEFAULT_FEATURES.ENABLE_SUGGESTIONS,
+  enableKeyboardShortcuts = DEFAULT_FEATURES.ENABLE_KEYBOARD_SHORTCUTS,
+  keyboardShortcuts,
   pageSize = 25,
+  paginationMode = 'pages',
+  virtualize = false,
   permissions = { canCreate: true, canEdit: true, canDelete: true, canExport: true, canImport: true },
   theme,
+  darkTheme,
+  colorScheme = DEFAULT_FEATURES.ENABLE_DARK_MODE ? 'system' : 'light',
   className = '',
   customStyles = {},
   components = {},
@@ -50,13 +91,19 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
   onError,
   storageType = 'localStorage',
   messagesPath = '/messages',
+  fileLayout = 'single',
+  namespaces,
   autoSave = true,
   autoExport = true,
-  showStatistics = true
+  showStatistics = true,
+  author,
+  syncTabs = DEFAULT_FEATURES.ENABLE_TAB_SYNC,
+  onImport
 }) => {
   const t = useTranslations('translationManager');
   const locale = useLocale();
   const isRTL = enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale);
+  const isInfinite = paginationMode === 'infinite';
 
   // Initialize API
   const api = useMemo(() => {
@@ -75,33 +122,42 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         break;
     }
 
-    const fileManager = new FileManager(messagesPath, supportedLocales);
+    const fileManager = new FileManager(messagesPath, supportedLocales, { layout: fileLayout, namespaces });
 
     return new StandaloneAPI({
       storage,
       fileManager,
       supportedLocales,
+      defaultLocale,
       messagesPath,
       autoSave,
-      autoExport
+      autoExport,
+      author,
+      syncChannel: syncTabs ? undefined : false
     });
-  }, [storageType, messagesPath, supportedLocales, autoSave, autoExport]);
+  }, [storageType, messagesPath, fileLayout, namespaces, supportedLocales, defaultLocale, autoSave, autoExport, author, syncTabs]);
 
   // State
   const [translations, setTranslations] = useState<Translation[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<TranslationFilter>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [currentPageSize, setCurrentPageSize] = useState(pageSize);
   const [totalCount, setTotalCount] = useState(0);
   const [totalPages, setTotalPages] = useState(1);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   // UI State
   const [showForm, setShowForm] = useState(false);
   const [editingTranslation, setEditingTranslation] = useState<Translation | null>(null);
   const [selectedItems, setSelectedItems] = useState<(string | number)[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
   const [showStatisticsModal, setShowStatisticsModal] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const searchRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [statistics, setStatistics] = useState<any>(null);
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
@@ -114,26 +170,39 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
     message: '',
     onConfirm: () => {}
   });
+  // A save that found the translation changed in another tab
+  const [conflict, setConflict] = useState<TranslationConflict | null>(null);
+
+  // Session undo/redo, replayed through the API so storage and files stay in sync
+  const { record: recordChange, undo: undoChange, redo: redoChange, canUndo, canRedo } = useUndoRedo();
+  const undoOperations = useMemo(() => ({
+    create: (translation: Omit<Translation, 'id'>) => api.createTranslation(translation),
+    update: (id: string | number, updates: Partial<Translation>) => api.updateTranslation(id, updates),
+    delete: (id: string | number) => api.deleteTranslation(id)
+  }), [api]);
 
   // Load translations
   const loadTranslations = useCallback(async (
     page: number = currentPage,
     size: number = currentPageSize,
-    search: string = searchTerm
+    search: string = searchTerm,
+    filter: TranslationFilter = filters
   ) => {
     try {
       setLoading(true);
       setError(null);
 
+      // Infinite mode reloads every page loaded so far
       const result = await api.getTranslations({
-        page,
-        pageSize: size,
-        search
+        page: isInfinite ? 1 : page,
+        pageSize: isInfinite ? page * size : size,
+        search,
+        filter
       });
 
       setTranslations(result.results);
       setTotalCount(result.count);
-      setTotalPages(result.totalPages);
+      setTotalPages(Math.ceil(result.count / size));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load translations';
       setError(errorMessage);
@@ -141,7 +210,39 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
     } finally {
       setLoading(false);
     }
-  }, [api, currentPage, currentPageSize, searchTerm, onError]);
+  }, [api, currentPage, currentPageSize, searchTerm, filters, onError, isInfinite]);
+
+  // Append the next page in infinite mode
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || translations.length >= totalCount) return;
+
+    const page = currentPage + 1;
+    try {
+      setLoadingMore(true);
+      setError(null);
+
+      const result = await api.getTranslations({
+        page,
+        pageSize: currentPageSize,
+        search: searchTerm,
+        filter: filters
+      });
+
+      setTranslations(prev => {
+        const loaded = new Set(prev.map(t => String(t.id)));
+        return prev.concat(result.results.filter(t => !loaded.has(String(t.id))));
+      });
+      setCurrentPage(page);
+      setTotalCount(result.count);
+      setTotalPages(result.totalPages);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load translations';
+      setError(errorMessage);
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [api, loading, loadingMore, translations.length, totalCount, currentPage, currentPageSize, searchTerm, filters, onError]);
 
   // Load statistics
   const loadStatistics = useCallback(async () => {
@@ -165,23 +266,111 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
   }, []);
 
   const handleFormSubmit = useCallback(async (translationData: Translation) => {
+    // A translation deleted in another tab while it was edited is created again
+    const recreate = Boolean(conflict && !conflict.theirs);
+    // After a conflict the merged values are checked against theirs
+    const base = conflict?.theirs || editingTranslation;
+
     try {
-      if (editingTranslation) {
-        await api.updateTranslation(editingTranslation.id!, translationData);
+      if (base && !recreate) {
+        // Inline table edits open the form with their new values, so undo
+        // restores what was stored
+        const before = conflict?.theirs || translations.find(t => t.id === base.id) || base;
+        const updated = await api.updateTranslation(base.id!, translationData, { base });
+        recordChange({ action: 'update', changes: [{ before, after: updated }] });
       } else {
-        await api.createTranslation(translationData);
+        const { id: _id, version: _version, ...data } = translationData;
+        const created = await api.createTranslation(data);
+        recordChange({ action: 'create', changes: [{ after: created }] });
       }
       
+      setConflict(null);
       setShowForm(false);
       setEditingTranslation(null);
       await loadTranslations();
       onTranslationChange?.(translations);
     } catch (err) {
+      // The form stays open with the merge dialog
+      if (err instanceof ConflictError && editingTranslation) {
+        setConflict({ theirs: err.current });
+        return;
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to save translation';
       setError(errorMessage);
       onError?.(err instanceof Error ? err : new Error(errorMessage));
     }
-  }, [editingTranslation, api, loadTranslations, translations, onTranslationChange, onError]);
+  }, [editingTranslation, conflict, api, loadTranslations, translations, onTranslationChange, onError, recordChange]);
+
+  // Closing the form after a conflict shows theirs
+  const handleFormCancel = useCallback(() => {
+    setShowForm(false);
+    if (conflict) {
+      setConflict(null);
+      loadTranslations();
+    }
+  }, [conflict, loadTranslations]);
+
+  const handleLoadHistory = useCallback((translation: Translation) => {
+    return api.getHistory(translation.id!);
+  }, [api]);
+
+  const handleRestoreRevision = useCallback(async (translation: Translation, revision: TranslationRevision) => {
+    const restored = await api.restoreRevision(translation.id!, revision.id);
+    recordChange({ action: 'restore', changes: [{ before: translation, after: restored }] });
+    await loadTranslations();
+  }, [api, loadTranslations, recordChange]);
+
+  const handleLoadComments = useCallback((translation: Translation) => {
+    return api.getComments(translation.id!);
+  }, [api]);
+
+  const handleSuggest = useCallback((text: string, locale: string, options?: SuggestionOptions) => {
+    return api.getSuggestions(text, locale, options);
+  }, [api]);
+
+  // A new thread counts as open until it is resolved
+  const handleAddComment = useCallback(async (translation: Translation, comment: CommentInput) => {
+    const added = await api.addComment(translation.id!, comment);
+    if (!added.parentId) {
+      setTranslations(prev => prev.map(t =>
+        t.id === translation.id ? { ...t, openComments: (t.openComments || 0) + 1 } : t
+      ));
+    }
+    return added;
+  }, [api]);
+
+  const handleResolveComment = useCallback(async (translation: Translation, comment: TranslationComment, resolved: boolean) => {
+    const thread = await api.resolveComment(comment.id, resolved);
+    setTranslations(prev => prev.map(t =>
+      t.id === translation.id
+        ? { ...t, openComments: Math.max(0, (t.openComments || 0) + (resolved ? -1 : 1)) }
+        : t
+    ));
+    return thread;
+  }, [api]);
+
+  const handleUndo = useCallback(async () => {
+    try {
+      await undoChange(undoOperations);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to undo change';
+      setError(errorMessage);
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+    }
+    await loadTranslations();
+  }, [undoChange, undoOperations, loadTranslations, onError]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      await redoChange(undoOperations);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to redo change';
+      setError(errorMessage);
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+    }
+    await loadTranslations();
+  }, [redoChange, undoOperations, loadTranslations, onError]);
 
   const handleDeleteTranslation = useCallback((id: string | number) => {
     setConfirmDialog({
@@ -190,7 +379,11 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
       message: t('confirmDeleteMessage'),
       onConfirm: async () => {
         try {
+          const previous = translations.find(t => t.id === id);
           await api.deleteTranslation(id);
+          if (previous) {
+            recordChange({ action: 'delete', changes: [{ before: previous }] });
+          }
           await loadTranslations();
           setConfirmDialog(prev => ({ ...prev, isOpen: false }));
           onTranslationChange?.(translations);
@@ -201,7 +394,7 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         }
       }
     });
-  }, [api, loadTranslations, t, translations, onTranslationChange, onError]);
+  }, [api, loadTranslations, t, translations, onTranslationChange, onError, recordChange]);
 
   const handleBulkDelete = useCallback(() => {
     if (selectedItems.length === 0) return;
@@ -213,6 +406,10 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
       onConfirm: async () => {
         try {
           await api.bulkDeleteTranslations(selectedItems);
+          recordChange({
+            action: 'delete',
+            changes: translations.filter(t => selectedItems.includes(t.id!)).map(t => ({ before: t }))
+          });
           setSelectedItems([]);
           await loadTranslations();
           setConfirmDialog(prev => ({ ...prev, isOpen: false }));
@@ -224,12 +421,13 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         }
       }
     });
-  }, [selectedItems, api, loadTranslations, t, translations, onTranslationChange, onError]);
+  }, [selectedItems, api, loadTranslations, t, translations, onTranslationChange, onError, recordChange]);
 
   const handleImport = useCallback(async (file: File) => {
     try {
       setLoading(true);
       const result = await api.importTranslations(file);
+      recordChange({ action: 'import', changes: result.changes || [] });
       await loadTranslations();
       onTranslationChange?.(translations);
       
@@ -239,6 +437,7 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         console.warn('Import errors:', result.errors);
       }
       console.log(message);
+      onImport?.(result);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to import translations';
       setError(errorMessage);
@@ -246,15 +445,15 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
     } finally {
       setLoading(false);
     }
-  }, [api, loadTranslations, translations, onTranslationChange, onError]);
+  }, [api, loadTranslations, translations, onTranslationChange, onError, recordChange, onImport]);
 
-  const handleExport = useCallback(async (format: 'json' | 'csv' = 'json') => {
+  const handleExport = useCallback(async (format: ExportOptions['format'] = 'json') => {
     try {
       const blob = await api.exportTranslations(format);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `translations-${new Date().toISOString().split('T')[0]}.${format}`;
+      a.download = `translations-${new Date().toISOString().split('T')[0]}.${getExportFileExtension(format, blob)}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -293,6 +492,20 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
     return () => clearTimeout(timeoutId);
   }, [currentPageSize, loadTranslations]);
 
+  // Filter handler
+  const handleFiltersChange = useCallback((filter: TranslationFilter) => {
+    setFilters(filter);
+    setCurrentPage(1);
+    loadTranslations(1, currentPageSize, searchTerm, filter);
+  }, [loadTranslations, currentPageSize, searchTerm]);
+
+  // Tags offered by the filter panel
+  const availableTags = useMemo(() => {
+    return Array.from(new Set(translations.flatMap(t => t.metadata?.tags || [])));
+  }, [translations]);
+
+  const activeFilterCount = translationUtils.countActiveFilters(filters);
+
   // Page change handlers
   const handlePageChange = useCallback((page: number) => {
     setCurrentPage(page);
@@ -313,6 +526,19 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
     }
   }, [loadTranslations, loadStatistics, showStatistics]);
 
+  // Another tab changed the storage, reload what is shown. Open edits are
+  // checked against the stored version when they are saved
+  const reloadRef = useRef(() => {});
+  reloadRef.current = () => {
+    loadTranslations();
+    if (showStatistics) {
+      loadStatistics();
+    }
+  };
+
+  useEffect(() => api.onRemoteChange(() => reloadRef.current()), [api]);
+  useEffect(() => () => api.dispose(), [api]);
+
   // File input handler
   const handleFileImport = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -322,9 +548,47 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
     event.target.value = ''; // Reset input
   }, [handleImport]);
 
+  // Theme colors as --nia-* custom properties, see styles.css
+  const themeStyle = useMemo(
+    () => themeToCssVariables(theme, darkTheme) as React.CSSProperties,
+    [theme, darkTheme]
+  );
+
+  // Keyboard shortcuts, undo/redo stay bound even when the others are off.
+  // The open form handles its own save and cancel keys
+
+  const shortcutBindings = useMemo(() => resolveShortcuts(keyboardShortcuts), [keyboardShortcuts]);
+
+  const shortcutHandlers: ShortcutHandlers = {
+    ...(permissions.canEdit && { UNDO: handleUndo, REDO: handleRedo }),
+    ...(enableKeyboardShortcuts && {
+      ...(permissions.canCreate && { CREATE_NEW: handleCreateTranslation }),
+      SAVE: handleSaveToFiles,
+      SEARCH: () => searchRef.current?.querySelector('input')?.focus(),
+      ...(enableExport && permissions.canExport && { EXPORT: () => handleExport('json') }),
+      ...(enableImport && permissions.canImport && { IMPORT: () => importInputRef.current?.click() }),
+      REFRESH: () => { loadTranslations(); },
+      ESCAPE: () => {
+        setShowShortcutHelp(false);
+        setShowStatisticsModal(false);
+        setShowFilters(false);
+        setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+      },
+      HELP: () => setShowShortcutHelp(open => !open)
+    })
+  };
+
+  useKeyboardShortcuts(showForm ? {} : shortcutHandlers, shortcutBindings);
+
+  const activeShortcuts = pickShortcuts(shortcutBindings, [
+    ...(Object.keys(shortcutHandlers) as ShortcutAction[]),
+    ...(permissions.canDelete ? ['DELETE' as const] : [])
+  ]);
+
   return (
     <div
       className={clsx(
+        CSS_PREFIXES.COMPONENT,
         'standalone-translation-manager',
         'flex flex-col h-full',
         isRTL && 'rtl',
@@ -332,6 +596,8 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         className
       )}
       dir={isRTL ? 'rtl' : 'ltr'}
+      data-theme={colorScheme}
+      style={themeStyle}
     >
       {/* Header */}
       <div className={clsx(
@@ -339,10 +605,10 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         customStyles.header
       )}>
         <div>
-          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          <h1 className="text-2xl font-bold text-nia-foreground">
             {t('title')} - Standalone
           </h1>
-          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          <p className="text-sm text-nia-secondary mt-1">
             {t('subtitle', { 
               count: totalCount,
               locales: supportedLocales.join(', ')
@@ -351,11 +617,21 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         </div>
 
         <div className="flex items-center gap-2 flex-wrap">
+          {/* Undo/Redo */}
+          {permissions.canEdit && (
+            <UndoRedoControls
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              canUndo={canUndo && !loading}
+              canRedo={canRedo && !loading}
+            />
+          )}
+
           {/* Statistics Button */}
           {showStatistics && (
             <button
               onClick={() => setShowStatisticsModal(true)}
-              className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-nia-muted hover:bg-nia-border rounded-lg transition-colors"
             >
               <BarChart3 size={16} />
               Statistics
@@ -367,14 +643,15 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
             <>
               <input
                 type="file"
+                ref={importInputRef}
                 id="import-file"
-                accept=".json,.csv"
+                accept=".json,.csv,.xlsx,.xlf,.xliff,.po,.pot"
                 onChange={handleFileImport}
                 className="hidden"
               />
               <label
                 htmlFor="import-file"
-                className="flex items-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors cursor-pointer"
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-nia-success text-white rounded-lg hover:bg-nia-success-hover transition-colors cursor-pointer"
               >
                 <Upload size={16} />
                 Import
@@ -386,7 +663,7 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
           {enableExport && permissions.canExport && (
             <button
               onClick={() => handleExport('json')}
-              className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-nia-primary text-white rounded-lg hover:bg-nia-primary-hover transition-colors"
             >
               <Download size={16} />
               Export
@@ -396,7 +673,7 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
           {/* Save to Files Button */}
           <button
             onClick={handleSaveToFiles}
-            className="flex items-center gap-2 px-3 py-2 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-nia-primary text-white rounded-lg hover:bg-nia-primary-hover transition-colors"
             disabled={loading}
           >
             <Save size={16} />
@@ -406,7 +683,7 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
           {/* Refresh Button */}
           <button
             onClick={() => loadTranslations()}
-            className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-nia-secondary text-white rounded-lg hover:bg-nia-secondary-hover transition-colors"
             disabled={loading}
           >
             <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
@@ -417,7 +694,7 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
           {permissions.canCreate && (
             <button
               onClick={handleCreateTranslation}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              className="flex items-center gap-2 px-4 py-2 bg-nia-primary text-white rounded-lg hover:bg-nia-primary-hover transition-colors"
             >
               <Plus size={16} />
               {t('addNew')}
@@ -428,10 +705,10 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
 
       {/* Search and Filters */}
       <div className={clsx(
-        'flex flex-col sm:flex-row gap-4 p-4 bg-gray-50 dark:bg-gray-800/50',
+        'flex flex-col sm:flex-row gap-4 p-4 bg-nia-subtle',
         customStyles.searchBox
       )}>
-        <div className="flex-1">
+        <div ref={searchRef} className="flex-1">
           <SearchBox
             value={searchTerm}
             onChange={handleSearchChange}
@@ -441,16 +718,38 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
           />
         </div>
 
+        {/* Filter Toggle */}
+        {enableFiltering && (
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={clsx(
+              'flex items-center gap-2 px-3 py-2 text-sm border rounded-lg transition-colors',
+              showFilters || activeFilterCount > 0
+                ? 'border-nia-primary text-nia-primary'
+                : 'border-nia-border text-nia-foreground/80 hover:bg-nia-muted'
+            )}
+            aria-expanded={showFilters}
+          >
+            <Filter size={16} />
+            {t('filters.title')}
+            {activeFilterCount > 0 && (
+              <span className="px-1.5 text-xs bg-nia-primary text-white rounded-full">
+                {activeFilterCount}
+              </span>
+            )}
+          </button>
+        )}
+
         {/* Batch Operations */}
         {enableBatchOperations && selectedItems.length > 0 && (
           <div className="flex items-center gap-2">
-            <span className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="text-sm text-nia-secondary">
               {t('selectedCount', { count: selectedItems.length })}
             </span>
             {permissions.canDelete && (
               <button
                 onClick={handleBulkDelete}
-                className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-nia-danger text-white rounded hover:bg-nia-danger-hover transition-colors"
               >
                 <Trash2 size={14} />
                 {t('deleteSelected')}
@@ -460,6 +759,19 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         )}
       </div>
 
+      {/* Filter Panel */}
+      {enableFiltering && showFilters && (
+        <div className="px-4 pb-4 bg-nia-subtle">
+          <FilterPanel
+            value={filters}
+            onChange={handleFiltersChange}
+            supportedLocales={supportedLocales}
+            availableTags={availableTags}
+            showOpenComments={enableComments}
+          />
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-hidden">
         {error ? (
@@ -485,14 +797,39 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
             onSelectionChange={setSelectedItems}
             customStyles={customStyles}
             enableRTL={isRTL}
+            onLoadHistory={enableHistory ? handleLoadHistory : undefined}
+            onRestoreRevision={handleRestoreRevision}
+            onLoadComments={enableComments ? handleLoadComments : undefined}
+            onAddComment={handleAddComment}
+            onResolveComment={handleResolveComment}
+            onSuggest={enableSuggestions ? handleSuggest : undefined}
+            defaultLocale={defaultLocale}
+            shortcuts={enableKeyboardShortcuts ? shortcutBindings : undefined}
+            virtualized={virtualize || isInfinite}
+            onEndReached={isInfinite ? loadMore : undefined}
           />
         )}
       </div>
 
+      {/* Infinite scroll status */}
+      {isInfinite && translations.length > 0 && (
+        <div className={clsx(
+          'border-t bg-nia-background px-4 py-3',
+          customStyles.pagination
+        )}>
+          <InfiniteScrollFooter
+            loadedCount={translations.length}
+            totalCount={totalCount}
+            loading={loadingMore}
+            onLoadMore={loadMore}
+          />
+        </div>
+      )}
+
       {/* Pagination */}
-      {!loading && translations.length > 0 && (
+      {!isInfinite && !loading && translations.length > 0 && (
         <div className={clsx(
-          'border-t bg-white dark:bg-gray-900 px-4 py-3',
+          'border-t bg-nia-background px-4 py-3',
           customStyles.pagination
         )}>
           <PaginationControls
@@ -517,14 +854,14 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
-            onClick={() => setShowForm(false)}
+            onClick={handleFormCancel}
           >
             <motion.div
               initial={{ scale: 0.95, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.95, opacity: 0 }}
               className={clsx(
-                'bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto',
+                'bg-nia-background rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto',
                 customStyles.modal
               )}
               onClick={(e) => e.stopPropagation()}
@@ -532,13 +869,18 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
               <TranslationForm
                 translation={editingTranslation || undefined}
                 supportedLocales={supportedLocales}
+                defaultLocale={defaultLocale}
                 onSubmit={handleFormSubmit}
-                onCancel={() => setShowForm(false)}
+                onCancel={handleFormCancel}
                 loading={loading}
                 validation={validation}
                 mode={editingTranslation ? 'edit' : 'create'}
                 enableRTL={isRTL}
                 customStyles={customStyles}
+                shortcuts={enableKeyboardShortcuts ? shortcutBindings : undefined}
+                conflict={conflict}
+                onDismissConflict={() => setConflict(null)}
+                onSuggest={enableSuggestions ? handleSuggest : undefined}
               />
             </motion.div>
           </motion.div>
@@ -559,26 +901,26 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
               initial={{ scale: 0.95, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.95, opacity: 0 }}
-              className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6"
+              className="bg-nia-background rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6"
               onClick={(e) => e.stopPropagation()}
             >
               <h2 className="text-2xl font-bold mb-4">Translation Statistics</h2>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
-                <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
-                  <h3 className="text-lg font-semibold text-blue-800 dark:text-blue-200">Total Keys</h3>
-                  <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{statistics.totalKeys}</p>
+                <div className="bg-nia-primary/10 p-4 rounded-lg">
+                  <h3 className="text-lg font-semibold text-nia-primary-hover">Total Keys</h3>
+                  <p className="text-3xl font-bold text-nia-primary">{statistics.totalKeys}</p>
                 </div>
                 
                 {supportedLocales.map(locale => (
-                  <div key={locale} className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg">
-                    <h3 className="text-lg font-semibold text-green-800 dark:text-green-200">
+                  <div key={locale} className="bg-nia-success/10 p-4 rounded-lg">
+                    <h3 className="text-lg font-semibold text-nia-success-hover">
                       {locale.toUpperCase()} Completion
                     </h3>
-                    <p className="text-3xl font-bold text-green-600 dark:text-green-400">
+                    <p className="text-3xl font-bold text-nia-success">
                       {statistics.completionPercentage[locale]}%
                     </p>
-                    <p className="text-sm text-green-600 dark:text-green-400">
+                    <p className="text-sm text-nia-success">
                       {statistics.translatedKeys[locale]} / {statistics.totalKeys}
                     </p>
                   </div>
@@ -587,7 +929,7 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
 
               <button
                 onClick={() => setShowStatisticsModal(false)}
-                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                className="px-4 py-2 bg-nia-secondary text-white rounded-lg hover:bg-nia-secondary-hover transition-colors"
               >
                 Close
               </button>
@@ -596,6 +938,15 @@ export const StandaloneTranslationManager: React.FC<StandaloneTranslationManager
         )}
       </AnimatePresence>
 
+      {/* Keyboard Shortcuts Help */}
+      {enableKeyboardShortcuts && (
+        <KeyboardShortcutsHelp
+          isOpen={showShortcutHelp}
+          onClose={() => setShowShortcutHelp(false)}
+          bindings={activeShortcuts}
+        />
+      )}
+
       {/* Confirm Dialog */}
       <ConfirmDialog
         isOpen={confirmDialog.isOpen}
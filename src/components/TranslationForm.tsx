@@ -1,9 +1,16 @@
 'use client';
 
-import React, { useState } from 'react';
-import { X, Save } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { X, Save, ListTree, Type } from 'lucide-react';
 import clsx from 'clsx';
 import type { TranslationFormProps, Translation } from '../types';
+import { validateMessages, splitPluralMessage } from '../lib/icu';
+import { resolveShortcuts } from '../lib/shortcuts';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { PluralEditor } from './PluralEditor';
+import { MessagePreview } from './MessagePreview';
+import { ConflictDialog } from './ConflictDialog';
+import { TranslationSuggestions } from './TranslationSuggestions';
 
 export const TranslationForm: React.FC<TranslationFormProps> = ({
   translation,
@@ -13,9 +20,23 @@ export const TranslationForm: React.FC<TranslationFormProps> = ({
   loading = false,
   validation = {},
   mode,
+  defaultLocale = supportedLocales[0],
   enableRTL = false,
-  customStyles = {}
+  customStyles = {},
+  shortcuts,
+  conflict,
+  onDismissConflict,
+  onSaveDraft,
+  onSuggest
 }) => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [defaultShortcuts] = useState(() => resolveShortcuts());
+
+  useKeyboardShortcuts({
+    SAVE: () => formRef.current?.requestSubmit(),
+    ESCAPE: onCancel
+  }, shortcuts || defaultShortcuts, Boolean(shortcuts) && !loading && !conflict);
+
   const [formData, setFormData] = useState<{
     key: string;
     translations: Record<string, string>;
@@ -28,6 +49,27 @@ export const TranslationForm: React.FC<TranslationFormProps> = ({
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Suggestions are shown for the locale being edited only
+  const [focusedLocale, setFocusedLocale] = useState<string | null>(null);
+
+  // A locale can use the plural editor when its message, or the default
+  // locale's while it is empty, is a plural
+  const canEditPlural = (locale: string) => {
+    const value = formData.translations[locale] || '';
+    return Boolean(value.trim()
+      ? splitPluralMessage(value)
+      : splitPluralMessage(formData.translations[defaultLocale] || ''));
+  };
+
+  const [pluralLocales, setPluralLocales] = useState<string[]>(
+    () => supportedLocales.filter(canEditPlural)
+  );
+
+  const togglePluralEditor = (locale: string) => {
+    setPluralLocales(prev => prev.includes(locale)
+      ? prev.filter(entry => entry !== locale)
+      : [...prev, locale]);
+  };
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -50,6 +92,16 @@ export const TranslationForm: React.FC<TranslationFormProps> = ({
       }
     }
 
+    // Validate ICU syntax and placeholders against the default locale
+    if (validation.validateMessageFormat !== false) {
+      const messageErrors = validateMessages(formData.translations, defaultLocale);
+      for (const locale of Object.keys(messageErrors)) {
+        if (!newErrors[locale]) {
+          newErrors[locale] = messageErrors[locale].join('. ');
+        }
+      }
+    }
+
     // Custom validation
     if (validation.customValidation) {
       const customError = validation.customValidation({
@@ -72,17 +124,24 @@ export const TranslationForm: React.FC<TranslationFormProps> = ({
       return;
     }
 
-    const translationData: Translation = {
-      ...(translation?.id && { id: translation.id }),
-      key: formData.key,
-      translations: formData.translations,
-      ...(translation?.createdAt && { createdAt: translation.createdAt }),
-      updatedAt: new Date().toISOString()
-    };
+    onSubmit(buildTranslation());
+  };
 
-    onSubmit(translationData);
+  const handleSaveDraft = () => {
+    if (!onSaveDraft || !validateForm()) return;
+    onSaveDraft(buildTranslation());
   };
 
+  // The version it was opened with goes along, so a concurrent change is detected
+  const buildTranslation = (): Translation => ({
+    ...(translation?.id && { id: translation.id }),
+    key: formData.key,
+    translations: formData.translations,
+    ...(translation?.createdAt && { createdAt: translation.createdAt }),
+    updatedAt: new Date().toISOString(),
+    ...(translation?.version !== undefined && { version: translation.version })
+  });
+
   const handleKeyChange = (value: string) => {
     setFormData(prev => ({ ...prev, key: value }));
     if (errors.key) {
@@ -107,22 +166,22 @@ export const TranslationForm: React.FC<TranslationFormProps> = ({
     <div className={clsx('translation-form p-6', customStyles.form)}>
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+        <h2 className="text-xl font-semibold text-nia-foreground">
           {mode === 'create' ? 'Add New Translation' : 'Edit Translation'}
         </h2>
         <button
           type="button"
           onClick={onCancel}
-          className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+          className="p-2 text-nia-secondary/70 hover:text-nia-foreground rounded-lg hover:bg-nia-muted"
         >
           <X size={20} />
         </button>
       </div>
 
-      <form onSubmit={handleSubmit} className="space-y-6">
+      <form ref={formRef} onSubmit={handleSubmit} className="space-y-6">
         {/* Translation Key */}
         <div>
-          <label htmlFor="translation-key" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          <label htmlFor="translation-key" className="block text-sm font-medium text-nia-foreground/80 mb-2">
             Translation Key
           </label>
           <input
@@ -133,80 +192,135 @@ export const TranslationForm: React.FC<TranslationFormProps> = ({
             placeholder="e.g., home.title"
             disabled={mode === 'edit'}
             className={clsx(
-              'w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500',
-              'dark:bg-gray-800 dark:border-gray-600 dark:text-white',
-              errors.key ? 'border-red-500' : 'border-gray-300',
-              mode === 'edit' && 'bg-gray-50 dark:bg-gray-700 cursor-not-allowed',
+              'w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-nia-primary focus:border-nia-primary',
+              errors.key ? 'border-nia-danger' : 'border-nia-border',
+              mode === 'edit' && 'bg-nia-subtle cursor-not-allowed',
               customStyles.input
             )}
           />
           {errors.key && (
-            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.key}</p>
+            <p className="mt-1 text-sm text-nia-danger">{errors.key}</p>
           )}
         </div>
 
         {/* Translation Values */}
         <div className="space-y-4">
-          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Translations</h3>
+          <h3 className="text-lg font-medium text-nia-foreground">Translations</h3>
           
           {supportedLocales.map((locale) => {
             const isRTL = enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale);
+            const showPluralEditor = pluralLocales.includes(locale);
             
             return (
-              <div key={locale}>
-                <label 
-                  htmlFor={`translation-${locale}`}
-                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-                >
-                  {locale.toUpperCase()} Translation
-                  {validation.requiredLocales?.includes(locale) && (
-                    <span className="text-red-500 ml-1">*</span>
+              <div key={locale} onFocus={() => setFocusedLocale(locale)}>
+                <div className="flex items-center justify-between mb-2">
+                  <label 
+                    htmlFor={`translation-${locale}`}
+                    className="block text-sm font-medium text-nia-foreground/80"
+                  >
+                    {locale.toUpperCase()} Translation
+                    {validation.requiredLocales?.includes(locale) && (
+                      <span className="text-nia-danger ml-1">*</span>
+                    )}
+                  </label>
+                  {(showPluralEditor || canEditPlural(locale)) && (
+                    <button
+                      type="button"
+                      onClick={() => togglePluralEditor(locale)}
+                      className="flex items-center gap-1 text-xs text-nia-primary hover:underline"
+                    >
+                      {showPluralEditor ? <Type size={12} /> : <ListTree size={12} />}
+                      {showPluralEditor ? 'Edit as text' : 'Plural editor'}
+                    </button>
                   )}
-                </label>
-                <textarea
-                  id={`translation-${locale}`}
-                  value={formData.translations[locale] || ''}
-                  onChange={(e) => handleTranslationChange(locale, e.target.value)}
-                  placeholder={`Enter ${locale.toUpperCase()} translation...`}
-                  rows={3}
-                  dir={isRTL ? 'rtl' : 'ltr'}
-                  className={clsx(
-                    'w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500',
-                    'dark:bg-gray-800 dark:border-gray-600 dark:text-white resize-vertical',
-                    errors[locale] ? 'border-red-500' : 'border-gray-300',
-                    customStyles.textarea
-                  )}
-                />
+                </div>
+                {showPluralEditor ? (
+                  <PluralEditor
+                    locale={locale}
+                    value={formData.translations[locale] || ''}
+                    onChange={(value) => handleTranslationChange(locale, value)}
+                    referenceMessage={locale !== defaultLocale ? formData.translations[defaultLocale] : undefined}
+                    dir={isRTL ? 'rtl' : 'ltr'}
+                    className={errors[locale] ? 'border-nia-danger' : undefined}
+                  />
+                ) : (
+                  <textarea
+                    id={`translation-${locale}`}
+                    value={formData.translations[locale] || ''}
+                    onChange={(e) => handleTranslationChange(locale, e.target.value)}
+                    placeholder={`Enter ${locale.toUpperCase()} translation...`}
+                    rows={3}
+                    dir={isRTL ? 'rtl' : 'ltr'}
+                    className={clsx(
+                      'w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-nia-primary focus:border-nia-primary',
+                      ' resize-vertical',
+                      errors[locale] ? 'border-nia-danger' : 'border-nia-border',
+                      customStyles.textarea
+                    )}
+                  />
+                )}
                 {errors[locale] && (
-                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors[locale]}</p>
+                  <p className="mt-1 text-sm text-nia-danger">{errors[locale]}</p>
+                )}
+                {onSuggest && locale === focusedLocale && locale !== defaultLocale && (
+                  <TranslationSuggestions
+                    source={formData.translations[defaultLocale] || ''}
+                    locale={locale}
+                    onSuggest={onSuggest}
+                    onApply={(value) => handleTranslationChange(locale, value)}
+                    excludeKey={translation?.key}
+                    enableRTL={enableRTL}
+                    className="mt-2"
+                  />
                 )}
               </div>
             );
           })}
         </div>
 
+        {/* Preview */}
+        <div className="space-y-2">
+          <h3 className="text-lg font-medium text-nia-foreground">Preview</h3>
+          <MessagePreview
+            messages={formData.translations}
+            locales={supportedLocales}
+            enableRTL={enableRTL}
+            className="p-3 bg-nia-subtle rounded-lg"
+          />
+        </div>
+
         {/* Custom Error */}
         {errors.custom && (
-          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
-            <p className="text-sm text-red-600 dark:text-red-400">{errors.custom}</p>
+          <div className="p-3 bg-nia-danger/10 border border-nia-danger/30 rounded-lg">
+            <p className="text-sm text-nia-danger">{errors.custom}</p>
           </div>
         )}
 
         {/* Actions */}
-        <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-end gap-3 pt-4 border-t border-nia-border">
           <button
             type="button"
             onClick={onCancel}
             disabled={loading}
-            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            className="px-4 py-2 text-sm font-medium text-nia-foreground/80 bg-nia-background border border-nia-border rounded-lg hover:bg-nia-subtle disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Cancel
           </button>
+          {onSaveDraft && (
+            <button
+              type="button"
+              onClick={handleSaveDraft}
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-nia-foreground/80 bg-nia-background border border-nia-border rounded-lg hover:bg-nia-subtle disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save as Draft
+            </button>
+          )}
           <button
             type="submit"
             disabled={loading}
             className={clsx(
-              'flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed',
+              'flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-nia-primary rounded-lg hover:bg-nia-primary-hover disabled:opacity-50 disabled:cursor-not-allowed',
               customStyles.button
             )}
           >
@@ -219,6 +333,20 @@ export const TranslationForm: React.FC<TranslationFormProps> = ({
           </button>
         </div>
       </form>
+
+      {conflict && (
+        <ConflictDialog
+          isOpen
+          mine={buildTranslation()}
+          theirs={conflict.theirs}
+          base={translation}
+          supportedLocales={supportedLocales}
+          onSave={onSubmit}
+          onUseTheirs={onCancel}
+          onCancel={() => onDismissConflict?.()}
+          loading={loading}
+        />
+      )}
     </div>
   );
 };
@@ -1,31 +1,53 @@
 'use client';
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Settings, List, Grid3X3, Download, Upload } from 'lucide-react';
+import { Plus, Settings, List, Grid3X3, Download, Upload, Filter, Archive, ClipboardCheck } from 'lucide-react';
 import clsx from 'clsx';
 
 import { TranslationTable } from './TranslationTable';
 import { TranslationForm } from './TranslationForm';
 import { SearchBox } from './SearchBox';
+import { FilterPanel } from './FilterPanel';
 import { PaginationControls } from './PaginationControls';
+import { InfiniteScrollFooter } from './InfiniteScrollFooter';
 import { ImportExportControls } from './ImportExportControls';
+import { UndoRedoControls } from './UndoRedoControls';
+import { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
 import { TreeView } from './TreeView';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ErrorMessage } from './ErrorMessage';
 import { ConfirmDialog } from './ConfirmDialog';
+import { ArchiveDialog } from './ArchiveDialog';
+import { ReviewQueue } from './ReviewQueue';
+import { ConnectionIndicator } from './ConnectionIndicator';
 
 import { useTranslationManager } from '../hooks/useTranslationManager';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import type { ShortcutHandlers } from '../hooks/useKeyboardShortcuts';
 import { buildTranslationTree } from '../lib/tree-utils';
-import { DEFAULT_THEME, DEFAULT_PERMISSIONS } from '../lib/constants';
+import { getExportFileExtension } from '../lib/import-export';
+import { DEFAULT_THEME, DEFAULT_PERMISSIONS, DEFAULT_FEATURES, CSS_PREFIXES } from '../lib/constants';
+import { themeToCssVariables } from '../lib/theme';
+import { translationUtils } from '../lib/utils';
+import { resolveShortcuts, pickShortcuts } from '../lib/shortcuts';
+import { applyEditStatus, setReviewStatus } from '../lib/review';
 
 import type {
   TranslationManagerProps,
   Translation,
   Theme,
-  Permissions
+  Permissions,
+  ExportOptions,
+  TranslationRevision,
+  TranslationComment,
+  CommentInput,
+  TranslationConflict,
+  TranslationStatus,
+  ShortcutAction
 } from '../types';
+import { ConflictError } from '../types';
 
 export const TranslationManager: React.FC<TranslationManagerProps> = ({
   apiEndpoint,
@@ -35,9 +57,23 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
   enableExport = true,
   enableImport = true,
   enableBatchOperations = false,
+  enableFiltering = DEFAULT_FEATURES.ENABLE_FILTERING,
+  enableUnusedFilter = DEFAULT_FEATURES.ENABLE_UNUSED_FILTER,
+  enableArchive = DEFAULT_FEATURES.ENABLE_ARCHIVE,
+  enableReview = DEFAULT_FEATURES.ENABLE_REVIEW,
+  enableComments = DEFAULT_FEATURES.ENABLE_COMMENTS,
+  enableSuggestions = DEFAULT_FEATURES.ENABLE_SUGGESTIONS,
+  enableHistory = DEFAULT_FEATURES.ENABLE_HISTORY,
+  fileLayout = 'single',
+  enableKeyboardShortcuts = DEFAULT_FEATURES.ENABLE_KEYBOARD_SHORTCUTS,
+  keyboardShortcuts,
   pageSize = 25,
+  paginationMode = 'pages',
+  virtualize = false,
   permissions = DEFAULT_PERMISSIONS,
   theme = DEFAULT_THEME,
+  darkTheme,
+  colorScheme = DEFAULT_FEATURES.ENABLE_DARK_MODE ? 'system' : 'light',
   className = '',
   customStyles = {},
   components = {},
@@ -51,12 +87,19 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
   const t = useTranslations('translationManager');
   const locale = useLocale();
   const isRTL = enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale);
+  const isInfinite = paginationMode === 'infinite';
+  const virtualized = virtualize || isInfinite;
 
   // View state
-  const [viewMode, setViewMode] = useState<'table' | 'tree'>('table');
+  const [viewMode, setViewMode] = useState<'table' | 'tree' | 'review'>('table');
   const [showForm, setShowForm] = useState(false);
   const [editingTranslation, setEditingTranslation] = useState<Translation | null>(null);
+  const [conflict, setConflict] = useState<TranslationConflict | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const searchRef = useRef<HTMLDivElement>(null);
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
@@ -80,22 +123,62 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
     pagination,
     searchTerm,
     setSearchTerm,
+    filters,
+    setFilters,
     setPage,
     setPageSize,
+    loadMore,
+    loadingMore,
     createTranslation,
     updateTranslation,
     deleteTranslation,
     bulkDeleteTranslations,
+    archiveTranslations,
+    getArchive,
+    restoreArchived,
+    getHistory,
+    restoreRevision,
+    getComments,
+    addComment,
+    resolveComment,
+    getSuggestions,
     importTranslations,
     exportTranslations,
-    refresh
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    refresh,
+    connectionStatus
   } = useTranslationManager({
     apiEndpoint,
     pageSize,
     apiHeaders,
-    onError
+    onError,
+    realTimeUpdates,
+    infinite: isInfinite
   });
 
+  // Tags offered by the filter panel
+  const availableTags = useMemo(() => {
+    return Array.from(new Set(translations.flatMap(t => t.metadata?.tags || [])));
+  }, [translations]);
+
+  const activeFilterCount = translationUtils.countActiveFilters(filters);
+
+  // The review queue is the list filtered to values waiting for review
+  const handleViewModeChange = useCallback((mode: 'table' | 'tree' | 'review') => {
+    if (mode === viewMode) return;
+
+    if (mode === 'review') {
+      setFilters({ ...filters, status: ['needs-review'] });
+    } else if (viewMode === 'review') {
+      const { status: _status, ...rest } = filters;
+      setFilters(rest);
+    }
+    setViewMode(mode);
+  }, [viewMode, filters, setFilters]);
+
   // Memoized tree data for tree view
   const treeData = useMemo(() => {
     return buildTranslationTree(translations);
@@ -112,20 +195,105 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
     setShowForm(true);
   }, []);
 
-  const handleFormSubmit = useCallback(async (translationData: Translation) => {
+  const saveTranslation = useCallback(async (translationData: Translation, status: TranslationStatus) => {
+    // A translation deleted on the server while it was edited is created again
+    const recreate = Boolean(conflict && !conflict.theirs);
+    // After a conflict the merged values are sent against their version
+    const version = conflict && conflict.theirs
+      ? conflict.theirs.version
+      : editingTranslation ? editingTranslation.version : undefined;
+
+    if (enableReview) {
+      const previous = conflict && conflict.theirs ? conflict.theirs : editingTranslation || undefined;
+      translationData = {
+        ...translationData,
+        status: applyEditStatus(recreate ? undefined : previous, translationData, status)
+      };
+    }
+
     try {
-      if (editingTranslation) {
-        await updateTranslation(editingTranslation.id!, translationData);
+      if (editingTranslation && !recreate) {
+        await updateTranslation(editingTranslation.id!, translationData, { version });
       } else {
-        await createTranslation(translationData);
+        const { id: _id, version: _version, ...data } = translationData;
+        await createTranslation(data);
       }
+      setConflict(null);
       setShowForm(false);
       setEditingTranslation(null);
       onTranslationChange?.(translations);
     } catch (err) {
+      // The form stays open with the merge dialog
+      if (err instanceof ConflictError && editingTranslation) {
+        setConflict({ theirs: err.current });
+        return;
+      }
       console.error('Error saving translation:', err);
     }
-  }, [editingTranslation, updateTranslation, createTranslation, translations, onTranslationChange]);
+  }, [editingTranslation, conflict, enableReview, updateTranslation, createTranslation, translations, onTranslationChange]);
+
+  // Reviewers' edits are approved right away, everyone else's wait for review
+  const handleFormSubmit = useCallback((translationData: Translation) => {
+    return saveTranslation(translationData, permissions.canApprove ? 'approved' : 'needs-review');
+  }, [saveTranslation, permissions.canApprove]);
+
+  const handleSaveDraft = useCallback((translationData: Translation) => {
+    return saveTranslation(translationData, 'draft');
+  }, [saveTranslation]);
+
+  const handleReview = useCallback(async (
+    translation: Translation,
+    locales: string[],
+    status: TranslationStatus
+  ) => {
+    try {
+      await updateTranslation(
+        translation.id!,
+        { ...translation, status: setReviewStatus(translation, locales, status) },
+        { version: translation.version }
+      );
+      onTranslationChange?.(translations);
+    } catch (err) {
+      console.error('Error reviewing translation:', err);
+    }
+  }, [updateTranslation, translations, onTranslationChange]);
+
+  // Closing the form after a conflict shows theirs
+  const handleFormCancel = useCallback(() => {
+    setShowForm(false);
+    if (conflict) {
+      setConflict(null);
+      refresh();
+    }
+  }, [conflict, refresh]);
+
+  const handleLoadHistory = useCallback((translation: Translation) => {
+    return getHistory(translation.id!);
+  }, [getHistory]);
+
+  const handleRestoreRevision = useCallback(async (translation: Translation, revision: TranslationRevision) => {
+    await restoreRevision(translation.id!, revision.id);
+  }, [restoreRevision]);
+
+  const handleLoadComments = useCallback((translation: Translation) => {
+    return getComments(translation.id!);
+  }, [getComments]);
+
+  const handleAddComment = useCallback((translation: Translation, comment: CommentInput) => {
+    return addComment(translation.id!, comment);
+  }, [addComment]);
+
+  const handleResolveComment = useCallback((translation: Translation, comment: TranslationComment, resolved: boolean) => {
+    return resolveComment(translation.id!, comment.id, resolved);
+  }, [resolveComment]);
+
+  const handleUndo = useCallback(() => {
+    undo().catch(err => console.error('Error undoing change:', err));
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    redo().catch(err => console.error('Error redoing change:', err));
+  }, [redo]);
 
   const handleDeleteTranslation = useCallback((id: string | number) => {
     setConfirmDialog({
@@ -164,6 +332,26 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
     });
   }, [selectedItems, bulkDeleteTranslations, t, translations, onTranslationChange]);
 
+  const handleBulkArchive = useCallback(() => {
+    if (selectedItems.length === 0) return;
+
+    setConfirmDialog({
+      isOpen: true,
+      title: t('confirmArchive'),
+      message: t('confirmArchiveMessage', { count: selectedItems.length }),
+      onConfirm: async () => {
+        try {
+          await archiveTranslations(selectedItems);
+          setSelectedItems([]);
+          setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+          onTranslationChange?.(translations);
+        } catch (err) {
+          console.error('Error archiving translations:', err);
+        }
+      }
+    });
+  }, [selectedItems, archiveTranslations, t, translations, onTranslationChange]);
+
   const handleImport = useCallback(async (importedTranslations: Translation[]) => {
     try {
       await importTranslations(importedTranslations);
@@ -174,13 +362,16 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
     }
   }, [importTranslations, translations, onTranslationChange]);
 
-  const handleExport = useCallback(async () => {
+  const handleExport = useCallback(async (
+    format: ExportOptions['format'] = 'json',
+    options?: Pick<ExportOptions, 'approvedOnly'>
+  ) => {
     try {
-      const blob = await exportTranslations();
+      const blob = await exportTranslations(format, options);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `translations-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `translations-${new Date().toISOString().split('T')[0]}.${getExportFileExtension(format, blob)}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -191,7 +382,44 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
   }, [exportTranslations]);
 
   // Custom components with fallbacks
+  // Keyboard shortcuts, undo/redo stay bound even when the others are off.
+  // The open form handles its own save and cancel keys
+  // Theme colors as --nia-* custom properties, see styles.css
+  const themeStyle = useMemo(
+    () => themeToCssVariables(theme, darkTheme) as React.CSSProperties,
+    [theme, darkTheme]
+  );
+
+  const shortcutBindings = useMemo(() => resolveShortcuts(keyboardShortcuts), [keyboardShortcuts]);
+
+  const shortcutHandlers: ShortcutHandlers = {
+    ...(permissions.canEdit && { UNDO: handleUndo, REDO: handleRedo }),
+    ...(enableKeyboardShortcuts && {
+      ...(permissions.canCreate && { CREATE_NEW: handleCreateTranslation }),
+      SEARCH: () => searchRef.current?.querySelector('input')?.focus(),
+      ...(enableExport && { EXPORT: () => handleExport() }),
+      ...(enableImport && { IMPORT: () => setShowImportDialog(true) }),
+      REFRESH: () => { refresh(); },
+      ESCAPE: () => {
+        setShowShortcutHelp(false);
+        setShowFilters(false);
+        setShowArchive(false);
+        setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+      },
+      HELP: () => setShowShortcutHelp(open => !open)
+    })
+  };
+
+  useKeyboardShortcuts(showForm ? {} : shortcutHandlers, shortcutBindings);
+
+  const activeShortcuts = pickShortcuts(shortcutBindings, [
+    ...(Object.keys(shortcutHandlers) as ShortcutAction[]),
+    'SAVE',
+    ...(permissions.canDelete ? ['DELETE' as const] : [])
+  ]);
+
   const SearchBoxComponent = components.SearchBox || SearchBox;
+  const FilterPanelComponent = components.FilterPanel || FilterPanel;
   const PaginationComponent = components.PaginationControls || PaginationControls;
   const LoadingSpinnerComponent = components.LoadingSpinner || LoadingSpinner;
   const ErrorMessageComponent = components.ErrorMessage || ErrorMessage;
@@ -199,14 +427,19 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
 
   if (lazy && translations.length === 0 && !loading) {
     return (
-      <div className={clsx(
-        'flex items-center justify-center p-8',
-        customStyles.container
-      )}>
+      <div
+        className={clsx(
+          CSS_PREFIXES.COMPONENT,
+          'flex items-center justify-center p-8',
+          customStyles.container
+        )}
+        data-theme={colorScheme}
+        style={themeStyle}
+      >
         <button
           onClick={refresh}
           className={clsx(
-            'px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700',
+            'px-4 py-2 bg-nia-primary text-white rounded-lg hover:bg-nia-primary-hover',
             customStyles.button
           )}
         >
@@ -219,6 +452,7 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
   return (
     <div
       className={clsx(
+        CSS_PREFIXES.COMPONENT,
         'translation-manager',
         'flex flex-col h-full',
         isRTL && 'rtl',
@@ -226,6 +460,8 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
         className
       )}
       dir={isRTL ? 'rtl' : 'ltr'}
+      data-theme={colorScheme}
+      style={themeStyle}
     >
       {/* Header */}
       <div className={clsx(
@@ -233,10 +469,10 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
         customStyles.header
       )}>
         <div>
-          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          <h1 className="text-2xl font-bold text-nia-foreground">
             {t('title')}
           </h1>
-          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          <p className="text-sm text-nia-secondary mt-1">
             {t('subtitle', { 
               count: pagination.totalCount,
               locales: supportedLocales.join(', ')
@@ -245,40 +481,82 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Live Connection Status */}
+          <ConnectionIndicator status={connectionStatus} className="mr-2" />
+
           {/* View Mode Toggle */}
-          <div className="flex items-center bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+          <div className="flex items-center bg-nia-muted rounded-lg p-1">
             <button
-              onClick={() => setViewMode('table')}
+              onClick={() => handleViewModeChange('table')}
               className={clsx(
                 'p-2 rounded-md transition-colors',
                 viewMode === 'table'
-                  ? 'bg-white dark:bg-gray-700 shadow-sm text-blue-600'
-                  : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                  ? 'bg-nia-background shadow-sm text-nia-primary'
+                  : 'text-nia-secondary hover:text-nia-foreground'
               )}
               title={t('tableView')}
             >
               <List size={16} />
             </button>
             <button
-              onClick={() => setViewMode('tree')}
+              onClick={() => handleViewModeChange('tree')}
               className={clsx(
                 'p-2 rounded-md transition-colors',
                 viewMode === 'tree'
-                  ? 'bg-white dark:bg-gray-700 shadow-sm text-blue-600'
-                  : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                  ? 'bg-nia-background shadow-sm text-nia-primary'
+                  : 'text-nia-secondary hover:text-nia-foreground'
               )}
               title={t('treeView')}
             >
               <Grid3X3 size={16} />
             </button>
+            {enableReview && (
+              <button
+                onClick={() => handleViewModeChange('review')}
+                className={clsx(
+                  'p-2 rounded-md transition-colors',
+                  viewMode === 'review'
+                    ? 'bg-nia-background shadow-sm text-nia-primary'
+                    : 'text-nia-secondary hover:text-nia-foreground'
+                )}
+                title={t('reviewQueue')}
+              >
+                <ClipboardCheck size={16} />
+              </button>
+            )}
           </div>
 
+          {/* Undo/Redo */}
+          {permissions.canEdit && (
+            <UndoRedoControls
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              canUndo={canUndo && !loading}
+              canRedo={canRedo && !loading}
+            />
+          )}
+
+          {/* Archive */}
+          {enableArchive && (
+            <button
+              onClick={() => setShowArchive(true)}
+              className={clsx(
+                'p-2 border border-nia-border rounded-lg text-nia-foreground/80 hover:bg-nia-muted transition-colors',
+                customStyles.button
+              )}
+              title={t('archive.title')}
+            >
+              <Archive size={16} />
+            </button>
+          )}
+
           {/* Import/Export Controls */}
           {(enableImport || enableExport) && (
             <ImportExportControls
               onImport={() => setShowImportDialog(true)}
               onExport={handleExport}
               permissions={{ canImport: enableImport, canExport: enableExport }}
+              showApprovedOnly={enableReview}
               loading={loading}
               className={customStyles.button}
             />
@@ -289,7 +567,7 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
             <button
               onClick={handleCreateTranslation}
               className={clsx(
-                'flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors',
+                'flex items-center gap-2 px-4 py-2 bg-nia-primary text-white rounded-lg hover:bg-nia-primary-hover transition-colors',
                 customStyles.button
               )}
             >
@@ -302,10 +580,10 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
 
       {/* Search and Filters */}
       <div className={clsx(
-        'flex flex-col sm:flex-row gap-4 p-4 bg-gray-50 dark:bg-gray-800/50',
+        'flex flex-col sm:flex-row gap-4 p-4 bg-nia-subtle',
         customStyles.searchBox
       )}>
-        <div className="flex-1">
+        <div ref={searchRef} className="flex-1">
           <SearchBoxComponent
             value={searchTerm}
             onChange={setSearchTerm}
@@ -315,24 +593,68 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
           />
         </div>
 
+        {/* Filter Toggle */}
+        {enableFiltering && (
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={clsx(
+              'flex items-center gap-2 px-3 py-2 text-sm border rounded-lg transition-colors',
+              showFilters || activeFilterCount > 0
+                ? 'border-nia-primary text-nia-primary'
+                : 'border-nia-border text-nia-foreground/80 hover:bg-nia-muted'
+            )}
+            aria-expanded={showFilters}
+          >
+            <Filter size={16} />
+            {t('filters.title')}
+            {activeFilterCount > 0 && (
+              <span className="px-1.5 text-xs bg-nia-primary text-white rounded-full">
+                {activeFilterCount}
+              </span>
+            )}
+          </button>
+        )}
+
         {/* Batch Operations */}
         {enableBatchOperations && selectedItems.length > 0 && (
           <div className="flex items-center gap-2">
-            <span className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="text-sm text-nia-secondary">
               {t('selectedCount', { count: selectedItems.length })}
             </span>
             {permissions.canDelete && (
               <button
                 onClick={handleBulkDelete}
-                className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                className="px-3 py-1 text-sm bg-nia-danger text-white rounded hover:bg-nia-danger-hover transition-colors"
               >
                 {t('deleteSelected')}
               </button>
             )}
+            {enableArchive && permissions.canDelete && (
+              <button
+                onClick={handleBulkArchive}
+                className="px-3 py-1 text-sm bg-nia-warning text-white rounded hover:bg-nia-warning-hover transition-colors"
+              >
+                {t('archiveSelected')}
+              </button>
+            )}
           </div>
         )}
       </div>
 
+      {/* Filter Panel */}
+      {enableFiltering && showFilters && (
+        <div className="px-4 pb-4 bg-nia-subtle">
+          <FilterPanelComponent
+            value={filters}
+            onChange={setFilters}
+            supportedLocales={supportedLocales}
+            availableTags={availableTags}
+            showUnused={enableUnusedFilter}
+            showOpenComments={enableComments}
+          />
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-hidden">
         {error ? (
@@ -368,6 +690,27 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
                   onSelectionChange={setSelectedItems}
                   customStyles={customStyles}
                   enableRTL={isRTL}
+                  onLoadHistory={enableHistory ? handleLoadHistory : undefined}
+                  onRestoreRevision={handleRestoreRevision}
+                  onLoadComments={enableComments ? handleLoadComments : undefined}
+                  onAddComment={handleAddComment}
+                  onResolveComment={handleResolveComment}
+                  onSuggest={enableSuggestions ? getSuggestions : undefined}
+                  defaultLocale={defaultLocale}
+                  shortcuts={enableKeyboardShortcuts ? shortcutBindings : undefined}
+                  virtualized={virtualized}
+                  onEndReached={isInfinite ? loadMore : undefined}
+                />
+              ) : viewMode === 'review' ? (
+                <ReviewQueue
+                  translations={translations}
+                  supportedLocales={supportedLocales}
+                  onApprove={(translation, locales) => handleReview(translation, locales, 'approved')}
+                  onReject={(translation, locales) => handleReview(translation, locales, 'rejected')}
+                  onEdit={permissions.canEdit ? handleEditTranslation : undefined}
+                  canApprove={Boolean(permissions.canApprove)}
+                  enableRTL={isRTL}
+                  customStyles={customStyles}
                 />
               ) : (
                 <TreeView
@@ -377,6 +720,9 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
                   onAdd={handleCreateTranslation}
                   enableRTL={isRTL}
                   customStyles={customStyles}
+                  virtualized={virtualized}
+                  onEndReached={isInfinite ? loadMore : undefined}
+                  fileLayout={fileLayout}
                 />
               )}
             </motion.div>
@@ -384,10 +730,25 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
         )}
       </div>
 
+      {/* Infinite scroll status, in both views */}
+      {isInfinite && translations.length > 0 && (
+        <div className={clsx(
+          'border-t bg-nia-background px-4 py-3',
+          customStyles.pagination
+        )}>
+          <InfiniteScrollFooter
+            loadedCount={translations.length}
+            totalCount={pagination.totalCount}
+            loading={loadingMore}
+            onLoadMore={loadMore}
+          />
+        </div>
+      )}
+
       {/* Pagination */}
-      {viewMode === 'table' && !loading && translations.length > 0 && (
+      {!isInfinite && viewMode === 'table' && !loading && translations.length > 0 && (
         <div className={clsx(
-          'border-t bg-white dark:bg-gray-900 px-4 py-3',
+          'border-t bg-nia-background px-4 py-3',
           customStyles.pagination
         )}>
           <PaginationComponent
@@ -412,14 +773,14 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
-            onClick={() => setShowForm(false)}
+            onClick={handleFormCancel}
           >
             <motion.div
               initial={{ scale: 0.95, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.95, opacity: 0 }}
               className={clsx(
-                'bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto',
+                'bg-nia-background rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto',
                 customStyles.modal
               )}
               onClick={(e) => e.stopPropagation()}
@@ -427,19 +788,47 @@ export const TranslationManager: React.FC<TranslationManagerProps> = ({
               <TranslationForm
                 translation={editingTranslation || undefined}
                 supportedLocales={supportedLocales}
+                defaultLocale={defaultLocale}
                 onSubmit={handleFormSubmit}
-                onCancel={() => setShowForm(false)}
+                onCancel={handleFormCancel}
                 loading={loading}
                 validation={validation}
                 mode={editingTranslation ? 'edit' : 'create'}
                 enableRTL={isRTL}
                 customStyles={customStyles}
+                shortcuts={enableKeyboardShortcuts ? shortcutBindings : undefined}
+                conflict={conflict}
+                onDismissConflict={() => setConflict(null)}
+                onSaveDraft={enableReview ? handleSaveDraft : undefined}
+                onSuggest={enableSuggestions ? getSuggestions : undefined}
               />
             </motion.div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Keyboard Shortcuts Help */}
+      {enableKeyboardShortcuts && (
+        <KeyboardShortcutsHelp
+          isOpen={showShortcutHelp}
+          onClose={() => setShowShortcutHelp(false)}
+          bindings={activeShortcuts}
+          showTableKeys={viewMode === 'table'}
+        />
+      )}
+
+      {/* Archive */}
+      {enableArchive && (
+        <ArchiveDialog
+          isOpen={showArchive}
+          onClose={() => setShowArchive(false)}
+          loadArchive={getArchive}
+          onRestore={restoreArchived}
+          supportedLocales={supportedLocales}
+          canRestore={permissions.canCreate}
+        />
+      )}
+
       {/* Confirm Dialog */}
       <ConfirmDialogComponent
         isOpen={confirmDialog.isOpen}
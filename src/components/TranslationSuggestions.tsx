@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Languages } from 'lucide-react';
+import clsx from 'clsx';
+import type { TranslationSuggestionsProps, TranslationSuggestion } from '../types';
+import { TRANSLATION_MEMORY } from '../lib/constants';
+
+const RTL_LOCALES = ['ar', 'he', 'fa', 'ur'];
+
+export const TranslationSuggestions: React.FC<TranslationSuggestionsProps> = ({
+  source,
+  locale,
+  onSuggest,
+  onApply,
+  excludeKey,
+  enableRTL = false,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+  const [suggestions, setSuggestions] = useState<TranslationSuggestion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keyed on the texts rather than onSuggest, which is usually an inline function
+  useEffect(() => {
+    let cancelled = false;
+    if (!source.trim()) {
+      setSuggestions([]);
+      setError(null);
+      return;
+    }
+
+    // Waits for a pause in typing before asking
+    const timer = setTimeout(() => {
+      onSuggest(source, locale, { excludeKey })
+        .then(result => {
+          if (cancelled) return;
+          setSuggestions(result);
+          setError(null);
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+        });
+    }, TRANSLATION_MEMORY.DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source, locale, excludeKey]);
+
+  if (error) {
+    return <p className={clsx('text-xs text-nia-danger', className)}>{error}</p>;
+  }
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={clsx('space-y-1', className)}>
+      <div className="flex items-center gap-1 text-xs font-medium text-nia-secondary">
+        <Languages size={12} />
+        {t('suggestions.title')}
+      </div>
+      <ul className="border border-nia-border rounded-lg divide-y divide-nia-border bg-nia-background">
+        {suggestions.map(suggestion => (
+          <li key={`${suggestion.key}:${suggestion.value}`}>
+            <button
+              type="button"
+              onClick={() => onApply(suggestion.value)}
+              className="w-full flex items-start gap-2 px-2 py-1.5 text-left rounded-lg hover:bg-nia-muted"
+              title={t('suggestions.apply')}
+            >
+              <span
+                className={clsx(
+                  'shrink-0 px-1.5 py-0.5 text-xs font-medium rounded',
+                  suggestion.exact ? 'bg-nia-success/10 text-nia-success' : 'bg-nia-muted text-nia-secondary'
+                )}
+                title={suggestion.exact
+                  ? t('suggestions.exact')
+                  : t('suggestions.match', { score: Math.round(suggestion.score * 100) })}
+              >
+                {Math.round(suggestion.score * 100)}%
+              </span>
+              <span className="flex-1 min-w-0">
+                <span
+                  className="block text-sm text-nia-foreground break-words"
+                  dir={enableRTL && RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr'}
+                >
+                  {suggestion.value}
+                </span>
+                <span className="block text-xs text-nia-secondary truncate">
+                  {suggestion.key} · {suggestion.source}
+                </span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
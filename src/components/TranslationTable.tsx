@@ -1,12 +1,21 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
 import { useTranslations } from 'next-intl';
-import { Edit, Trash2, Check, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { Edit, Trash2, Check, X, ChevronDown, ChevronRight, MessageSquare } from 'lucide-react';
 import clsx from 'clsx';
 import { motion } from 'framer-motion';
 
 import type { TranslationTableProps, Translation } from '../types';
+import { matchesShortcut, isTextField } from '../lib/shortcuts';
+import { VIRTUAL_LIST, REVIEW_STATUS_COLORS } from '../lib/constants';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { MessagePreview } from './MessagePreview';
+import { RevisionHistory } from './RevisionHistory';
+import { CommentThreads } from './CommentThreads';
+import { TranslationSuggestions } from './TranslationSuggestions';
+
+type ExpandedTab = 'preview' | 'history' | 'comments';
 
 export const TranslationTable: React.FC<TranslationTableProps> = ({
   translations,
@@ -23,17 +32,36 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
   sortOrder = 'asc',
   onSort,
   customStyles = {},
-  enableRTL = false
+  enableRTL = false,
+  onLoadHistory,
+  onRestoreRevision,
+  onLoadComments,
+  onAddComment,
+  onResolveComment,
+  onSuggest,
+  defaultLocale = supportedLocales[0],
+  shortcuts,
+  virtualized = false,
+  rowHeight = VIRTUAL_LIST.ROW_HEIGHT,
+  height = VIRTUAL_LIST.HEIGHT,
+  onEndReached
 }) => {
   const t = useTranslations('translationManager');
   const [expandedRows, setExpandedRows] = useState<Set<string | number>>(new Set());
+  const [expandedTabs, setExpandedTabs] = useState<Record<string, ExpandedTab>>({});
   const [editingCell, setEditingCell] = useState<{
     translationId: string | number;
     locale: string;
     value: string;
   } | null>(null);
+  // Values of other locales of the row being edited, kept while Tab moves between cells
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [activeCell, setActiveCell] = useState<{ row: number; locale: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+  const [headerHeight, setHeaderHeight] = useState(0);
 
-  // Toggle row expansion for nested keys
+  // Toggle the preview and history row below a translation
   const toggleRowExpansion = (translationId: string | number) => {
     const newExpanded = new Set(expandedRows);
     if (newExpanded.has(translationId)) {
@@ -44,14 +72,31 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
     setExpandedRows(newExpanded);
   };
 
+  // Tabs of the expanded row, the preview is always there
+  const expandedTabList: ExpandedTab[] = [
+    'preview',
+    ...(onLoadHistory ? ['history' as const] : []),
+    ...(onLoadComments ? ['comments' as const] : [])
+  ];
+
+  // Expand a row on its comments tab, from the open comments badge
+  const showComments = (translationId: string | number) => {
+    const newExpanded = new Set(expandedRows);
+    newExpanded.add(translationId);
+    setExpandedRows(newExpanded);
+    setExpandedTabs(prev => ({ ...prev, [translationId]: 'comments' as const }));
+  };
+
   // Handle cell editing
   const startEditing = (translationId: string | number, locale: string, currentValue: string) => {
     if (!permissions.canEdit) return;
     setEditingCell({ translationId, locale, value: currentValue });
+    setDraft({});
   };
 
   const cancelEditing = () => {
     setEditingCell(null);
+    setDraft({});
   };
 
   const saveEditing = () => {
@@ -63,12 +108,55 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
         ...translation,
         translations: {
           ...translation.translations,
+          ...draft,
           [editingCell.locale]: editingCell.value
         }
       };
       onEdit(updatedTranslation);
     }
     setEditingCell(null);
+    setDraft({});
+  };
+
+  // Tab moves to the next locale of the same row, past the last one it saves
+  const moveEditing = (step: number) => {
+    if (!editingCell) return;
+
+    const translation = translations.find(t => t.id === editingCell.translationId);
+    const nextIndex = supportedLocales.indexOf(editingCell.locale) + step;
+    if (!translation || nextIndex < 0) return;
+    if (nextIndex >= supportedLocales.length) {
+      saveEditing();
+      containerRef.current?.focus();
+      return;
+    }
+
+    const nextLocale = supportedLocales[nextIndex];
+    const nextDraft = { ...draft, [editingCell.locale]: editingCell.value };
+    setDraft(nextDraft);
+    setEditingCell({
+      translationId: editingCell.translationId,
+      locale: nextLocale,
+      value: nextDraft[nextLocale] ?? (translation.translations[nextLocale] || '')
+    });
+    setActiveCell(prev => prev && { ...prev, locale: nextIndex });
+  };
+
+  const handleEditorKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!shortcuts) return;
+
+    if (event.key === 'Tab') {
+      event.preventDefault();
+      moveEditing(event.shiftKey ? -1 : 1);
+    } else if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      saveEditing();
+      containerRef.current?.focus();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      cancelEditing();
+      containerRef.current?.focus();
+    }
   };
 
   // Handle selection
@@ -91,6 +179,9 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
   };
 
   // Sort translations
+  const columnCount = (enableSelection ? 1 : 0) + 1 + supportedLocales.length +
+    (permissions.canEdit || permissions.canDelete ? 1 : 0);
+
   const sortedTranslations = useMemo(() => {
     if (!sortBy || !onSort) return translations;
     
@@ -115,6 +206,83 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
     });
   }, [translations, sortBy, sortOrder, onSort]);
 
+  // Keyboard navigation over rows and locale cells
+  const active = activeCell && activeCell.row < sortedTranslations.length ? activeCell : null;
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!shortcuts || isTextField(event.target) || sortedTranslations.length === 0) return;
+
+    const row = active ? active.row : -1;
+    const locale = active ? active.locale : 0;
+    const translation = active ? sortedTranslations[active.row] : null;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveCell({ row: Math.min(row + 1, sortedTranslations.length - 1), locale });
+        break;
+      case 'ArrowUp':
+        setActiveCell({ row: Math.max(row - 1, 0), locale });
+        break;
+      case 'ArrowRight':
+        setActiveCell({ row: Math.max(row, 0), locale: Math.min(locale + 1, supportedLocales.length - 1) });
+        break;
+      case 'ArrowLeft':
+        setActiveCell({ row: Math.max(row, 0), locale: Math.max(locale - 1, 0) });
+        break;
+      case 'Enter': {
+        if (!translation?.id) return;
+        const localeCode = supportedLocales[locale];
+        startEditing(translation.id, localeCode, translation.translations[localeCode] || '');
+        break;
+      }
+      default:
+        if (translation?.id && permissions.canDelete && onDelete && matchesShortcut(event, shortcuts.DELETE)) {
+          onDelete(translation.id);
+          break;
+        }
+        return;
+    }
+
+    event.preventDefault();
+  };
+
+  // Windowed rendering: a row is rowHeight tall, plus the preview/history
+  // panel when expanded. Editing and selection state is keyed by id, so it
+  // survives rows leaving the window.
+  const itemHeight = useCallback((index: number) => {
+    const id = sortedTranslations[index].id;
+    return rowHeight + (id !== undefined && expandedRows.has(id) ? VIRTUAL_LIST.EXPANDED_ROW_HEIGHT : 0);
+  }, [sortedTranslations, expandedRows, rowHeight]);
+
+  const virtual = useVirtualList<HTMLDivElement>({
+    count: sortedTranslations.length,
+    itemHeight,
+    startOffset: headerHeight,
+    enabled: virtualized,
+    onEndReached
+  });
+
+  useLayoutEffect(() => {
+    if (virtualized && headerRef.current) {
+      setHeaderHeight(headerRef.current.offsetHeight);
+    }
+  }, [virtualized, supportedLocales.length]);
+
+  const visibleRows = virtualized
+    ? sortedTranslations.slice(virtual.start, virtual.end)
+    : sortedTranslations;
+
+  // Keep the active row in view
+  useEffect(() => {
+    if (!active) return;
+    if (virtualized) {
+      virtual.scrollToIndex(active.row);
+      return;
+    }
+    const row = containerRef.current?.querySelector(`[data-row-index="${active.row}"]`);
+    row?.scrollIntoView?.({ block: 'nearest' });
+  }, [active?.row]);
+
   // Check if all items are selected
   const isAllSelected = translations.length > 0 && 
     translations.every(t => t.id && selectedItems.includes(t.id));
@@ -123,23 +291,38 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
   if (loading && translations.length === 0) {
     return (
       <div className="flex items-center justify-center h-64">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-nia-primary"></div>
       </div>
     );
   }
 
   return (
-    <div className={clsx(
-      'translation-table overflow-hidden',
-      customStyles.table
-    )}>
-      <div className="overflow-x-auto">
-        <table className="w-full divide-y divide-gray-200 dark:divide-gray-700">
+    <div
+      ref={containerRef}
+      className={clsx(
+        'translation-table overflow-hidden',
+        shortcuts && 'focus:outline-none focus-visible:ring-2 focus-visible:ring-nia-primary',
+        customStyles.table
+      )}
+      tabIndex={shortcuts ? 0 : undefined}
+      onKeyDown={shortcuts ? handleKeyDown : undefined}
+    >
+      <div
+        ref={virtual.containerRef}
+        className={virtualized ? 'overflow-auto' : 'overflow-x-auto'}
+        style={virtualized ? { height } : undefined}
+        onScroll={virtualized ? virtual.onScroll : undefined}
+      >
+        <table className={clsx('w-full divide-y divide-nia-border', virtualized && 'table-fixed')}>
           {/* Table Header */}
-          <thead className={clsx(
-            'bg-gray-50 dark:bg-gray-800',
-            customStyles.tableHeader
-          )}>
+          <thead
+            ref={headerRef}
+            className={clsx(
+              'bg-nia-subtle',
+              virtualized && 'sticky top-0 z-10',
+              customStyles.tableHeader
+            )}
+          >
             <tr>
               {/* Selection column */}
               {enableSelection && (
@@ -151,7 +334,7 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
                       if (input) input.indeterminate = isPartiallySelected;
                     }}
                     onChange={(e) => handleSelectAll(e.target.checked)}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    className="rounded border-nia-border text-nia-primary focus:ring-nia-primary"
                   />
                 </th>
               )}
@@ -159,8 +342,8 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
               {/* Key column */}
               <th 
                 className={clsx(
-                  'px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700',
-                  sortBy === 'key' && 'bg-blue-50 dark:bg-blue-900/20'
+                  'px-6 py-3 text-left text-xs font-medium text-nia-secondary uppercase tracking-wider cursor-pointer hover:bg-nia-muted',
+                  sortBy === 'key' && 'bg-nia-primary/10'
                 )}
                 onClick={() => onSort?.('key', sortBy === 'key' && sortOrder === 'asc' ? 'desc' : 'asc')}
               >
@@ -183,8 +366,8 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
                 <th
                   key={locale}
                   className={clsx(
-                    'px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700',
-                    sortBy === locale && 'bg-blue-50 dark:bg-blue-900/20'
+                    'px-6 py-3 text-left text-xs font-medium text-nia-secondary uppercase tracking-wider cursor-pointer hover:bg-nia-muted',
+                    sortBy === locale && 'bg-nia-primary/10'
                   )}
                   onClick={() => onSort?.(locale, sortBy === locale && sortOrder === 'asc' ? 'desc' : 'asc')}
                 >
@@ -205,7 +388,7 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
 
               {/* Actions column */}
               {(permissions.canEdit || permissions.canDelete) && (
-                <th className="w-24 px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                <th className="w-24 px-6 py-3 text-right text-xs font-medium text-nia-secondary uppercase tracking-wider">
                   {t('actions')}
                 </th>
               )}
@@ -213,155 +396,268 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
           </thead>
 
           {/* Table Body */}
-          <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
-            {sortedTranslations.map((translation, index) => (
-              <motion.tr
-                key={translation.id || translation.key}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05, duration: 0.3 }}
-                className={clsx(
-                  'hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors',
-                  selectedItems.includes(translation.id!) && 'bg-blue-50 dark:bg-blue-900/20',
-                  customStyles.tableRow
-                )}
-              >
-                {/* Selection checkbox */}
-                {enableSelection && (
-                  <td className="px-3 py-4">
-                    <input
-                      type="checkbox"
-                      checked={translation.id ? selectedItems.includes(translation.id) : false}
-                      onChange={(e) => translation.id && handleSelectItem(translation.id, e.target.checked)}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    />
-                  </td>
-                )}
+          <tbody className={clsx('bg-nia-background', !virtualized && 'divide-y divide-nia-border')}>
+            {virtualized && virtual.paddingTop > 0 && (
+              <tr aria-hidden="true" style={{ height: virtual.paddingTop }} />
+            )}
+            {visibleRows.map((translation, visibleIndex) => {
+              const index = virtualized ? virtual.start + visibleIndex : visibleIndex;
+              return (
+                <React.Fragment key={translation.id || translation.key}>
+                  <motion.tr
+                    initial={virtualized ? false : { opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: virtualized ? 0 : index * 0.05, duration: 0.3 }}
+                    className={clsx(
+                      'hover:bg-nia-subtle transition-colors',
+                      // A shadow instead of a border keeps the row exactly rowHeight tall
+                      virtualized && 'shadow-[inset_0_-1px_0_var(--nia-border)]',
+                      selectedItems.includes(translation.id!) && 'bg-nia-primary/10',
+                      active?.row === index && 'bg-nia-subtle',
+                      customStyles.tableRow
+                    )}
+                    style={virtualized ? { height: rowHeight } : undefined}
+                    data-row-index={index}
+                    onClick={shortcuts ? () => setActiveCell(prev => ({ row: index, locale: prev?.locale ?? 0 })) : undefined}
+                  >
+                    {/* Selection checkbox */}
+                    {enableSelection && (
+                      <td className={clsx('px-3', virtualized ? 'py-2' : 'py-4')}>
+                        <input
+                          type="checkbox"
+                          checked={translation.id ? selectedItems.includes(translation.id) : false}
+                          onChange={(e) => translation.id && handleSelectItem(translation.id, e.target.checked)}
+                          className="rounded border-nia-border text-nia-primary focus:ring-nia-primary"
+                        />
+                      </td>
+                    )}
 
-                {/* Key column */}
-                <td className={clsx(
-                  'px-6 py-4 whitespace-nowrap',
-                  customStyles.tableCell
-                )}>
-                  <div className="flex items-center">
-                    {translation.key.includes('.') && (
-                      <button
-                        onClick={() => translation.id && toggleRowExpansion(translation.id)}
-                        className="mr-2 p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
-                      >
-                        {expandedRows.has(translation.id!) ? (
-                          <ChevronDown size={14} />
-                        ) : (
-                          <ChevronRight size={14} />
+                    {/* Key column */}
+                    <td className={clsx(
+                      'px-6 whitespace-nowrap',
+                      virtualized ? 'py-2 overflow-hidden' : 'py-4',
+                      customStyles.tableCell
+                    )}>
+                      <div className="flex items-center">
+                        {translation.id && (
+                          <button
+                            onClick={() => translation.id && toggleRowExpansion(translation.id)}
+                            className="mr-2 p-1 hover:bg-nia-border rounded"
+                            title={t('preview.title')}
+                          >
+                            {expandedRows.has(translation.id!) ? (
+                              <ChevronDown size={14} />
+                            ) : (
+                              <ChevronRight size={14} />
+                            )}
+                          </button>
                         )}
-                      </button>
-                    )}
-                    <div>
-                      <div className="text-sm font-medium text-gray-900 dark:text-white">
-                        {translation.key}
-                      </div>
-                      {translation.metadata?.description && (
-                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                          {translation.metadata.description}
+                        <div className={clsx(virtualized && 'min-w-0')}>
+                          <div className={clsx('text-sm font-medium text-nia-foreground', virtualized && 'truncate')}>
+                            {translation.key}
+                          </div>
+                          {translation.metadata?.description && (
+                            <div className={clsx('text-xs text-nia-secondary', virtualized ? 'truncate' : 'mt-1')}>
+                              {translation.metadata.description}
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  </div>
-                </td>
-
-                {/* Translation columns */}
-                {supportedLocales.map((locale) => {
-                  const isEditing = editingCell?.translationId === translation.id && 
-                                   editingCell?.locale === locale;
-                  const value = translation.translations[locale] || '';
-                  
-                  return (
-                    <td
-                      key={locale}
-                      className={clsx(
-                        'px-6 py-4',
-                        customStyles.tableCell
-                      )}
-                    >
-                      {isEditing ? (
-                        <div className="flex items-center gap-2">
-                          <textarea
-                            value={editingCell.value}
-                            onChange={(e) => setEditingCell({
-                              ...editingCell,
-                              value: e.target.value
-                            })}
-                            className="flex-1 p-2 border border-gray-300 dark:border-gray-600 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-white resize-none"
-                            rows={Math.min(Math.max(Math.ceil(editingCell.value.length / 50), 1), 4)}
-                            dir={enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale) ? 'rtl' : 'ltr'}
-                          />
-                          <div className="flex flex-col gap-1">
+                        {onLoadComments && translation.id && Boolean(translation.openComments) && (
+                          <button
+                            onClick={() => showComments(translation.id!)}
+                            className="ml-2 shrink-0 flex items-center gap-1 px-1.5 py-0.5 text-xs text-nia-warning bg-nia-warning/10 rounded-full hover:bg-nia-warning/20"
+                            title={t('comments.open', { count: translation.openComments! })}
+                          >
+                            <MessageSquare size={12} />
+                            {translation.openComments}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+
+                    {/* Translation columns */}
+                    {supportedLocales.map((locale, localeIndex) => {
+                      const isActive = active?.row === index && active.locale === localeIndex;
+                      const isEditing = editingCell?.translationId === translation.id && 
+                                       editingCell?.locale === locale;
+                      const value = translation.translations[locale] || '';
+                      
+                      return (
+                        <td
+                          key={locale}
+                          className={clsx(
+                            'px-6',
+                            virtualized ? 'py-2 overflow-hidden' : 'py-4',
+                            customStyles.tableCell
+                          )}
+                        >
+                          {isEditing ? (
+                            <>
+                              <div className="flex items-center gap-2">
+                                <textarea
+                                  value={editingCell.value}
+                                  onChange={(e) => setEditingCell({
+                                    ...editingCell,
+                                    value: e.target.value
+                                  })}
+                                  className="flex-1 p-2 border border-nia-border rounded focus:ring-2 focus:ring-nia-primary focus:border-nia-primary resize-none"
+                                  onKeyDown={handleEditorKeyDown}
+                                  autoFocus={!!shortcuts}
+                                  rows={virtualized ? 1 : Math.min(Math.max(Math.ceil(editingCell.value.length / 50), 1), 4)}
+                                  dir={enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale) ? 'rtl' : 'ltr'}
+                                />
+                                <div className={clsx('flex gap-1', !virtualized && 'flex-col')}>
+                                  <button
+                                    onClick={saveEditing}
+                                    className="p-1 text-nia-success hover:bg-nia-success/15 rounded"
+                                    title={t('save')}
+                                  >
+                                    <Check size={14} />
+                                  </button>
+                                  <button
+                                    onClick={cancelEditing}
+                                    className="p-1 text-nia-danger hover:bg-nia-danger/15 rounded"
+                                    title={t('cancel')}
+                                  >
+                                    <X size={14} />
+                                  </button>
+                                </div>
+                              </div>
+                              {/* Fixed row heights leave no room for suggestions while virtualized */}
+                              {onSuggest && !virtualized && locale !== defaultLocale && (
+                                <TranslationSuggestions
+                                  source={draft[defaultLocale] ?? (translation.translations[defaultLocale] || '')}
+                                  locale={locale}
+                                  onSuggest={onSuggest}
+                                  onApply={(suggested) => setEditingCell({ ...editingCell, value: suggested })}
+                                  excludeKey={translation.key}
+                                  enableRTL={enableRTL}
+                                  className="mt-2"
+                                />
+                              )}
+                            </>
+                          ) : (
+                            <div
+                              className={clsx(
+                                'text-sm text-nia-foreground cursor-pointer hover:bg-nia-muted p-2 rounded min-h-[2rem] flex items-center',
+                                !value && 'text-nia-secondary/70 italic',
+                                isActive && 'ring-2 ring-nia-primary'
+                              )}
+                              onClick={() => translation.id && startEditing(translation.id, locale, value)}
+                              dir={enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale) ? 'rtl' : 'ltr'}
+                            >
+                              <span className={clsx(virtualized && 'truncate')}>
+                                {value || t('emptyTranslation')}
+                              </span>
+                              {translation.status?.[locale] && REVIEW_STATUS_COLORS[translation.status[locale]] && (
+                                <span
+                                  className={clsx('ml-2 shrink-0 w-2 h-2 rounded-full', REVIEW_STATUS_COLORS[translation.status[locale]])}
+                                  title={t(`reviewStatus.${translation.status[locale]}`)}
+                                />
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+
+                    {/* Actions column */}
+                    {(permissions.canEdit || permissions.canDelete) && (
+                      <td className={clsx('px-6 whitespace-nowrap text-right text-sm font-medium', virtualized ? 'py-2' : 'py-4')}>
+                        <div className="flex items-center justify-end gap-2">
+                          {permissions.canEdit && onEdit && (
                             <button
-                              onClick={saveEditing}
-                              className="p-1 text-green-600 hover:bg-green-100 dark:hover:bg-green-900/20 rounded"
-                              title={t('save')}
+                              onClick={() => onEdit(translation)}
+                              className="text-nia-primary hover:text-nia-primary-hover p-1 hover:bg-nia-primary/15 rounded"
+                              title={t('edit')}
                             >
-                              <Check size={14} />
+                              <Edit size={14} />
                             </button>
+                          )}
+                          {permissions.canDelete && onDelete && (
                             <button
-                              onClick={cancelEditing}
-                              className="p-1 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/20 rounded"
-                              title={t('cancel')}
+                              onClick={() => translation.id && onDelete(translation.id)}
+                              className="text-nia-danger hover:text-nia-danger-hover p-1 hover:bg-nia-danger/15 rounded"
+                              title={t('delete')}
                             >
-                              <X size={14} />
+                              <Trash2 size={14} />
                             </button>
-                          </div>
+                          )}
                         </div>
-                      ) : (
+                      </td>
+                    )}
+                  </motion.tr>
+
+                  {/* Preview, history and comments row */}
+                  {translation.id && expandedRows.has(translation.id) && (
+                    <tr
+                      className={clsx('bg-nia-subtle', virtualized && 'shadow-[inset_0_-1px_0_var(--nia-border)]')}
+                      style={virtualized ? { height: VIRTUAL_LIST.EXPANDED_ROW_HEIGHT } : undefined}
+                    >
+                      <td colSpan={columnCount} className="px-6 py-4">
                         <div
-                          className={clsx(
-                            'text-sm text-gray-900 dark:text-white cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 p-2 rounded min-h-[2rem] flex items-center',
-                            !value && 'text-gray-400 italic'
-                          )}
-                          onClick={() => translation.id && startEditing(translation.id, locale, value)}
-                          dir={enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale) ? 'rtl' : 'ltr'}
+                          className={clsx(virtualized && 'overflow-y-auto')}
+                          style={virtualized ? { height: VIRTUAL_LIST.EXPANDED_ROW_HEIGHT - 32 } : undefined}
                         >
-                          {value || t('emptyTranslation')}
+                          {expandedTabList.length > 1 && (
+                            <div className="flex gap-4 mb-3 border-b border-nia-border">
+                              {expandedTabList.map(tab => (
+                                <button
+                                  key={tab}
+                                  onClick={() => setExpandedTabs(prev => ({ ...prev, [translation.id!]: tab }))}
+                                  className={clsx(
+                                    'pb-2 text-xs font-medium border-b-2 -mb-px',
+                                    (expandedTabs[translation.id!] || 'preview') === tab
+                                      ? 'border-nia-primary text-nia-primary'
+                                      : 'border-transparent text-nia-secondary hover:text-nia-foreground'
+                                  )}
+                                >
+                                  {t(`${tab}.title`)}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+
+                          {onLoadHistory && expandedTabs[translation.id] === 'history' ? (
+                            <RevisionHistory
+                              translation={translation}
+                              supportedLocales={supportedLocales}
+                              onLoad={onLoadHistory}
+                              onRestore={permissions.canEdit ? onRestoreRevision : undefined}
+                              enableRTL={enableRTL}
+                            />
+                          ) : onLoadComments && expandedTabs[translation.id] === 'comments' ? (
+                            <CommentThreads
+                              translation={translation}
+                              supportedLocales={supportedLocales}
+                              onLoad={onLoadComments}
+                              onAdd={onAddComment}
+                              onResolve={onResolveComment}
+                            />
+                          ) : (
+                            <MessagePreview
+                              messages={translation.translations}
+                              locales={supportedLocales}
+                              enableRTL={enableRTL}
+                            />
+                          )}
                         </div>
-                      )}
-                    </td>
-                  );
-                })}
-
-                {/* Actions column */}
-                {(permissions.canEdit || permissions.canDelete) && (
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex items-center justify-end gap-2">
-                      {permissions.canEdit && onEdit && (
-                        <button
-                          onClick={() => onEdit(translation)}
-                          className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 p-1 hover:bg-blue-100 dark:hover:bg-blue-900/20 rounded"
-                          title={t('edit')}
-                        >
-                          <Edit size={14} />
-                        </button>
-                      )}
-                      {permissions.canDelete && onDelete && (
-                        <button
-                          onClick={() => translation.id && onDelete(translation.id)}
-                          className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 p-1 hover:bg-red-100 dark:hover:bg-red-900/20 rounded"
-                          title={t('delete')}
-                        >
-                          <Trash2 size={14} />
-                        </button>
-                      )}
-                    </div>
-                  </td>
-                )}
-              </motion.tr>
-            ))}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {virtualized && virtual.paddingBottom > 0 && (
+              <tr aria-hidden="true" style={{ height: virtual.paddingBottom }} />
+            )}
           </tbody>
         </table>
 
         {/* Empty state */}
         {translations.length === 0 && !loading && (
           <div className="text-center py-12">
-            <div className="text-gray-500 dark:text-gray-400">
+            <div className="text-nia-secondary">
               <p className="text-lg font-medium mb-2">{t('noTranslations')}</p>
               <p className="text-sm">{t('addFirstTranslation')}</p>
             </div>
@@ -371,8 +667,8 @@ export const TranslationTable: React.FC<TranslationTableProps> = ({
 
       {/* Loading overlay */}
       {loading && translations.length > 0 && (
-        <div className="absolute inset-0 bg-white/50 dark:bg-gray-900/50 flex items-center justify-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <div className="absolute inset-0 bg-nia-background/50 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-nia-primary"></div>
         </div>
       )}
     </div>
@@ -1,14 +1,28 @@
 'use client';
 
-import React, { useState } from 'react';
-import { ChevronDown, ChevronRight, Edit, Trash2, Plus } from 'lucide-react';
+import React, { useState, useMemo, useCallback } from 'react';
+import { ChevronDown, ChevronRight, Edit, Trash2, Plus, FileJson } from 'lucide-react';
 import clsx from 'clsx';
 import type { TreeViewProps, Translation } from '../types';
+import { VIRTUAL_LIST } from '../lib/constants';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { getMessageFilePath } from '../lib/message-files';
 
 interface TreeNode {
   [key: string]: TreeNode | Translation;
 }
 
+// A visible node of the tree, in display order
+type TreeRow =
+  | { type: 'branch'; keyPath: string; node: TreeNode; level: number }
+  | { type: 'leaf'; translation: Translation; level: number };
+
+const isTranslation = (node: TreeNode | Translation): node is Translation =>
+  'id' in node && 'key' in node && 'translations' in node;
+
+const sortedEntries = (node: TreeNode) =>
+  Object.entries(node).sort(([a], [b]) => a.localeCompare(b));
+
 export const TreeView: React.FC<TreeViewProps> = ({
   translations,
   onEdit,
@@ -17,7 +31,11 @@ export const TreeView: React.FC<TreeViewProps> = ({
   expanded = [],
   onToggleExpand,
   enableRTL = false,
-  customStyles = {}
+  customStyles = {},
+  virtualized = false,
+  height = VIRTUAL_LIST.HEIGHT,
+  onEndReached,
+  fileLayout = 'single'
 }) => {
   const [internalExpanded, setInternalExpanded] = useState<Set<string>>(new Set(expanded));
 
@@ -43,7 +61,41 @@ export const TreeView: React.FC<TreeViewProps> = ({
     return tree;
   };
 
-  const tree = buildTree(translations);
+  const tree = useMemo(() => buildTree(translations), [translations]);
+
+  // Flattened for windowed rendering, collapsed branches hide their children
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const visit = (node: TreeNode, keyPath: string, level: number) => {
+      sortedEntries(node).forEach(([key, child]) => {
+        const childKeyPath = keyPath ? `${keyPath}.${key}` : key;
+        if (isTranslation(child)) {
+          result.push({ type: 'leaf', translation: child, level });
+          return;
+        }
+        result.push({ type: 'branch', keyPath: childKeyPath, node: child, level });
+        if (internalExpanded.has(childKeyPath)) {
+          visit(child, childKeyPath, level + 1);
+        }
+      });
+    };
+    if (virtualized) visit(tree, '', 0);
+    return result;
+  }, [tree, internalExpanded, virtualized]);
+
+  const rowHeight = useCallback((index: number) => {
+    const row = rows[index];
+    return row.type === 'branch'
+      ? VIRTUAL_LIST.TREE_ROW_HEIGHT
+      : VIRTUAL_LIST.TREE_ROW_HEIGHT + Object.keys(row.translation.translations).length * VIRTUAL_LIST.TREE_LOCALE_HEIGHT;
+  }, [rows]);
+
+  const virtual = useVirtualList<HTMLDivElement>({
+    count: rows.length,
+    itemHeight: rowHeight,
+    enabled: virtualized,
+    onEndReached
+  });
 
   const handleToggleExpand = (key: string) => {
     const newExpanded = new Set(internalExpanded);
@@ -56,120 +108,136 @@ export const TreeView: React.FC<TreeViewProps> = ({
     onToggleExpand?.(key);
   };
 
-  const renderTreeNode = (node: TreeNode | Translation, keyPath: string, level: number = 0): React.ReactNode => {
-    // If it's a translation (leaf node)
-    if ('id' in node && 'key' in node && 'translations' in node) {
-      const translation = node as Translation;
-      return (
-        <div
-          key={translation.key}
-          className={clsx(
-            'flex items-center gap-2 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-800',
-            customStyles.tableRow
-          )}
-          style={{ marginLeft: `${level * 20}px` }}
-        >
-          <div className="flex-1">
-            <div className="font-medium text-gray-900 dark:text-white text-sm">
-              {translation.key.split('.').pop()}
-            </div>
-            <div className="grid gap-1 mt-1">
-              {Object.entries(translation.translations).map(([locale, value]) => (
-                <div key={locale} className="flex items-center gap-2">
-                  <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase w-8">
-                    {locale}
-                  </span>
-                  <span 
-                    className="text-sm text-gray-700 dark:text-gray-300 flex-1"
-                    dir={enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale) ? 'rtl' : 'ltr'}
-                  >
-                    {value || <em className="text-gray-400">empty</em>}
-                  </span>
-                </div>
-              ))}
-            </div>
-          </div>
-
-          <div className="flex items-center gap-1">
-            {onEdit && (
-              <button
-                onClick={() => onEdit(translation)}
-                className="p-1 text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/20 rounded"
-                title="Edit"
-              >
-                <Edit size={14} />
-              </button>
-            )}
-            {onDelete && (
-              <button
-                onClick={() => translation.id && onDelete(translation.id)}
-                className="p-1 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/20 rounded"
-                title="Delete"
+  const renderLeaf = (translation: Translation, level: number, style?: React.CSSProperties) => (
+    <div
+      key={translation.key}
+      className={clsx(
+        'flex items-center gap-2 p-2 rounded hover:bg-nia-subtle',
+        virtualized && 'overflow-hidden',
+        customStyles.tableRow
+      )}
+      style={{ marginLeft: `${level * 20}px`, ...style }}
+    >
+      <div className={clsx('flex-1', virtualized && 'min-w-0')}>
+        <div className="font-medium text-nia-foreground text-sm">
+          {translation.key.split('.').pop()}
+        </div>
+        <div className="grid gap-1 mt-1">
+          {Object.entries(translation.translations).map(([locale, value]) => (
+            <div key={locale} className="flex items-center gap-2">
+              <span className="text-xs font-medium text-nia-secondary uppercase w-8">
+                {locale}
+              </span>
+              <span 
+                className={clsx('text-sm text-nia-foreground/80 flex-1', virtualized && 'truncate')}
+                dir={enableRTL && ['ar', 'he', 'fa', 'ur'].includes(locale) ? 'rtl' : 'ltr'}
               >
-                <Trash2 size={14} />
-              </button>
-            )}
-          </div>
+                {value || <em className="text-nia-secondary/70">empty</em>}
+              </span>
+            </div>
+          ))}
         </div>
-      );
-    }
+      </div>
 
-    // If it's a branch node
-    const branchNode = node as TreeNode;
+      <div className="flex items-center gap-1">
+        {onEdit && (
+          <button
+            onClick={() => onEdit(translation)}
+            className="p-1 text-nia-primary hover:bg-nia-primary/15 rounded"
+            title="Edit"
+          >
+            <Edit size={14} />
+          </button>
+        )}
+        {onDelete && (
+          <button
+            onClick={() => translation.id && onDelete(translation.id)}
+            className="p-1 text-nia-danger hover:bg-nia-danger/15 rounded"
+            title="Delete"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderBranch = (branchNode: TreeNode, keyPath: string, level: number, style?: React.CSSProperties) => {
     const isExpanded = internalExpanded.has(keyPath);
     const hasChildren = Object.keys(branchNode).length > 0;
 
     return (
-      <div key={keyPath} className="select-none">
-        <div
-          className={clsx(
-            'flex items-center gap-2 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer',
-            customStyles.tableRow
-          )}
-          style={{ marginLeft: `${level * 20}px` }}
-          onClick={() => handleToggleExpand(keyPath)}
-        >
-          {hasChildren ? (
-            isExpanded ? (
-              <ChevronDown size={16} className="text-gray-400" />
-            ) : (
-              <ChevronRight size={16} className="text-gray-400" />
-            )
+      <div
+        key={keyPath}
+        className={clsx(
+          'flex items-center gap-2 p-2 rounded hover:bg-nia-subtle cursor-pointer select-none',
+          customStyles.tableRow
+        )}
+        style={{ marginLeft: `${level * 20}px`, ...style }}
+        onClick={() => handleToggleExpand(keyPath)}
+      >
+        {hasChildren ? (
+          isExpanded ? (
+            <ChevronDown size={16} className="text-nia-secondary/70" />
           ) : (
-            <div className="w-4" />
-          )}
-          
-          <div className="flex-1">
-            <span className="font-medium text-gray-900 dark:text-white">
-              {keyPath.split('.').pop()}
-            </span>
-            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
-              ({Object.keys(branchNode).length} items)
+            <ChevronRight size={16} className="text-nia-secondary/70" />
+          )
+        ) : (
+          <div className="w-4" />
+        )}
+        
+        <div className="flex-1">
+          <span className="font-medium text-nia-foreground">
+            {keyPath.split('.').pop()}
+          </span>
+          <span className="ml-2 text-xs text-nia-secondary">
+            ({Object.keys(branchNode).length} items)
+          </span>
+          {/* In the split layouts each namespace is a file of its own */}
+          {level === 0 && fileLayout !== 'single' && (
+            <span className="ml-2 inline-flex items-center gap-1 font-mono text-xs text-nia-secondary/70">
+              <FileJson size={12} />
+              {getMessageFilePath(fileLayout, '{locale}', keyPath)}
             </span>
-          </div>
-
-          {onAdd && (
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onAdd(keyPath);
-              }}
-              className="p-1 text-green-600 hover:bg-green-100 dark:hover:bg-green-900/20 rounded"
-              title="Add translation here"
-            >
-              <Plus size={14} />
-            </button>
           )}
         </div>
 
+        {onAdd && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onAdd(keyPath);
+            }}
+            className="p-1 text-nia-success hover:bg-nia-success/15 rounded"
+            title="Add translation here"
+          >
+            <Plus size={14} />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderTreeNode = (node: TreeNode | Translation, keyPath: string, level: number = 0): React.ReactNode => {
+    // If it's a translation (leaf node)
+    if (isTranslation(node)) {
+      return renderLeaf(node, level);
+    }
+
+    // If it's a branch node
+    const isExpanded = internalExpanded.has(keyPath);
+    const hasChildren = Object.keys(node).length > 0;
+
+    return (
+      <div key={keyPath}>
+        {renderBranch(node, keyPath, level)}
+
         {isExpanded && hasChildren && (
           <div>
-            {Object.entries(branchNode)
-              .sort(([a], [b]) => a.localeCompare(b))
-              .map(([key, childNode]) => {
-                const childKeyPath = keyPath ? `${keyPath}.${key}` : key;
-                return renderTreeNode(childNode, childKeyPath, level + 1);
-              })}
+            {sortedEntries(node).map(([key, childNode]) => {
+              const childKeyPath = keyPath ? `${keyPath}.${key}` : key;
+              return renderTreeNode(childNode, childKeyPath, level + 1);
+            })}
           </div>
         )}
       </div>
@@ -178,7 +246,7 @@ export const TreeView: React.FC<TreeViewProps> = ({
 
   if (translations.length === 0) {
     return (
-      <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+      <div className="flex items-center justify-center h-64 text-nia-secondary">
         <div className="text-center">
           <p className="text-lg font-medium mb-2">No translations found</p>
           <p className="text-sm">Add some translations to see them in tree view</p>
@@ -187,12 +255,30 @@ export const TreeView: React.FC<TreeViewProps> = ({
     );
   }
 
+  if (virtualized) {
+    return (
+      <div
+        ref={virtual.containerRef}
+        className={clsx('tree-view overflow-auto px-4', customStyles.container)}
+        style={{ height }}
+        onScroll={virtual.onScroll}
+      >
+        <div style={{ paddingTop: virtual.paddingTop, paddingBottom: virtual.paddingBottom }}>
+          {rows.slice(virtual.start, virtual.end).map((row, visibleIndex) => {
+            const style = { height: rowHeight(virtual.start + visibleIndex) };
+            return row.type === 'leaf'
+              ? renderLeaf(row.translation, row.level, style)
+              : renderBranch(row.node, row.keyPath, row.level, style);
+          })}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={clsx('tree-view p-4', customStyles.container)}>
       <div className="space-y-1">
-        {Object.entries(tree)
-          .sort(([a], [b]) => a.localeCompare(b))
-          .map(([key, node]) => renderTreeNode(node, key, 0))}
+        {sortedEntries(tree).map(([key, node]) => renderTreeNode(node, key, 0))}
       </div>
     </div>
   );
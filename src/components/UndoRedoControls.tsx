@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import { Undo2, Redo2 } from 'lucide-react';
+import clsx from 'clsx';
+import type { UndoRedoControlsProps } from '../types';
+
+const buttonClass = (enabled: boolean) => clsx(
+  'p-2 rounded-md transition-colors',
+  enabled
+    ? 'text-nia-secondary hover:bg-nia-muted'
+    : 'text-nia-secondary/40 cursor-not-allowed'
+);
+
+export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  className = ''
+}) => {
+  const t = useTranslations('translationManager');
+
+  return (
+    <div className={clsx('flex items-center', className)}>
+      <button
+        onClick={onUndo}
+        disabled={!canUndo}
+        className={buttonClass(canUndo)}
+        title={`${t('undo')} (Ctrl+Z)`}
+        aria-label={t('undo')}
+      >
+        <Undo2 size={16} />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        className={buttonClass(canRedo)}
+        title={`${t('redo')} (Ctrl+Shift+Z)`}
+        aria-label={t('redo')}
+      >
+        <Redo2 size={16} />
+      </button>
+    </div>
+  );
+};
@@ -3,11 +3,24 @@ export { TranslationManager } from './TranslationManager';
 export { TranslationTable } from './TranslationTable';
 export { TranslationForm } from './TranslationForm';
 export { SearchBox } from './SearchBox';
+export { FilterPanel } from './FilterPanel';
+export { PluralEditor } from './PluralEditor';
+export { MessagePreview } from './MessagePreview';
+export { RevisionHistory } from './RevisionHistory';
+export { CommentThreads } from './CommentThreads';
+export { TranslationSuggestions } from './TranslationSuggestions';
 export { PaginationControls } from './PaginationControls';
+export { InfiniteScrollFooter } from './InfiniteScrollFooter';
 export { ImportExportControls } from './ImportExportControls';
+export { UndoRedoControls } from './UndoRedoControls';
+export { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
 export { TreeView } from './TreeView';
 
 // UI components
 export { LoadingSpinner } from './LoadingSpinner';
 export { ErrorMessage } from './ErrorMessage';
 export { ConfirmDialog } from './ConfirmDialog';
+export { ConflictDialog } from './ConflictDialog';
+export { ArchiveDialog } from './ArchiveDialog';
+export { ReviewQueue } from './ReviewQueue';
+export { ConnectionIndicator } from './ConnectionIndicator';
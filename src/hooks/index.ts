@@ -1,3 +1,7 @@
 export { useTranslationManager } from './useTranslationManager';
 export { useTranslationAPI } from './useTranslationAPI';
 export { usePagination } from './usePagination';
+export { useRealTimeUpdates } from './useRealTimeUpdates';
+export { useUndoRedo } from './useUndoRedo';
+export { useKeyboardShortcuts } from './useKeyboardShortcuts';
+export { useVirtualList } from './useVirtualList';
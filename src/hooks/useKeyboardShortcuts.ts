@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { ShortcutAction, ShortcutBindings } from '../types';
+import { matchesShortcut, isTextField, TEXT_FIELD_ACTIONS } from '../lib/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * Document-level listener calling the handler of the first matching binding.
+ * Actions without a handler are left to the browser.
+ */
+export function useKeyboardShortcuts(
+  handlers: ShortcutHandlers,
+  bindings: ShortcutBindings,
+  enabled: boolean = true
+): void {
+  // Handlers change every render, the listener only needs the latest ones
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+
+      const inTextField = isTextField(event.target);
+      const actions = Object.keys(handlersRef.current) as ShortcutAction[];
+      const action = actions.find(name =>
+        handlersRef.current[name] &&
+        (!inTextField || TEXT_FIELD_ACTIONS.includes(name)) &&
+        matchesShortcut(event, bindings[name])
+      );
+      if (!action) return;
+
+      event.preventDefault();
+      handlersRef.current[action]!();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
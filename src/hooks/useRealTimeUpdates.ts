@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { RealTimeConfig, RealTimeStatus, TranslationEvent } from '../types';
+
+const DEFAULT_RECONNECT_INTERVAL = 5000;
+
+export function useRealTimeUpdates(
+  config: RealTimeConfig | undefined,
+  onEvent: (event: TranslationEvent) => void
+): { status: RealTimeStatus } {
+  const enabled = Boolean(config?.enabled && config.websocketUrl);
+  const [status, setStatus] = useState<RealTimeStatus>(enabled ? 'connecting' : 'disabled');
+
+  // Keep the latest callbacks without reconnecting on every render
+  const onEventRef = useRef(onEvent);
+  const configRef = useRef(config);
+  onEventRef.current = onEvent;
+  configRef.current = config;
+
+  const websocketUrl = config?.websocketUrl;
+  const reconnectInterval = config?.reconnectInterval ?? DEFAULT_RECONNECT_INTERVAL;
+
+  useEffect(() => {
+    if (!enabled || !websocketUrl || typeof WebSocket === 'undefined') {
+      setStatus('disabled');
+      return;
+    }
+
+    let socket: WebSocket | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const connect = () => {
+      setStatus('connecting');
+      socket = new WebSocket(websocketUrl);
+
+      socket.onopen = () => {
+        setStatus('connected');
+        configRef.current?.onConnect?.();
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data) as TranslationEvent;
+          if (event && typeof event.type === 'string') {
+            onEventRef.current(event);
+          }
+        } catch (error) {
+          console.error('Invalid translation event:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        socket = null;
+        if (closed) return;
+
+        setStatus('disconnected');
+        configRef.current?.onDisconnect?.();
+        reconnectTimeout = setTimeout(connect, reconnectInterval);
+      };
+
+      // onclose follows every error and schedules the reconnect
+      socket.onerror = () => {
+        socket?.close();
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+      }
+      socket?.close();
+    };
+  }, [enabled, websocketUrl, reconnectInterval]);
+
+  return { status };
+}
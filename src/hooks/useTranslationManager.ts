@@ -5,25 +5,67 @@ import type {
   UseTranslationManagerOptions, 
   UseTranslationManagerReturn, 
   Translation,
-  PaginatedResponse
+  ArchivedTranslation,
+  TranslationEvent,
+  TranslationFilter,
+  TranslationRevision,
+  TranslationComment,
+  CommentInput,
+  TranslationSuggestion,
+  SuggestionOptions,
+  PaginatedResponse,
+  ExportOptions
 } from '../types';
-import { APIError } from '../types';
+import { APIError, ConflictError } from '../types';
+import { API_ROUTES, PAGE_SIZE_OPTIONS } from '../lib/constants';
+import { translationUtils } from '../lib/utils';
+import { diffSnapshots } from '../lib/undo-stack';
+import { useRealTimeUpdates } from './useRealTimeUpdates';
+import { useUndoRedo } from './useUndoRedo';
+
+// Handle the list formats of the supported backends
+function readListResponse(response: unknown): { results: Translation[]; total: number } {
+  if (Array.isArray(response)) {
+    // Direct array response
+    return { results: response, total: response.length };
+  }
+  if (!response || typeof response !== 'object') {
+    return { results: [], total: 0 };
+  }
+
+  const { results, count, data, total } = response as { results?: unknown; count?: number; data?: unknown; total?: number };
+  if (Array.isArray(results)) {
+    // Paginated response (Django REST Framework style)
+    return { results, total: count || 0 };
+  }
+  if (Array.isArray(data)) {
+    // Wrapped response
+    return { results: data, total: total || data.length };
+  }
+  return { results: [], total: 0 };
+}
 
 export function useTranslationManager({
   apiEndpoint,
   pageSize = 25,
   apiHeaders = {},
-  onError
+  onError,
+  realTimeUpdates,
+  infinite = false
 }: UseTranslationManagerOptions): UseTranslationManagerReturn {
   // State
   const [translations, setTranslations] = useState<Translation[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFiltersState] = useState<TranslationFilter>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [currentPageSize, setCurrentPageSize] = useState(pageSize);
   const [totalCount, setTotalCount] = useState(0);
   const [totalPages, setTotalPages] = useState(1);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const { record: recordChange, undo: undoChange, redo: redoChange, canUndo, canRedo } = useUndoRedo();
 
   // Refs for cleanup and debouncing
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -50,6 +92,9 @@ export function useTranslationManager({
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+        if (response.status === 409 && 'current' in errorData) {
+          throw new ConflictError(errorData.message, errorData.current || undefined);
+        }
         throw new APIError(
           errorData.message || `HTTP ${response.status}: ${response.statusText}`,
           response.status,
@@ -74,38 +119,23 @@ export function useTranslationManager({
   const fetchTranslations = useCallback(async (
     page: number = currentPage,
     size: number = currentPageSize,
-    search: string = searchTerm
+    search: string = searchTerm,
+    filter: TranslationFilter = filters
   ) => {
     try {
       setLoading(true);
       setError(null);
 
-      const params = new URLSearchParams({
-        page: page.toString(),
-        page_size: size.toString(),
-        ...(search && { search })
-      });
+      // Infinite mode reloads every page loaded so far in one request
+      const params = translationUtils.filterToSearchParams({ ...filter, search }, new URLSearchParams({
+        page: infinite ? '1' : page.toString(),
+        page_size: (infinite ? page * size : size).toString()
+      }));
 
       const response = await apiCall(`?${params}`);
       
       if (response) {
-        // Handle different response formats
-        let translationsArray: Translation[] = [];
-        let total = 0;
-
-        if (Array.isArray(response)) {
-          // Direct array response
-          translationsArray = response;
-          total = response.length;
-        } else if (response.results && Array.isArray(response.results)) {
-          // Paginated response (Django REST Framework style)
-          translationsArray = response.results;
-          total = response.count || 0;
-        } else if (response.data && Array.isArray(response.data)) {
-          // Wrapped response
-          translationsArray = response.data;
-          total = response.total || response.data.length;
-        }
+        const { results: translationsArray, total } = readListResponse(response);
 
         setTranslations(translationsArray);
         setTotalCount(total);
@@ -118,7 +148,62 @@ export function useTranslationManager({
     } finally {
       setLoading(false);
     }
-  }, [currentPage, currentPageSize, searchTerm, apiCall, onError]);
+  }, [currentPage, currentPageSize, searchTerm, filters, apiCall, onError, infinite]);
+
+  const hasMore = infinite && translations.length < totalCount;
+
+  // Append the next page in infinite mode
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loading || loadingMore) return;
+
+    const page = currentPage + 1;
+    try {
+      setLoadingMore(true);
+      setError(null);
+
+      const params = translationUtils.filterToSearchParams({ ...filters, search: searchTerm }, new URLSearchParams({
+        page: page.toString(),
+        page_size: currentPageSize.toString()
+      }));
+
+      const response = await apiCall(`?${params}`);
+
+      if (response) {
+        const { results, total } = readListResponse(response);
+
+        setTranslations(prev => {
+          const loaded = new Set(prev.map(t => String(t.id)));
+          return prev.concat(results.filter(t => !loaded.has(String(t.id))));
+        });
+        setCurrentPage(page);
+        setTotalCount(total);
+        setTotalPages(Math.ceil(total / currentPageSize));
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch translations';
+      setError(errorMessage);
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [hasMore, loading, loadingMore, currentPage, currentPageSize, searchTerm, filters, apiCall, onError]);
+
+  // Every translation, used to snapshot the keys an import touches
+  const fetchAllTranslations = useCallback(async (): Promise<Translation[]> => {
+    const size = PAGE_SIZE_OPTIONS[PAGE_SIZE_OPTIONS.length - 1];
+    const all: Translation[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await apiCall(`?page=${page}&page_size=${size}`);
+      if (!response) break;
+
+      const { results, total } = readListResponse(response);
+      all.push(...results);
+      if (results.length < size || all.length >= total) break;
+    }
+
+    return all;
+  }, [apiCall]);
 
   // Create translation
   const createTranslation = useCallback(async (
@@ -134,6 +219,7 @@ export function useTranslationManager({
       });
 
       if (response) {
+        recordChange({ action: 'create', changes: [{ after: response }] });
         // Refresh the list to show the new translation
         await fetchTranslations();
         return response;
@@ -148,12 +234,33 @@ export function useTranslationManager({
     } finally {
       setLoading(false);
     }
-  }, [apiCall, fetchTranslations, onError]);
+  }, [apiCall, fetchTranslations, onError, recordChange]);
+
+  // Keep the list in line with the server value a conflict reported
+  const applyConflict = useCallback((id: string | number, err: ConflictError) => {
+    const current = err.current;
+    if (current) {
+      setTranslations(prev => prev.map(t => t.id === id ? current : t));
+    } else {
+      setTranslations(prev => prev.filter(t => t.id !== id));
+      setTotalCount(prev => prev - 1);
+    }
+  }, []);
+
+  // The version an edit started from, the listed one unless given
+  const ifMatchHeaders = useCallback((id: string | number, version?: number): Record<string, string> => {
+    if (version === undefined) {
+      const listed = translations.find(t => t.id === id);
+      version = listed ? listed.version : undefined;
+    }
+    return version === undefined ? {} : { 'If-Match': `"${version}"` };
+  }, [translations]);
 
   // Update translation
   const updateTranslation = useCallback(async (
     id: string | number,
-    translation: Partial<Translation>
+    translation: Partial<Translation>,
+    options: { version?: number } = {}
   ): Promise<Translation> => {
     try {
       setLoading(true);
@@ -161,10 +268,16 @@ export function useTranslationManager({
 
       const response = await apiCall(`/${id}`, {
         method: 'PUT',
+        headers: ifMatchHeaders(id, options.version),
         body: JSON.stringify(translation)
       });
 
       if (response) {
+        const previous = translations.find(t => t.id === id);
+        if (previous) {
+          recordChange({ action: 'update', changes: [{ before: previous, after: { ...previous, ...response } }] });
+        }
+
         // Update the translation in the current list
         setTranslations(prev => prev.map(t => 
           t.id === id ? { ...t, ...response } : t
@@ -174,6 +287,11 @@ export function useTranslationManager({
       
       throw new Error('Failed to update translation');
     } catch (err) {
+      // Left to the caller, which shows the merge dialog
+      if (err instanceof ConflictError) {
+        applyConflict(id, err);
+        throw err;
+      }
       const errorMessage = err instanceof Error ? err.message : 'Failed to update translation';
       setError(errorMessage);
       onError?.(err instanceof Error ? err : new Error(errorMessage));
@@ -181,22 +299,32 @@ export function useTranslationManager({
     } finally {
       setLoading(false);
     }
-  }, [apiCall, onError]);
+  }, [apiCall, onError, translations, recordChange, applyConflict, ifMatchHeaders]);
 
   // Delete translation
-  const deleteTranslation = useCallback(async (id: string | number): Promise<void> => {
+  const deleteTranslation = useCallback(async (
+    id: string | number,
+    options: { version?: number } = {}
+  ): Promise<void> => {
     try {
       setLoading(true);
       setError(null);
 
       await apiCall(`/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: ifMatchHeaders(id, options.version)
       });
 
+      const previous = translations.find(t => t.id === id);
+      if (previous) {
+        recordChange({ action: 'delete', changes: [{ before: previous }] });
+      }
+
       // Remove the translation from the current list
       setTranslations(prev => prev.filter(t => t.id !== id));
       setTotalCount(prev => prev - 1);
     } catch (err) {
+      if (err instanceof ConflictError) applyConflict(id, err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete translation';
       setError(errorMessage);
       onError?.(err instanceof Error ? err : new Error(errorMessage));
@@ -204,8 +332,137 @@ export function useTranslationManager({
     } finally {
       setLoading(false);
     }
+  }, [apiCall, onError, translations, recordChange, applyConflict, ifMatchHeaders]);
+
+  // Load the revisions of a translation, newest first
+  const getHistory = useCallback(async (id: string | number): Promise<TranslationRevision[]> => {
+    try {
+      const response = await apiCall(`/${id}/${API_ROUTES.HISTORY}`);
+      return response || [];
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load history';
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    }
+  }, [apiCall, onError]);
+
+  // Restore a translation to an earlier revision
+  const restoreRevision = useCallback(async (
+    id: string | number,
+    revisionId: string
+  ): Promise<Translation> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiCall(`/${id}/${API_ROUTES.RESTORE}`, {
+        method: 'POST',
+        body: JSON.stringify({ revisionId })
+      });
+
+      if (response) {
+        const previous = translations.find(t => t.id === id);
+        if (previous) {
+          recordChange({ action: 'restore', changes: [{ before: previous, after: { ...previous, ...response } }] });
+        }
+
+        setTranslations(prev => prev.map(t =>
+          t.id === id ? { ...t, ...response } : t
+        ));
+        return response;
+      }
+
+      throw new Error('Failed to restore revision');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore revision';
+      setError(errorMessage);
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [apiCall, onError, translations, recordChange]);
+
+  // Load the comments of a translation, oldest first
+  const getComments = useCallback(async (id: string | number): Promise<TranslationComment[]> => {
+    try {
+      const response = await apiCall(`/${id}/${API_ROUTES.COMMENTS}`);
+      return response || [];
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load comments';
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    }
+  }, [apiCall, onError]);
+
+  // Comment on a translation, a new thread counts as open
+  const addComment = useCallback(async (
+    id: string | number,
+    comment: CommentInput
+  ): Promise<TranslationComment> => {
+    try {
+      const response: TranslationComment = await apiCall(`/${id}/${API_ROUTES.COMMENTS}`, {
+        method: 'POST',
+        body: JSON.stringify(comment)
+      });
+
+      if (!response.parentId) {
+        setTranslations(prev => prev.map(t =>
+          t.id === id ? { ...t, openComments: (t.openComments || 0) + 1 } : t
+        ));
+      }
+      return response;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add comment';
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    }
   }, [apiCall, onError]);
 
+  // Resolve or reopen the thread of a comment
+  const resolveComment = useCallback(async (
+    id: string | number,
+    commentId: string,
+    resolved: boolean
+  ): Promise<TranslationComment> => {
+    try {
+      const response: TranslationComment = await apiCall(
+        `/${id}/${API_ROUTES.COMMENTS}/${encodeURIComponent(commentId)}/${API_ROUTES.RESOLVE}`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ resolved })
+        }
+      );
+
+      setTranslations(prev => prev.map(t =>
+        t.id === id
+          ? { ...t, openComments: Math.max(0, (t.openComments || 0) + (resolved ? -1 : 1)) }
+          : t
+      ));
+      return response;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update comment';
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    }
+  }, [apiCall, onError]);
+
+  // Translation memory matches for a default-locale text. Failures are left to
+  // the caller rather than onError, they come and go while someone types
+  const getSuggestions = useCallback(async (
+    text: string,
+    locale: string,
+    options: SuggestionOptions = {}
+  ): Promise<TranslationSuggestion[]> => {
+    const params = new URLSearchParams({ text, locale });
+    if (options.excludeKey) params.set('exclude', options.excludeKey);
+    if (options.limit) params.set('limit', options.limit.toString());
+    if (options.minScore !== undefined) params.set('min_score', options.minScore.toString());
+
+    const response = await apiCall(`/${API_ROUTES.SUGGESTIONS}?${params}`);
+    return response || [];
+  }, [apiCall]);
+
   // Bulk delete translations
   const bulkDeleteTranslations = useCallback(async (
     ids: (string | number)[]
@@ -214,11 +471,16 @@ export function useTranslationManager({
       setLoading(true);
       setError(null);
 
-      await apiCall('/bulk-delete', {
+      await apiCall(`/${API_ROUTES.BULK_DELETE}`, {
         method: 'POST',
         body: JSON.stringify({ ids })
       });
 
+      recordChange({
+        action: 'delete',
+        changes: translations.filter(t => ids.includes(t.id!)).map(t => ({ before: t }))
+      });
+
       // Remove the translations from the current list
       setTranslations(prev => prev.filter(t => !ids.includes(t.id!)));
       setTotalCount(prev => prev - ids.length);
@@ -230,8 +492,67 @@ export function useTranslationManager({
     } finally {
       setLoading(false);
     }
+  }, [apiCall, onError, translations, recordChange]);
+
+  // Archive translations. Not on the undo stack, the archive is the way back
+  const archiveTranslations = useCallback(async (
+    ids: (string | number)[]
+  ): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      await apiCall(`/${API_ROUTES.ARCHIVE}`, {
+        method: 'POST',
+        body: JSON.stringify({ ids })
+      });
+
+      setTranslations(prev => prev.filter(t => !ids.includes(t.id!)));
+      setTotalCount(prev => prev - ids.length);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to archive translations';
+      setError(errorMessage);
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
   }, [apiCall, onError]);
 
+  // Load the archived translations
+  const getArchive = useCallback(async (): Promise<ArchivedTranslation[]> => {
+    try {
+      const response = await apiCall(`/${API_ROUTES.ARCHIVE}`);
+      return response || [];
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load the archive';
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    }
+  }, [apiCall, onError]);
+
+  // Put archived translations back into the catalog
+  const restoreArchived = useCallback(async (keys: string[]): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      await apiCall(`/${API_ROUTES.ARCHIVE}/${API_ROUTES.RESTORE}`, {
+        method: 'POST',
+        body: JSON.stringify({ keys })
+      });
+
+      await fetchTranslations();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore translations';
+      setError(errorMessage);
+      onError?.(err instanceof Error ? err : new Error(errorMessage));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [apiCall, fetchTranslations, onError]);
+
   // Import translations
   const importTranslations = useCallback(async (
     importedTranslations: Translation[]
@@ -240,11 +561,19 @@ export function useTranslationManager({
       setLoading(true);
       setError(null);
 
-      await apiCall('/import', {
+      const keys = importedTranslations.map(t => t.key);
+      const before = await fetchAllTranslations();
+
+      await apiCall(`/${API_ROUTES.IMPORT}`, {
         method: 'POST',
         body: JSON.stringify({ translations: importedTranslations })
       });
 
+      recordChange({
+        action: 'import',
+        changes: diffSnapshots(before, await fetchAllTranslations(), keys)
+      });
+
       // Refresh the list to show imported translations
       await fetchTranslations();
     } catch (err) {
@@ -255,23 +584,27 @@ export function useTranslationManager({
     } finally {
       setLoading(false);
     }
-  }, [apiCall, fetchTranslations, onError]);
+  }, [apiCall, fetchTranslations, fetchAllTranslations, onError, recordChange]);
 
   // Export translations
-  const exportTranslations = useCallback(async (format: string = 'json'): Promise<Blob> => {
+  const exportTranslations = useCallback(async (
+    format: string = 'json',
+    options: Pick<ExportOptions, 'approvedOnly'> = {}
+  ): Promise<Blob> => {
     try {
       setLoading(true);
       setError(null);
 
-      const params = new URLSearchParams({
-        format,
-        ...(searchTerm && { search: searchTerm })
-      });
+      const params = translationUtils.filterToSearchParams(
+        { ...filters, search: searchTerm },
+        new URLSearchParams({ format })
+      );
+      if (options.approvedOnly) params.set('approved_only', 'true');
 
       const controller = new AbortController();
       abortControllerRef.current = controller;
 
-      const response = await fetch(`${apiEndpoint}/export?${params}`, {
+      const response = await fetch(`${apiEndpoint}/${API_ROUTES.EXPORT}?${params}`, {
         headers: apiHeaders,
         signal: controller.signal
       });
@@ -289,7 +622,77 @@ export function useTranslationManager({
     } finally {
       setLoading(false);
     }
-  }, [apiEndpoint, apiHeaders, searchTerm, onError]);
+  }, [apiEndpoint, apiHeaders, searchTerm, filters, onError]);
+
+  // Apply a change made by another editor to the current page
+  const applyEvent = useCallback((event: TranslationEvent) => {
+    const incoming = event.type === 'import'
+      ? event.translations || []
+      : event.translation ? [event.translation] : [];
+    const removedIds = event.type === 'delete' || event.type === 'bulk_delete'
+      ? (event.ids || (event.translation ? [event.translation.id!] : [])).map(String)
+      : [];
+
+    let next = translations;
+    let countChange = 0;
+
+    if (event.type === 'create' || event.type === 'update' || event.type === 'import') {
+      incoming.forEach(translation => {
+        const index = next.findIndex(t => String(t.id) === String(translation.id));
+
+        if (index !== -1) {
+          next = next.map((t, i) => i === index ? { ...t, ...translation } : t);
+        } else if (
+          event.type !== 'update' &&
+          translationUtils.filterTranslations([translation], { ...filters, search: searchTerm }).length > 0
+        ) {
+          // New keys only fit on the page while it has room, the count covers the rest
+          if (next.length < (infinite ? currentPage : 1) * currentPageSize) {
+            next = [...next, translation];
+          }
+          countChange++;
+        }
+      });
+    }
+
+    if (removedIds.length > 0) {
+      const remaining = next.filter(t => !removedIds.includes(String(t.id)));
+      countChange -= next.length - remaining.length;
+      next = remaining;
+    }
+
+    if (next !== translations) {
+      setTranslations(next);
+    }
+    if (countChange !== 0) {
+      const total = Math.max(0, totalCount + countChange);
+      setTotalCount(total);
+      setTotalPages(Math.ceil(total / currentPageSize));
+    }
+
+    incoming.forEach(translation => realTimeUpdates?.onUpdate?.(translation));
+  }, [translations, searchTerm, filters, currentPage, currentPageSize, totalCount, realTimeUpdates, infinite]);
+
+  const { status: connectionStatus } = useRealTimeUpdates(realTimeUpdates, applyEvent);
+
+  // Replay the undo stack through the same writes, so the list stays in sync
+  const undo = useCallback(async (): Promise<void> => {
+    try {
+      await undoChange({ create: createTranslation, update: updateTranslation, delete: deleteTranslation });
+    } catch (err) {
+      await fetchTranslations();
+      throw err;
+    }
+  }, [undoChange, createTranslation, updateTranslation, deleteTranslation, fetchTranslations]);
+
+  const redo = useCallback(async (): Promise<void> => {
+    try {
+      await redoChange({ create: createTranslation, update: updateTranslation, delete: deleteTranslation });
+    } catch (err) {
+      await fetchTranslations();
+      throw err;
+    }
+  }, [redoChange, createTranslation, updateTranslation, deleteTranslation, fetchTranslations]);
 
   // Refresh data
   const refresh = useCallback(async () => {
@@ -312,6 +715,13 @@ export function useTranslationManager({
     }, 300);
   }, [currentPageSize, fetchTranslations]);
 
+  // Handle filter changes
+  const handleFiltersChange = useCallback((filter: TranslationFilter) => {
+    setFiltersState(filter);
+    setCurrentPage(1); // Reset to first page when filtering
+    fetchTranslations(1, currentPageSize, searchTerm, filter);
+  }, [currentPageSize, searchTerm, fetchTranslations]);
+
   // Handle page changes
   const handlePageChange = useCallback((page: number) => {
     setCurrentPage(page);
@@ -354,14 +764,33 @@ export function useTranslationManager({
     },
     searchTerm,
     setSearchTerm: handleSearchTermChange,
+    filters,
+    setFilters: handleFiltersChange,
     setPage: handlePageChange,
     setPageSize: handlePageSizeChange,
+    loadMore,
+    hasMore,
+    loadingMore,
     createTranslation,
     updateTranslation,
     deleteTranslation,
     bulkDeleteTranslations,
+    archiveTranslations,
+    getArchive,
+    restoreArchived,
+    getHistory,
+    restoreRevision,
+    getComments,
+    addComment,
+    resolveComment,
+    getSuggestions,
     importTranslations,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     exportTranslations,
-    refresh
+    refresh,
+    connectionStatus
   };
 }
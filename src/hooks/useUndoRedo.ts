@@ -0,0 +1,62 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { UndoStack } from '../lib/undo-stack';
+import type { UndoEntry, UndoOperations } from '../lib/undo-stack';
+
+export interface UseUndoRedoReturn {
+  canUndo: boolean;
+  canRedo: boolean;
+  record: (entry: UndoEntry) => void;
+  undo: (operations: UndoOperations) => Promise<UndoEntry | null>;
+  redo: (operations: UndoOperations) => Promise<UndoEntry | null>;
+  clear: () => void;
+}
+
+export function useUndoRedo(limit?: number): UseUndoRedoReturn {
+  const stackRef = useRef<UndoStack | null>(null);
+  if (!stackRef.current) {
+    stackRef.current = new UndoStack(limit);
+  }
+  const stack = stackRef.current;
+
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const sync = useCallback(() => {
+    setCanUndo(stack.canUndo);
+    setCanRedo(stack.canRedo);
+  }, [stack]);
+
+  const record = useCallback((entry: UndoEntry) => {
+    stack.record(entry);
+    sync();
+  }, [stack, sync]);
+
+  const undo = useCallback(async (operations: UndoOperations) => {
+    const pending = stack.undo(operations);
+    sync();
+    try {
+      return await pending;
+    } finally {
+      sync();
+    }
+  }, [stack, sync]);
+
+  const redo = useCallback(async (operations: UndoOperations) => {
+    const pending = stack.redo(operations);
+    sync();
+    try {
+      return await pending;
+    } finally {
+      sync();
+    }
+  }, [stack, sync]);
+
+  const clear = useCallback(() => {
+    stack.clear();
+    sync();
+  }, [stack, sync]);
+
+  return { canUndo, canRedo, record, undo, redo, clear };
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { RefObject } from 'react';
+import { VIRTUAL_LIST } from '../lib/constants';
+
+export interface UseVirtualListOptions {
+  count: number;
+  // Fixed height of every item, or of the item at an index
+  itemHeight: number | ((index: number) => number);
+  overscan?: number;
+  // Space above the first item inside the scroll container, e.g. a sticky header
+  startOffset?: number;
+  enabled?: boolean;
+  // Called once per item count when the last item comes into view
+  onEndReached?: () => void;
+}
+
+export interface UseVirtualListReturn<T extends HTMLElement> {
+  containerRef: RefObject<T | null>;
+  onScroll: () => void;
+  // Rendered items are [start, end)
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  totalHeight: number;
+  scrollToIndex: (index: number) => void;
+}
+
+export function useVirtualList<T extends HTMLElement = HTMLDivElement>({
+  count,
+  itemHeight,
+  overscan = VIRTUAL_LIST.OVERSCAN,
+  startOffset = 0,
+  enabled = true,
+  onEndReached
+}: UseVirtualListOptions): UseVirtualListReturn<T> {
+  const containerRef = useRef<T | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(VIRTUAL_LIST.HEIGHT);
+  const endReachedAt = useRef(-1);
+
+  // offsets[i] is the top of item i, offsets[count] the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (typeof itemHeight === 'number' ? itemHeight : itemHeight(i));
+    }
+    return result;
+  }, [count, itemHeight]);
+
+  const onScroll = useCallback(() => {
+    if (containerRef.current) setScrollTop(containerRef.current.scrollTop);
+  }, []);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!enabled || !element) return;
+
+    const measure = () => setViewportHeight(element.clientHeight || VIRTUAL_LIST.HEIGHT);
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  const totalHeight = offsets[count];
+  const top = Math.max(0, scrollTop - startOffset);
+  const first = enabled ? findIndex(offsets, top) : 0;
+  const last = enabled ? findIndex(offsets, top + viewportHeight) + 1 : count;
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(count, last + overscan);
+
+  useEffect(() => {
+    if (!enabled || !onEndReached || count === 0 || end < count) return;
+    if (endReachedAt.current === count) return;
+    endReachedAt.current = count;
+    onEndReached();
+  }, [enabled, onEndReached, count, end]);
+
+  const scrollToIndex = useCallback((index: number) => {
+    const element = containerRef.current;
+    if (!element || index < 0 || index >= count) return;
+
+    // Like scrollIntoView({ block: 'nearest' }), below the sticky part
+    const itemTop = startOffset + offsets[index];
+    const itemBottom = startOffset + offsets[index + 1];
+    if (itemTop < element.scrollTop + startOffset) {
+      element.scrollTop = offsets[index];
+    } else if (itemBottom > element.scrollTop + element.clientHeight) {
+      element.scrollTop = itemBottom - element.clientHeight;
+    }
+  }, [count, offsets, startOffset]);
+
+  return {
+    containerRef,
+    onScroll,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: totalHeight - offsets[end],
+    totalHeight,
+    scrollToIndex
+  };
+}
+
+// Index of the item that contains the given offset
+function findIndex(offsets: number[], offset: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+}
@@ -5,39 +5,145 @@ export { TranslationTable } from './components/TranslationTable';
 export { TranslationForm } from './components/TranslationForm';
 export { SearchBox } from './components/SearchBox';
 export { PaginationControls } from './components/PaginationControls';
+export { InfiniteScrollFooter } from './components/InfiniteScrollFooter';
 export { ImportExportControls } from './components/ImportExportControls';
 export { TreeView } from './components/TreeView';
+export { FilterPanel } from './components/FilterPanel';
+export { PluralEditor } from './components/PluralEditor';
+export { MessagePreview } from './components/MessagePreview';
+export { RevisionHistory } from './components/RevisionHistory';
+export { CommentThreads } from './components/CommentThreads';
+export { TranslationSuggestions } from './components/TranslationSuggestions';
+export { ConnectionIndicator } from './components/ConnectionIndicator';
+export { UndoRedoControls } from './components/UndoRedoControls';
+export { KeyboardShortcutsHelp } from './components/KeyboardShortcutsHelp';
+export { ConflictDialog } from './components/ConflictDialog';
+export { ArchiveDialog } from './components/ArchiveDialog';
+export { ReviewQueue } from './components/ReviewQueue';
 
 // Hooks
 export { useTranslationManager } from './hooks/useTranslationManager';
 export { useTranslationAPI } from './hooks/useTranslationAPI';
 export { usePagination } from './hooks/usePagination';
+export { useRealTimeUpdates } from './hooks/useRealTimeUpdates';
+export { useUndoRedo } from './hooks/useUndoRedo';
+export { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+export { useVirtualList } from './hooks/useVirtualList';
+export type { UseVirtualListOptions, UseVirtualListReturn } from './hooks/useVirtualList';
 
 // Types
 export type {
   Translation,
+  TranslationStatus,
   TranslationManagerProps,
   TranslationTableProps,
   TranslationFormProps,
   SearchBoxProps,
+  FilterPanelProps,
+  PluralEditorProps,
+  MessagePreviewProps,
+  RevisionHistoryProps,
+  UndoRedoControlsProps,
+  KeyboardShortcutsHelpProps,
+  ConflictDialogProps,
+  ArchiveDialogProps,
+  ArchivedTranslation,
+  ReviewQueueProps,
+  CommentThreadsProps,
+  TranslationComment,
+  CommentInput,
+  TranslationSuggestionsProps,
+  TranslationSuggestion,
+  SuggestionOptions,
+  TranslationConflict,
+  ShortcutAction,
+  ShortcutBindings,
+  TranslationFilter,
   PaginationProps,
+  PaginationMode,
+  MessageFileLayout,
+  InfiniteScrollFooterProps,
   ImportExportProps,
   TreeViewProps,
   Theme,
+  ColorScheme,
   Permissions,
   ValidationRules,
   APIResponse,
-  PaginatedResponse
+  PaginatedResponse,
+  RealTimeConfig,
+  RealTimeStatus,
+  TranslationEvent,
+  StorageAdapter,
+  StorageWriteOptions,
+  StorageQuery,
+  StorageQueryResult,
+  TranslationRevision,
+  RevisionAction
 } from './types';
 
 // Utilities
 export { translationUtils } from './lib/utils';
 export { TranslationAPI } from './lib/api';
 export { StandaloneAPI } from './lib/standalone-api';
+export { TabSync, getSyncChannel } from './lib/tab-sync';
+export type { TabSyncListener } from './lib/tab-sync';
 export { FileManager } from './lib/file-manager';
+export type { FileManagerOptions } from './lib/file-manager';
+export { getMessageFilePath, splitMessageFiles } from './lib/message-files';
 export { LocalStorageAdapter, IndexedDBAdapter, MemoryStorageAdapter } from './lib/storage';
-export { exportTranslations, importTranslations } from './lib/import-export';
+export {
+  exportTranslations,
+  importTranslations,
+  mergeXLIFFTargets,
+  checkImportedMessages,
+  getExportFileExtension
+} from './lib/import-export';
+export { readXliff, writeXliff } from './lib/xliff';
+export type { XliffDocument, XliffUnit, XliffVersion } from './lib/xliff';
+export {
+  parseMessage,
+  printMessage,
+  getMessageArguments,
+  validateMessages,
+  splitPluralMessage,
+  joinPluralMessage
+} from './lib/icu';
+export type { MessageNode, MessageArgumentType, PluralMessage } from './lib/icu';
+export { getPluralRule, getPluralCategories, checkPluralCategories } from './lib/plural-rules';
+export type { PluralCategory, PluralRule } from './lib/plural-rules';
+export { MessageFormatError, ConflictError } from './types';
+export { createRevision, diffTranslations, getKeyHistory, restoreFromRevision } from './lib/history';
+export { UndoStack, diffSnapshots } from './lib/undo-stack';
+export { addToArchive, takeFromArchive } from './lib/archive';
+export {
+  REVIEW_STATUSES,
+  applyEditStatus,
+  setReviewStatus,
+  getLocalesInStatus,
+  getApprovalChanges,
+  filterApproved
+} from './lib/review';
+export {
+  validateComment,
+  appendComment,
+  resolveThread,
+  getCommentThreads,
+  countOpenComments,
+  withOpenComments
+} from './lib/comments';
+export type { CommentThread } from './lib/comments';
+export { TranslationMemory, similarity } from './lib/translation-memory';
+export { compareLocales, defaultMergeSide, applyMerge } from './lib/merge';
+export type { MergeSide, LocaleMerge } from './lib/merge';
+export { extractKeys, groupExtractedKeys, findMissingKeys, findUnusedKeys, addMissingKeys } from './lib/extract';
+export type { ExtractedKey, ExtractResult, AddMissingKeysOptions } from './lib/extract';
+export { generateMessageTypes, getArgumentTypes } from './lib/message-types';
+export type { MessageTypesOptions } from './lib/message-types';
+export type { UndoAction, UndoEntry, UndoOperations, TranslationChange } from './lib/undo-stack';
+export { resolveShortcuts, pickShortcuts, matchesShortcut, formatShortcut } from './lib/shortcuts';
+export { resolveThemeColor, themeToCssVariables } from './lib/theme';
 export { buildTranslationTree, flattenTranslationTree } from './lib/tree-utils';
 
 // Constants
-export { DEFAULT_THEME, DEFAULT_PERMISSIONS, SUPPORTED_FORMATS } from './lib/constants';
+export { DEFAULT_THEME, DARK_THEME, DEFAULT_PERMISSIONS, SUPPORTED_FORMATS, KEYBOARD_SHORTCUTS, VIRTUAL_LIST, SYNC_CHANNEL } from './lib/constants';
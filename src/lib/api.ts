@@ -1,4 +1,19 @@
-import type { Translation, PaginatedResponse } from '../types';
+import type {
+  Translation,
+  ArchivedTranslation,
+  PaginatedResponse,
+  ImportResult,
+  TranslationFilter,
+  TranslationRevision,
+  TranslationComment,
+  CommentInput,
+  TranslationSuggestion,
+  SuggestionOptions,
+  ExportOptions
+} from '../types';
+import { ConflictError } from '../types';
+import { API_ROUTES } from './constants';
+import { translationUtils } from './utils';
 
 export class TranslationAPI {
   private baseURL: string;
@@ -28,6 +43,9 @@ export class TranslationAPI {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
+      if (response.status === 409 && 'current' in errorData) {
+        throw new ConflictError(errorData.message, errorData.current || undefined);
+      }
       throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
     }
 
@@ -39,11 +57,13 @@ export class TranslationAPI {
     page?: number;
     pageSize?: number;
     search?: string;
+    filter?: TranslationFilter;
   } = {}): Promise<PaginatedResponse<Translation>> {
     const searchParams = new URLSearchParams();
     
     if (params.page) searchParams.set('page', params.page.toString());
     if (params.pageSize) searchParams.set('page_size', params.pageSize.toString());
+    if (params.filter) translationUtils.filterToSearchParams(params.filter, searchParams);
     if (params.search) searchParams.set('search', params.search);
 
     const query = searchParams.toString();
@@ -65,47 +85,134 @@ export class TranslationAPI {
     });
   }
 
-  // Update existing translation
+  // Update existing translation, rejected with a ConflictError when the
+  // stored version no longer matches
   async updateTranslation(
     id: string | number,
-    translation: Partial<Translation>
+    translation: Partial<Translation>,
+    version: number | undefined = translation.version
   ): Promise<Translation> {
     return this.request<Translation>(`/${id}`, {
       method: 'PUT',
+      headers: ifMatch(version),
       body: JSON.stringify(translation)
     });
   }
 
   // Delete translation
-  async deleteTranslation(id: string | number): Promise<void> {
+  async deleteTranslation(id: string | number, version?: number): Promise<void> {
     await this.request(`/${id}`, {
-      method: 'DELETE'
+      method: 'DELETE',
+      headers: ifMatch(version)
+    });
+  }
+
+  // Revisions of a translation, newest first
+  async getHistory(id: string | number): Promise<TranslationRevision[]> {
+    return this.request<TranslationRevision[]>(`/${id}/${API_ROUTES.HISTORY}`);
+  }
+
+  // Bring back the values of an earlier revision
+  async restoreRevision(id: string | number, revisionId: string): Promise<Translation> {
+    return this.request<Translation>(`/${id}/${API_ROUTES.RESTORE}`, {
+      method: 'POST',
+      body: JSON.stringify({ revisionId })
+    });
+  }
+
+  // Comments of a translation, oldest first
+  async getComments(id: string | number): Promise<TranslationComment[]> {
+    return this.request<TranslationComment[]>(`/${id}/${API_ROUTES.COMMENTS}`);
+  }
+
+  // Start a thread, or reply to one with parentId
+  async addComment(id: string | number, comment: CommentInput): Promise<TranslationComment> {
+    return this.request<TranslationComment>(`/${id}/${API_ROUTES.COMMENTS}`, {
+      method: 'POST',
+      body: JSON.stringify(comment)
     });
   }
 
+  // Resolve or reopen the thread of a comment
+  async resolveComment(id: string | number, commentId: string, resolved: boolean = true): Promise<TranslationComment> {
+    return this.request<TranslationComment>(
+      `/${id}/${API_ROUTES.COMMENTS}/${encodeURIComponent(commentId)}/${API_ROUTES.RESOLVE}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ resolved })
+      }
+    );
+  }
+
+  // Translation memory matches for a default-locale text, best first
+  async getSuggestions(
+    text: string,
+    locale: string,
+    options: SuggestionOptions = {}
+  ): Promise<TranslationSuggestion[]> {
+    const params = new URLSearchParams({ text, locale });
+    if (options.excludeKey) params.set('exclude', options.excludeKey);
+    if (options.limit) params.set('limit', options.limit.toString());
+    if (options.minScore !== undefined) params.set('min_score', options.minScore.toString());
+
+    return this.request<TranslationSuggestion[]>(`/${API_ROUTES.SUGGESTIONS}?${params}`);
+  }
+
   // Bulk delete translations
   async bulkDeleteTranslations(ids: (string | number)[]): Promise<void> {
-    await this.request('/bulk-delete', {
+    await this.request(`/${API_ROUTES.BULK_DELETE}`, {
       method: 'POST',
       body: JSON.stringify({ ids })
     });
   }
 
+  // Move translations to the archive instead of deleting them
+  async archiveTranslations(ids: (string | number)[]): Promise<ArchivedTranslation[]> {
+    return this.request<ArchivedTranslation[]>(`/${API_ROUTES.ARCHIVE}`, {
+      method: 'POST',
+      body: JSON.stringify({ ids })
+    });
+  }
+
+  // Archived translations
+  async getArchive(): Promise<ArchivedTranslation[]> {
+    return this.request<ArchivedTranslation[]>(`/${API_ROUTES.ARCHIVE}`);
+  }
+
+  // Put archived translations back, keys that exist again stay archived
+  async restoreArchived(keys: string[]): Promise<Translation[]> {
+    return this.request<Translation[]>(`/${API_ROUTES.ARCHIVE}/${API_ROUTES.RESTORE}`, {
+      method: 'POST',
+      body: JSON.stringify({ keys })
+    });
+  }
+
   // Import translations
   async importTranslations(translations: Translation[]): Promise<{
     imported: number;
     updated: number;
     errors: string[];
   }> {
-    return this.request('/import', {
+    return this.request(`/${API_ROUTES.IMPORT}`, {
       method: 'POST',
       body: JSON.stringify({ translations })
     });
   }
 
+  // Merge translated targets from an XLIFF 1.2 or 2.0 document
+  async importXLIFF(content: string): Promise<ImportResult> {
+    return this.request(`/${API_ROUTES.IMPORT}`, {
+      method: 'POST',
+      body: JSON.stringify({ xliff: content })
+    });
+  }
+
   // Export translations
-  async exportTranslations(format: string = 'json'): Promise<Blob> {
-    const response = await fetch(`${this.baseURL}/export?format=${format}`, {
+  async exportTranslations(format: string = 'json', options: Pick<ExportOptions, 'approvedOnly'> = {}): Promise<Blob> {
+    const params = new URLSearchParams({ format });
+    if (options.approvedOnly) params.set('approved_only', 'true');
+
+    const response = await fetch(`${this.baseURL}/${API_ROUTES.EXPORT}?${params}`, {
       headers: this.headers
     });
 
@@ -129,6 +236,10 @@ export class TranslationAPI {
     completionPercentage: Record<string, number>;
     missingTranslations: Record<string, string[]>;
   }> {
-    return this.request('/statistics');
+    return this.request(`/${API_ROUTES.STATISTICS}`);
   }
 }
+
+function ifMatch(version?: number): Record<string, string> {
+  return version === undefined ? {} : { 'If-Match': `"${version}"` };
+}
@@ -0,0 +1,51 @@
+import type { Translation, ArchivedTranslation, StorageWriteOptions } from '../types';
+
+// Archive bookkeeping shared by the storage adapters. The archive holds one
+// entry per key, archiving a key again replaces its older entry.
+
+/**
+ * The archive with the given translations added.
+ */
+export function addToArchive(
+  archive: ArchivedTranslation[],
+  translations: Translation[],
+  options: StorageWriteOptions = {}
+): { archive: ArchivedTranslation[]; added: ArchivedTranslation[] } {
+  const archivedAt = new Date().toISOString();
+  const added = translations.map(translation => ({
+    ...translation,
+    archivedAt,
+    ...(options.author && { archivedBy: options.author })
+  }));
+  const keys = new Set(added.map(entry => entry.key));
+
+  return {
+    archive: [...archive.filter(entry => !keys.has(entry.key)), ...added],
+    added
+  };
+}
+
+/**
+ * Splits off the entries to restore. Keys that exist in the catalog again
+ * stay archived, so a restore never overwrites newer values.
+ */
+export function takeFromArchive(
+  archive: ArchivedTranslation[],
+  keys: string[],
+  catalog: Translation[]
+): { archive: ArchivedTranslation[]; restored: Translation[] } {
+  const existing = new Set(catalog.map(t => t.key));
+  const restored: Translation[] = [];
+  const remaining: ArchivedTranslation[] = [];
+
+  archive.forEach(entry => {
+    if (keys.includes(entry.key) && !existing.has(entry.key)) {
+      const { archivedAt: _archivedAt, archivedBy: _archivedBy, ...translation } = entry;
+      restored.push(translation);
+    } else {
+      remaining.push(entry);
+    }
+  });
+
+  return { archive: remaining, restored };
+}
@@ -0,0 +1,78 @@
+import type { TranslationEvent } from '../types';
+
+// Anything that can receive a serialized event, e.g. a `ws` WebSocket or a
+// WebSocket from a Deno/Bun/edge server
+export interface BroadcastClient {
+  send(data: string): void;
+  readyState?: number;
+}
+
+export type TranslationEventListener = (event: TranslationEvent) => void;
+
+const WEBSOCKET_OPEN = 1;
+
+/**
+ * Fans translation events out to connected editors. Pass it to
+ * createTranslationRouteHandlers and register the sockets of your WebSocket
+ * server with addClient.
+ */
+export class TranslationBroadcaster {
+  private clients = new Set<BroadcastClient>();
+  private listeners = new Set<TranslationEventListener>();
+
+  // Returns a function that removes the client again
+  addClient(client: BroadcastClient): () => void {
+    this.clients.add(client);
+    return () => this.removeClient(client);
+  }
+
+  removeClient(client: BroadcastClient): void {
+    this.clients.delete(client);
+  }
+
+  // Listen to events in-process, e.g. to forward them over Redis pub/sub
+  subscribe(listener: TranslationEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  broadcast(event: Omit<TranslationEvent, 'timestamp'> & { timestamp?: string }): void {
+    const fullEvent: TranslationEvent = {
+      ...event,
+      timestamp: event.timestamp || new Date().toISOString()
+    };
+    const data = JSON.stringify(fullEvent);
+
+    Array.from(this.clients).forEach(client => {
+      if (client.readyState !== undefined && client.readyState > WEBSOCKET_OPEN) {
+        // Closing or closed sockets never come back
+        this.clients.delete(client);
+        return;
+      }
+      if (client.readyState !== undefined && client.readyState !== WEBSOCKET_OPEN) {
+        return;
+      }
+
+      try {
+        client.send(data);
+      } catch (error) {
+        console.error('Error sending translation event:', error);
+        this.clients.delete(client);
+      }
+    });
+
+    Array.from(this.listeners).forEach(listener => {
+      try {
+        listener(fullEvent);
+      } catch (error) {
+        console.error('Error in translation event listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,149 @@
+import type {
+  Translation,
+  TranslationComment,
+  CommentInput,
+  StorageWriteOptions
+} from '../types';
+import { translationUtils } from './utils';
+
+// Comment bookkeeping shared by the storage adapters. A thread is its first
+// comment plus the replies pointing at it, and is resolved as a whole.
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+export interface CommentThread {
+  comment: TranslationComment;
+  replies: TranslationComment[];
+}
+
+/**
+ * Why the comment cannot be added to the translation's thread, null when it can.
+ */
+export function validateComment(
+  comments: TranslationComment[],
+  translationId: string | number,
+  input: CommentInput
+): string | null {
+  const body = typeof input.body === 'string' ? input.body.trim() : '';
+  if (!body) return 'Comment body is required';
+  if (body.length > MAX_COMMENT_LENGTH) return `Comments are limited to ${MAX_COMMENT_LENGTH} characters`;
+
+  if (input.parentId) {
+    const parent = comments.find(c => c.id === input.parentId);
+    if (!parent || String(parent.translationId) !== String(translationId)) {
+      return 'Comment to reply to not found';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The comments with a new one added. Replies to a reply join its thread and
+ * take the thread's locale. Throws when validateComment fails.
+ */
+export function appendComment(
+  comments: TranslationComment[],
+  translationId: string | number,
+  input: CommentInput,
+  options: StorageWriteOptions = {}
+): { comments: TranslationComment[]; added: TranslationComment } {
+  const error = validateComment(comments, translationId, input);
+  if (error) throw new Error(error);
+
+  const parent = input.parentId ? getThreadStart(comments, input.parentId) : undefined;
+  const locale = parent ? parent.locale : input.locale;
+
+  const added: TranslationComment = {
+    id: translationUtils.generateId(),
+    translationId,
+    ...(locale && { locale }),
+    ...(parent && { parentId: parent.id }),
+    body: input.body.trim(),
+    ...(options.author && { author: options.author }),
+    createdAt: new Date().toISOString()
+  };
+
+  return { comments: [...comments, added], added };
+}
+
+/**
+ * The comments with the thread of `commentId` resolved or reopened.
+ */
+export function resolveThread(
+  comments: TranslationComment[],
+  commentId: string,
+  resolved: boolean,
+  options: StorageWriteOptions = {}
+): { comments: TranslationComment[]; thread: TranslationComment } {
+  const start = getThreadStart(comments, commentId);
+  if (!start) throw new Error('Comment not found');
+
+  const { resolved: _resolved, resolvedAt: _resolvedAt, resolvedBy: _resolvedBy, ...open } = start;
+  const thread: TranslationComment = resolved
+    ? {
+        ...open,
+        resolved: true,
+        resolvedAt: new Date().toISOString(),
+        ...(options.author && { resolvedBy: options.author })
+      }
+    : open;
+
+  return {
+    comments: comments.map(c => (c.id === start.id ? thread : c)),
+    thread
+  };
+}
+
+/**
+ * Threads in the order they were started, replies oldest first.
+ */
+export function getCommentThreads(comments: TranslationComment[]): CommentThread[] {
+  const sorted = comments.slice().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threads = new Map<string, CommentThread>();
+
+  sorted.forEach(comment => {
+    if (!comment.parentId) threads.set(comment.id, { comment, replies: [] });
+  });
+  sorted.forEach(comment => {
+    const thread = comment.parentId ? threads.get(comment.parentId) : undefined;
+    if (thread) thread.replies.push(comment);
+  });
+
+  return Array.from(threads.values());
+}
+
+/**
+ * Unresolved threads per translation id.
+ */
+export function countOpenComments(comments: TranslationComment[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  comments.forEach(comment => {
+    if (comment.parentId || comment.resolved) return;
+    const id = String(comment.translationId);
+    counts[id] = (counts[id] || 0) + 1;
+  });
+
+  return counts;
+}
+
+/**
+ * The translations with `openComments` set from the comments.
+ */
+export function withOpenComments(translations: Translation[], comments: TranslationComment[]): Translation[] {
+  const counts = countOpenComments(comments);
+
+  return translations.map(translation => {
+    const { openComments: _openComments, ...rest } = translation;
+    const count = counts[String(translation.id)];
+    return count ? { ...rest, openComments: count } : rest;
+  });
+}
+
+// Helper functions
+function getThreadStart(comments: TranslationComment[], commentId: string): TranslationComment | undefined {
+  const comment = comments.find(c => c.id === commentId);
+  if (!comment || !comment.parentId) return comment;
+  return comments.find(c => c.id === comment.parentId);
+}
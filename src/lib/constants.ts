@@ -1,4 +1,4 @@
-import type { Theme, Permissions } from '../types';
+import type { Theme, Permissions, ShortcutAction, TranslationStatus } from '../types';
 
 // Default theme configuration
 export const DEFAULT_THEME: Theme = {
@@ -12,6 +12,18 @@ export const DEFAULT_THEME: Theme = {
   border: 'gray-200'
 };
 
+// Used when the color scheme is dark, either forced or through prefers-color-scheme
+export const DARK_THEME: Theme = {
+  primary: 'blue-500',
+  secondary: 'gray-400',
+  success: 'green-500',
+  warning: 'yellow-500',
+  danger: 'red-500',
+  background: 'gray-900',
+  foreground: 'gray-100',
+  border: 'gray-700'
+};
+
 // Default permissions
 export const DEFAULT_PERMISSIONS: Permissions = {
   canCreate: true,
@@ -20,11 +32,23 @@ export const DEFAULT_PERMISSIONS: Permissions = {
   canExport: true,
   canImport: true,
   canBulkEdit: true,
-  canBulkDelete: true
+  canBulkDelete: true,
+  canApprove: true
 };
 
 // Supported export/import formats
-export const SUPPORTED_FORMATS = ['json', 'csv', 'xlsx'] as const;
+export const SUPPORTED_FORMATS = ['json', 'csv', 'xlsx', 'xliff', 'xliff2', 'po', 'pot'] as const;
+
+// File extensions per format, the first one is used for exports
+export const FORMAT_FILE_EXTENSIONS: Record<(typeof SUPPORTED_FORMATS)[number], string[]> = {
+  json: ['json'],
+  csv: ['csv'],
+  xlsx: ['xlsx'],
+  xliff: ['xlf', 'xliff'],
+  xliff2: ['xlf', 'xliff'],
+  po: ['po'],
+  pot: ['pot']
+};
 
 // Default page size options
 export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const;
@@ -119,12 +143,54 @@ export const DEBOUNCE_DELAY = {
 // API timeout (in milliseconds)
 export const API_TIMEOUT = 30000;
 
+// REST sub-routes shared by the API clients and the server route handlers
+export const API_ROUTES = {
+  BULK_DELETE: 'bulk-delete',
+  IMPORT: 'import',
+  EXPORT: 'export',
+  STATISTICS: 'statistics',
+  HISTORY: 'history',
+  RESTORE: 'restore',
+  ARCHIVE: 'archive',
+  COMMENTS: 'comments',
+  RESOLVE: 'resolve',
+  SUGGESTIONS: 'suggestions'
+} as const;
+
 // Maximum file size for imports (in bytes)
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 // Maximum number of translations to process in a single batch
 export const MAX_BATCH_SIZE = 1000;
 
+// Changes kept on the undo stack of a manager session
+export const UNDO_LIMIT = 100;
+
+// Windowed rendering of TranslationTable and TreeView. Rows have fixed
+// heights so the scroll position maps to a row without measuring the DOM.
+export const VIRTUAL_LIST = {
+  HEIGHT: 600,
+  OVERSCAN: 8,
+  ROW_HEIGHT: 56,
+  EXPANDED_ROW_HEIGHT: 320,
+  TREE_ROW_HEIGHT: 40,
+  TREE_LOCALE_HEIGHT: 24
+} as const;
+
+// Translation memory suggestions. Scores are source text similarity from 0 to 1,
+// texts longer than MAX_TEXT_LENGTH are not matched
+export const TRANSLATION_MEMORY = {
+  LIMIT: 5,
+  MAX_LIMIT: 20,
+  MIN_SCORE: 0.6,
+  MAX_TEXT_LENGTH: 1000,
+  DEBOUNCE_MS: 300
+} as const;
+
+// BroadcastChannel name (and localStorage key where there is none) that
+// standalone managers use to tell other tabs about changes
+export const SYNC_CHANNEL = 'next-intl-admin-sync';
+
 // Error messages
 export const ERROR_MESSAGES = {
   NETWORK_ERROR: 'Network error occurred. Please check your connection.',
@@ -135,8 +201,9 @@ export const ERROR_MESSAGES = {
   SERVER_ERROR: 'Server error occurred. Please try again later.',
   UNKNOWN_ERROR: 'An unknown error occurred.',
   FILE_TOO_LARGE: 'File is too large. Maximum size is 10MB.',
-  INVALID_FILE_FORMAT: 'Invalid file format. Please use JSON, CSV, or XLSX.',
-  BATCH_TOO_LARGE: 'Too many translations to process at once. Maximum is 1000.'
+  INVALID_FILE_FORMAT: 'Invalid file format. Please use JSON, CSV, XLSX, XLIFF, or PO.',
+  BATCH_TOO_LARGE: 'Too many translations to process at once. Maximum is 1000.',
+  CONFLICT_ERROR: 'The translation was changed by someone else. Review their changes before saving.'
 } as const;
 
 // Success messages
@@ -159,16 +226,23 @@ export const DEFAULT_FEATURES = {
   ENABLE_SEARCH: true,
   ENABLE_PAGINATION: true,
   ENABLE_SORTING: true,
-  ENABLE_FILTERING: false,
+  ENABLE_FILTERING: true,
+  ENABLE_UNUSED_FILTER: false,
+  ENABLE_ARCHIVE: false,
+  ENABLE_REVIEW: false,
+  ENABLE_COMMENTS: false,
+  ENABLE_SUGGESTIONS: false,
+  ENABLE_HISTORY: true,
+  ENABLE_TAB_SYNC: true,
   ENABLE_TREE_VIEW: true,
   ENABLE_INLINE_EDITING: true,
   ENABLE_KEYBOARD_SHORTCUTS: false,
-  ENABLE_DARK_MODE: false,
+  ENABLE_DARK_MODE: true,
   ENABLE_NOTIFICATIONS: false
 } as const;
 
 // Keyboard shortcuts
-export const KEYBOARD_SHORTCUTS = {
+export const KEYBOARD_SHORTCUTS: Record<ShortcutAction, string> = {
   CREATE_NEW: 'ctrl+n',
   SAVE: 'ctrl+s',
   DELETE: 'delete',
@@ -176,8 +250,11 @@ export const KEYBOARD_SHORTCUTS = {
   EXPORT: 'ctrl+e',
   IMPORT: 'ctrl+i',
   REFRESH: 'f5',
-  ESCAPE: 'escape'
-} as const;
+  ESCAPE: 'escape',
+  UNDO: 'ctrl+z',
+  REDO: 'ctrl+shift+z',
+  HELP: '?'
+};
 
 // CSS class prefixes for styling
 export const CSS_PREFIXES = {
@@ -189,3 +266,11 @@ export const CSS_PREFIXES = {
   PAGINATION: 'translation-pagination',
   TREE: 'translation-tree'
 } as const;
+
+// Dot colors of the review states, 'translated' values get no dot
+export const REVIEW_STATUS_COLORS: Partial<Record<TranslationStatus, string>> = {
+  draft: 'bg-nia-secondary',
+  'needs-review': 'bg-nia-warning',
+  approved: 'bg-nia-success',
+  rejected: 'bg-nia-danger'
+};
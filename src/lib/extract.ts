@@ -0,0 +1,489 @@
+import type { Translation, StorageAdapter, StorageWriteOptions } from '../types';
+
+// Static extraction of the message keys used in source code.
+// Finds translators created by useTranslations()/getTranslations() and the
+// literal keys passed to them, without evaluating or type-checking the code.
+
+export interface ExtractedKey {
+  // Full key including the translator's namespace
+  key: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface ExtractResult {
+  keys: ExtractedKey[];
+  // Keys built at runtime, only known up to their static start: "status."
+  // for t(`status.${status}`), the namespace for t(variable)
+  prefixes: ExtractedKey[];
+  // Calls that could not be resolved statically, e.g. t(`item.${id}`)
+  warnings: string[];
+}
+
+export interface AddMissingKeysOptions extends StorageWriteOptions {
+  // Locale that gets the key as placeholder value, so storages that only keep
+  // values (like the message files) keep the new entry too
+  placeholderLocale?: string;
+}
+
+const TRANSLATOR_FACTORIES = ['useTranslations', 'getTranslations'];
+// t.rich('key'), t.markup('key') and t.raw('key') read messages like t('key')
+const TRANSLATOR_METHODS = ['rich', 'markup', 'raw'];
+// A "<" or "/" after these starts JSX or a regular expression, not an operator
+const EXPRESSION_START = ['(', ',', '=', ':', '[', '!', '&&', '||', '??', '?', '{', '}', ';', '=>', 'return', 'yield', 'await', 'default'];
+
+type TokenType = 'name' | 'string' | 'dynamic' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+interface Translator {
+  name: string;
+  // undefined when the namespace is not a literal
+  namespace: string | undefined;
+  position: number;
+}
+
+/**
+ * Keys used in one source file. JSX is understood in .tsx and .jsx files.
+ */
+export function extractKeys(source: string, file: string): ExtractResult {
+  const tokens = new Lexer(source, /\.[jt]sx$/.test(file)).tokenize();
+  const lineStarts = getLineStarts(source);
+  const translators = findTranslators(tokens);
+  const keys: ExtractedKey[] = [];
+  const prefixes: ExtractedKey[] = [];
+  const warnings: string[] = [];
+
+  const locate = (position: number) => {
+    const line = findLine(lineStarts, position);
+    return { line: line + 1, column: position - lineStarts[line] + 1 };
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'name') return;
+
+    const previous = tokens[index - 1];
+    if (previous && (previous.value === '.' || previous.value === 'function')) return;
+
+    const translator = findTranslator(translators, token);
+    if (!translator) return;
+
+    // t('key') or t.rich('key')
+    let open = index + 1;
+    if (isPunct(tokens[open], '.') && tokens[open + 1] && TRANSLATOR_METHODS.includes(tokens[open + 1].value)) {
+      open += 2;
+    }
+    if (!isPunct(tokens[open], '(')) return;
+
+    const argument = tokens[open + 1];
+    const { line, column } = locate(token.position);
+
+    if (translator.namespace === undefined) {
+      warnings.push(`${file}:${line}: Skipped a call of "${translator.name}", its namespace is not a string literal`);
+      return;
+    }
+    if (!argument || argument.type !== 'string') {
+      if (!isPunct(argument, ')')) {
+        warnings.push(`${file}:${line}: Skipped a key that is not a string literal`);
+      }
+      // Whatever the key turns out to be, it starts like this
+      const start = argument && argument.type === 'dynamic' ? argument.value : '';
+      const prefix = translator.namespace ? `${translator.namespace}.${start}` : start;
+      if (prefix) prefixes.push({ key: prefix, file, line, column });
+      return;
+    }
+
+    keys.push({
+      key: translator.namespace ? `${translator.namespace}.${argument.value}` : argument.value,
+      file,
+      line,
+      column
+    });
+  });
+
+  return { keys, prefixes, warnings };
+}
+
+/**
+ * Used keys with every location they were found at, sorted by key.
+ */
+export function groupExtractedKeys(keys: ExtractedKey[]): Map<string, ExtractedKey[]> {
+  const groups = new Map<string, ExtractedKey[]>();
+
+  keys.forEach(extracted => {
+    const group = groups.get(extracted.key);
+    if (group) {
+      group.push(extracted);
+    } else {
+      groups.set(extracted.key, [extracted]);
+    }
+  });
+
+  return new Map(Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Used keys that have no translation in the storage. A key whose children
+ * exist (a namespace read with t.raw) is not missing.
+ */
+export function findMissingKeys(keys: ExtractedKey[], translations: Translation[]): Map<string, ExtractedKey[]> {
+  const existing = new Set(translations.map(t => t.key));
+  const missing = new Map<string, ExtractedKey[]>();
+
+  groupExtractedKeys(keys).forEach((locations, key) => {
+    if (existing.has(key)) return;
+    if (translations.some(t => t.key.startsWith(`${key}.`))) return;
+    missing.set(key, locations);
+  });
+
+  return missing;
+}
+
+/**
+ * Translations no source file uses: neither their key, nor a parent key
+ * (a namespace read with t.raw), nor the static start of a key built at
+ * runtime matches them.
+ */
+export function findUnusedKeys(usage: ExtractResult, translations: Translation[]): Translation[] {
+  const used = new Set(usage.keys.map(extracted => extracted.key));
+  const prefixes = usage.prefixes.map(extracted => extracted.key);
+
+  return translations.filter(translation => {
+    const segments = translation.key.split('.');
+    for (let i = 1; i <= segments.length; i++) {
+      if (used.has(segments.slice(0, i).join('.'))) return false;
+    }
+    return !prefixes.some(prefix => translation.key.startsWith(prefix));
+  });
+}
+
+/**
+ * Create a translation for every used key the storage does not have, with
+ * metadata.context pointing at the file:line it is used at.
+ */
+export async function addMissingKeys(
+  storage: StorageAdapter,
+  keys: ExtractedKey[],
+  { placeholderLocale, ...options }: AddMissingKeysOptions = {}
+): Promise<Translation[]> {
+  const missing = findMissingKeys(keys, await storage.load());
+  const pending: Translation[] = [];
+
+  missing.forEach((locations, key) => {
+    pending.push({
+      key,
+      translations: placeholderLocale ? { [placeholderLocale]: key } : {},
+      metadata: {
+        context: locations.map(location => `${location.file}:${location.line}`).join(', ')
+      }
+    });
+  });
+
+  if (pending.length === 0) return [];
+  if (storage.bulkPut) return storage.bulkPut(pending, options);
+
+  const created: Translation[] = [];
+  for (const translation of pending) {
+    created.push(await storage.create(translation, options));
+  }
+  return created;
+}
+
+// Helper functions
+function isPunct(token: Token | undefined, value: string): boolean {
+  return Boolean(token && token.type === 'punct' && token.value === value);
+}
+
+// const t = useTranslations('ns'), const t = await getTranslations({ locale, namespace: 'ns' })
+function findTranslators(tokens: Token[]): Translator[] {
+  const translators: Translator[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'name' || !TRANSLATOR_FACTORIES.includes(token.value)) return;
+    if (!isPunct(tokens[index + 1], '(')) return;
+
+    let assign = index - 1;
+    if (tokens[assign] && tokens[assign].value === 'await') assign--;
+    const target = tokens[assign - 1];
+    if (!isPunct(tokens[assign], '=') || !target || target.type !== 'name') return;
+
+    translators.push({
+      name: target.value,
+      namespace: readNamespace(tokens, index + 2),
+      position: token.position
+    });
+  });
+
+  return translators;
+}
+
+function readNamespace(tokens: Token[], index: number): string | undefined {
+  const first = tokens[index];
+  if (!first || isPunct(first, ')')) return '';
+  if (first.type === 'string' && isPunct(tokens[index + 1], ')')) return first.value;
+  if (!isPunct(first, '{')) return undefined;
+
+  // Options object, only the namespace property matters
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isPunct(token, '{')) depth++;
+    if (isPunct(token, '}') && --depth === 0) return '';
+    if (depth === 1 && token.value === 'namespace' && isPunct(tokens[i + 1], ':')) {
+      const value = tokens[i + 2];
+      return value && value.type === 'string' ? value.value : undefined;
+    }
+  }
+  return undefined;
+}
+
+// The closest translator of that name declared before the call
+function findTranslator(translators: Translator[], token: Token): Translator | undefined {
+  let found: Translator | undefined;
+  translators.forEach(translator => {
+    if (translator.name === token.value && translator.position < token.position) {
+      found = translator;
+    }
+  });
+  return found;
+}
+
+function getLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function findLine(lineStarts: number[], position: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+/**
+ * Just enough of a JavaScript lexer to find names, string literals and
+ * punctuation: comments, regular expressions and JSX text are skipped, so
+ * quotes in them do not start strings.
+ */
+class Lexer {
+  private position = 0;
+  private tokens: Token[] = [];
+
+  constructor(private source: string, private jsx: boolean) {}
+
+  tokenize(): Token[] {
+    this.scanCode(false);
+    return this.tokens;
+  }
+
+  // Code until the end, or until the "}" closing a template or JSX expression
+  private scanCode(untilBrace: boolean): void {
+    let depth = 0;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      const next = this.source[this.position + 1];
+
+      if (/\s/.test(char)) {
+        this.position++;
+      } else if (char === '/' && next === '/') {
+        const end = this.source.indexOf('\n', this.position);
+        this.position = end === -1 ? this.source.length : end;
+      } else if (char === '/' && next === '*') {
+        const end = this.source.indexOf('*/', this.position + 2);
+        this.position = end === -1 ? this.source.length : end + 2;
+      } else if (char === '\'' || char === '"') {
+        this.scanString(char);
+      } else if (char === '`') {
+        this.scanTemplate();
+      } else if (/[A-Za-z_$\d]/.test(char)) {
+        const start = this.position;
+        while (this.position < this.source.length && /[\w$]/.test(this.source[this.position])) {
+          this.position++;
+        }
+        this.push('name', this.source.slice(start, this.position), start);
+      } else if (char === '/' && this.atExpressionStart()) {
+        this.skipRegExp();
+      } else if (char === '<' && this.jsx && this.atExpressionStart() && /[A-Za-z>]/.test(next || '')) {
+        this.scanJsxElement();
+      } else {
+        const operator = ['=>', '&&', '||', '??'].find(op => this.source.startsWith(op, this.position));
+        const value = operator || char;
+        this.push('punct', value, this.position);
+        this.position += value.length;
+
+        if (char === '{') depth++;
+        if (char === '}') {
+          if (untilBrace && depth === 0) {
+            this.tokens.pop();
+            return;
+          }
+          depth--;
+        }
+      }
+    }
+  }
+
+  private push(type: TokenType, value: string, position: number): void {
+    this.tokens.push({ type, value, position });
+  }
+
+  private atExpressionStart(): boolean {
+    const previous = this.tokens[this.tokens.length - 1];
+    return !previous || (previous.type !== 'string' && previous.type !== 'dynamic' && EXPRESSION_START.includes(previous.value));
+  }
+
+  private scanString(quote: string): void {
+    const start = this.position;
+    let value = '';
+    this.position++;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === quote || char === '\n') break;
+      if (char === '\\') {
+        value += this.source[this.position + 1] || '';
+        this.position += 2;
+        continue;
+      }
+      value += char;
+      this.position++;
+    }
+
+    this.position++;
+    this.push('string', value, start);
+  }
+
+  // Templates without substitutions are plain strings. With substitutions
+  // the template reads as dynamic with the text before the first one as value,
+  // while calls inside them are still found
+  private scanTemplate(): void {
+    const start = this.position;
+    const index = this.tokens.length;
+    let value = '';
+    let head: string | undefined;
+    this.push('dynamic', '', start);
+    this.position++;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === '`') break;
+      if (char === '\\') {
+        value += this.source[this.position + 1] || '';
+        this.position += 2;
+        continue;
+      }
+      if (char === '$' && this.source[this.position + 1] === '{') {
+        if (head === undefined) {
+          head = value;
+          this.tokens[index].value = head;
+        }
+        this.position += 2;
+        this.scanCode(true);
+        continue;
+      }
+      value += char;
+      this.position++;
+    }
+
+    this.position++;
+    if (head === undefined) {
+      this.tokens[index] = { type: 'string', value, position: start };
+    }
+  }
+
+  private skipRegExp(): void {
+    let inClass = false;
+    this.position++;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === '\n') break;
+      if (char === '\\') {
+        this.position += 2;
+        continue;
+      }
+      if (char === '[') inClass = true;
+      if (char === ']') inClass = false;
+      this.position++;
+      if (char === '/' && !inClass) break;
+    }
+
+    while (this.position < this.source.length && /\w/.test(this.source[this.position])) {
+      this.position++;
+    }
+    this.push('dynamic', '', this.position);
+  }
+
+  // <Tag attr="x" {...props}>text {expression} <Child /></Tag>
+  private scanJsxElement(): void {
+    const start = this.position;
+    const tokenCount = this.tokens.length;
+    this.position++; // <
+
+    const name = /^[\w$.:-]*/.exec(this.source.slice(this.position))![0];
+    this.position += name.length;
+
+    // Attributes
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (/\s/.test(char)) {
+        this.position++;
+      } else if (char === '/' && this.source[this.position + 1] === '>') {
+        this.position += 2;
+        this.push('dynamic', '', start);
+        return;
+      } else if (char === '>') {
+        this.position++;
+        break;
+      } else if (char === '{') {
+        this.position++;
+        this.scanCode(true);
+      } else if (char === '"' || char === '\'') {
+        const end = this.source.indexOf(char, this.position + 1);
+        this.position = end === -1 ? this.source.length : end + 1;
+      } else if (/[\w$:=-]/.test(char)) {
+        this.position++;
+      } else {
+        // Not JSX after all, e.g. a generic arrow function <T,>() => ...
+        this.tokens.length = tokenCount;
+        this.position = start + 1;
+        this.push('punct', '<', start);
+        return;
+      }
+    }
+
+    // Children until the matching closing tag
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (char === '{') {
+        this.position++;
+        this.scanCode(true);
+      } else if (char === '<' && this.source[this.position + 1] === '/') {
+        const end = this.source.indexOf('>', this.position);
+        this.position = end === -1 ? this.source.length : end + 1;
+        break;
+      } else if (char === '<') {
+        this.scanJsxElement();
+      } else {
+        this.position++;
+      }
+    }
+
+    this.push('dynamic', '', start);
+  }
+}
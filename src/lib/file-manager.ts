@@ -1,14 +1,47 @@
 'use client';
 
-import type { Translation } from '../types';
+import type { Translation, ExportOptions, MessageFileLayout } from '../types';
+import {
+  exportTranslations as exportToFormat,
+  importTranslations as importFromFile,
+  isXLIFFFile,
+  pickLocales
+} from './import-export';
+import { getMessageFilePath, splitMessageFiles } from './message-files';
+
+export interface FileManagerOptions {
+  // {locale}.json (default), {locale}/{ns}.json or {ns}/{locale}.json
+  layout?: MessageFileLayout;
+  // Namespace files to fetch in the split layouts, a static folder cannot be listed
+  namespaces?: string[];
+}
 
 export class FileManager {
   private messagesPath: string;
   private supportedLocales: string[];
-
-  constructor(messagesPath: string = '/messages', supportedLocales: string[] = ['en']) {
+  private layout: MessageFileLayout;
+  private namespaces: string[];
+
+  constructor(
+    messagesPath: string = '/messages',
+    supportedLocales: string[] = ['en'],
+    options: FileManagerOptions = {}
+  ) {
     this.messagesPath = messagesPath;
     this.supportedLocales = supportedLocales;
+    this.layout = options.layout || 'single';
+    this.namespaces = options.namespaces || [];
+  }
+
+  // The files holding a locale's messages, with the namespace each one is for
+  private getLocaleFiles(locale: string): { path: string; namespace?: string }[] {
+    if (this.layout === 'single') {
+      return [{ path: getMessageFilePath(this.layout, locale) }];
+    }
+    return this.namespaces.map(namespace => ({
+      path: getMessageFilePath(this.layout, locale, namespace),
+      namespace
+    }));
   }
 
   // Convert flat translations to nested object structure
@@ -81,31 +114,37 @@ export class FileManager {
   async loadTranslations(): Promise<Translation[]> {
     const allTranslations = new Map<string, Translation>();
 
+    if (this.layout !== 'single' && this.namespaces.length === 0) {
+      throw new Error(`The ${this.layout} layout needs the namespaces to load`);
+    }
+
     for (const locale of this.supportedLocales) {
-      try {
-        const response = await fetch(`${this.messagesPath}/${locale}.json`);
-        if (!response.ok) {
-          console.warn(`Could not load ${locale}.json:`, response.statusText);
-          continue;
-        }
+      for (const file of this.getLocaleFiles(locale)) {
+        try {
+          const response = await fetch(`${this.messagesPath}/${file.path}`);
+          if (!response.ok) {
+            console.warn(`Could not load ${file.path}:`, response.statusText);
+            continue;
+          }
 
-        const data = await response.json();
-        const flatTranslations = this.flattenObject(data, '', locale);
+          const data = await response.json();
+          const flatTranslations = this.flattenObject(data, file.namespace || '', locale);
 
-        for (const translation of flatTranslations) {
-          const existing = allTranslations.get(translation.key);
-          if (existing) {
-            existing.translations[locale] = translation.translations[locale];
-            existing.updatedAt = translation.updatedAt;
-          } else {
-            allTranslations.set(translation.key, {
-              id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-              ...translation
-            });
+          for (const translation of flatTranslations) {
+            const existing = allTranslations.get(translation.key);
+            if (existing) {
+              existing.translations[locale] = translation.translations[locale];
+              existing.updatedAt = translation.updatedAt;
+            } else {
+              allTranslations.set(translation.key, {
+                id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                ...translation
+              });
+            }
           }
+        } catch (error) {
+          console.warn(`Error loading ${file.path}:`, error);
         }
-      } catch (error) {
-        console.warn(`Error loading ${locale}.json:`, error);
       }
     }
 
@@ -115,14 +154,21 @@ export class FileManager {
   // Save translations to JSON files
   async saveTranslations(translations: Translation[]): Promise<void> {
     const nestedData = this.unflattenTranslations(translations);
+    const files: Record<string, Record<string, any>> = {};
 
+    // All files first, a key without namespace in a split layout fails before any download
     for (const locale of this.supportedLocales) {
-      const localeData = nestedData[locale] || {};
-      
+      Object.assign(files, splitMessageFiles(this.layout, locale, nestedData[locale] || {}));
+    }
+
+    for (const filePath of Object.keys(files)) {
+      // Downloads cannot create folders, en/common.json becomes en_common.json
+      const fileName = filePath.replace(/\//g, '_');
+
       try {
         // In a real browser environment, we'd need to use the File System Access API
         // or send to a server endpoint. For now, we'll create downloadable files.
-        const blob = new Blob([JSON.stringify(localeData, null, 2)], {
+        const blob = new Blob([JSON.stringify(files[filePath], null, 2)], {
           type: 'application/json'
         });
 
@@ -130,15 +176,15 @@ export class FileManager {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${locale}.json`;
+        a.download = fileName;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
 
-        console.log(`Downloaded ${locale}.json`);
+        console.log(`Downloaded ${fileName}`);
       } catch (error) {
-        console.error(`Error saving ${locale}.json:`, error);
+        console.error(`Error saving ${fileName}:`, error);
         throw error;
       }
     }
@@ -147,13 +193,20 @@ export class FileManager {
   // Export translations in various formats
   async exportTranslations(
     translations: Translation[], 
-    format: 'json' | 'csv' = 'json'
+    format: ExportOptions['format'] = 'json',
+    options: Pick<ExportOptions, 'sourceLocale'> = {}
   ): Promise<Blob> {
     switch (format) {
       case 'json':
         return this.exportAsJSON(translations);
       case 'csv':
         return this.exportAsCSV(translations);
+      case 'xlsx':
+      case 'xliff':
+      case 'xliff2':
+      case 'po':
+      case 'pot':
+        return exportToFormat(translations, format, this.supportedLocales, options);
       default:
         throw new Error(`Unsupported format: ${format}`);
     }
@@ -185,19 +238,24 @@ export class FileManager {
     });
   }
 
-  // Import translations from file
-  async importTranslations(file: File): Promise<Translation[]> {
-    const text = await file.text();
-    
+  // Import translations from file, locale is used for PO files without a Language header
+  async importTranslations(file: File, locale?: string): Promise<Translation[]> {
     if (file.name.endsWith('.json')) {
-      return this.importFromJSON(text);
+      return this.importFromJSON(await file.text());
     } else if (file.name.endsWith('.csv')) {
-      return this.importFromCSV(text);
+      return this.importFromCSV(await file.text());
+    } else if (file.name.endsWith('.xlsx') || isXLIFFFile(file) || /\.pot?$/.test(file.name)) {
+      return this.filterSupportedLocales(await importFromFile(file, locale));
     } else {
-      throw new Error('Unsupported file format. Use JSON or CSV.');
+      throw new Error('Unsupported file format. Use JSON, CSV, XLSX, XLIFF or PO.');
     }
   }
 
+  // Drop values for locales this manager does not handle
+  private filterSupportedLocales(translations: Translation[]): Translation[] {
+    return translations.map(translation => pickLocales(translation, this.supportedLocales));
+  }
+
   private importFromJSON(jsonText: string): Translation[] {
     const data = JSON.parse(jsonText);
     const translations: Translation[] = [];
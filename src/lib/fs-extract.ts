@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { extractKeys } from './extract';
+import type { ExtractResult } from './extract';
+
+export interface ExtractFromFilesOptions {
+  // Locations are reported relative to this directory, defaults to process.cwd()
+  cwd?: string;
+  // Directory names that are never scanned
+  ignore?: string[];
+}
+
+const SOURCE_FILE = /\.(tsx?|jsx?|mjs|cjs)$/;
+const DEFAULT_IGNORE = ['node_modules', 'dist', 'build', 'out'];
+
+/**
+ * Keys used in the given source files and directories, scanned recursively.
+ * Declaration files and hidden directories (.next, .git) are skipped.
+ */
+export async function extractFromFiles(
+  paths: string[],
+  { cwd = process.cwd(), ignore = DEFAULT_IGNORE }: ExtractFromFilesOptions = {}
+): Promise<ExtractResult> {
+  const result: ExtractResult = { keys: [], prefixes: [], warnings: [] };
+
+  for (const file of await listSourceFiles(paths.map(p => path.resolve(cwd, p)), ignore)) {
+    const source = await fs.readFile(file, 'utf-8');
+    const relative = path.relative(cwd, file).split(path.sep).join('/');
+    const { keys, prefixes, warnings } = extractKeys(source, relative);
+
+    result.keys.push(...keys);
+    result.prefixes.push(...prefixes);
+    result.warnings.push(...warnings);
+  }
+
+  return result;
+}
+
+// Helper functions
+async function listSourceFiles(paths: string[], ignore: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const entryPath of paths) {
+    const stat = await fs.stat(entryPath);
+
+    if (stat.isFile()) {
+      files.push(entryPath);
+      continue;
+    }
+
+    const entries = await fs.readdir(entryPath, { withFileTypes: true });
+    const children = entries
+      .filter(entry => entry.isDirectory()
+        ? !entry.name.startsWith('.') && !ignore.includes(entry.name)
+        : SOURCE_FILE.test(entry.name) && !entry.name.endsWith('.d.ts'))
+      .map(entry => path.join(entryPath, entry.name))
+      .sort();
+
+    files.push(...await listSourceFiles(children, ignore));
+  }
+
+  return files;
+}
@@ -0,0 +1,609 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  Translation,
+  ArchivedTranslation,
+  MessageFileLayout,
+  StorageAdapter,
+  StorageWriteOptions,
+  TranslationRevision,
+  TranslationStatus,
+  TranslationComment,
+  CommentInput
+} from '../types';
+import { diffTranslations, createRevision, getKeyHistory, restoreFromRevision } from './history';
+import { addToArchive, takeFromArchive } from './archive';
+import { appendComment, resolveThread } from './comments';
+import { generateMessageTypes } from './message-types';
+import { getMessageFilePath, splitMessageFiles, isValidNamespace } from './message-files';
+import type { MessageTypesOptions } from './message-types';
+
+export interface FsMessagesStorageOptions {
+  // Directory holding the next-intl message files, e.g. path.join(process.cwd(), 'messages')
+  messagesDir: string;
+  supportedLocales: string[];
+  // {locale}.json (default), {locale}/{ns}.json or {ns}/{locale}.json
+  layout?: MessageFileLayout;
+  // Indentation for newly created files; existing files keep their own
+  indent?: number | string;
+  // Append-only revision log (JSON lines), defaults to messagesDir/.history.jsonl
+  historyFile?: string;
+  // Archived translations, defaults to messagesDir/.archive.json
+  archiveFile?: string;
+  // Review state per key and locale, defaults to messagesDir/.status.json
+  statusFile?: string;
+  // Comment threads, defaults to messagesDir/.comments.json
+  commentsFile?: string;
+  // Regenerate this .d.ts from the catalog after every write, the locale
+  // defaults to the first supported locale
+  messageTypes?: { file: string } & Partial<MessageTypesOptions>;
+}
+
+interface MessageFile {
+  data: Record<string, any>;
+  indent: number | string;
+  trailingNewline: boolean;
+  raw: string | null;
+}
+
+/**
+ * Node-side storage reading and writing the real messages/{locale}.json files,
+ * or one file per namespace in the split layouts. The translation key doubles
+ * as the id, so ids stay stable across reloads.
+ * The message files have no room for a version, so it is the number of
+ * revisions recorded for the key, and review states go to a file of their own.
+ */
+export class FsMessagesStorageAdapter implements StorageAdapter {
+  private messagesDir: string;
+  private supportedLocales: string[];
+  private layout: MessageFileLayout;
+  private indent: number | string;
+  private historyFile: string;
+  private archiveFile: string;
+  private statusFile: string;
+  private commentsFile: string;
+  private messageTypes?: FsMessagesStorageOptions['messageTypes'];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor({
+    messagesDir,
+    supportedLocales,
+    layout = 'single',
+    indent = 2,
+    historyFile,
+    archiveFile,
+    statusFile,
+    commentsFile,
+    messageTypes
+  }: FsMessagesStorageOptions) {
+    this.messagesDir = messagesDir;
+    this.supportedLocales = supportedLocales;
+    this.layout = layout;
+    this.indent = indent;
+    this.historyFile = historyFile || path.join(messagesDir, '.history.jsonl');
+    this.archiveFile = archiveFile || path.join(messagesDir, '.archive.json');
+    this.statusFile = statusFile || path.join(messagesDir, '.status.json');
+    this.commentsFile = commentsFile || path.join(messagesDir, '.comments.json');
+    this.messageTypes = messageTypes;
+  }
+
+  async load(): Promise<Translation[]> {
+    const translations = new Map<string, Translation>();
+    const revisions = await this.readRevisions();
+    const versions = countRevisions(revisions);
+    const dates = getRevisionDates(revisions);
+    const statuses = await this.readStatuses();
+
+    for (const locale of this.supportedLocales) {
+      const flat = flattenMessages(await this.readLocaleMessages(locale));
+
+      for (const key of Object.keys(flat)) {
+        const existing = translations.get(key);
+        if (existing) {
+          existing.translations[locale] = flat[key];
+        } else {
+          translations.set(key, {
+            id: key,
+            key,
+            translations: { [locale]: flat[key] },
+            version: versions[key] || 0,
+            ...dates[key],
+            ...(statuses[key] && { status: statuses[key] })
+          });
+        }
+      }
+    }
+
+    return Array.from(translations.values());
+  }
+
+  async save(translations: Translation[], options: StorageWriteOptions = {}): Promise<void> {
+    await this.exclusive(async () => {
+      const previous = await this.load();
+      await this.writeAll(translations);
+      await this.appendRevisions(diffTranslations(previous, translations, options));
+    });
+  }
+
+  async delete(id: string | number, options: StorageWriteOptions = {}): Promise<void> {
+    await this.exclusive(async () => {
+      const translations = await this.load();
+      await this.writeAll(translations.filter(t => t.id !== id));
+      await this.appendRevisions([
+        createRevision('delete', translations.find(t => t.id === id), undefined, options)
+      ]);
+    });
+  }
+
+  async create(translation: Omit<Translation, 'id'>, options: StorageWriteOptions = {}): Promise<Translation> {
+    return this.exclusive(async () => {
+      const translations = await this.load();
+
+      if (translations.some(t => t.key === translation.key)) {
+        throw new Error(`Translation key "${translation.key}" already exists`);
+      }
+
+      const newTranslation: Translation = {
+        ...translation,
+        id: translation.key,
+        updatedAt: new Date().toISOString()
+      };
+      const revision = createRevision('create', undefined, newTranslation, options);
+      newTranslation.version = (countRevisions(await this.readRevisions())[newTranslation.key] || 0) + (revision ? 1 : 0);
+
+      translations.push(newTranslation);
+      await this.writeAll(translations);
+      await this.appendRevisions([revision]);
+      return newTranslation;
+    });
+  }
+
+  async update(
+    id: string | number,
+    updates: Partial<Translation>,
+    options: StorageWriteOptions = {}
+  ): Promise<Translation> {
+    return this.exclusive(async () => {
+      const translations = await this.load();
+      const index = translations.findIndex(t => t.id === id);
+
+      if (index === -1) {
+        throw new Error('Translation not found');
+      }
+
+      const existing = translations[index];
+      const key = updates.key || existing.key;
+      const updated: Translation = {
+        ...existing,
+        ...updates,
+        id: key,
+        key,
+        updatedAt: new Date().toISOString()
+      };
+      const revision = createRevision('update', existing, updated, options);
+      updated.version = key === existing.key
+        ? (existing.version || 0) + (revision ? 1 : 0)
+        : (countRevisions(await this.readRevisions())[key] || 0) + (revision ? 1 : 0);
+      translations[index] = updated;
+
+      await this.writeAll(translations);
+      await this.appendRevisions([revision]);
+      return updated;
+    });
+  }
+
+  async getHistory(key: string): Promise<TranslationRevision[]> {
+    return getKeyHistory(await this.readRevisions(), key);
+  }
+
+  async archive(ids: (string | number)[], options: StorageWriteOptions = {}): Promise<ArchivedTranslation[]> {
+    return this.exclusive(async () => {
+      const translations = await this.load();
+      const archived = translations.filter(t => ids.includes(t.id!));
+      if (archived.length === 0) return [];
+
+      const { archive, added } = addToArchive(await this.loadArchive(), archived, options);
+      // Archive first, a crash in between then leaves a copy instead of nothing
+      await writeFileAtomic(this.archiveFile, JSON.stringify(archive, null, 2) + '\n');
+      await this.writeAll(translations.filter(t => !ids.includes(t.id!)));
+      await this.appendRevisions(archived.map(t => createRevision('delete', t, undefined, options)));
+      return added;
+    });
+  }
+
+  async loadArchive(): Promise<ArchivedTranslation[]> {
+    try {
+      const archive = JSON.parse(await fs.readFile(this.archiveFile, 'utf-8'));
+      return Array.isArray(archive) ? archive : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async unarchive(keys: string[], options: StorageWriteOptions = {}): Promise<Translation[]> {
+    return this.exclusive(async () => {
+      const translations = await this.load();
+      const { archive, restored } = takeFromArchive(await this.loadArchive(), keys, translations);
+      if (restored.length === 0) return [];
+
+      await this.writeAll([...translations, ...restored]);
+      await writeFileAtomic(this.archiveFile, JSON.stringify(archive, null, 2) + '\n');
+      await this.appendRevisions(restored.map(t => createRevision('create', undefined, t, options)));
+      return restored;
+    });
+  }
+
+  async restoreRevision(revisionId: string, options: StorageWriteOptions = {}): Promise<Translation> {
+    const revision = (await this.readRevisions()).find(r => r.id === revisionId);
+    return restoreFromRevision(this, revision, options);
+  }
+
+  // Comments stay with the key, so a deleted key that comes back gets them again
+  async getComments(translationId?: string | number): Promise<TranslationComment[]> {
+    const comments = await this.readComments();
+    return translationId === undefined
+      ? comments
+      : comments.filter(c => String(c.translationId) === String(translationId));
+  }
+
+  async addComment(
+    translationId: string | number,
+    comment: CommentInput,
+    options: StorageWriteOptions = {}
+  ): Promise<TranslationComment> {
+    return this.exclusive(async () => {
+      const { comments, added } = appendComment(await this.readComments(), translationId, comment, options);
+      await this.writeComments(comments);
+      return added;
+    });
+  }
+
+  async resolveComment(commentId: string, resolved: boolean, options: StorageWriteOptions = {}): Promise<TranslationComment> {
+    return this.exclusive(async () => {
+      const { comments, thread } = resolveThread(await this.readComments(), commentId, resolved, options);
+      await this.writeComments(comments);
+      return thread;
+    });
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests cannot interleave
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readRevisions(): Promise<TranslationRevision[]> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.historyFile, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const revisions: TranslationRevision[] = [];
+    raw.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        revisions.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash only loses that revision
+      }
+    });
+
+    return revisions;
+  }
+
+  private async appendRevisions(revisions: (TranslationRevision | null)[]): Promise<void> {
+    const lines = revisions
+      .filter((revision): revision is TranslationRevision => revision !== null)
+      .map(revision => JSON.stringify(revision) + '\n');
+    if (lines.length === 0) return;
+
+    await fs.mkdir(path.dirname(this.historyFile), { recursive: true });
+    await fs.appendFile(this.historyFile, lines.join(''), 'utf-8');
+  }
+
+  // Namespaces with a file for the locale, in the split layouts
+  private async listNamespaces(locale: string): Promise<string[]> {
+    try {
+      if (this.layout === 'locale/namespace') {
+        const files = await fs.readdir(path.join(this.messagesDir, locale));
+        return files
+          .filter(file => file.endsWith('.json'))
+          .map(file => file.slice(0, -'.json'.length));
+      }
+
+      const entries = await fs.readdir(this.messagesDir, { withFileTypes: true });
+      const namespaces: string[] = [];
+      for (const entry of entries) {
+        if (!entry.isDirectory() || !isValidNamespace(entry.name)) continue;
+        const filePath = path.join(this.messagesDir, getMessageFilePath(this.layout, locale, entry.name));
+        if (await fs.stat(filePath).then(stat => stat.isFile(), () => false)) {
+          namespaces.push(entry.name);
+        }
+      }
+      return namespaces;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  // A locale's messages with the namespace files merged in
+  private async readLocaleMessages(locale: string): Promise<Record<string, any>> {
+    if (this.layout === 'single') {
+      return (await this.readMessageFile(getMessageFilePath(this.layout, locale))).data;
+    }
+
+    const messages: Record<string, any> = {};
+    for (const namespace of await this.listNamespaces(locale)) {
+      messages[namespace] = (await this.readMessageFile(getMessageFilePath(this.layout, locale, namespace))).data;
+    }
+    return messages;
+  }
+
+  private async readMessageFile(relativePath: string): Promise<MessageFile> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(path.join(this.messagesDir, relativePath), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { data: {}, indent: this.indent, trailingNewline: true, raw: null };
+      }
+      throw error;
+    }
+
+    const data = raw.trim() ? JSON.parse(raw) : {};
+    const indentMatch = raw.match(/^([ \t]+)"/m);
+
+    return {
+      data: data && typeof data === 'object' && !Array.isArray(data) ? data : {},
+      indent: indentMatch ? indentMatch[1] : this.indent,
+      trailingNewline: raw.length === 0 || raw.endsWith('\n'),
+      raw
+    };
+  }
+
+  private async writeAll(translations: Translation[]): Promise<void> {
+    // Every file's content first, so a key without namespace fails before anything is written
+    const files: Record<string, Record<string, any>> = {};
+    const namespaces = new Set<string>();
+
+    for (const locale of this.supportedLocales) {
+      const next: Record<string, any> = {};
+
+      for (const translation of translations) {
+        const value = translation.translations[locale];
+        if (value) {
+          setNestedValue(next, translation.key, value);
+        }
+      }
+
+      Object.assign(files, splitMessageFiles(this.layout, locale, next));
+      if (this.layout !== 'single') {
+        Object.keys(next).forEach(namespace => namespaces.add(namespace));
+        (await this.listNamespaces(locale)).forEach(namespace => namespaces.add(namespace));
+      }
+    }
+
+    // The app imports every namespace for every locale, so each one gets a
+    // file, and emptied namespaces keep theirs
+    namespaces.forEach(namespace => {
+      this.supportedLocales.forEach(locale => {
+        const filePath = getMessageFilePath(this.layout, locale, namespace);
+        if (!files[filePath]) files[filePath] = {};
+      });
+    });
+
+    for (const relativePath of Object.keys(files)) {
+      const file = await this.readMessageFile(relativePath);
+      const ordered = mergeKeyOrder(file.data, files[relativePath]);
+      const content = JSON.stringify(ordered, null, file.indent) + (file.trailingNewline ? '\n' : '');
+
+      // Leave untouched files alone so git only shows real changes
+      if (content === file.raw) continue;
+
+      const filePath = path.join(this.messagesDir, relativePath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomic(filePath, content);
+    }
+
+    await this.writeStatuses(translations);
+
+    if (this.messageTypes) {
+      await this.writeMessageTypes(translations);
+    }
+  }
+
+  private async readComments(): Promise<TranslationComment[]> {
+    try {
+      const comments = JSON.parse(await fs.readFile(this.commentsFile, 'utf-8'));
+      return Array.isArray(comments) ? comments : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async writeComments(comments: TranslationComment[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.commentsFile), { recursive: true });
+    await writeFileAtomic(this.commentsFile, JSON.stringify(comments, null, 2) + '\n');
+  }
+
+  private async readStatuses(): Promise<Record<string, Record<string, TranslationStatus>>> {
+    try {
+      const statuses = JSON.parse(await fs.readFile(this.statusFile, 'utf-8'));
+      return isPlainObject(statuses)
+        ? statuses as Record<string, Record<string, TranslationStatus>>
+        : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  private async writeStatuses(translations: Translation[]): Promise<void> {
+    const statuses: Record<string, Record<string, TranslationStatus>> = {};
+
+    translations.forEach(translation => {
+      const status = translation.status || {};
+      const locales = Object.keys(status).filter(locale =>
+        this.supportedLocales.includes(locale) && translation.translations[locale]
+      );
+      if (locales.length === 0) return;
+
+      statuses[translation.key] = {};
+      locales.forEach(locale => {
+        statuses[translation.key][locale] = status[locale];
+      });
+    });
+
+    const content = JSON.stringify(statuses, null, 2) + '\n';
+    const current = await fs.readFile(this.statusFile, 'utf-8').catch(() => null);
+    // No file until the first review state is set
+    if (content === current || (current === null && Object.keys(statuses).length === 0)) return;
+
+    await fs.mkdir(path.dirname(this.statusFile), { recursive: true });
+    await writeFileAtomic(this.statusFile, content);
+  }
+
+  private async writeMessageTypes(translations: Translation[]): Promise<void> {
+    const { file, ...options } = this.messageTypes!;
+    // Keys without any value are not in the message files either
+    const written = translations.filter(t => this.supportedLocales.some(locale => t.translations[locale]));
+    const content = generateMessageTypes(written, {
+      ...options,
+      locale: options.locale || this.supportedLocales[0]
+    });
+
+    const current = await fs.readFile(file, 'utf-8').catch(() => null);
+    if (content === current) return;
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await writeFileAtomic(file, content);
+  }
+}
+
+// Helper functions
+function countRevisions(revisions: TranslationRevision[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  revisions.forEach(revision => {
+    counts[revision.key] = (counts[revision.key] || 0) + 1;
+  });
+  return counts;
+}
+
+// Keys written through the adapter were created by their last create revision
+// and updated by their last revision, keys only edited in the files have no dates
+function getRevisionDates(revisions: TranslationRevision[]): Record<string, Pick<Translation, 'createdAt' | 'updatedAt'>> {
+  const dates: Record<string, Pick<Translation, 'createdAt' | 'updatedAt'>> = {};
+  revisions.forEach(revision => {
+    const known = dates[revision.key];
+    dates[revision.key] = {
+      createdAt: !known || revision.action === 'create' ? revision.timestamp : known.createdAt,
+      updatedAt: revision.timestamp
+    };
+  });
+  return dates;
+}
+
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+function flattenMessages(obj: Record<string, any>, prefix = ''): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const key of Object.keys(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    const value = obj[key];
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(result, flattenMessages(value, fullKey));
+    } else if (typeof value === 'string') {
+      result[fullKey] = value;
+    }
+  }
+
+  return result;
+}
+
+function setNestedValue(obj: Record<string, any>, keyPath: string, value: string): void {
+  const keys = keyPath.split('.');
+  let current = obj;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    const key = keys[i];
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Rebuild `next` so keys that already existed keep their original position
+ * and new keys are appended after them. Arrays, numbers, booleans and nulls
+ * are never loaded as translations, so they are carried over from the file.
+ */
+function mergeKeyOrder(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(previous)) {
+    const previousValue = previous[key];
+
+    if (!(key in next)) {
+      const kept = keepNonStringValues(previousValue);
+      if (kept !== undefined) result[key] = kept;
+      continue;
+    }
+
+    const nextValue = next[key];
+    result[key] = isPlainObject(previousValue) && isPlainObject(nextValue)
+      ? mergeKeyOrder(previousValue, nextValue)
+      : nextValue;
+  }
+
+  for (const key of Object.keys(next)) {
+    if (!(key in result)) {
+      result[key] = next[key];
+    }
+  }
+
+  return result;
+}
+
+// The parts of a file value that are not strings, undefined when there are none
+function keepNonStringValues(value: unknown): unknown {
+  if (typeof value === 'string') return undefined;
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    const kept = keepNonStringValues(value[key]);
+    if (kept !== undefined) result[key] = kept;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
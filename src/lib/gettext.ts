@@ -0,0 +1,235 @@
+// Gettext PO/POT catalogs: header, comments, flags, context and plural entries.
+
+export interface PoEntry {
+  context?: string;
+  id: string;
+  idPlural?: string;
+  // One string per plural form, a single item for non-plural entries
+  str: string[];
+  extractedComments: string[];
+  flags: string[];
+}
+
+export interface PoCatalog {
+  headers: Record<string, string>;
+  entries: PoEntry[];
+}
+
+export interface PluralForms {
+  // Value of the Plural-Forms header
+  expression: string;
+  // CLDR category for every msgstr[n] index
+  categories: string[];
+}
+
+export const PO_MIME_TYPE = 'text/x-gettext-translation';
+
+const TWO_FORMS: PluralForms = { expression: 'nplurals=2; plural=(n != 1);', categories: ['one', 'other'] };
+const ONE_FORM: PluralForms = { expression: 'nplurals=1; plural=0;', categories: ['other'] };
+const SLAVIC_FORMS: PluralForms = {
+  expression: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  categories: ['one', 'few', 'many']
+};
+
+// Plural-Forms of common languages, by language subtag
+const PLURAL_FORMS: Record<string, PluralForms> = {
+  ar: {
+    expression: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+    categories: ['zero', 'one', 'two', 'few', 'many', 'other']
+  },
+  cs: { expression: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;', categories: ['one', 'few', 'other'] },
+  sk: { expression: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;', categories: ['one', 'few', 'other'] },
+  fr: { expression: 'nplurals=2; plural=(n > 1);', categories: ['one', 'other'] },
+  pl: {
+    expression: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    categories: ['one', 'few', 'many']
+  },
+  ru: SLAVIC_FORMS,
+  uk: SLAVIC_FORMS,
+  be: SLAVIC_FORMS,
+  ja: ONE_FORM,
+  ko: ONE_FORM,
+  zh: ONE_FORM,
+  th: ONE_FORM,
+  vi: ONE_FORM,
+  id: ONE_FORM
+};
+
+/**
+ * Plural-Forms header and msgstr index mapping for a locale. Unknown
+ * languages fall back to the one/other rule used by most languages.
+ */
+export function getPluralForms(locale: string): PluralForms {
+  const language = locale.split(/[-_]/)[0].toLowerCase();
+  return PLURAL_FORMS[language] || TWO_FORMS;
+}
+
+/**
+ * Serialize a catalog. Entries with an empty msgid are skipped because that
+ * msgid is reserved for the header.
+ */
+export function writePo(catalog: PoCatalog): string {
+  const headerValue = Object.keys(catalog.headers)
+    .map(name => `${name}: ${catalog.headers[name]}\n`)
+    .join('');
+
+  const blocks = [
+    ['msgid ""', ...writeString('msgstr', headerValue)].join('\n'),
+    ...catalog.entries
+      .filter(entry => entry.id)
+      .map(entry => {
+        const lines: string[] = [];
+
+        entry.extractedComments.forEach(comment => {
+          comment.split('\n').forEach(line => lines.push(`#. ${line}`.trimEnd()));
+        });
+        if (entry.flags.length > 0) {
+          lines.push(`#, ${entry.flags.join(', ')}`);
+        }
+        if (entry.context !== undefined) {
+          lines.push(...writeString('msgctxt', entry.context));
+        }
+        lines.push(...writeString('msgid', entry.id));
+
+        if (entry.idPlural !== undefined) {
+          lines.push(...writeString('msgid_plural', entry.idPlural));
+          entry.str.forEach((value, index) => lines.push(...writeString(`msgstr[${index}]`, value)));
+        } else {
+          lines.push(...writeString('msgstr', entry.str[0] || ''));
+        }
+
+        return lines.join('\n');
+      })
+  ];
+
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Parse a PO or POT file. Obsolete (#~) entries are ignored.
+ */
+export function readPo(text: string): PoCatalog {
+  const entries: PoEntry[] = [];
+  let entry = createEntry();
+  let hasStrings = false;
+  // Field that continuation lines ("...") are appended to
+  let field: { name: string; index: number } | null = null;
+
+  const flush = () => {
+    if (hasStrings) {
+      entries.push(entry);
+    }
+    entry = createEntry();
+    hasStrings = false;
+    field = null;
+  };
+
+  const append = (name: string, index: number, value: string) => {
+    if (name === 'msgctxt') entry.context = (entry.context || '') + value;
+    else if (name === 'msgid') entry.id += value;
+    else if (name === 'msgid_plural') entry.idPlural = (entry.idPlural || '') + value;
+    else entry.str[index] = (entry.str[index] || '') + value;
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+
+    if (!line) {
+      if (hasStrings) flush();
+      return;
+    }
+
+    if (line.startsWith('#')) {
+      // A comment after the strings starts the next entry
+      if (hasStrings) flush();
+
+      if (line.startsWith('#.')) {
+        entry.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith('#,')) {
+        entry.flags.push(...line.slice(2).split(',').map(flag => flag.trim()).filter(Boolean));
+      }
+      return;
+    }
+
+    const match = /^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*")$/.exec(line);
+    if (match) {
+      const [, name, index] = match;
+      // msgctxt or msgid after a msgstr belongs to the next entry
+      if ((name === 'msgctxt' || name === 'msgid') && entry.str.length > 0) {
+        flush();
+      }
+
+      field = { name, index: index ? parseInt(index, 10) : 0 };
+      if (name === 'msgstr' && entry.str.length === 0 && index === undefined) {
+        entry.str = [''];
+      }
+      append(field.name, field.index, unescapeString(match[3], lineIndex));
+      hasStrings = true;
+      return;
+    }
+
+    if (line.startsWith('"') && field) {
+      append(field.name, field.index, unescapeString(line, lineIndex));
+      return;
+    }
+
+    throw new Error(`Invalid PO file: unexpected content on line ${lineIndex + 1}`);
+  });
+  flush();
+
+  const headerEntry = entries.find(e => e.id === '' && e.context === undefined);
+  const headers: Record<string, string> = {};
+
+  if (headerEntry) {
+    (headerEntry.str[0] || '').split('\n').forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    });
+  }
+
+  return {
+    headers,
+    entries: entries.filter(e => e !== headerEntry)
+  };
+}
+
+function createEntry(): PoEntry {
+  return { id: '', str: [], extractedComments: [], flags: [] };
+}
+
+// Multi-line values are written as "" followed by one line per \n
+function writeString(keyword: string, value: string): string[] {
+  const parts = value.match(/[^\n]*\n|[^\n]+$/g) || [''];
+
+  if (parts.length <= 1) {
+    return [`${keyword} "${escapeString(value)}"`];
+  }
+
+  return [`${keyword} ""`, ...parts.map(part => `"${escapeString(part)}"`)];
+}
+
+function escapeString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+function unescapeString(quoted: string, lineIndex: number): string {
+  if (quoted.length < 2 || !quoted.endsWith('"')) {
+    throw new Error(`Invalid PO file: unterminated string on line ${lineIndex + 1}`);
+  }
+
+  return quoted.slice(1, -1).replace(/\\(.)/g, (_, char) => {
+    switch (char) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      default: return char;
+    }
+  });
+}
@@ -0,0 +1,109 @@
+import type {
+  Translation,
+  StorageAdapter,
+  StorageWriteOptions,
+  TranslationRevision,
+  RevisionAction
+} from '../types';
+import { translationUtils } from './utils';
+
+// Shared revision logic for the storage adapters. Each adapter only decides
+// where the append-only log lives.
+
+/**
+ * Revision for a single change, or null when an update left the values as
+ * they were.
+ */
+export function createRevision(
+  action: Exclude<RevisionAction, 'restore'>,
+  before: Translation | undefined,
+  after: Translation | undefined,
+  options: StorageWriteOptions = {}
+): TranslationRevision | null {
+  const key = (after || before)?.key;
+  if (!key) return null;
+
+  if (action === 'update' && before && after && sameValues(before.translations, after.translations)) {
+    return null;
+  }
+
+  return {
+    id: translationUtils.generateId(),
+    key,
+    action: options.restoredFrom ? 'restore' : action,
+    ...(before && action !== 'create' && { previous: { ...before.translations } }),
+    ...(after && action !== 'delete' && { current: { ...after.translations } }),
+    ...(options.author && { author: options.author }),
+    timestamp: new Date().toISOString(),
+    ...(options.restoredFrom && { restoredFrom: options.restoredFrom })
+  };
+}
+
+/**
+ * Revisions for replacing a whole set of translations, matched by key.
+ */
+export function diffTranslations(
+  previous: Translation[],
+  next: Translation[],
+  options: StorageWriteOptions = {}
+): TranslationRevision[] {
+  const previousByKey = new Map<string, Translation>();
+  previous.forEach(t => previousByKey.set(t.key, t));
+  const nextKeys = new Set(next.map(t => t.key));
+  const revisions: TranslationRevision[] = [];
+
+  next.forEach(translation => {
+    const before = previousByKey.get(translation.key);
+    const revision = createRevision(before ? 'update' : 'create', before, translation, options);
+    if (revision) revisions.push(revision);
+  });
+
+  previous.forEach(translation => {
+    if (nextKeys.has(translation.key)) return;
+    const revision = createRevision('delete', translation, undefined, options);
+    if (revision) revisions.push(revision);
+  });
+
+  return revisions;
+}
+
+/**
+ * Revisions of one key from an append-only log, newest first.
+ */
+export function getKeyHistory(revisions: TranslationRevision[], key: string): TranslationRevision[] {
+  return revisions
+    .filter(revision => revision.key === key)
+    .reverse();
+}
+
+/**
+ * Bring a key back to the values it had right after the given revision,
+ * recreating it if it was deleted since.
+ */
+export async function restoreFromRevision(
+  adapter: StorageAdapter,
+  revision: TranslationRevision | undefined,
+  options: StorageWriteOptions = {}
+): Promise<Translation> {
+  if (!revision) {
+    throw new Error('Revision not found');
+  }
+  if (!revision.current) {
+    throw new Error('A deleted state cannot be restored, pick an earlier revision');
+  }
+
+  const writeOptions: StorageWriteOptions = { ...options, restoredFrom: revision.id };
+  const existing = (await adapter.load()).find(t => t.key === revision.key);
+
+  if (existing) {
+    return adapter.update(existing.id!, { translations: { ...revision.current } }, writeOptions);
+  }
+
+  return adapter.create({ key: revision.key, translations: { ...revision.current } }, writeOptions);
+}
+
+function sameValues(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a).filter(locale => a[locale]);
+  const otherKeys = Object.keys(b).filter(locale => b[locale]);
+  return keys.length === otherKeys.length && keys.every(locale => a[locale] === b[locale]);
+}
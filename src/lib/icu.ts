@@ -0,0 +1,563 @@
+import { MessageFormatError } from '../types';
+
+// ICU MessageFormat as used by next-intl: simple and formatted arguments,
+// plural/selectordinal/select, the # placeholder and rich text tags.
+
+export type MessageNode =
+  | { type: 'literal'; value: string }
+  | { type: 'argument'; name: string }
+  | { type: 'number' | 'date' | 'time'; name: string; style?: string }
+  | { type: 'plural' | 'selectordinal'; name: string; offset: number; options: Record<string, MessageNode[]> }
+  | { type: 'select'; name: string; options: Record<string, MessageNode[]> }
+  | { type: 'pound' }
+  | { type: 'tag'; name: string; children: MessageNode[] };
+
+export type MessageArgumentType =
+  | 'string'
+  | 'number'
+  | 'date'
+  | 'time'
+  | 'plural'
+  | 'selectordinal'
+  | 'select'
+  | 'tag';
+
+const FORMATTED_TYPES = ['number', 'date', 'time'];
+
+// Stronger types win when an argument is used several times, e.g. {count, plural, other {{count, number}}}
+const TYPE_PRIORITY: Record<MessageArgumentType, number> = {
+  string: 0,
+  number: 1,
+  date: 1,
+  time: 1,
+  plural: 2,
+  selectordinal: 2,
+  select: 2,
+  tag: 3
+};
+
+/**
+ * Parse an ICU message into nodes. Throws MessageFormatError with the
+ * offset of the first syntax error.
+ */
+export function parseMessage(message: string): MessageNode[] {
+  const parser = new Parser(message);
+  const nodes = parser.parseNodes(0, null);
+
+  if (!parser.done()) {
+    throw new MessageFormatError(`Unexpected "${message[parser.position]}"`, parser.position);
+  }
+
+  return nodes;
+}
+
+/**
+ * Serialize nodes back into ICU syntax, quoting literal syntax characters.
+ * `followed` tells whether more syntax comes after the nodes, e.g. the
+ * closing brace of an option.
+ */
+export function printMessage(nodes: MessageNode[], inPlural = false, followed = false): string {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'literal':
+        return escapeLiteral(node.value, inPlural, followed || index < nodes.length - 1);
+      case 'argument':
+        return `{${node.name}}`;
+      case 'number':
+      case 'date':
+      case 'time':
+        return `{${node.name}, ${node.type}${node.style ? `, ${node.style}` : ''}}`;
+      case 'plural':
+      case 'selectordinal':
+      case 'select': {
+        const isPlural = node.type !== 'select';
+        const offset = node.type !== 'select' && node.offset ? ` offset:${node.offset}` : '';
+        const options = Object.keys(node.options)
+          .map(selector => `${selector} {${printMessage(node.options[selector], isPlural, true)}}`)
+          .join(' ');
+        return `{${node.name}, ${node.type},${offset} ${options}}`;
+      }
+      case 'pound':
+        return '#';
+      case 'tag':
+        return `<${node.name}>${printMessage(node.children, inPlural, true)}</${node.name}>`;
+    }
+  }).join('');
+}
+
+export interface PluralMessage {
+  prefix: string;
+  name: string;
+  offset: number;
+  // Option messages in ICU syntax, keyed by selector
+  options: Record<string, string>;
+  suffix: string;
+}
+
+/**
+ * Split a message around its first top-level plural argument, for editing
+ * the options one by one. Returns null when the message has no plural or
+ * does not parse.
+ */
+export function splitPluralMessage(message: string): PluralMessage | null {
+  let nodes: MessageNode[];
+  try {
+    nodes = parseMessage(message);
+  } catch {
+    return null;
+  }
+
+  const index = nodes.findIndex(node => node.type === 'plural');
+  const plural = nodes[index];
+  if (!plural || plural.type !== 'plural') return null;
+
+  const options: Record<string, string> = {};
+  Object.keys(plural.options).forEach(selector => {
+    options[selector] = printMessage(plural.options[selector], true, true);
+  });
+
+  return {
+    prefix: printMessage(nodes.slice(0, index), false, true),
+    name: plural.name,
+    offset: plural.offset,
+    options,
+    suffix: printMessage(nodes.slice(index + 1))
+  };
+}
+
+/**
+ * Inverse of splitPluralMessage; options are written in key order.
+ */
+export function joinPluralMessage(parts: PluralMessage): string {
+  const offset = parts.offset ? ` offset:${parts.offset}` : '';
+  const options = Object.keys(parts.options)
+    .map(selector => `${selector} {${parts.options[selector]}}`)
+    .join(' ');
+
+  return `${parts.prefix}{${parts.name}, plural,${offset} ${options}}${parts.suffix}`;
+}
+
+/**
+ * Argument names used by a message with their types. Tags are listed as
+ * "<name>" with type "tag".
+ */
+export function getMessageArguments(nodes: MessageNode[]): Record<string, MessageArgumentType> {
+  const result: Record<string, MessageArgumentType> = {};
+
+  const add = (name: string, type: MessageArgumentType) => {
+    const current = result[name];
+    if (!current || TYPE_PRIORITY[type] > TYPE_PRIORITY[current]) {
+      result[name] = type;
+    }
+  };
+
+  const visit = (list: MessageNode[]) => {
+    list.forEach(node => {
+      switch (node.type) {
+        case 'argument':
+          add(node.name, 'string');
+          break;
+        case 'number':
+        case 'date':
+        case 'time':
+          add(node.name, node.type);
+          break;
+        case 'plural':
+        case 'selectordinal':
+        case 'select':
+          add(node.name, node.type);
+          Object.keys(node.options).forEach(selector => visit(node.options[selector]));
+          break;
+        case 'tag':
+          add(`<${node.name}>`, 'tag');
+          visit(node.children);
+          break;
+      }
+    });
+  };
+
+  visit(nodes);
+  return result;
+}
+
+/**
+ * Check that every non-empty message parses and uses the same arguments, with
+ * the same types, as the default locale. Returns the problems per locale;
+ * locales without problems are omitted.
+ */
+export function validateMessages(
+  messages: Record<string, string>,
+  defaultLocale: string
+): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  const parsed: Record<string, Record<string, MessageArgumentType>> = {};
+
+  Object.keys(messages).forEach(locale => {
+    const message = messages[locale];
+    if (!message || !message.trim()) return;
+
+    try {
+      parsed[locale] = getMessageArguments(parseMessage(message));
+    } catch (error) {
+      const detail = error instanceof MessageFormatError
+        ? `${error.message} at position ${error.offset + 1}`
+        : String(error);
+      errors[locale] = [`Invalid message syntax: ${detail}`];
+    }
+  });
+
+  const reference = parsed[defaultLocale];
+  if (!reference) {
+    return errors;
+  }
+
+  const referenceLabel = defaultLocale.toUpperCase();
+
+  Object.keys(parsed).forEach(locale => {
+    if (locale === defaultLocale) return;
+
+    const args = parsed[locale];
+    const problems: string[] = [];
+
+    Object.keys(reference).forEach(name => {
+      if (!args[name]) {
+        problems.push(`Missing ${formatArgument(name)}`);
+      } else if (args[name] !== reference[name]) {
+        problems.push(`${capitalize(formatArgument(name))} must be ${describeType(reference[name])} like in ${referenceLabel}, found ${describeType(args[name])}`);
+      }
+    });
+
+    Object.keys(args).forEach(name => {
+      if (!reference[name]) {
+        problems.push(`Unexpected ${formatArgument(name)}, not used in ${referenceLabel}`);
+      }
+    });
+
+    if (problems.length > 0) {
+      errors[locale] = problems;
+    }
+  });
+
+  return errors;
+}
+
+function formatArgument(name: string): string {
+  return name.startsWith('<') ? `tag ${name}` : `placeholder {${name}}`;
+}
+
+function describeType(type: MessageArgumentType): string {
+  return type === 'string' ? 'a plain argument' : `a ${type} argument`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Runs of syntax characters are quoted. An apostrophe is only doubled where
+// it would otherwise start or end a quote: before a quotable character or an
+// apostrophe, after a quoted run, or last when more syntax follows
+function escapeLiteral(value: string, inPlural: boolean, followed: boolean): string {
+  const pattern = inPlural ? /(?:[{}#]|<(?=\/?[a-zA-Z0-9_-]+>))+|'/g : /(?:[{}]|<(?=\/?[a-zA-Z0-9_-]+>))+|'/g;
+  const quoted = inPlural ? '{}#' : '{}';
+  const quotable = inPlural ? "{}<#'" : "{}<'";
+
+  return value.replace(pattern, (match: string, offset: number) => {
+    if (match !== "'") return `'${match}'`;
+    const next = value.charAt(offset + 1);
+    const previous = value.charAt(offset - 1);
+    const needsDoubling = next ? quotable.indexOf(next) !== -1 : followed;
+    return needsDoubling || (previous !== '' && quoted.indexOf(previous) !== -1) ? "''" : "'";
+  });
+}
+
+class Parser {
+  position = 0;
+
+  constructor(private message: string) {}
+
+  done(): boolean {
+    return this.position >= this.message.length;
+  }
+
+  // Parse until the end, a closing "}" of an option, or the closing tag
+  parseNodes(depth: number, pluralDepth: number | null, closingTag?: string): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        nodes.push({ type: 'literal', value: text });
+        text = '';
+      }
+    };
+
+    while (!this.done()) {
+      const char = this.message[this.position];
+
+      if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument(depth, pluralDepth));
+        continue;
+      }
+
+      if (char === '}') {
+        if (depth === 0) {
+          throw new MessageFormatError('Unmatched "}"', this.position);
+        }
+        break;
+      }
+
+      if (char === '#' && pluralDepth !== null && pluralDepth === depth) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.position++;
+        continue;
+      }
+
+      if (char === '<' && this.isTagStart()) {
+        if (this.message[this.position + 1] === '/') {
+          if (closingTag === undefined) {
+            throw new MessageFormatError('Unexpected closing tag', this.position);
+          }
+          break;
+        }
+        flushText();
+        nodes.push(this.parseTag(depth, pluralDepth));
+        continue;
+      }
+
+      if (char === "'") {
+        text += this.parseApostrophe(pluralDepth !== null && pluralDepth === depth);
+        continue;
+      }
+
+      text += char;
+      this.position++;
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  private parseArgument(depth: number, pluralDepth: number | null): MessageNode {
+    const start = this.position;
+    this.position++; // {
+    this.skipWhitespace();
+
+    const name = this.readIdentifier();
+    if (!name) {
+      throw new MessageFormatError('Expected an argument name', this.position);
+    }
+
+    this.skipWhitespace();
+    if (this.consume('}')) {
+      return { type: 'argument', name };
+    }
+
+    if (!this.consume(',')) {
+      throw new MessageFormatError(`Expected "," or "}" after argument "${name}"`, this.position);
+    }
+
+    this.skipWhitespace();
+    const type = this.readIdentifier();
+
+    if (FORMATTED_TYPES.includes(type)) {
+      this.skipWhitespace();
+      if (this.consume('}')) {
+        return { type: type as 'number' | 'date' | 'time', name };
+      }
+      if (!this.consume(',')) {
+        throw new MessageFormatError(`Expected "," or "}" in argument "${name}"`, this.position);
+      }
+      const style = this.readStyle().trim();
+      return { type: type as 'number' | 'date' | 'time', name, ...(style && { style }) };
+    }
+
+    if (type === 'plural' || type === 'selectordinal' || type === 'select') {
+      this.skipWhitespace();
+      if (!this.consume(',')) {
+        throw new MessageFormatError(`Expected "," after "${type}"`, this.position);
+      }
+
+      let offset = 0;
+      this.skipWhitespace();
+      if (type !== 'select' && this.message.startsWith('offset:', this.position)) {
+        this.position += 'offset:'.length;
+        this.skipWhitespace();
+        const digits = /^\d+/.exec(this.message.slice(this.position));
+        if (!digits) {
+          throw new MessageFormatError('Expected a number after "offset:"', this.position);
+        }
+        offset = parseInt(digits[0], 10);
+        this.position += digits[0].length;
+      }
+
+      const options = this.parseOptions(type, depth);
+      return type === 'select'
+        ? { type, name, options }
+        : { type, name, offset, options };
+    }
+
+    throw new MessageFormatError(
+      type ? `Unknown argument type "${type}"` : `Expected an argument type for "${name}"`,
+      type ? start : this.position
+    );
+  }
+
+  private parseOptions(type: string, depth: number): Record<string, MessageNode[]> {
+    const options: Record<string, MessageNode[]> = {};
+    const isPlural = type !== 'select';
+
+    for (;;) {
+      this.skipWhitespace();
+
+      if (this.done()) {
+        throw new MessageFormatError(`Unclosed ${type} argument`, this.position);
+      }
+      if (this.consume('}')) {
+        break;
+      }
+
+      const selectorStart = this.position;
+      const selector = this.consume('=')
+        ? `=${this.readIdentifier()}`
+        : this.readIdentifier();
+
+      if (!selector || selector === '=') {
+        throw new MessageFormatError(`Expected a ${type} selector`, this.position);
+      }
+      if (isPlural && selector.startsWith('=') && !/^=\d+(\.\d+)?$/.test(selector)) {
+        throw new MessageFormatError(`Invalid ${type} selector "${selector}"`, selectorStart);
+      }
+      if (options[selector]) {
+        throw new MessageFormatError(`Duplicate ${type} selector "${selector}"`, selectorStart);
+      }
+
+      this.skipWhitespace();
+      if (!this.consume('{')) {
+        throw new MessageFormatError(`Expected "{" after selector "${selector}"`, this.position);
+      }
+
+      options[selector] = this.parseNodes(depth + 1, isPlural ? depth + 1 : null);
+
+      if (!this.consume('}')) {
+        throw new MessageFormatError(`Unclosed option "${selector}"`, this.position);
+      }
+    }
+
+    if (!options.other) {
+      throw new MessageFormatError(`The ${type} argument needs an "other" option`, this.position - 1);
+    }
+
+    return options;
+  }
+
+  private parseTag(depth: number, pluralDepth: number | null): MessageNode {
+    const start = this.position;
+    this.position++; // <
+    const name = this.readTagName();
+
+    if (!this.consume('>')) {
+      throw new MessageFormatError(`Expected ">" after tag "${name}"`, this.position);
+    }
+
+    const children = this.parseNodes(depth, pluralDepth, name);
+    const closing = `</${name}>`;
+
+    if (!this.message.startsWith(closing, this.position)) {
+      throw new MessageFormatError(`Unclosed tag <${name}>`, start);
+    }
+
+    this.position += closing.length;
+    return { type: 'tag', name, children };
+  }
+
+  // '' is an apostrophe, '{...}' quotes syntax characters, anything else is literal
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.message[this.position + 1];
+
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+
+    const quotable = next === '{' || next === '}' || next === '<' || (inPlural && next === '#');
+    if (!quotable) {
+      this.position++;
+      return "'";
+    }
+
+    this.position++;
+    let text = '';
+    while (!this.done()) {
+      const char = this.message[this.position];
+      if (char === "'") {
+        if (this.message[this.position + 1] === "'") {
+          text += "'";
+          this.position += 2;
+          continue;
+        }
+        this.position++;
+        return text;
+      }
+      text += char;
+      this.position++;
+    }
+
+    // An unterminated quote runs to the end of the message
+    return text;
+  }
+
+  private readStyle(): string {
+    let style = '';
+    let nested = 0;
+
+    while (!this.done()) {
+      const char = this.message[this.position];
+      if (char === '{') nested++;
+      if (char === '}') {
+        if (nested === 0) {
+          this.position++;
+          return style;
+        }
+        nested--;
+      }
+      style += char;
+      this.position++;
+    }
+
+    throw new MessageFormatError('Unclosed argument style', this.position);
+  }
+
+  private isTagStart(): boolean {
+    return /^<\/?[a-zA-Z0-9_-]+>/.test(this.message.slice(this.position, this.position + 64));
+  }
+
+  private readTagName(): string {
+    const match = /^[a-zA-Z0-9_-]+/.exec(this.message.slice(this.position));
+    const name = match ? match[0] : '';
+    this.position += name.length;
+    return name;
+  }
+
+  private readIdentifier(): string {
+    const match = /^[^\s{}<>,#'"=]+/.exec(this.message.slice(this.position));
+    const identifier = match ? match[0] : '';
+    this.position += identifier.length;
+    return identifier;
+  }
+
+  private skipWhitespace(): void {
+    while (!this.done() && /\s/.test(this.message[this.position])) {
+      this.position++;
+    }
+  }
+
+  private consume(char: string): boolean {
+    if (this.message[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+}
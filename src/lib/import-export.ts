@@ -1,36 +1,233 @@
-import type { Translation } from '../types';
+import type { Translation, ExportOptions } from '../types';
+import { writeXlsx, readXlsx, toSheetName, XLSX_MIME_TYPE } from './xlsx';
+import { writeXliff, readXliff, XLIFF_MIME_TYPE } from './xliff';
+import type { XliffDocument, XliffVersion } from './xliff';
+import { writePo, readPo, getPluralForms, PO_MIME_TYPE } from './gettext';
+import type { PoEntry } from './gettext';
+import { createZip } from './zip';
+import { splitPluralMessage, validateMessages } from './icu';
+import { PLURAL_CATEGORIES } from './plural-rules';
+import type { PluralCategory } from './plural-rules';
+import { FORMAT_FILE_EXTENSIONS } from './constants';
+
+// Extra spreadsheet columns carrying Translation.metadata
+const XLSX_METADATA_COLUMNS = {
+  description: 'Description',
+  context: 'Context'
+} as const;
+
+// Sheet used for keys without a namespace segment
+const XLSX_ROOT_SHEET = 'Messages';
+
+// Extracted comment naming the ICU argument of a plural entry, e.g. "{count, plural}"
+const PO_PLURAL_COMMENT = /^\{(\w+), plural\}$/;
 
 export async function exportTranslations(
   translations: Translation[],
-  format: 'json' | 'csv' = 'json',
-  locales: string[] = []
+  format: ExportOptions['format'] = 'json',
+  locales: string[] = [],
+  options: Pick<ExportOptions, 'sourceLocale'> = {}
 ): Promise<Blob> {
   switch (format) {
     case 'json':
       return exportAsJSON(translations, locales);
     case 'csv':
       return exportAsCSV(translations, locales);
+    case 'xlsx':
+      return exportAsXLSX(translations, locales);
+    case 'xliff':
+      return exportAsXLIFF(translations, locales, options.sourceLocale, '1.2');
+    case 'xliff2':
+      return exportAsXLIFF(translations, locales, options.sourceLocale, '2.0');
+    case 'po':
+      return exportAsPO(translations, locales, options.sourceLocale);
+    case 'pot':
+      return exportAsPOT(translations, locales, options.sourceLocale);
     default:
       throw new Error(`Unsupported export format: ${format}`);
   }
 }
 
 export async function importTranslations(
-  file: File
+  file: File,
+  // Locale of a PO file without a Language header
+  locale?: string
 ): Promise<Translation[]> {
-  const text = await file.text();
   const extension = file.name.split('.').pop()?.toLowerCase();
 
   switch (extension) {
     case 'json':
-      return importFromJSON(text);
+      return importFromJSON(await file.text());
     case 'csv':
-      return importFromCSV(text);
+      return importFromCSV(await file.text());
+    case 'xlsx':
+      return importFromXLSX(await file.arrayBuffer());
+    case 'xlf':
+    case 'xliff':
+      return importFromXLIFF(await file.text());
+    case 'po':
+    case 'pot':
+      return importFromPO(await file.text(), locale);
     default:
       throw new Error(`Unsupported file format: ${extension}`);
   }
 }
 
+export function isXLIFFFile(file: File): boolean {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return FORMAT_FILE_EXTENSIONS.xliff.includes(extension);
+}
+
+/**
+ * File extension for an exported blob. XLIFF exports for several target
+ * locales are bundled as a ZIP archive.
+ */
+export function getExportFileExtension(format: ExportOptions['format'], blob: Blob): string {
+  if (blob.type === 'application/zip') {
+    return 'zip';
+  }
+  return FORMAT_FILE_EXTENSIONS[format][0];
+}
+
+/**
+ * Merge the <target> values of an XLIFF document into existing translations
+ * by key. Returns only the translations that changed; units that could not be
+ * merged cleanly are reported as warnings.
+ */
+export function mergeXLIFFTargets(
+  existing: Translation[],
+  document: XliffDocument,
+  supportedLocales: string[] = []
+): { translations: Translation[]; warnings: string[] } {
+  const { sourceLocale, targetLocale } = document;
+  const warnings: string[] = [];
+
+  if (!targetLocale) {
+    return { translations: [], warnings: ['XLIFF file does not declare a target language'] };
+  }
+
+  if (supportedLocales.length > 0 && !supportedLocales.includes(targetLocale)) {
+    return { translations: [], warnings: [`Target language "${targetLocale}" is not a supported locale`] };
+  }
+
+  const existingByKey = new Map<string, Translation>();
+  existing.forEach(t => existingByKey.set(t.key, t));
+  const changed = new Map<string, Translation>();
+
+  for (const unit of document.units) {
+    const translation = existingByKey.get(unit.key);
+
+    if (!translation) {
+      warnings.push(`Skipped unknown key "${unit.key}"`);
+      continue;
+    }
+
+    if (!unit.target) continue;
+
+    if (sourceLocale && (translation.translations[sourceLocale] || '') !== unit.source) {
+      warnings.push(`Source text of "${unit.key}" changed since the file was exported`);
+    }
+
+    if (translation.translations[targetLocale] === unit.target) continue;
+
+    changed.set(unit.key, {
+      ...translation,
+      translations: {
+        ...translation.translations,
+        [targetLocale]: unit.target
+      }
+    });
+  }
+
+  return { translations: Array.from(changed.values()), warnings };
+}
+
+/**
+ * The translation with only the values and statuses of `locales`, e.g.
+ * without the extra columns of a spreadsheet.
+ */
+export function pickLocales(translation: Translation, locales: string[]): Translation {
+  const pick = <T>(values: Record<string, T>) => Object.keys(values)
+    .filter(locale => locales.includes(locale))
+    .reduce((acc, locale) => {
+      acc[locale] = values[locale];
+      return acc;
+    }, {} as Record<string, T>);
+
+  return {
+    ...translation,
+    translations: pick(translation.translations),
+    ...(translation.status && { status: pick(translation.status) })
+  };
+}
+
+/**
+ * Check imported messages with validateMessages. Locales whose value fails
+ * are removed from the returned translation (values and status) and reported
+ * as errors; problems in values that are already stored only produce
+ * warnings. Unchanged values are not checked again.
+ */
+export function checkImportedMessages(
+  translation: Translation,
+  existing: Translation | undefined,
+  defaultLocale: string
+): { translation: Translation; errors: string[]; warnings: string[] } {
+  const stored = existing?.translations || {};
+  const changed: Record<string, string> = {};
+  const rejected: string[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  Object.keys(translation.translations).forEach(locale => {
+    if (translation.translations[locale] !== stored[locale]) {
+      changed[locale] = translation.translations[locale];
+    }
+  });
+
+  const describe = (problems: Record<string, string[]>, locale: string) =>
+    problems[locale].map(problem => `"${translation.key}" [${locale}]: ${problem}`);
+
+  let problems = validateMessages({ ...stored, ...changed }, defaultLocale);
+
+  // A rejected default locale changes the reference for the others
+  if (problems[defaultLocale] && defaultLocale in changed) {
+    errors.push(...describe(problems, defaultLocale));
+    rejected.push(defaultLocale);
+    delete changed[defaultLocale];
+    problems = validateMessages({ ...stored, ...changed }, defaultLocale);
+  }
+
+  Object.keys(problems).forEach(locale => {
+    if (locale in changed) {
+      errors.push(...describe(problems, locale));
+      rejected.push(locale);
+    } else {
+      warnings.push(...describe(problems, locale));
+    }
+  });
+
+  if (rejected.length === 0) {
+    return { translation, errors, warnings };
+  }
+
+  const omitRejected = <T>(values: Record<string, T>) => Object.keys(values)
+    .filter(locale => !rejected.includes(locale))
+    .reduce((acc, locale) => {
+      acc[locale] = values[locale];
+      return acc;
+    }, {} as Record<string, T>);
+
+  return {
+    translation: {
+      ...translation,
+      translations: omitRejected(translation.translations),
+      ...(translation.status && { status: omitRejected(translation.status) })
+    },
+    errors,
+    warnings
+  };
+}
+
 function exportAsJSON(translations: Translation[], locales: string[]): Blob {
   if (locales.length === 0) {
     // Export all translations as-is
@@ -83,6 +280,121 @@ function exportAsCSV(translations: Translation[], locales: string[]): Blob {
   });
 }
 
+// One sheet per namespace (first key segment), locale columns plus metadata columns
+function exportAsXLSX(translations: Translation[], locales: string[]): Blob {
+  const allLocales = locales.length > 0
+    ? locales
+    : Array.from(new Set(
+        translations.flatMap(t => Object.keys(t.translations))
+      )).sort();
+
+  const header = [
+    'Key',
+    ...allLocales,
+    XLSX_METADATA_COLUMNS.description,
+    XLSX_METADATA_COLUMNS.context
+  ];
+  const sheets = new Map<string, string[][]>();
+
+  for (const translation of translations) {
+    const namespace = translation.key.includes('.')
+      ? translation.key.split('.')[0]
+      : XLSX_ROOT_SHEET;
+    const sheetName = toSheetName(namespace);
+
+    if (!sheets.has(sheetName)) {
+      sheets.set(sheetName, [header]);
+    }
+
+    sheets.get(sheetName)!.push([
+      translation.key,
+      ...allLocales.map(locale => translation.translations[locale] || ''),
+      translation.metadata?.description || '',
+      translation.metadata?.context || ''
+    ]);
+  }
+
+  if (sheets.size === 0) {
+    sheets.set(XLSX_ROOT_SHEET, [header]);
+  }
+
+  const bytes = writeXlsx(Array.from(sheets.entries()).map(([name, rows]) => ({ name, rows })));
+  return new Blob([bytes as BlobPart], { type: XLSX_MIME_TYPE });
+}
+
+// One bilingual file per target locale, zipped when there is more than one
+function exportAsXLIFF(
+  translations: Translation[],
+  locales: string[],
+  sourceLocale: string | undefined,
+  version: XliffVersion
+): Blob {
+  const { source, targetLocales } = resolveBilingualLocales(translations, locales, sourceLocale, 'XLIFF');
+
+  const files = targetLocales.map(targetLocale => ({
+    name: `${targetLocale}.xlf`,
+    content: writeXliff({
+      version,
+      sourceLocale: source,
+      targetLocale,
+      units: translations.map(translation => ({
+        key: translation.key,
+        source: translation.translations[source] || '',
+        target: translation.translations[targetLocale] || '',
+        description: translation.metadata?.description,
+        context: translation.metadata?.context
+      }))
+    })
+  }));
+
+  return bundleFiles(files, XLIFF_MIME_TYPE);
+}
+
+// One catalog per target locale with the source text as msgid and the key as msgctxt
+function exportAsPO(translations: Translation[], locales: string[], sourceLocale: string | undefined): Blob {
+  const { source, targetLocales } = resolveBilingualLocales(translations, locales, sourceLocale, 'PO');
+
+  const files = targetLocales.map(targetLocale => {
+    const pluralForms = getPluralForms(targetLocale);
+
+    return {
+      name: `${targetLocale}.po`,
+      content: writePo({
+        headers: {
+          'Content-Type': 'text/plain; charset=UTF-8',
+          'Content-Transfer-Encoding': '8bit',
+          Language: targetLocale.replace(/-/g, '_'),
+          'Plural-Forms': pluralForms.expression
+        },
+        entries: translations.map(translation => {
+          const entry = toPoEntry(translation, source, targetLocale, pluralForms.categories);
+          if (translation.status?.[targetLocale] === 'needs-review' && entry.str.some(Boolean)) {
+            entry.flags.push('fuzzy');
+          }
+          return entry;
+        })
+      })
+    };
+  });
+
+  return bundleFiles(files, PO_MIME_TYPE);
+}
+
+// Template with empty msgstr values for gettext tooling (msginit/msgmerge)
+function exportAsPOT(translations: Translation[], locales: string[], sourceLocale: string | undefined): Blob {
+  const source = sourceLocale || locales[0] || 'en';
+
+  const content = writePo({
+    headers: {
+      'Content-Type': 'text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding': '8bit'
+    },
+    entries: translations.map(translation => toPoEntry(translation, source, null, ['one', 'other']))
+  });
+
+  return new Blob([content], { type: PO_MIME_TYPE });
+}
+
 function importFromJSON(jsonText: string): Translation[] {
   const data = JSON.parse(jsonText);
   
@@ -173,7 +485,214 @@ function importFromCSV(csvText: string): Translation[] {
   return translations;
 }
 
+async function importFromXLSX(buffer: ArrayBuffer): Promise<Translation[]> {
+  const sheets = await readXlsx(buffer);
+  const translationMap = new Map<string, Translation>();
+
+  for (const sheet of sheets) {
+    const [headers = [], ...rows] = sheet.rows;
+    if ((headers[0] || '').trim() !== 'Key') continue;
+
+    for (const row of rows) {
+      const key = (row[0] || '').trim();
+      if (!key) continue;
+
+      let translation = translationMap.get(key);
+      if (!translation) {
+        translation = {
+          id: `xlsx-${translationMap.size}`,
+          key,
+          translations: {},
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        };
+        translationMap.set(key, translation);
+      }
+
+      for (let j = 1; j < headers.length; j++) {
+        const header = (headers[j] || '').trim();
+        const value = row[j] || '';
+        if (!header || !value) continue;
+
+        if (header === XLSX_METADATA_COLUMNS.description) {
+          translation.metadata = { ...translation.metadata, description: value };
+        } else if (header === XLSX_METADATA_COLUMNS.context) {
+          translation.metadata = { ...translation.metadata, context: value };
+        } else {
+          translation.translations[header] = value;
+        }
+      }
+    }
+  }
+
+  if (translationMap.size === 0) {
+    throw new Error('XLSX file must have a sheet with "Key" as the first column');
+  }
+
+  return Array.from(translationMap.values());
+}
+
+// Only <target> values are imported, keyed by the target language
+function importFromXLIFF(xml: string): Translation[] {
+  const document = readXliff(xml);
+
+  if (!document.targetLocale) {
+    throw new Error('XLIFF file does not declare a target language');
+  }
+
+  return document.units
+    .filter(unit => unit.target)
+    .map((unit, index) => ({
+      id: `xliff-${index}`,
+      key: unit.key,
+      translations: { [document.targetLocale]: unit.target! },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }));
+}
+
+// Values of every locale in the Language header, fuzzy entries are marked for review
+function importFromPO(text: string, fallbackLocale?: string): Translation[] {
+  const catalog = readPo(text);
+  const language = catalog.headers.Language;
+  const locale = language ? language.replace(/_/g, '-') : fallbackLocale || null;
+  if (!locale && catalog.entries.some(entry => entry.str.some(Boolean))) {
+    throw new Error('Invalid PO file: translations without a Language header');
+  }
+  const categories = locale ? getPluralForms(locale).categories : [];
+
+  return catalog.entries.map((entry, index) => {
+    const translation: Translation = {
+      id: `po-${index}`,
+      key: entry.context || entry.id,
+      translations: {},
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    const pluralComment = entry.extractedComments.find(comment => PO_PLURAL_COMMENT.test(comment));
+    const description = entry.extractedComments.filter(comment => comment !== pluralComment).join('\n');
+    if (description) {
+      translation.metadata = { description };
+    }
+
+    // POT templates carry no language, only keys and descriptions
+    if (!locale || !entry.str.some(Boolean)) {
+      return translation;
+    }
+
+    if (entry.idPlural !== undefined) {
+      const argument = pluralComment ? PO_PLURAL_COMMENT.exec(pluralComment)![1] : 'count';
+      const branches: Record<string, string> = {};
+      categories.forEach((category, i) => {
+        if (entry.str[i]) branches[category] = entry.str[i];
+      });
+      // ICU requires an "other" branch, languages without it reuse the last form
+      if (!branches.other) {
+        branches.other = entry.str[Math.min(categories.length, entry.str.length) - 1] || '';
+      }
+      translation.translations[locale] = buildPluralMessage(argument, branches);
+    } else {
+      translation.translations[locale] = entry.str[0];
+    }
+
+    translation.status = {
+      [locale]: entry.flags.includes('fuzzy') ? 'needs-review' : 'translated'
+    };
+
+    return translation;
+  });
+}
+
 // Helper functions
+function resolveBilingualLocales(
+  translations: Translation[],
+  locales: string[],
+  sourceLocale: string | undefined,
+  formatName: string
+): { source: string; targetLocales: string[] } {
+  const allLocales = locales.length > 0
+    ? locales
+    : Array.from(new Set(
+        translations.flatMap(t => Object.keys(t.translations))
+      )).sort();
+  const source = sourceLocale || allLocales[0] || 'en';
+  const targetLocales = allLocales.filter(locale => locale !== source);
+
+  if (targetLocales.length === 0) {
+    throw new Error(`${formatName} export requires at least one target locale besides the source locale`);
+  }
+
+  return { source, targetLocales };
+}
+
+// A single file is returned as is, several are bundled in a ZIP archive
+function bundleFiles(files: { name: string; content: string }[], type: string): Blob {
+  if (files.length === 1) {
+    return new Blob([files[0].content], { type });
+  }
+
+  const encoder = new TextEncoder();
+  const archive = createZip(files.map(file => ({ name: file.name, data: encoder.encode(file.content) })));
+  return new Blob([archive as BlobPart], { type: 'application/zip' });
+}
+
+// Messages that are a single ICU plural map to msgid_plural/msgstr[n]; anything else stays singular
+function toPoEntry(
+  translation: Translation,
+  sourceLocale: string,
+  targetLocale: string | null,
+  categories: string[]
+): PoEntry {
+  const source = translation.translations[sourceLocale] || '';
+  const target = targetLocale ? translation.translations[targetLocale] || '' : '';
+  const entry: PoEntry = {
+    context: translation.key,
+    // An empty msgid is reserved for the header
+    id: source || translation.key,
+    str: [target],
+    extractedComments: translation.metadata?.description ? [translation.metadata.description] : [],
+    flags: []
+  };
+
+  const sourcePlural = parsePluralMessage(source);
+  const targetPlural = target ? parsePluralMessage(target) : null;
+
+  if (sourcePlural && (!target || targetPlural)) {
+    entry.id = sourcePlural.branches.one || sourcePlural.branches.other;
+    entry.idPlural = sourcePlural.branches.other;
+    entry.str = categories.map(category =>
+      targetPlural ? targetPlural.branches[category] || targetPlural.branches.other : ''
+    );
+    entry.extractedComments.push(`{${sourcePlural.argument}, plural}`);
+  }
+
+  return entry;
+}
+
+/**
+ * Parse a message that consists of exactly one plural argument with CLDR
+ * category selectors. Exact matches (=0), offsets and surrounding text are
+ * not representable in gettext, so those return null.
+ */
+function parsePluralMessage(message: string): { argument: string; branches: Record<string, string> } | null {
+  const plural = splitPluralMessage(message);
+  if (!plural || plural.prefix.trim() || plural.suffix.trim() || plural.offset !== 0) return null;
+
+  const selectors = Object.keys(plural.options);
+  if (!selectors.every(selector => PLURAL_CATEGORIES.includes(selector as PluralCategory))) return null;
+
+  return { argument: plural.name, branches: plural.options };
+}
+
+function buildPluralMessage(argument: string, branches: Record<string, string>): string {
+  const options = PLURAL_CATEGORIES
+    .filter(category => branches[category] !== undefined)
+    .map(category => `${category} {${branches[category]}}`);
+
+  return `{${argument}, plural, ${options.join(' ')}}`;
+}
+
 function setNestedValue(obj: any, path: string, value: any): void {
   const keys = path.split('.');
   let current = obj;
@@ -0,0 +1,69 @@
+import type { Translation, LocaleCode } from '../types';
+
+export type MergeSide = 'mine' | 'theirs';
+
+export interface LocaleMerge {
+  locale: LocaleCode;
+  base?: string;
+  mine: string;
+  theirs: string;
+  // Who changed the value since base. 'both' means two different new values
+  changed: 'none' | 'mine' | 'theirs' | 'both';
+}
+
+/**
+ * Three-way comparison of the values per locale. Without a base every
+ * difference between mine and theirs counts as changed on both sides.
+ */
+export function compareLocales(
+  locales: LocaleCode[],
+  mine: Translation,
+  theirs: Translation,
+  base?: Translation
+): LocaleMerge[] {
+  return locales.map(locale => {
+    const mineValue = mine.translations[locale] || '';
+    const theirsValue = theirs.translations[locale] || '';
+    const baseValue = base ? base.translations[locale] || '' : undefined;
+
+    let changed: LocaleMerge['changed'] = 'none';
+    if (mineValue !== theirsValue) {
+      if (baseValue === undefined) changed = 'both';
+      else if (mineValue === baseValue) changed = 'theirs';
+      else if (theirsValue === baseValue) changed = 'mine';
+      else changed = 'both';
+    }
+
+    return { locale, base: baseValue, mine: mineValue, theirs: theirsValue, changed };
+  });
+}
+
+// Side taken when nobody picks one: whoever changed it, mine on real conflicts
+export function defaultMergeSide(merge: LocaleMerge): MergeSide {
+  return merge.changed === 'theirs' ? 'theirs' : 'mine';
+}
+
+/**
+ * Mine with the chosen side per locale, carrying theirs' id and version so
+ * saving it is checked against the stored version.
+ */
+export function applyMerge(
+  mine: Translation,
+  theirs: Translation,
+  merges: LocaleMerge[],
+  choices: Partial<Record<LocaleCode, MergeSide>> = {}
+): Translation {
+  const translations: Record<string, string> = { ...theirs.translations, ...mine.translations };
+
+  merges.forEach(merge => {
+    const side = choices[merge.locale] || defaultMergeSide(merge);
+    translations[merge.locale] = side === 'mine' ? merge.mine : merge.theirs;
+  });
+
+  return {
+    ...mine,
+    id: theirs.id,
+    version: theirs.version,
+    translations
+  };
+}
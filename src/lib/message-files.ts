@@ -0,0 +1,57 @@
+import type { MessageFileLayout } from '../types';
+
+// Paths of the next-intl message files below the messages directory. The
+// split layouts store each namespace (the first key segment) in its own file,
+// without the namespace level inside the file.
+
+/**
+ * Path of a locale's message file, or of one of its namespaces, relative to
+ * the messages directory: en.json, en/common.json or common/en.json.
+ */
+export function getMessageFilePath(layout: MessageFileLayout, locale: string, namespace?: string): string {
+  switch (layout) {
+    case 'locale/namespace':
+      return `${locale}/${namespace}.json`;
+    case 'namespace/locale':
+      return `${namespace}/${locale}.json`;
+    default:
+      return `${locale}.json`;
+  }
+}
+
+/**
+ * Split a locale's nested messages into the files of the layout, keyed by
+ * path. Throws for messages without a namespace in the split layouts, they
+ * have no file to go to.
+ */
+export function splitMessageFiles(
+  layout: MessageFileLayout,
+  locale: string,
+  messages: Record<string, any>
+): Record<string, Record<string, any>> {
+  if (layout === 'single') {
+    return { [getMessageFilePath(layout, locale)]: messages };
+  }
+
+  const files: Record<string, Record<string, any>> = {};
+
+  Object.keys(messages).forEach(namespace => {
+    const value = messages[namespace];
+    if (!value || typeof value !== 'object') {
+      throw new Error(`"${namespace}" has no namespace, the ${layout} layout needs keys like "${namespace}.key"`);
+    }
+    if (!isValidNamespace(namespace)) {
+      throw new Error(`"${namespace}" cannot be used as a file name`);
+    }
+    files[getMessageFilePath(layout, locale, namespace)] = value;
+  });
+
+  return files;
+}
+
+/**
+ * Whether a namespace can be used as a file or directory name.
+ */
+export function isValidNamespace(namespace: string): boolean {
+  return namespace.length > 0 && !/[\\/:*?"<>|]/.test(namespace);
+}
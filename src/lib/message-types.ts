@@ -0,0 +1,172 @@
+import type { Translation, LocaleCode } from '../types';
+import { parseMessage, getMessageArguments } from './icu';
+import type { MessageNode } from './icu';
+
+// TypeScript declarations for next-intl's typed messages, generated from the
+// catalog instead of importing the default locale's JSON file.
+
+export interface MessageTypesOptions {
+  // Locale whose values give the argument types, falling back to the first
+  // locale with a value
+  locale: LocaleCode;
+  // Also emit IntlMessageArguments, the ICU arguments of every message
+  arguments?: boolean;
+  // 'IntlMessages' augments the global interface read by next-intl 3,
+  // 'AppConfig' the AppConfig interface of next-intl 4
+  declaration?: 'IntlMessages' | 'AppConfig';
+}
+
+interface MessageTree {
+  [key: string]: MessageTree | string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Source of a .d.ts declaring the nested shape of the messages, e.g.
+ * `{ nav: { home: string } }`, so t('nav.hom') fails to compile.
+ */
+export function generateMessageTypes(translations: Translation[], options: MessageTypesOptions): string {
+  const { locale, declaration = 'IntlMessages' } = options;
+  const tree: MessageTree = {};
+  const sorted = translations.slice().sort((a, b) => a.key.localeCompare(b.key));
+
+  sorted.forEach(translation => {
+    const parts = translation.key.split('.');
+    let current = tree;
+
+    parts.forEach((part, index) => {
+      if (index === parts.length - 1) {
+        // A namespace wins over a leaf of the same name, next-intl cannot read both
+        if (current[part] === undefined) current[part] = getValue(translation, locale);
+        return;
+      }
+      if (typeof current[part] !== 'object') current[part] = {};
+      current = current[part] as MessageTree;
+    });
+  });
+
+  const lines = [
+    '// Generated by next-intl-admin from the translation catalog, do not edit.',
+    ''
+  ];
+
+  if (options.arguments) {
+    lines.push("import type { ReactNode } from 'react';", '');
+  }
+
+  lines.push(`type Messages = ${printTree(tree, '')};`, '');
+
+  if (options.arguments) {
+    lines.push(...printArguments(sorted, locale), '');
+  }
+
+  if (declaration === 'AppConfig') {
+    lines.push(
+      "declare module 'next-intl' {",
+      '  interface AppConfig {',
+      '    Messages: Messages;',
+      '  }',
+      '}'
+    );
+  } else {
+    lines.push(
+      'declare global {',
+      '  interface IntlMessages extends Messages {}',
+      '}'
+    );
+  }
+
+  // Makes the file a module, so the declarations above are augmentations
+  if (!options.arguments) {
+    lines.push('', 'export {};');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * TypeScript type of the values each argument of a message takes, e.g.
+ * `{ count: number; link: (chunks: ReactNode) => ReactNode }`. Null when the
+ * message has no arguments or does not parse.
+ */
+export function getArgumentTypes(message: string): Record<string, string> | null {
+  let nodes: MessageNode[];
+
+  try {
+    nodes = parseMessage(message);
+  } catch {
+    return null;
+  }
+
+  const argumentTypes = getMessageArguments(nodes);
+  const names = Object.keys(argumentTypes);
+  if (names.length === 0) return null;
+
+  const result: Record<string, string> = {};
+
+  names.forEach(name => {
+    switch (argumentTypes[name]) {
+      case 'number':
+      case 'plural':
+      case 'selectordinal':
+        result[name] = 'number';
+        break;
+      case 'date':
+      case 'time':
+        result[name] = 'Date';
+        break;
+      case 'select':
+        // Every select needs an "other" option, so any string is accepted
+        result[name] = 'string';
+        break;
+      case 'tag':
+        result[name.slice(1, -1)] = '(chunks: ReactNode) => ReactNode';
+        break;
+      default:
+        result[name] = 'string | number';
+    }
+  });
+
+  return result;
+}
+
+// Helper functions
+function getValue(translation: Translation, locale: LocaleCode): string {
+  if (translation.translations[locale]) return translation.translations[locale];
+
+  const fallback = Object.keys(translation.translations).find(l => translation.translations[l]);
+  return fallback ? translation.translations[fallback] : '';
+}
+
+function printTree(tree: MessageTree, indent: string): string {
+  const keys = Object.keys(tree);
+  if (keys.length === 0) return '{}';
+
+  const inner = indent + '  ';
+  const members = keys.map(key => {
+    const value = tree[key];
+    return `${inner}${printKey(key)}: ${typeof value === 'string' ? 'string' : printTree(value, inner)};`;
+  });
+
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+function printArguments(translations: Translation[], locale: LocaleCode): string[] {
+  const lines = ['export interface IntlMessageArguments {'];
+
+  translations.forEach(translation => {
+    const argumentTypes = getArgumentTypes(getValue(translation, locale));
+    if (!argumentTypes) return;
+
+    const members = Object.keys(argumentTypes).map(name => `${printKey(name)}: ${argumentTypes[name]}`);
+    lines.push(`  ${JSON.stringify(translation.key)}: { ${members.join('; ')} };`);
+  });
+
+  lines.push('}');
+  return lines;
+}
+
+function printKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
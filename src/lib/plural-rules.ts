@@ -0,0 +1,182 @@
+// CLDR cardinal plural categories per language, with sample numbers for each
+// category. Bundled so the editor does not depend on the browser's Intl data.
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+export interface PluralRule {
+  categories: PluralCategory[];
+  examples: Partial<Record<PluralCategory, string>>;
+}
+
+const ONE_OTHER: PluralRule = {
+  categories: ['one', 'other'],
+  examples: { one: '1', other: '0, 2, 3, 4…' }
+};
+
+const ONE_ZERO_OTHER: PluralRule = {
+  categories: ['one', 'other'],
+  examples: { one: '0, 1', other: '2, 3, 4, 5…' }
+};
+
+const OTHER_ONLY: PluralRule = {
+  categories: ['other'],
+  examples: { other: '0, 1, 2, 3…' }
+};
+
+const EAST_SLAVIC: PluralRule = {
+  categories: ['one', 'few', 'many', 'other'],
+  examples: { one: '1, 21, 31, 41…', few: '2, 3, 4, 22…', many: '0, 5, 6, 7…', other: '1.5, 2.5…' }
+};
+
+const SOUTH_SLAVIC: PluralRule = {
+  categories: ['one', 'few', 'other'],
+  examples: { one: '1, 21, 31, 41…', few: '2, 3, 4, 22…', other: '0, 5, 6, 7…' }
+};
+
+const ROMANCE: PluralRule = {
+  categories: ['one', 'many', 'other'],
+  examples: { one: '1', many: '1000000', other: '0, 2, 3, 4…' }
+};
+
+const FRENCH: PluralRule = {
+  categories: ['one', 'many', 'other'],
+  examples: { one: '0, 1', many: '1000000', other: '2, 3, 4, 5…' }
+};
+
+const CZECH: PluralRule = {
+  categories: ['one', 'few', 'many', 'other'],
+  examples: { one: '1', few: '2, 3, 4', many: '1.5, 2.5…', other: '0, 5, 6, 7…' }
+};
+
+const ICELANDIC: PluralRule = {
+  categories: ['one', 'other'],
+  examples: { one: '1, 21, 31, 41…', other: '0, 2, 3, 4…' }
+};
+
+const PLURAL_RULES: Record<string, PluralRule> = {
+  am: ONE_ZERO_OTHER,
+  ar: {
+    categories: ['zero', 'one', 'two', 'few', 'many', 'other'],
+    examples: { zero: '0', one: '1', two: '2', few: '3–10, 103…', many: '11–99, 111…', other: '100, 101, 102…' }
+  },
+  be: EAST_SLAVIC,
+  bn: ONE_ZERO_OTHER,
+  br: {
+    categories: ['one', 'two', 'few', 'many', 'other'],
+    examples: { one: '1, 21, 31, 41…', two: '2, 22, 32, 42…', few: '3, 4, 9, 23…', many: '1000000', other: '0, 5–8, 10–20…' }
+  },
+  bs: SOUTH_SLAVIC,
+  ca: ROMANCE,
+  cs: CZECH,
+  cy: {
+    categories: ['zero', 'one', 'two', 'few', 'many', 'other'],
+    examples: { zero: '0', one: '1', two: '2', few: '3', many: '6', other: '4, 5, 7, 8…' }
+  },
+  es: ROMANCE,
+  fa: ONE_ZERO_OTHER,
+  fil: {
+    categories: ['one', 'other'],
+    examples: { one: '0, 1, 2, 3…', other: '4, 6, 9, 14…' }
+  },
+  fr: FRENCH,
+  ga: {
+    categories: ['one', 'two', 'few', 'many', 'other'],
+    examples: { one: '1', two: '2', few: '3–6', many: '7–10', other: '0, 11, 12…' }
+  },
+  gd: {
+    categories: ['one', 'two', 'few', 'other'],
+    examples: { one: '1, 11', two: '2, 12', few: '3–10, 13–19', other: '0, 20, 21, 22…' }
+  },
+  gu: ONE_ZERO_OTHER,
+  he: {
+    categories: ['one', 'two', 'other'],
+    examples: { one: '1', two: '2', other: '0, 3, 4, 5…' }
+  },
+  hi: ONE_ZERO_OTHER,
+  hr: SOUTH_SLAVIC,
+  hy: ONE_ZERO_OTHER,
+  id: OTHER_ONLY,
+  is: ICELANDIC,
+  it: ROMANCE,
+  ja: OTHER_ONLY,
+  km: OTHER_ONLY,
+  kn: ONE_ZERO_OTHER,
+  ko: OTHER_ONLY,
+  kw: {
+    categories: ['zero', 'one', 'two', 'few', 'many', 'other'],
+    examples: { zero: '0', one: '1', two: '2, 22, 42…', few: '3, 23, 43…', many: '21, 41, 61…', other: '4–19, 100…' }
+  },
+  lo: OTHER_ONLY,
+  lt: {
+    categories: ['one', 'few', 'many', 'other'],
+    examples: { one: '1, 21, 31, 41…', few: '2–9, 22…', many: '0.5, 1.5…', other: '0, 10–20, 30…' }
+  },
+  lv: {
+    categories: ['zero', 'one', 'other'],
+    examples: { zero: '0, 10–20, 30…', one: '1, 21, 31, 41…', other: '2–9, 22…' }
+  },
+  mk: ICELANDIC,
+  ms: OTHER_ONLY,
+  mt: {
+    categories: ['one', 'two', 'few', 'many', 'other'],
+    examples: { one: '1', two: '2', few: '0, 3–10, 103…', many: '11–19, 111…', other: '20, 21, 22…' }
+  },
+  my: OTHER_ONLY,
+  pa: ONE_ZERO_OTHER,
+  pl: {
+    categories: ['one', 'few', 'many', 'other'],
+    examples: { one: '1', few: '2, 3, 4, 22…', many: '0, 5, 6, 7…', other: '1.5, 2.5…' }
+  },
+  pt: FRENCH,
+  ro: {
+    categories: ['one', 'few', 'other'],
+    examples: { one: '1', few: '0, 2–19, 102…', other: '20, 21, 22…' }
+  },
+  ru: EAST_SLAVIC,
+  si: ONE_ZERO_OTHER,
+  sk: CZECH,
+  sl: {
+    categories: ['one', 'two', 'few', 'other'],
+    examples: { one: '1, 101, 201…', two: '2, 102, 202…', few: '3, 4, 103, 104…', other: '0, 5, 6, 7…' }
+  },
+  sr: SOUTH_SLAVIC,
+  th: OTHER_ONLY,
+  uk: EAST_SLAVIC,
+  vi: OTHER_ONLY,
+  yue: OTHER_ONLY,
+  zh: OTHER_ONLY,
+  zu: ONE_ZERO_OTHER
+};
+
+/**
+ * Plural rule for a locale, falling back to the language and then to the
+ * English-style one/other rule.
+ */
+export function getPluralRule(locale: string): PluralRule {
+  const normalized = locale.replace('_', '-').toLowerCase();
+  return PLURAL_RULES[normalized] || PLURAL_RULES[normalized.split('-')[0]] || ONE_OTHER;
+}
+
+export function getPluralCategories(locale: string): PluralCategory[] {
+  return getPluralRule(locale).categories;
+}
+
+/**
+ * Compare the selectors of a plural argument with the categories a locale
+ * needs. Exact matches like "=0" are always allowed.
+ */
+export function checkPluralCategories(
+  locale: string,
+  selectors: string[]
+): { missing: PluralCategory[]; extra: string[] } {
+  const categories = getPluralCategories(locale);
+
+  return {
+    missing: categories.filter(category => !selectors.includes(category)),
+    extra: selectors.filter(selector =>
+      !selector.startsWith('=') && !categories.includes(selector as PluralCategory)
+    )
+  };
+}
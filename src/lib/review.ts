@@ -0,0 +1,104 @@
+import type { Translation, TranslationStatus, LocaleCode } from '../types';
+
+// Review workflow: edited values become drafts or wait for review, and only
+// reviewers (Permissions.canApprove) approve or reject them.
+
+export const REVIEW_STATUSES: TranslationStatus[] = ['draft', 'needs-review', 'approved', 'rejected'];
+
+// Statuses only reviewers may set
+const REVIEWER_STATUSES: TranslationStatus[] = ['approved', 'rejected'];
+
+/**
+ * The status after saving `next` over `previous`: locales whose value
+ * changed get `status`, locales without a value lose theirs.
+ */
+export function applyEditStatus(
+  previous: Translation | undefined,
+  next: Translation,
+  status: TranslationStatus
+): Record<LocaleCode, TranslationStatus> {
+  const result: Record<LocaleCode, TranslationStatus> = {};
+  const current = (previous && previous.status) || {};
+
+  Object.keys(next.translations).forEach(locale => {
+    const value = next.translations[locale];
+    if (!value) return;
+
+    const changed = !previous || previous.translations[locale] !== value;
+    if (changed) {
+      result[locale] = status;
+    } else if (current[locale]) {
+      result[locale] = current[locale];
+    }
+  });
+
+  return result;
+}
+
+/**
+ * The status with the given locales set to `status`.
+ */
+export function setReviewStatus(
+  translation: Translation,
+  locales: LocaleCode[],
+  status: TranslationStatus
+): Record<LocaleCode, TranslationStatus> {
+  const result = { ...translation.status };
+  locales.forEach(locale => {
+    result[locale] = status;
+  });
+  return result;
+}
+
+/**
+ * Locales of a translation with a value in the given status.
+ */
+export function getLocalesInStatus(translation: Translation, status: TranslationStatus): LocaleCode[] {
+  const statuses = translation.status || {};
+  return Object.keys(statuses).filter(locale =>
+    statuses[locale] === status && Boolean(translation.translations[locale])
+  );
+}
+
+/**
+ * Locales a save approves or rejects, which needs the reviewer role: their
+ * status becomes approved or rejected, or their value changes while staying so.
+ */
+export function getApprovalChanges(previous: Translation | undefined, next: Translation): LocaleCode[] {
+  const nextStatus = next.status || {};
+  const previousStatus = (previous && previous.status) || {};
+
+  return Object.keys(nextStatus).filter(locale => {
+    if (REVIEWER_STATUSES.indexOf(nextStatus[locale]) === -1) return false;
+    if (!previous) return true;
+    return previousStatus[locale] !== nextStatus[locale] ||
+      previous.translations[locale] !== next.translations[locale];
+  });
+}
+
+/**
+ * Only the approved values, for exports that must not ship unreviewed text.
+ * Translations without an approved value are left out.
+ */
+export function filterApproved(translations: Translation[]): Translation[] {
+  const result: Translation[] = [];
+
+  translations.forEach(translation => {
+    const locales = getLocalesInStatus(translation, 'approved');
+    if (locales.length === 0) return;
+
+    result.push({
+      ...translation,
+      translations: locales.reduce((acc, locale) => {
+        acc[locale] = translation.translations[locale];
+        return acc;
+      }, {} as Record<LocaleCode, string>),
+      status: locales.reduce((acc, locale) => {
+        acc[locale] = 'approved';
+        return acc;
+      }, {} as Record<LocaleCode, TranslationStatus>)
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,750 @@
+import { NextResponse } from 'next/server';
+import type {
+  Translation,
+  StorageAdapter,
+  StorageWriteOptions,
+  PaginatedResponse,
+  ExportOptions,
+  ImportResult,
+  TranslationFilter,
+  CommentInput
+} from '../types';
+import { exportTranslations, getExportFileExtension, mergeXLIFFTargets, checkImportedMessages, pickLocales } from './import-export';
+import { readXliff } from './xliff';
+import type { TranslationBroadcaster } from './broadcaster';
+import type { XliffDocument } from './xliff';
+import { findUnusedKeys } from './extract';
+import type { ExtractResult } from './extract';
+import { getApprovalChanges, filterApproved } from './review';
+import { validateComment, withOpenComments } from './comments';
+import { TranslationMemory } from './translation-memory';
+import { translationUtils } from './utils';
+import { API_ROUTES, ERROR_MESSAGES, SUPPORTED_FORMATS, TRANSLATION_MEMORY } from './constants';
+
+const UNUSED_FILTER_UNAVAILABLE = 'The unused filter needs getKeyUsage in createTranslationRouteHandlers';
+const ARCHIVE_UNAVAILABLE = 'This storage does not support archiving';
+const APPROVAL_REQUIRED = 'Only reviewers can approve or reject translations';
+const COMMENTS_UNAVAILABLE = 'This storage does not support comments';
+
+export interface TranslationRouteHandlersOptions {
+  storage: StorageAdapter;
+  supportedLocales: string[];
+  // Source language for XLIFF exports, defaults to the first supported locale
+  defaultLocale?: string;
+  // Path the handlers are mounted under, e.g. app/api/translations/[[...path]]/route.ts
+  basePath?: string;
+  defaultPageSize?: number;
+  // Notifies connected editors about every change made through these handlers
+  broadcaster?: TranslationBroadcaster;
+  // Author recorded in the revision history, e.g. the signed-in user's email
+  getAuthor?: (request: Request) => string | undefined | Promise<string | undefined>;
+  // Keys used in the app's source, e.g. () => extractFromFiles(['src']).
+  // Enables the unused filter, called for every request that uses it
+  getKeyUsage?: () => ExtractResult | Promise<ExtractResult>;
+  // Whether the request comes from a reviewer. When set, saves that approve or
+  // reject values without it are refused with 403
+  canApprove?: (request: Request) => boolean | Promise<boolean>;
+}
+
+export type TranslationRouteHandler = (request: Request) => Promise<Response>;
+
+export interface TranslationRouteHandlers {
+  GET: TranslationRouteHandler;
+  POST: TranslationRouteHandler;
+  PUT: TranslationRouteHandler;
+  DELETE: TranslationRouteHandler;
+}
+
+/**
+ * Create App Router handlers implementing every endpoint used by
+ * TranslationAPI and useTranslationManager.
+ */
+export function createTranslationRouteHandlers({
+  storage,
+  supportedLocales,
+  defaultLocale = supportedLocales[0],
+  basePath = '/api/translations',
+  defaultPageSize = 25,
+  broadcaster,
+  getAuthor,
+  getKeyUsage,
+  canApprove
+}: TranslationRouteHandlersOptions): TranslationRouteHandlers {
+  const normalizedBasePath = basePath.replace(/\/$/, '');
+  // Synced with the catalog on every query, which also picks up changes
+  // written without these handlers, e.g. by the CLI
+  const memory = new TranslationMemory(defaultLocale);
+
+  // Split the request path below the mount point into segments
+  const getSegments = (request: Request): string[] => {
+    const { pathname } = new URL(request.url);
+    const relativePath = pathname.startsWith(normalizedBasePath)
+      ? pathname.slice(normalizedBasePath.length)
+      : pathname;
+
+    return relativePath.split('/').filter(Boolean).map(decodeURIComponent);
+  };
+
+  const findById = (translations: Translation[], id: string): Translation | undefined => {
+    return translations.find(t => String(t.id) === id);
+  };
+
+  const notify: TranslationBroadcaster['broadcast'] = (event) => {
+    broadcaster?.broadcast(event);
+  };
+
+  const getWriteOptions = async (request: Request): Promise<StorageWriteOptions> => {
+    const author = getAuthor ? await getAuthor(request) : undefined;
+    return author ? { author } : {};
+  };
+
+  // Approving and rejecting is open to everyone unless canApprove is given
+  const isReviewer = async (request: Request): Promise<boolean> => {
+    return canApprove ? Boolean(await canApprove(request)) : true;
+  };
+
+  // Why the filter cannot be resolved with these options, null when it can
+  const getFilterError = (filter: TranslationFilter): string | null => {
+    if (filter.unused && !getKeyUsage) return UNUSED_FILTER_UNAVAILABLE;
+    if (filter.openComments && !storage.getComments) return COMMENTS_UNAVAILABLE;
+    return null;
+  };
+
+  // filterTranslations plus the unused and open comments filters, check
+  // getFilterError first
+  const applyFilter = async (translations: Translation[], filter: TranslationFilter): Promise<Translation[]> => {
+    const filtered = translationUtils.filterTranslations(await withComments(translations), filter);
+    if (!filter.unused || !getKeyUsage) return filtered;
+
+    const unused = new Set(findUnusedKeys(await getKeyUsage(), filtered));
+    return filtered.filter(t => unused.has(t));
+  };
+
+  // Counts the unresolved comment threads into openComments
+  const withComments = async (translations: Translation[]): Promise<Translation[]> => {
+    return storage.getComments ? withOpenComments(translations, await storage.getComments()) : translations;
+  };
+
+  // GET /           - paginated list with search and filters
+  // GET /statistics - completion statistics
+  // GET /export     - download as JSON, CSV, XLSX or XLIFF
+  // GET /archive    - archived translations
+  // GET /suggestions - translation memory matches for ?text= in ?locale=
+  // GET /:id        - single translation
+  // GET /:id/history - revisions of a translation, newest first
+  // GET /:id/comments - comments of a translation, oldest first
+  const GET: TranslationRouteHandler = async (request) => {
+    try {
+      const [segment, ...rest] = getSegments(request);
+      const { searchParams } = new URL(request.url);
+      const isHistory = rest.length === 1 && rest[0] === API_ROUTES.HISTORY;
+      const isComments = rest.length === 1 && rest[0] === API_ROUTES.COMMENTS;
+
+      if (rest.length > 0 && !isHistory && !isComments) {
+        return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+      }
+
+      const translations = await storage.load();
+
+      if (isComments) {
+        const translation = findById(translations, segment);
+        if (!translation) {
+          return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+        }
+        if (!storage.getComments) {
+          return errorResponse(COMMENTS_UNAVAILABLE, 501);
+        }
+
+        return NextResponse.json(await storage.getComments(translation.id));
+      }
+
+      if (isHistory) {
+        const translation = findById(translations, segment);
+        if (!translation) {
+          return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+        }
+        if (!storage.getHistory) {
+          return errorResponse('This storage does not keep a revision history', 501);
+        }
+
+        return NextResponse.json(await storage.getHistory(translation.key));
+      }
+
+      if (!segment) {
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const pageSize = Math.max(1, parseInt(searchParams.get('page_size') || '') || defaultPageSize);
+        const filter = translationUtils.filterFromSearchParams(searchParams);
+
+        const filterError = getFilterError(filter);
+        if (filterError) {
+          return errorResponse(filterError, 501);
+        }
+        const matches = await applyFilter(translations, filter);
+        const filtered = translationUtils.sortTranslations(matches, 'key');
+
+        const startIndex = (page - 1) * pageSize;
+        const endIndex = startIndex + pageSize;
+        const buildPageLink = (target: number) => {
+          const params = translationUtils.filterToSearchParams(filter, new URLSearchParams({
+            page: target.toString(),
+            page_size: pageSize.toString()
+          }));
+          return `?${params}`;
+        };
+
+        const response: PaginatedResponse<Translation> = {
+          results: filtered.slice(startIndex, endIndex),
+          count: filtered.length,
+          next: endIndex < filtered.length ? buildPageLink(page + 1) : null,
+          previous: page > 1 ? buildPageLink(page - 1) : null,
+          page,
+          pageSize,
+          totalPages: Math.ceil(filtered.length / pageSize)
+        };
+
+        return NextResponse.json(response);
+      }
+
+      if (segment === API_ROUTES.STATISTICS) {
+        return NextResponse.json(translationUtils.generateStats(translations, supportedLocales));
+      }
+
+      if (segment === API_ROUTES.EXPORT) {
+        const format = (searchParams.get('format') || 'json') as ExportOptions['format'];
+        if (!SUPPORTED_FORMATS.includes(format)) {
+          return errorResponse(ERROR_MESSAGES.INVALID_FILE_FORMAT, 400);
+        }
+
+        const filter = translationUtils.filterFromSearchParams(searchParams);
+        const filterError = getFilterError(filter);
+        if (filterError) {
+          return errorResponse(filterError, 501);
+        }
+        const matches = await applyFilter(translations, filter);
+
+        const blob = await exportTranslations(
+          searchParams.get('approved_only') === 'true' ? filterApproved(matches) : matches,
+          format,
+          supportedLocales,
+          { sourceLocale: defaultLocale }
+        );
+
+        return new NextResponse(blob, {
+          headers: {
+            'Content-Type': blob.type,
+            'Content-Disposition': `attachment; filename="translations.${getExportFileExtension(format, blob)}"`
+          }
+        });
+      }
+
+      if (segment === API_ROUTES.ARCHIVE) {
+        if (!storage.loadArchive) {
+          return errorResponse(ARCHIVE_UNAVAILABLE, 501);
+        }
+        return NextResponse.json(await storage.loadArchive());
+      }
+
+      if (segment === API_ROUTES.SUGGESTIONS) {
+        const text = searchParams.get('text') || '';
+        const locale = searchParams.get('locale') || '';
+        if (!supportedLocales.includes(locale)) {
+          return errorResponse(`Unsupported locale "${locale}"`, 400);
+        }
+        if (text.length > TRANSLATION_MEMORY.MAX_TEXT_LENGTH) {
+          return errorResponse(`Texts are limited to ${TRANSLATION_MEMORY.MAX_TEXT_LENGTH} characters`, 400);
+        }
+
+        const limit = parseInt(searchParams.get('limit') || '') || TRANSLATION_MEMORY.LIMIT;
+        const minScore = parseFloat(searchParams.get('min_score') || '');
+
+        memory.sync(translations);
+        return NextResponse.json(memory.suggest(text, locale, {
+          excludeKey: searchParams.get('exclude') || undefined,
+          limit: Math.min(TRANSLATION_MEMORY.MAX_LIMIT, Math.max(1, limit)),
+          ...(minScore >= 0 && minScore <= 1 && { minScore })
+        }));
+      }
+
+      const translation = findById(translations, segment);
+      if (!translation) {
+        return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+      }
+
+      return NextResponse.json(translation, {
+        headers: { ETag: translationUtils.getETag(translation) }
+      });
+    } catch (error) {
+      console.error('Error handling translation GET request:', error);
+      return errorResponse(ERROR_MESSAGES.SERVER_ERROR, 500);
+    }
+  };
+
+  // POST /            - create a translation
+  // POST /bulk-delete - delete several translations by id
+  // POST /import      - merge translations by key, or XLIFF targets with { xliff }
+  // POST /:id/restore - bring back the values of { revisionId }
+  // POST /archive     - move { ids } to the archive
+  // POST /archive/restore - put archived { keys } back
+  // POST /:id/comments - add { body, locale?, parentId? } to a translation
+  // POST /:id/comments/:commentId/resolve - resolve or reopen a thread with { resolved }
+  const POST: TranslationRouteHandler = async (request) => {
+    try {
+      const segments = getSegments(request);
+      const body = await readBody(request);
+
+      if (!body) {
+        return errorResponse(ERROR_MESSAGES.VALIDATION_ERROR, 400);
+      }
+
+      const writeOptions = await getWriteOptions(request);
+
+      if (segments[0] === API_ROUTES.ARCHIVE && segments.length <= 2) {
+        if (!storage.archive || !storage.unarchive) {
+          return errorResponse(ARCHIVE_UNAVAILABLE, 501);
+        }
+
+        if (segments.length === 2) {
+          if (segments[1] !== API_ROUTES.RESTORE) {
+            return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+          }
+          const keys: string[] = Array.isArray(body.keys) ? body.keys : [];
+          const restored = await storage.unarchive(keys, writeOptions);
+          if (restored.length > 0) {
+            notify({ type: 'import', translations: restored });
+          }
+          return NextResponse.json(restored);
+        }
+
+        const ids: (string | number)[] = Array.isArray(body.ids) ? body.ids : [];
+        const existing = await storage.load();
+        const archiveIds = ids
+          .map(id => findById(existing, String(id)))
+          .filter((t): t is Translation => Boolean(t))
+          .map(t => t.id!);
+
+        const archived = await storage.archive(archiveIds, writeOptions);
+        if (archived.length > 0) {
+          notify({ type: 'bulk_delete', ids: archived.map(t => t.id!) });
+        }
+        return NextResponse.json(archived);
+      }
+
+      if (segments.length >= 2 && segments[1] === API_ROUTES.COMMENTS) {
+        const isResolve = segments.length === 4 && segments[3] === API_ROUTES.RESOLVE;
+        if (segments.length !== 2 && !isResolve) {
+          return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+        }
+
+        const translation = findById(await storage.load(), segments[0]);
+        if (!translation) {
+          return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+        }
+        if (!storage.getComments || !storage.addComment || !storage.resolveComment) {
+          return errorResponse(COMMENTS_UNAVAILABLE, 501);
+        }
+
+        const comments = await storage.getComments(translation.id);
+
+        if (isResolve) {
+          // Only comments of this translation may be resolved through its URL
+          if (!comments.some(comment => comment.id === segments[2])) {
+            return errorResponse('Comment not found', 404);
+          }
+          const thread = await storage.resolveComment(segments[2], body.resolved !== false, writeOptions);
+          return NextResponse.json(thread);
+        }
+
+        const input: CommentInput = {
+          body: typeof body.body === 'string' ? body.body : '',
+          ...(typeof body.locale === 'string' && { locale: body.locale }),
+          ...(typeof body.parentId === 'string' && { parentId: body.parentId })
+        };
+        if (input.locale && !supportedLocales.includes(input.locale)) {
+          return errorResponse(`Unsupported locale "${input.locale}"`, 400);
+        }
+        const invalid = validateComment(comments, translation.id!, input);
+        if (invalid) {
+          return errorResponse(invalid, 400);
+        }
+
+        const comment = await storage.addComment(translation.id!, input, writeOptions);
+        return NextResponse.json(comment, { status: 201 });
+      }
+
+      if (segments.length === 2 && segments[1] === API_ROUTES.RESTORE) {
+        const translation = findById(await storage.load(), segments[0]);
+        if (!translation) {
+          return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+        }
+        if (!storage.restoreRevision || !storage.getHistory) {
+          return errorResponse('This storage does not keep a revision history', 501);
+        }
+
+        // Only revisions of this key may be restored through its URL
+        const history = await storage.getHistory(translation.key);
+        const revisionId = typeof body.revisionId === 'string' ? body.revisionId : '';
+        if (!history.some(revision => revision.id === revisionId)) {
+          return errorResponse('Revision not found', 404);
+        }
+
+        const restored = await storage.restoreRevision(revisionId, writeOptions);
+        notify({ type: 'update', translation: restored });
+
+        return NextResponse.json(restored);
+      }
+
+      if (segments.length === 0) {
+        const { key, translations: translationValues, metadata, status } = body as Partial<Translation>;
+
+        if (!key || typeof key !== 'string' || !translationValues || typeof translationValues !== 'object') {
+          return errorResponse('Key and translations are required', 400);
+        }
+
+        const validation = translationUtils.validateKey(key);
+        if (!validation.valid) {
+          return errorResponse(validation.errors.join('. '), 400);
+        }
+
+        const existing = await storage.load();
+        if (existing.some(t => t.key === key)) {
+          return errorResponse(`Translation key "${key}" already exists`, 409);
+        }
+
+        const messageErrors = checkImportedMessages({ key, translations: translationValues }, undefined, defaultLocale).errors;
+        if (messageErrors.length > 0) {
+          return errorResponse(messageErrors.join('. '), 400);
+        }
+
+        const approves = getApprovalChanges(undefined, { key, translations: translationValues, status }).length > 0;
+        if (approves && !(await isReviewer(request))) {
+          return errorResponse(APPROVAL_REQUIRED, 403);
+        }
+
+        const created = await storage.create({
+          key,
+          translations: translationValues,
+          ...(status && { status }),
+          ...(metadata && { metadata })
+        }, writeOptions);
+
+        notify({ type: 'create', translation: created });
+
+        return NextResponse.json(created, { status: 201 });
+      }
+
+      if (segments.length === 1 && segments[0] === API_ROUTES.BULK_DELETE) {
+        const ids: (string | number)[] = Array.isArray(body.ids) ? body.ids : [];
+        const existing = await storage.load();
+        const deletedIds: (string | number)[] = [];
+
+        for (const id of ids) {
+          const translation = findById(existing, String(id));
+          if (translation) {
+            await storage.delete(translation.id!, writeOptions);
+            deletedIds.push(translation.id!);
+          }
+        }
+
+        if (deletedIds.length > 0) {
+          notify({ type: 'bulk_delete', ids: deletedIds });
+        }
+
+        return NextResponse.json({ success: true });
+      }
+
+      if (segments.length === 1 && segments[0] === API_ROUTES.IMPORT && typeof body.xliff === 'string') {
+        let xliffDocument: XliffDocument;
+        try {
+          xliffDocument = readXliff(body.xliff);
+        } catch (error) {
+          return errorResponse(error instanceof Error ? error.message : ERROR_MESSAGES.INVALID_FILE_FORMAT, 400);
+        }
+
+        const existing = await storage.load();
+        const existingByKey = new Map<string, Translation>();
+        existing.forEach(t => existingByKey.set(t.key, t));
+        const invalidKeyErrors: string[] = [];
+        const units = xliffDocument.units.filter(unit => {
+          if (existingByKey.has(unit.key)) return true;
+          const validation = translationUtils.validateKey(unit.key);
+          if (validation.valid) return true;
+          invalidKeyErrors.push(`"${unit.key}": ${validation.errors.join('. ')}`);
+          return false;
+        });
+        const { translations: merged, warnings } = mergeXLIFFTargets(
+          existing,
+          { ...xliffDocument, units },
+          supportedLocales
+        );
+        const result: ImportResult = { imported: 0, updated: 0, errors: invalidKeyErrors, warnings };
+        const changed: Translation[] = [];
+        const reviewer = await isReviewer(request);
+
+        for (const translation of merged) {
+          // Only the target locale changes, so a rejected message leaves nothing to store
+          const checked = checkImportedMessages(
+            translation,
+            existingByKey.get(translation.key),
+            defaultLocale
+          );
+          result.errors.push(...checked.errors);
+          result.warnings.push(...checked.warnings);
+          if (checked.errors.length > 0) continue;
+          if (!reviewer && getApprovalChanges(existingByKey.get(translation.key), translation).length > 0) {
+            result.errors.push(`"${translation.key}": ${APPROVAL_REQUIRED}`);
+            continue;
+          }
+
+          try {
+            changed.push(await storage.update(
+              translation.id!,
+              { translations: translation.translations },
+              writeOptions
+            ));
+            result.updated++;
+          } catch (error) {
+            result.errors.push(`Error processing "${translation.key}": ${error}`);
+          }
+        }
+
+        if (changed.length > 0) {
+          notify({ type: 'import', translations: changed });
+        }
+
+        return NextResponse.json(result);
+      }
+
+      if (segments.length === 1 && segments[0] === API_ROUTES.IMPORT) {
+        const incoming: Translation[] = Array.isArray(body.translations) ? body.translations : [];
+        const existing = await storage.load();
+        const existingByKey = new Map<string, Translation>();
+        existing.forEach(t => existingByKey.set(t.key, t));
+
+        let imported = 0;
+        let updated = 0;
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const changed: Translation[] = [];
+        const reviewer = await isReviewer(request);
+        // Columns of a spreadsheet that are not locales, e.g. "Notes"
+        const ignoredLocales = new Set<string>();
+
+        for (const entry of incoming) {
+          if (!entry || !entry.key) {
+            errors.push('Skipped an entry without a key');
+            continue;
+          }
+
+          try {
+            const existingTranslation = existingByKey.get(entry.key);
+            if (!existingTranslation) {
+              const validation = translationUtils.validateKey(entry.key);
+              if (!validation.valid) {
+                errors.push(`"${entry.key}": ${validation.errors.join('. ')}`);
+                continue;
+              }
+            }
+
+            const values = entry.translations || {};
+            Object.keys(values).forEach(locale => {
+              if (!supportedLocales.includes(locale)) ignoredLocales.add(locale);
+            });
+            const checked = checkImportedMessages(
+              pickLocales({ ...entry, translations: values }, supportedLocales),
+              existingTranslation,
+              defaultLocale
+            );
+            const translation = checked.translation;
+            errors.push(...checked.errors);
+            warnings.push(...checked.warnings);
+
+            const merged = existingTranslation
+              ? {
+                  ...existingTranslation,
+                  translations: { ...existingTranslation.translations, ...translation.translations },
+                  status: { ...existingTranslation.status, ...translation.status }
+                }
+              : translation;
+            if (!reviewer && getApprovalChanges(existingTranslation, merged).length > 0) {
+              errors.push(`"${entry.key}": ${APPROVAL_REQUIRED}`);
+              continue;
+            }
+
+            if (existingTranslation) {
+              if (checked.errors.length > 0 && Object.keys(translation.translations).length === 0) continue;
+
+              const saved = await storage.update(existingTranslation.id!, {
+                translations: {
+                  ...existingTranslation.translations,
+                  ...translation.translations
+                },
+                ...(translation.status && {
+                  status: { ...existingTranslation.status, ...translation.status }
+                })
+              }, writeOptions);
+              existingByKey.set(saved.key, saved);
+              changed.push(saved);
+              updated++;
+            } else {
+              const created = await storage.create({
+                key: translation.key,
+                translations: translation.translations,
+                ...(translation.status && { status: translation.status }),
+                ...(translation.metadata && { metadata: translation.metadata })
+              }, writeOptions);
+              existingByKey.set(created.key, created);
+              changed.push(created);
+              imported++;
+            }
+          } catch (error) {
+            errors.push(`Error processing "${entry.key}": ${error}`);
+          }
+        }
+
+        if (ignoredLocales.size > 0) {
+          warnings.push(`Ignored values for unsupported locales: ${Array.from(ignoredLocales).join(', ')}`);
+        }
+        if (changed.length > 0) {
+          notify({ type: 'import', translations: changed });
+        }
+
+        const result: ImportResult = { imported, updated, errors, warnings };
+        return NextResponse.json(result);
+      }
+
+      return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+    } catch (error) {
+      console.error('Error handling translation POST request:', error);
+      return errorResponse(ERROR_MESSAGES.SERVER_ERROR, 500);
+    }
+  };
+
+  // PUT /:id - update a translation
+  const PUT: TranslationRouteHandler = async (request) => {
+    try {
+      const segments = getSegments(request);
+      if (segments.length !== 1) {
+        return errorResponse('Translation ID is required', 400);
+      }
+
+      const body = await readBody(request);
+      if (!body) {
+        return errorResponse(ERROR_MESSAGES.VALIDATION_ERROR, 400);
+      }
+
+      const translations = await storage.load();
+      const translation = findById(translations, segments[0]);
+      const ifMatch = request.headers.get('If-Match');
+      if (!translation) {
+        // The editor still shows a translation someone else deleted
+        return ifMatch
+          ? conflictResponse(null)
+          : errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+      }
+      if (ifMatch && !translationUtils.matchesETag(ifMatch, translation)) {
+        return conflictResponse(translation);
+      }
+
+      // Never let the payload move the record to another id or set its version
+      const {
+        id: _id,
+        createdAt: _createdAt,
+        version: _version,
+        openComments: _openComments,
+        ...updates
+      } = body as Partial<Translation>;
+
+      // A new key must be valid and free, as when creating
+      if (updates.key !== undefined && updates.key !== translation.key) {
+        if (typeof updates.key !== 'string') {
+          return errorResponse('Key must be a string', 400);
+        }
+        const validation = translationUtils.validateKey(updates.key);
+        if (!validation.valid) {
+          return errorResponse(validation.errors.join('. '), 400);
+        }
+        if (translations.some(t => t.key === updates.key && t.id !== translation.id)) {
+          return errorResponse(`Translation key "${updates.key}" already exists`, 409);
+        }
+      }
+
+      if (updates.translations !== undefined) {
+        if (!updates.translations || typeof updates.translations !== 'object') {
+          return errorResponse('Translations must be an object', 400);
+        }
+        const messageErrors = checkImportedMessages({ ...translation, ...updates }, translation, defaultLocale).errors;
+        if (messageErrors.length > 0) {
+          return errorResponse(messageErrors.join('. '), 400);
+        }
+      }
+
+      const approves = getApprovalChanges(translation, { ...translation, ...updates }).length > 0;
+      if (approves && !(await isReviewer(request))) {
+        return errorResponse(APPROVAL_REQUIRED, 403);
+      }
+
+      const updated = await storage.update(translation.id!, updates, await getWriteOptions(request));
+      notify({ type: 'update', translation: updated });
+
+      return NextResponse.json(updated, {
+        headers: { ETag: translationUtils.getETag(updated) }
+      });
+    } catch (error) {
+      console.error('Error handling translation PUT request:', error);
+      return errorResponse(ERROR_MESSAGES.SERVER_ERROR, 500);
+    }
+  };
+
+  // DELETE /:id - delete a translation
+  const DELETE: TranslationRouteHandler = async (request) => {
+    try {
+      const segments = getSegments(request);
+      if (segments.length !== 1) {
+        return errorResponse('Translation ID is required', 400);
+      }
+
+      const translations = await storage.load();
+      const translation = findById(translations, segments[0]);
+      if (!translation) {
+        return errorResponse(ERROR_MESSAGES.NOT_FOUND_ERROR, 404);
+      }
+
+      const ifMatch = request.headers.get('If-Match');
+      if (ifMatch && !translationUtils.matchesETag(ifMatch, translation)) {
+        return conflictResponse(translation);
+      }
+
+      await storage.delete(translation.id!, await getWriteOptions(request));
+      notify({ type: 'delete', ids: [translation.id!], translation });
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Error handling translation DELETE request:', error);
+      return errorResponse(ERROR_MESSAGES.SERVER_ERROR, 500);
+    }
+  };
+
+  return { GET, POST, PUT, DELETE };
+}
+
+// Helper functions
+function errorResponse(message: string, status: number): Response {
+  return NextResponse.json({ success: false, message }, { status });
+}
+
+// 409 carrying the server's value, null when it was deleted
+function conflictResponse(current: Translation | null): Response {
+  return NextResponse.json(
+    { success: false, message: ERROR_MESSAGES.CONFLICT_ERROR, current },
+    { status: 409 }
+  );
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' ? body : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,118 @@
+import type { ShortcutAction, ShortcutBindings } from '../types';
+import { KEYBOARD_SHORTCUTS } from './constants';
+
+// Helpers for bindings written like 'ctrl+shift+z', 'f5' or '?'. Ctrl also
+// matches Cmd so the defaults work on macOS.
+
+// Actions that still fire while typing in a text field
+export const TEXT_FIELD_ACTIONS: ShortcutAction[] = ['SAVE', 'ESCAPE'];
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  del: 'delete',
+  space: ' ',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright'
+};
+
+const KEY_LABELS: Record<string, string> = {
+  escape: 'Esc',
+  delete: 'Del',
+  ' ': 'Space',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  enter: 'Enter',
+  tab: 'Tab'
+};
+
+interface ParsedShortcut {
+  key: string;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+}
+
+/**
+ * Defaults from KEYBOARD_SHORTCUTS with the given overrides applied.
+ */
+export function resolveShortcuts(overrides: Partial<ShortcutBindings> = {}): ShortcutBindings {
+  return { ...KEYBOARD_SHORTCUTS, ...overrides };
+}
+
+/**
+ * Only the given actions keep their binding, e.g. to list what is active.
+ */
+export function pickShortcuts(bindings: ShortcutBindings, actions: ShortcutAction[]): ShortcutBindings {
+  const result = { ...bindings };
+  (Object.keys(result) as ShortcutAction[]).forEach(action => {
+    if (!actions.includes(action)) result[action] = null;
+  });
+  return result;
+}
+
+export function parseShortcut(binding: string): ParsedShortcut {
+  const parts = binding.toLowerCase().split('+').map(part => part.trim());
+  const key = parts.pop() || '';
+
+  return {
+    key: KEY_ALIASES[key] || key,
+    ctrl: parts.some(part => part === 'ctrl' || part === 'cmd' || part === 'meta' || part === 'mod'),
+    shift: parts.includes('shift'),
+    alt: parts.includes('alt')
+  };
+}
+
+export function matchesShortcut(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>,
+  binding: string | null | undefined
+): boolean {
+  if (!binding || !event.key) return false;
+
+  const shortcut = parseShortcut(binding);
+  const key = event.key.toLowerCase();
+
+  if (key !== shortcut.key) return false;
+  if ((event.ctrlKey || event.metaKey) !== shortcut.ctrl) return false;
+  if (event.altKey !== shortcut.alt) return false;
+
+  // Symbols like '?' already imply the shift needed to type them
+  const isSymbol = shortcut.key.length === 1 && !/[a-z0-9]/.test(shortcut.key);
+  return isSymbol || event.shiftKey === shortcut.shift;
+}
+
+/**
+ * Human readable form of a binding, e.g. 'Ctrl+Shift+Z' or '⌘⇧Z' on macOS.
+ */
+export function formatShortcut(binding: string, isMac: boolean = false): string {
+  const shortcut = parseShortcut(binding);
+  const key = KEY_LABELS[shortcut.key] || (shortcut.key.length === 1 ? shortcut.key.toUpperCase() : capitalize(shortcut.key));
+
+  if (isMac) {
+    return `${shortcut.ctrl ? '⌘' : ''}${shortcut.alt ? '⌥' : ''}${shortcut.shift ? '⇧' : ''}${key}`;
+  }
+
+  return [
+    shortcut.ctrl && 'Ctrl',
+    shortcut.alt && 'Alt',
+    shortcut.shift && 'Shift',
+    key
+  ].filter(Boolean).join('+');
+}
+
+export function isTextField(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element || !element.tagName) return false;
+
+  return element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'SELECT' ||
+    element.isContentEditable;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
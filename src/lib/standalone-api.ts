@@ -1,34 +1,120 @@
 'use client';
 
-import type { Translation, StorageAdapter } from '../types';
+import type {
+  Translation,
+  StorageAdapter,
+  StorageWriteOptions,
+  ExportOptions,
+  ImportResult,
+  TranslationFilter,
+  TranslationRevision,
+  TranslationComment,
+  CommentInput,
+  TranslationSuggestion,
+  SuggestionOptions,
+  TranslationEvent,
+  SortOptions,
+  MessageFileLayout
+} from '../types';
+import { ConflictError } from '../types';
 import { LocalStorageAdapter } from './storage';
 import { FileManager } from './file-manager';
+import { isXLIFFFile, mergeXLIFFTargets, checkImportedMessages, pickLocales } from './import-export';
+import { readXliff } from './xliff';
+import { translationUtils } from './utils';
+import { TabSync, getSyncChannel } from './tab-sync';
+import { filterApproved } from './review';
+import { withOpenComments } from './comments';
+import { TranslationMemory } from './translation-memory';
 
 export interface StandaloneAPIOptions {
   storage?: StorageAdapter;
   fileManager?: FileManager;
   supportedLocales?: string[];
+  // Source language for XLIFF exports, defaults to the first supported locale
+  defaultLocale?: string;
   messagesPath?: string;
+  // Layout and namespaces of the files under messagesPath, see FileManagerOptions
+  fileLayout?: MessageFileLayout;
+  namespaces?: string[];
   autoSave?: boolean;
   autoExport?: boolean;
+  // Recorded on every revision written through this instance
+  author?: string;
+  // Channel for telling other tabs about changes, false to turn it off.
+  // Defaults to one per storage, see getSyncChannel
+  syncChannel?: string | false;
 }
 
 export class StandaloneAPI {
   private storage: StorageAdapter;
   private fileManager: FileManager;
   private supportedLocales: string[];
+  private defaultLocale: string;
   private autoSave: boolean;
   private autoExport: boolean;
+  private writeOptions: StorageWriteOptions;
+  private seeded = false;
+  private tabSync: TabSync | null;
+  private memory: TranslationMemory | null = null;
+  private memoryStale = false;
+  private unsubscribeMemory: (() => void) | null = null;
 
   constructor(options: StandaloneAPIOptions = {}) {
     this.supportedLocales = options.supportedLocales || ['en'];
+    this.defaultLocale = options.defaultLocale || this.supportedLocales[0];
     this.storage = options.storage || new LocalStorageAdapter();
     this.fileManager = options.fileManager || new FileManager(
       options.messagesPath || '/messages',
-      this.supportedLocales
+      this.supportedLocales,
+      { layout: options.fileLayout, namespaces: options.namespaces }
     );
     this.autoSave = options.autoSave !== false;
     this.autoExport = options.autoExport !== false;
+    this.writeOptions = options.author ? { author: options.author } : {};
+    this.tabSync = options.syncChannel === false
+      ? null
+      : new TabSync(options.syncChannel || getSyncChannel(this.storage));
+  }
+
+  // Changes made by other tabs on the same storage. Returns a function that unsubscribes
+  onRemoteChange(listener: (event: TranslationEvent) => void): () => void {
+    return this.tabSync ? this.tabSync.subscribe(listener) : () => {};
+  }
+
+  // Stop listening to other tabs for the translation memory, which is rebuilt on its next query
+  dispose(): void {
+    this.unsubscribeMemory?.();
+    this.unsubscribeMemory = null;
+    this.memory = null;
+  }
+
+  private notify(event: Omit<TranslationEvent, 'timestamp'>): void {
+    this.trackChange(event);
+    this.tabSync?.post(event);
+  }
+
+  // Changes that do not say what changed, like imports, reload the memory on its next query
+  private trackChange(event: Omit<TranslationEvent, 'timestamp'>): void {
+    if (this.memory && !this.memory.applyEvent(event)) {
+      this.memoryStale = true;
+    }
+  }
+
+  // Built on the first query, then kept up to date with the changes of this and other tabs
+  private async getMemory(): Promise<TranslationMemory> {
+    if (!this.memory) {
+      this.memory = new TranslationMemory(this.defaultLocale);
+      this.memoryStale = true;
+      this.unsubscribeMemory = this.onRemoteChange(event => this.trackChange(event));
+    }
+
+    if (this.memoryStale) {
+      this.memoryStale = false;
+      this.memory.sync(await this.loadTranslations());
+    }
+
+    return this.memory;
   }
 
   // Load translations from storage and/or files
@@ -42,7 +128,7 @@ export class StandaloneAPI {
         try {
           translations = await this.fileManager.loadTranslations();
           if (translations.length > 0) {
-            await this.storage.save(translations);
+            await this.storage.save(translations, this.writeOptions);
           }
         } catch (error) {
           console.warn('Could not load from files:', error);
@@ -56,11 +142,33 @@ export class StandaloneAPI {
     }
   }
 
+  // The query paths skip loadTranslations, so an empty storage is filled from files here once
+  private async ensureSeeded(): Promise<void> {
+    if (this.seeded) return;
+    this.seeded = true;
+
+    const { count } = await this.storage.query!({ page: 1, pageSize: 1 });
+    if (count === 0) {
+      await this.loadTranslations();
+    }
+  }
+
+  private async findByKey(key: string): Promise<Translation | undefined> {
+    if (this.storage.getByKey && this.storage.query) {
+      await this.ensureSeeded();
+      return this.storage.getByKey(key);
+    }
+
+    return (await this.loadTranslations()).find(t => t.key === key);
+  }
+
   // Get paginated translations with search
   async getTranslations(options: {
     page?: number;
     pageSize?: number;
     search?: string;
+    filter?: TranslationFilter;
+    sort?: SortOptions;
   } = {}): Promise<{
     results: Translation[];
     count: number;
@@ -68,9 +176,24 @@ export class StandaloneAPI {
     page: number;
     pageSize: number;
   }> {
-    const { page = 1, pageSize = 25, search = '' } = options;
+    const { page = 1, pageSize = 25, search = '', filter = {}, sort = { field: 'key', order: 'asc' } } = options;
+
+    // Storage that can query pages itself never loads the whole catalog,
+    // except for the open comments filter its indexes cannot answer
+    if (this.storage.query && !filter.openComments) {
+      await this.ensureSeeded();
+      const { results, count } = await this.storage.query({ page, pageSize, search, filter, sort });
+
+      return {
+        results: await this.withComments(results),
+        count,
+        totalPages: Math.ceil(count / pageSize),
+        page,
+        pageSize
+      };
+    }
     
-    let translations = await this.loadTranslations();
+    let translations = await this.withComments(await this.loadTranslations());
 
     // Apply search filter
     if (search) {
@@ -85,8 +208,10 @@ export class StandaloneAPI {
       });
     }
 
-    // Sort by key
-    translations.sort((a, b) => a.key.localeCompare(b.key));
+    // Apply advanced filters
+    translations = translationUtils.filterTranslations(translations, filter);
+
+    translations = translationUtils.sortTranslations(translations, sort.field, sort.order);
 
     // Apply pagination
     const startIndex = (page - 1) * pageSize;
@@ -105,12 +230,12 @@ export class StandaloneAPI {
   // Create new translation
   async createTranslation(translation: Omit<Translation, 'id'>): Promise<Translation> {
     // Check for duplicate keys
-    const existing = await this.loadTranslations();
-    if (existing.find(t => t.key === translation.key)) {
+    if (await this.findByKey(translation.key)) {
       throw new Error(`Translation key "${translation.key}" already exists`);
     }
 
-    const newTranslation = await this.storage.create(translation);
+    const newTranslation = await this.storage.create(translation, this.writeOptions);
+    this.notify({ type: 'create', translation: newTranslation });
 
     if (this.autoExport) {
       await this.exportToFiles();
@@ -119,12 +244,24 @@ export class StandaloneAPI {
     return newTranslation;
   }
 
-  // Update existing translation
+  // Update existing translation. With a base, fails with ConflictError when
+  // the stored translation changed since base was read, e.g. in another tab
   async updateTranslation(
     id: string | number,
-    updates: Partial<Translation>
+    updates: Partial<Translation>,
+    options: { base?: Translation } = {}
   ): Promise<Translation> {
-    const updatedTranslation = await this.storage.update(id, updates);
+    const { base } = options;
+    if (base) {
+      const current = await this.findByKey(base.key);
+      if (!current || current.id !== id || current.version !== base.version || current.updatedAt !== base.updatedAt) {
+        throw new ConflictError(`Translation "${base.key}" was changed elsewhere`, current);
+      }
+    }
+
+    const { openComments: _openComments, ...changes } = updates;
+    const updatedTranslation = await this.storage.update(id, changes, this.writeOptions);
+    this.notify({ type: 'update', translation: updatedTranslation });
 
     if (this.autoExport) {
       await this.exportToFiles();
@@ -135,18 +272,91 @@ export class StandaloneAPI {
 
   // Delete translation
   async deleteTranslation(id: string | number): Promise<void> {
-    await this.storage.delete(id);
+    await this.storage.delete(id, this.writeOptions);
+    this.notify({ type: 'delete', ids: [id] });
 
     if (this.autoExport) {
       await this.exportToFiles();
     }
   }
 
+  // Revisions of a translation, newest first. Empty when the storage keeps no history
+  async getHistory(id: string | number): Promise<TranslationRevision[]> {
+    const translation = (await this.loadTranslations()).find(t => t.id === id);
+    if (!translation) {
+      throw new Error('Translation not found');
+    }
+
+    return this.storage.getHistory ? this.storage.getHistory(translation.key) : [];
+  }
+
+  // Comments of a translation, oldest first. Empty when the storage keeps no comments
+  async getComments(id: string | number): Promise<TranslationComment[]> {
+    return this.storage.getComments ? this.storage.getComments(id) : [];
+  }
+
+  // Start a thread, or reply to one with parentId
+  async addComment(id: string | number, comment: CommentInput): Promise<TranslationComment> {
+    if (!this.storage.addComment) {
+      throw new Error('Storage adapter does not keep comments');
+    }
+    return this.storage.addComment(id, comment, this.writeOptions);
+  }
+
+  // Resolve or reopen the thread of a comment
+  async resolveComment(commentId: string, resolved: boolean = true): Promise<TranslationComment> {
+    if (!this.storage.resolveComment) {
+      throw new Error('Storage adapter does not keep comments');
+    }
+    return this.storage.resolveComment(commentId, resolved, this.writeOptions);
+  }
+
+  // Counts the unresolved comment threads into openComments
+  private async withComments(translations: Translation[]): Promise<Translation[]> {
+    return this.storage.getComments
+      ? withOpenComments(translations, await this.storage.getComments())
+      : translations;
+  }
+
+  // Translation memory matches for a default-locale text, best first
+  async getSuggestions(
+    text: string,
+    locale: string,
+    options: SuggestionOptions = {}
+  ): Promise<TranslationSuggestion[]> {
+    return (await this.getMemory()).suggest(text, locale, options);
+  }
+
+  // Bring back the values of an earlier revision
+  async restoreRevision(id: string | number, revisionId: string): Promise<Translation> {
+    if (!this.storage.restoreRevision) {
+      throw new Error('Storage adapter does not keep revision history');
+    }
+
+    const translation = (await this.loadTranslations()).find(t => t.id === id);
+    const history = translation && this.storage.getHistory
+      ? await this.storage.getHistory(translation.key)
+      : [];
+    if (!history.some(revision => revision.id === revisionId)) {
+      throw new Error('Revision not found');
+    }
+
+    const restored = await this.storage.restoreRevision(revisionId, this.writeOptions);
+    this.notify({ type: 'update', translation: restored });
+
+    if (this.autoExport) {
+      await this.exportToFiles();
+    }
+
+    return restored;
+  }
+
   // Bulk delete translations
   async bulkDeleteTranslations(ids: (string | number)[]): Promise<void> {
     for (const id of ids) {
-      await this.storage.delete(id);
+      await this.storage.delete(id, this.writeOptions);
     }
+    this.notify({ type: 'bulk_delete', ids });
 
     if (this.autoExport) {
       await this.exportToFiles();
@@ -154,61 +364,176 @@ export class StandaloneAPI {
   }
 
   // Import translations from file
-  async importTranslations(file: File): Promise<{
-    imported: number;
-    updated: number;
-    errors: string[];
-  }> {
+  async importTranslations(file: File): Promise<ImportResult> {
+    if (isXLIFFFile(file)) {
+      return this.importXLIFF(file);
+    }
+
     try {
       const importedTranslations = await this.fileManager.importTranslations(file);
       const existing = await this.loadTranslations();
-      const existingKeys = new Set(existing.map(t => t.key));
+      // Values before the import
+      const previous = new Map<string, Translation>();
+      existing.forEach(t => previous.set(t.key, t));
+      // Latest value of every key, so repeated keys merge into what came before
+      const current = new Map(previous);
 
-      let imported = 0;
-      let updated = 0;
       const errors: string[] = [];
-
-      for (const translation of importedTranslations) {
+      const warnings: string[] = [];
+      // Written together at the end when the storage supports bulk writes
+      const pending = new Map<string, Translation>();
+      const written = new Map<string, Translation>();
+      // Columns of a spreadsheet that are not locales, e.g. "Notes"
+      const ignoredLocales = new Set<string>();
+
+      for (const entry of importedTranslations) {
         try {
-          if (existingKeys.has(translation.key)) {
+          const existingTranslation = current.get(entry.key);
+          Object.keys(entry.translations || {}).forEach(locale => {
+            if (!this.supportedLocales.includes(locale)) ignoredLocales.add(locale);
+          });
+          const checked = checkImportedMessages(
+            pickLocales({ ...entry, translations: entry.translations || {} }, this.supportedLocales),
+            existingTranslation,
+            this.defaultLocale
+          );
+          const translation = checked.translation;
+          errors.push(...checked.errors);
+          warnings.push(...checked.warnings);
+
+          if (existingTranslation) {
             // Update existing
-            const existingTranslation = existing.find(t => t.key === translation.key);
-            if (existingTranslation) {
-              await this.storage.update(existingTranslation.id!, {
-                translations: {
-                  ...existingTranslation.translations,
-                  ...translation.translations
-                }
-              });
-              updated++;
+            if (checked.errors.length > 0 && Object.keys(translation.translations).length === 0) continue;
+
+            const updates: Partial<Translation> = {
+              translations: {
+                ...existingTranslation.translations,
+                ...translation.translations
+              },
+              ...(translation.status && {
+                status: { ...existingTranslation.status, ...translation.status }
+              })
+            };
+
+            if (this.storage.bulkPut) {
+              const merged = { ...existingTranslation, ...updates };
+              pending.set(entry.key, merged);
+              current.set(entry.key, merged);
+            } else {
+              const saved = await this.storage.update(existingTranslation.id!, updates, this.writeOptions);
+              current.set(entry.key, saved);
+              written.set(entry.key, saved);
             }
           } else {
             // Create new
-            await this.storage.create({
+            const created: Omit<Translation, 'id'> = {
               key: translation.key,
-              translations: translation.translations
-            });
-            imported++;
+              translations: translation.translations,
+              ...(translation.status && { status: translation.status }),
+              ...(translation.metadata && { metadata: translation.metadata })
+            };
+
+            if (this.storage.bulkPut) {
+              pending.set(entry.key, created);
+              current.set(entry.key, created);
+            } else {
+              const saved = await this.storage.create(created, this.writeOptions);
+              current.set(entry.key, saved);
+              written.set(entry.key, saved);
+            }
           }
         } catch (error) {
-          errors.push(`Error processing "${translation.key}": ${error}`);
+          errors.push(`Error processing "${entry.key}": ${error}`);
         }
       }
 
+      if (ignoredLocales.size > 0) {
+        warnings.push(`Ignored values for unsupported locales: ${Array.from(ignoredLocales).join(', ')}`);
+      }
+      if (this.storage.bulkPut && pending.size > 0) {
+        const saved = await this.storage.bulkPut(Array.from(pending.values()), this.writeOptions);
+        saved.forEach(translation => written.set(translation.key, translation));
+      }
+
+      let imported = 0;
+      let updated = 0;
+      const changes: NonNullable<ImportResult['changes']> = [];
+      written.forEach((after, key) => {
+        const before = previous.get(key);
+        changes.push({ ...(before && { before }), after });
+        if (before) {
+          updated++;
+        } else {
+          imported++;
+        }
+      });
+      if (written.size > 0) {
+        this.notify({ type: 'import' });
+      }
+
       if (this.autoExport) {
         await this.exportToFiles();
       }
 
-      return { imported, updated, errors };
+      return { imported, updated, errors, warnings, changes };
+    } catch (error) {
+      throw new Error(`Import failed: ${error}`);
+    }
+  }
+
+  // Merge translated XLIFF targets back by key, existing keys only
+  private async importXLIFF(file: File): Promise<ImportResult> {
+    try {
+      const document = readXliff(await file.text());
+      const existing = await this.loadTranslations();
+      const { translations, warnings } = mergeXLIFFTargets(existing, document, this.supportedLocales);
+
+      let updated = 0;
+      const errors: string[] = [];
+      const changes: NonNullable<ImportResult['changes']> = [];
+
+      for (const translation of translations) {
+        const before = existing.find(t => t.key === translation.key);
+        // Only the target locale changes, so a rejected message leaves nothing to store
+        const checked = checkImportedMessages(translation, before, this.defaultLocale);
+        errors.push(...checked.errors);
+        warnings.push(...checked.warnings);
+        if (checked.errors.length > 0) continue;
+
+        try {
+          const after = await this.storage.update(translation.id!, {
+            translations: translation.translations
+          }, this.writeOptions);
+          changes.push({ ...(before && { before }), after });
+          updated++;
+        } catch (error) {
+          errors.push(`Error processing "${translation.key}": ${error}`);
+        }
+      }
+
+      if (updated > 0) {
+        this.notify({ type: 'import' });
+      }
+
+      if (this.autoExport && updated > 0) {
+        await this.exportToFiles();
+      }
+
+      return { imported: 0, updated, errors, warnings, changes };
     } catch (error) {
       throw new Error(`Import failed: ${error}`);
     }
   }
 
   // Export translations to downloadable file
-  async exportTranslations(format: 'json' | 'csv' = 'json'): Promise<Blob> {
+  async exportTranslations(
+    format: ExportOptions['format'] = 'json',
+    options: Pick<ExportOptions, 'approvedOnly'> = {}
+  ): Promise<Blob> {
     const translations = await this.loadTranslations();
-    return this.fileManager.exportTranslations(translations, format);
+    return this.fileManager.exportTranslations(options.approvedOnly ? filterApproved(translations) : translations, format, {
+      sourceLocale: this.defaultLocale
+    });
   }
 
   // Export to JSON files (for saving to public folder)
@@ -257,6 +582,11 @@ export class StandaloneAPI {
 
   // Search translations
   async searchTranslations(query: string): Promise<Translation[]> {
+    if (this.storage.query) {
+      await this.ensureSeeded();
+      return (await this.storage.query({ search: query })).results;
+    }
+
     const translations = await this.loadTranslations();
     const queryLower = query.toLowerCase();
 
@@ -272,8 +602,7 @@ export class StandaloneAPI {
 
   // Get translation by key
   async getTranslationByKey(key: string): Promise<Translation | null> {
-    const translations = await this.loadTranslations();
-    return translations.find(t => t.key === key) || null;
+    return (await this.findByKey(key)) || null;
   }
 
   // Validate translation key
@@ -300,7 +629,8 @@ export class StandaloneAPI {
 
   // Clear all translations
   async clearAllTranslations(): Promise<void> {
-    await this.storage.save([]);
+    await this.storage.save([], this.writeOptions);
+    this.notify({ type: 'import' });
 
     if (this.autoExport) {
       await this.exportToFiles();
@@ -334,7 +664,8 @@ export class StandaloneAPI {
       throw new Error('Invalid backup file format');
     }
 
-    await this.storage.save(backup.translations);
+    await this.storage.save(backup.translations, this.writeOptions);
+    this.notify({ type: 'import' });
 
     if (this.autoExport) {
       await this.exportToFiles();
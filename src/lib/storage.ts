@@ -1,21 +1,34 @@
 'use client';
 
-import type { Translation } from '../types';
-
-export interface StorageAdapter {
-  load(): Promise<Translation[]>;
-  save(translations: Translation[]): Promise<void>;
-  delete(id: string | number): Promise<void>;
-  create(translation: Omit<Translation, 'id'>): Promise<Translation>;
-  update(id: string | number, translation: Partial<Translation>): Promise<Translation>;
-}
+import type {
+  Translation,
+  ArchivedTranslation,
+  StorageAdapter,
+  StorageWriteOptions,
+  StorageQuery,
+  StorageQueryResult,
+  TranslationFilter,
+  TranslationRevision,
+  TranslationComment,
+  CommentInput
+} from '../types';
+import { diffTranslations, createRevision, getKeyHistory, restoreFromRevision } from './history';
+import { addToArchive, takeFromArchive } from './archive';
+import { appendComment, resolveThread } from './comments';
+import { translationUtils } from './utils';
 
 // Local Storage implementation
 export class LocalStorageAdapter implements StorageAdapter {
+  readonly storageId: string;
   private key: string;
+  private historyKey: string;
+  private commentsKey: string;
 
   constructor(key: string = 'next-intl-admin-translations') {
+    this.storageId = `localstorage:${key}`;
     this.key = key;
+    this.historyKey = `${key}-history`;
+    this.commentsKey = `${key}-comments`;
   }
 
   async load(): Promise<Translation[]> {
@@ -28,36 +41,46 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
   }
 
-  async save(translations: Translation[]): Promise<void> {
+  // Every write goes through here, so the diff covers create, update and delete
+  async save(translations: Translation[], options: StorageWriteOptions = {}): Promise<void> {
+    const previous = await this.load();
+
     try {
       localStorage.setItem(this.key, JSON.stringify(translations));
     } catch (error) {
       console.error('Error saving to localStorage:', error);
       throw error;
     }
+
+    this.appendRevisions(diffTranslations(previous, translations, options));
   }
 
-  async delete(id: string | number): Promise<void> {
+  async delete(id: string | number, options: StorageWriteOptions = {}): Promise<void> {
     const translations = await this.load();
     const filtered = translations.filter(t => t.id !== id);
-    await this.save(filtered);
+    await this.save(filtered, options);
   }
 
-  async create(translation: Omit<Translation, 'id'>): Promise<Translation> {
+  async create(translation: Omit<Translation, 'id'>, options: StorageWriteOptions = {}): Promise<Translation> {
     const translations = await this.load();
     const newTranslation: Translation = {
       id: Date.now().toString(),
       ...translation,
+      version: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
     
     translations.push(newTranslation);
-    await this.save(translations);
+    await this.save(translations, options);
     return newTranslation;
   }
 
-  async update(id: string | number, updates: Partial<Translation>): Promise<Translation> {
+  async update(
+    id: string | number,
+    updates: Partial<Translation>,
+    options: StorageWriteOptions = {}
+  ): Promise<Translation> {
     const translations = await this.load();
     const index = translations.findIndex(t => t.id === id);
     
@@ -68,27 +91,164 @@ export class LocalStorageAdapter implements StorageAdapter {
     translations[index] = {
       ...translations[index],
       ...updates,
+      version: (translations[index].version || 0) + 1,
       updatedAt: new Date().toISOString()
     };
 
-    await this.save(translations);
+    await this.save(translations, options);
     return translations[index];
   }
+
+  async getHistory(key: string): Promise<TranslationRevision[]> {
+    return getKeyHistory(this.loadRevisions(), key);
+  }
+
+  async restoreRevision(revisionId: string, options: StorageWriteOptions = {}): Promise<Translation> {
+    const revision = this.loadRevisions().find(r => r.id === revisionId);
+    return restoreFromRevision(this, revision, options);
+  }
+
+  async getComments(translationId?: string | number): Promise<TranslationComment[]> {
+    return filterComments(this.loadComments(), translationId);
+  }
+
+  async addComment(
+    translationId: string | number,
+    comment: CommentInput,
+    options: StorageWriteOptions = {}
+  ): Promise<TranslationComment> {
+    const { comments, added } = appendComment(this.loadComments(), translationId, comment, options);
+    this.saveComments(comments);
+    return added;
+  }
+
+  async resolveComment(commentId: string, resolved: boolean, options: StorageWriteOptions = {}): Promise<TranslationComment> {
+    const { comments, thread } = resolveThread(this.loadComments(), commentId, resolved, options);
+    this.saveComments(comments);
+    return thread;
+  }
+
+  private loadComments(): TranslationComment[] {
+    try {
+      const data = localStorage.getItem(this.commentsKey);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error loading comments from localStorage:', error);
+      return [];
+    }
+  }
+
+  private saveComments(comments: TranslationComment[]): void {
+    try {
+      localStorage.setItem(this.commentsKey, JSON.stringify(comments));
+    } catch (error) {
+      console.error('Error saving comments to localStorage:', error);
+      throw error;
+    }
+  }
+
+  private loadRevisions(): TranslationRevision[] {
+    try {
+      const data = localStorage.getItem(this.historyKey);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error loading history from localStorage:', error);
+      return [];
+    }
+  }
+
+  // A full quota must not fail the write itself
+  private appendRevisions(revisions: TranslationRevision[]): void {
+    if (revisions.length === 0) return;
+
+    try {
+      localStorage.setItem(this.historyKey, JSON.stringify([...this.loadRevisions(), ...revisions]));
+    } catch (error) {
+      console.error('Error saving history to localStorage:', error);
+    }
+  }
+}
+
+// Characters that end a word for the IndexedDB search index
+const WORD_SEPARATORS = /[\s.,;:!?'"()[\]{}<>/\\|_+=*&^%$#@~`-]+/;
+// Joins an indexed word and the part it came from: 'key', 'meta' or a locale
+const SCOPE_SEPARATOR = '\u0001';
+
+type StoredTranslation = Translation & { searchTokens?: string[] };
+
+function splitWords(text: string): string[] {
+  return text.toLowerCase().split(WORD_SEPARATORS).filter(Boolean);
+}
+
+// Entries like 'ave\u0001en', one per suffix of every word and part, so a
+// prefix range finds text anywhere in a word. The scope tells which part it came from
+function toRecord(translation: Translation): StoredTranslation {
+  const tokens = new Set<string>();
+  const add = (text: string | undefined, scope: string) => {
+    if (!text) return;
+    splitWords(text).forEach(word => {
+      for (let i = 0; i < word.length; i++) tokens.add(word.slice(i) + SCOPE_SEPARATOR + scope);
+    });
+  };
+
+  add(translation.key, 'key');
+  Object.keys(translation.translations).forEach(locale => add(translation.translations[locale], locale));
+  add(translation.metadata?.description, 'meta');
+  (translation.metadata?.tags || []).forEach(tag => add(tag, 'meta'));
+
+  return { ...translation, searchTokens: Array.from(tokens) };
+}
+
+function fromRecord(record: StoredTranslation): Translation {
+  const { searchTokens, ...translation } = record;
+  return translation;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Ids may have been numbers before a JSON round trip
+function filterComments(comments: TranslationComment[], translationId?: string | number): TranslationComment[] {
+  return translationId === undefined
+    ? [...comments]
+    : comments.filter(c => String(c.translationId) === String(translationId));
+}
+
+function paginate(translations: Translation[], page: number, pageSize?: number): Translation[] {
+  return pageSize ? translations.slice((page - 1) * pageSize, page * pageSize) : translations;
 }
 
 // IndexedDB implementation for better performance with large datasets
 export class IndexedDBAdapter implements StorageAdapter {
+  readonly storageId: string;
   private dbName: string;
   private storeName: string;
+  private historyStoreName: string;
+  private commentsStoreName: string;
   private version: number;
 
   constructor(
     dbName: string = 'next-intl-admin',
     storeName: string = 'translations',
-    version: number = 1
+    version: number = 5
   ) {
+    this.storageId = `indexeddb:${dbName}/${storeName}`;
     this.dbName = dbName;
     this.storeName = storeName;
+    this.historyStoreName = `${storeName}-history`;
+    this.commentsStoreName = `${storeName}-comments`;
     this.version = version;
   }
 
@@ -97,7 +257,11 @@ export class IndexedDBAdapter implements StorageAdapter {
       const request = indexedDB.open(this.dbName, this.version);
 
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
+      request.onsuccess = () => {
+        // Let a newer version in another tab upgrade instead of blocking it
+        request.result.onversionchange = () => request.result.close();
+        resolve(request.result);
+      };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
@@ -107,6 +271,34 @@ export class IndexedDBAdapter implements StorageAdapter {
           store.createIndex('key', 'key', { unique: true });
           store.createIndex('updatedAt', 'updatedAt');
         }
+
+        // Added in version 2
+        if (!db.objectStoreNames.contains(this.historyStoreName)) {
+          const history = db.createObjectStore(this.historyStoreName, { keyPath: 'id' });
+          history.createIndex('key', 'key');
+        }
+
+        // Added in version 4
+        if (!db.objectStoreNames.contains(this.commentsStoreName)) {
+          const comments = db.createObjectStore(this.commentsStoreName, { keyPath: 'id' });
+          comments.createIndex('translationId', 'translationId');
+        }
+
+        // Added in version 3 for whole words, version 5 indexes their
+        // suffixes. Records stored before get their tokens here
+        const store = request.transaction!.objectStore(this.storeName);
+        if (!store.indexNames.contains('search')) {
+          store.createIndex('search', 'searchTokens', { multiEntry: true });
+        }
+        if (event.oldVersion < 5) {
+          const cursorRequest = store.openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            cursor.update(toRecord(fromRecord(cursor.value)));
+            cursor.continue();
+          };
+        }
       };
     });
   }
@@ -120,7 +312,7 @@ export class IndexedDBAdapter implements StorageAdapter {
       return new Promise((resolve, reject) => {
         const request = store.getAll();
         request.onerror = () => reject(request.error);
-        request.onsuccess = () => resolve(request.result);
+        request.onsuccess = () => resolve(request.result.map(fromRecord));
       });
     } catch (error) {
       console.error('Error loading from IndexedDB:', error);
@@ -128,44 +320,53 @@ export class IndexedDBAdapter implements StorageAdapter {
     }
   }
 
-  async save(translations: Translation[]): Promise<void> {
+  // Writes only what changed, in one transaction
+  async save(translations: Translation[], options: StorageWriteOptions = {}): Promise<void> {
+    const previous = await this.load();
+    const previousById = new Map<string | number | undefined, Translation>();
+    previous.forEach(t => previousById.set(t.id, t));
+    const nextIds = new Set(translations.map(t => t.id));
+
     const db = await this.openDB();
     const transaction = db.transaction([this.storeName], 'readwrite');
     const store = transaction.objectStore(this.storeName);
 
-    // Clear existing data
-    await new Promise<void>((resolve, reject) => {
-      const clearRequest = store.clear();
-      clearRequest.onerror = () => reject(clearRequest.error);
-      clearRequest.onsuccess = () => resolve();
+    // Deletes first so a key can move to another id
+    previous.forEach(t => {
+      if (!nextIds.has(t.id)) store.delete(t.id!);
     });
 
-    // Add new data
-    for (const translation of translations) {
-      await new Promise<void>((resolve, reject) => {
-        const addRequest = store.add(translation);
-        addRequest.onerror = () => reject(addRequest.error);
-        addRequest.onsuccess = () => resolve();
-      });
-    }
+    translations.forEach(t => {
+      const before = previousById.get(t.id);
+      if (!before || JSON.stringify(before) !== JSON.stringify(t)) {
+        store.put(toRecord(t));
+      }
+    });
+
+    await transactionDone(transaction);
+    await this.appendRevisions(diffTranslations(previous, translations, options));
   }
 
-  async delete(id: string | number): Promise<void> {
+  async delete(id: string | number, options: StorageWriteOptions = {}): Promise<void> {
+    const existing = await this.get(id);
     const db = await this.openDB();
     const transaction = db.transaction([this.storeName], 'readwrite');
     const store = transaction.objectStore(this.storeName);
 
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       const request = store.delete(id);
       request.onerror = () => reject(request.error);
       request.onsuccess = () => resolve();
     });
+
+    await this.appendRevisions([createRevision('delete', existing, undefined, options)]);
   }
 
-  async create(translation: Omit<Translation, 'id'>): Promise<Translation> {
+  async create(translation: Omit<Translation, 'id'>, options: StorageWriteOptions = {}): Promise<Translation> {
     const newTranslation: Translation = {
       id: Date.now().toString(),
       ...translation,
+      version: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
@@ -174,14 +375,21 @@ export class IndexedDBAdapter implements StorageAdapter {
     const transaction = db.transaction([this.storeName], 'readwrite');
     const store = transaction.objectStore(this.storeName);
 
-    return new Promise((resolve, reject) => {
-      const request = store.add(newTranslation);
+    await new Promise<void>((resolve, reject) => {
+      const request = store.add(toRecord(newTranslation));
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(newTranslation);
+      request.onsuccess = () => resolve();
     });
+
+    await this.appendRevisions([createRevision('create', undefined, newTranslation, options)]);
+    return newTranslation;
   }
 
-  async update(id: string | number, updates: Partial<Translation>): Promise<Translation> {
+  async update(
+    id: string | number,
+    updates: Partial<Translation>,
+    options: StorageWriteOptions = {}
+  ): Promise<Translation> {
     const db = await this.openDB();
     const transaction = db.transaction([this.storeName], 'readwrite');
     const store = transaction.objectStore(this.storeName);
@@ -194,7 +402,7 @@ export class IndexedDBAdapter implements StorageAdapter {
         if (!request.result) {
           reject(new Error('Translation not found'));
         } else {
-          resolve(request.result);
+          resolve(fromRecord(request.result));
         }
       };
     });
@@ -202,59 +410,413 @@ export class IndexedDBAdapter implements StorageAdapter {
     const updated: Translation = {
       ...existing,
       ...updates,
+      version: (existing.version || 0) + 1,
       updatedAt: new Date().toISOString()
     };
 
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(toRecord(updated));
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+
+    await this.appendRevisions([createRevision('update', existing, updated, options)]);
+    return updated;
+  }
+
+  /**
+   * One page of matches. Searches match a substring of the key, the values
+   * (limited to searchLocales when given) or the metadata, like the other
+   * adapters; the search index narrows the records to compare.
+   * Sorting by key or updatedAt walks the index, other fields sort in memory.
+   */
+  async query(query: StorageQuery = {}): Promise<StorageQueryResult> {
+    const { page = 1, pageSize, filter = {}, sort = { field: 'key', order: 'asc' } } = query;
+    const terms = [query.search, filter.search].filter((term): term is string => !!term && !!term.trim());
+    const words = splitWords(terms.join(' '));
+    const criteria: TranslationFilter = { ...filter, search: undefined };
+
+    const db = await this.openDB();
+    const store = db.transaction([this.storeName], 'readonly').objectStore(this.storeName);
+
+    let candidates: Translation[];
+    if (terms.length > 0) {
+      // Without words, e.g. a search for ".", or without the index of older versions, every record is compared.
+      // Otherwise the longest word, which tends to match the fewest entries, picks the records
+      const scopes = query.searchLocales && ['key', 'meta'].concat(query.searchLocales);
+      const longest = words.reduce((a, b) => (b.length > a.length ? b : a), '');
+      candidates = longest && store.indexNames.contains('search')
+        ? await this.getMany(await this.matchWord(store, longest, scopes))
+        : await this.load();
+      terms.forEach(term => {
+        candidates = translationUtils.searchTranslations(candidates, term, query.searchLocales);
+      });
+    } else if (sort.field === 'key' || (sort.field === 'updatedAt' && await this.isFullyIndexed(store, 'updatedAt'))) {
+      return this.walkIndex(sort.field, sort.order, criteria, page, pageSize);
+    } else {
+      candidates = await this.load();
+    }
+
+    const matches = translationUtils.sortTranslations(
+      translationUtils.filterTranslations(candidates, criteria),
+      sort.field,
+      sort.order
+    );
+
+    return { results: paginate(matches, page, pageSize), count: matches.length };
+  }
+
+  async getByKey(key: string): Promise<Translation | undefined> {
+    const db = await this.openDB();
+    const index = db.transaction([this.storeName], 'readonly').objectStore(this.storeName).index('key');
+    const record = await requestResult<StoredTranslation | undefined>(index.get(key));
+    return record && fromRecord(record);
+  }
+
+  async bulkPut(translations: Translation[], options: StorageWriteOptions = {}): Promise<Translation[]> {
+    const now = new Date().toISOString();
+    const stamp = Date.now();
+    const records: Translation[] = translations.map((translation, i) => ({
+      ...translation,
+      id: translation.id !== undefined ? translation.id : `${stamp}-${i}`,
+      createdAt: translation.createdAt || now,
+      updatedAt: now
+    }));
+
+    const db = await this.openDB();
+    const transaction = db.transaction([this.storeName], 'readwrite');
+    const store = transaction.objectStore(this.storeName);
+    const revisions: (TranslationRevision | null)[] = [];
+
+    records.forEach(record => {
+      const request = store.get(record.id!);
+      request.onsuccess = () => {
+        const existing: Translation | undefined = request.result && fromRecord(request.result);
+        record.version = existing ? (existing.version || 0) + 1 : 1;
+        revisions.push(createRevision(existing ? 'update' : 'create', existing, record, options));
+        store.put(toRecord(record));
+      };
+    });
+
+    await transactionDone(transaction);
+    await this.appendRevisions(revisions);
+    return records;
+  }
+
+  async getHistory(key: string): Promise<TranslationRevision[]> {
+    const db = await this.openDB();
+    if (!db.objectStoreNames.contains(this.historyStoreName)) {
+      return [];
+    }
+
+    const transaction = db.transaction([this.historyStoreName], 'readonly');
+    const index = transaction.objectStore(this.historyStoreName).index('key');
+
+    const revisions = await new Promise<TranslationRevision[]>((resolve, reject) => {
+      const request = index.getAll(key);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+
+    return getKeyHistory(revisions.sort((a, b) => a.timestamp.localeCompare(b.timestamp)), key);
+  }
+
+  async restoreRevision(revisionId: string, options: StorageWriteOptions = {}): Promise<Translation> {
+    const db = await this.openDB();
+    let revision: TranslationRevision | undefined;
+
+    if (db.objectStoreNames.contains(this.historyStoreName)) {
+      const transaction = db.transaction([this.historyStoreName], 'readonly');
+      const store = transaction.objectStore(this.historyStoreName);
+
+      revision = await new Promise<TranslationRevision | undefined>((resolve, reject) => {
+        const request = store.get(revisionId);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+      });
+    }
+
+    return restoreFromRevision(this, revision, options);
+  }
+
+  async getComments(translationId?: string | number): Promise<TranslationComment[]> {
+    const db = await this.openDB();
+    if (!db.objectStoreNames.contains(this.commentsStoreName)) {
+      return [];
+    }
+
+    const transaction = db.transaction([this.commentsStoreName], 'readonly');
+    const store = transaction.objectStore(this.commentsStoreName);
+
+    const comments = await new Promise<TranslationComment[]>((resolve, reject) => {
+      const request = translationId === undefined
+        ? store.getAll()
+        : store.index('translationId').getAll(translationId);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+
+    return comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async addComment(
+    translationId: string | number,
+    comment: CommentInput,
+    options: StorageWriteOptions = {}
+  ): Promise<TranslationComment> {
+    const { added } = appendComment(await this.getComments(translationId), translationId, comment, options);
+    await this.putComment(added);
+    return added;
+  }
+
+  async resolveComment(commentId: string, resolved: boolean, options: StorageWriteOptions = {}): Promise<TranslationComment> {
+    const { thread } = resolveThread(await this.getComments(), commentId, resolved, options);
+    await this.putComment(thread);
+    return thread;
+  }
+
+  // Databases opened with an explicit version below 4 have no comment store
+  private async putComment(comment: TranslationComment): Promise<void> {
+    const db = await this.openDB();
+    if (!db.objectStoreNames.contains(this.commentsStoreName)) {
+      throw new Error('This database has no comment store, open it with version 4 or later');
+    }
+
+    const transaction = db.transaction([this.commentsStoreName], 'readwrite');
+    transaction.objectStore(this.commentsStoreName).put(comment);
+    await transactionDone(transaction);
+  }
+
+  private async get(id: string | number): Promise<Translation | undefined> {
+    const db = await this.openDB();
+    const transaction = db.transaction([this.storeName], 'readonly');
+    const store = transaction.objectStore(this.storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(id);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result && fromRecord(request.result));
+    });
+  }
+
+  private async getMany(ids: IDBValidKey[]): Promise<Translation[]> {
+    const db = await this.openDB();
+    const store = db.transaction([this.storeName], 'readonly').objectStore(this.storeName);
+    const records = await Promise.all(ids.map(id => requestResult<StoredTranslation | undefined>(store.get(id))));
+    return records.filter((record): record is StoredTranslation => !!record).map(fromRecord);
+  }
+
+  // Ids of the records with the word inside an indexed word of an allowed scope,
+  // reading only the index entries of suffixes that start with it
+  private matchWord(store: IDBObjectStore, word: string, scopes?: string[]): Promise<IDBValidKey[]> {
+    const ids = new Set<IDBValidKey>();
+
     return new Promise((resolve, reject) => {
-      const request = store.put(updated);
+      const request = store.index('search').openKeyCursor(IDBKeyRange.bound(word, word + '\uffff'));
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(updated);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(Array.from(ids));
+          return;
+        }
+        const scope = String(cursor.key).split(SCOPE_SEPARATOR)[1];
+        if (!scopes || scopes.includes(scope)) ids.add(cursor.primaryKey);
+        cursor.continue();
+      };
+    });
+  }
+
+  // Records without the field are left out of its index
+  private async isFullyIndexed(store: IDBObjectStore, indexName: string): Promise<boolean> {
+    const [indexed, total] = await Promise.all([
+      requestResult(store.index(indexName).count()),
+      requestResult(store.count())
+    ]);
+    return indexed === total;
+  }
+
+  // Index order compares code units, so 'Z' comes before 'a'
+  private async walkIndex(
+    indexName: string,
+    order: 'asc' | 'desc',
+    filter: TranslationFilter,
+    page: number,
+    pageSize?: number
+  ): Promise<StorageQueryResult> {
+    const db = await this.openDB();
+    const index = db.transaction([this.storeName], 'readonly').objectStore(this.storeName).index(indexName);
+    const filtered = translationUtils.countActiveFilters(filter) > 0;
+    const offset = pageSize ? (page - 1) * pageSize : 0;
+    // Without a filter the count comes from the index and the cursor skips ahead
+    const count = filtered ? 0 : await requestResult(index.count());
+
+    return new Promise((resolve, reject) => {
+      const results: Translation[] = [];
+      let matched = 0;
+      let skipped = filtered || offset === 0;
+
+      const request = index.openCursor(null, order === 'asc' ? 'next' : 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!skipped && cursor) {
+          skipped = true;
+          matched = offset;
+          cursor.advance(offset);
+          return;
+        }
+        if (!cursor || (!filtered && pageSize && results.length >= pageSize)) {
+          resolve({ results, count: filtered ? matched : count });
+          return;
+        }
+
+        const translation = fromRecord(cursor.value);
+        if (!filtered || translationUtils.filterTranslations([translation], filter).length > 0) {
+          if (matched >= offset && (!pageSize || results.length < pageSize)) results.push(translation);
+          matched++;
+        }
+        cursor.continue();
+      };
+    });
+  }
+
+  // Databases opened with an explicit version 1 have no history store
+  private async appendRevisions(revisions: (TranslationRevision | null)[]): Promise<void> {
+    const entries = revisions.filter((revision): revision is TranslationRevision => revision !== null);
+    if (entries.length === 0) return;
+
+    const db = await this.openDB();
+    if (!db.objectStoreNames.contains(this.historyStoreName)) return;
+
+    const transaction = db.transaction([this.historyStoreName], 'readwrite');
+    const store = transaction.objectStore(this.historyStoreName);
+    entries.forEach(revision => store.add(revision));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 }
 
 // Memory storage for testing or temporary use
 export class MemoryStorageAdapter implements StorageAdapter {
+  // Every instance has its own data
+  readonly storageId = `memory:${translationUtils.generateId()}`;
   private translations: Translation[] = [];
+  private revisions: TranslationRevision[] = [];
+  private archived: ArchivedTranslation[] = [];
+  private comments: TranslationComment[] = [];
   private idCounter = 1;
 
   async load(): Promise<Translation[]> {
     return [...this.translations];
   }
 
-  async save(translations: Translation[]): Promise<void> {
+  async save(translations: Translation[], options: StorageWriteOptions = {}): Promise<void> {
+    this.revisions.push(...diffTranslations(this.translations, translations, options));
     this.translations = [...translations];
   }
 
-  async delete(id: string | number): Promise<void> {
+  async delete(id: string | number, options: StorageWriteOptions = {}): Promise<void> {
+    const existing = this.translations.find(t => t.id === id);
     this.translations = this.translations.filter(t => t.id !== id);
+    this.record(createRevision('delete', existing, undefined, options));
   }
 
-  async create(translation: Omit<Translation, 'id'>): Promise<Translation> {
+  async create(translation: Omit<Translation, 'id'>, options: StorageWriteOptions = {}): Promise<Translation> {
     const newTranslation: Translation = {
       id: this.idCounter++,
       ...translation,
+      version: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
     
     this.translations.push(newTranslation);
+    this.record(createRevision('create', undefined, newTranslation, options));
     return newTranslation;
   }
 
-  async update(id: string | number, updates: Partial<Translation>): Promise<Translation> {
+  async update(
+    id: string | number,
+    updates: Partial<Translation>,
+    options: StorageWriteOptions = {}
+  ): Promise<Translation> {
     const index = this.translations.findIndex(t => t.id === id);
     
     if (index === -1) {
       throw new Error('Translation not found');
     }
 
+    const existing = this.translations[index];
     this.translations[index] = {
-      ...this.translations[index],
+      ...existing,
       ...updates,
+      version: (existing.version || 0) + 1,
       updatedAt: new Date().toISOString()
     };
 
+    this.record(createRevision('update', existing, this.translations[index], options));
     return this.translations[index];
   }
+
+  async getHistory(key: string): Promise<TranslationRevision[]> {
+    return getKeyHistory(this.revisions, key);
+  }
+
+  async restoreRevision(revisionId: string, options: StorageWriteOptions = {}): Promise<Translation> {
+    const revision = this.revisions.find(r => r.id === revisionId);
+    return restoreFromRevision(this, revision, options);
+  }
+
+  async archive(ids: (string | number)[], options: StorageWriteOptions = {}): Promise<ArchivedTranslation[]> {
+    const archived = this.translations.filter(t => ids.includes(t.id!));
+    const { archive, added } = addToArchive(this.archived, archived, options);
+
+    this.archived = archive;
+    this.translations = this.translations.filter(t => !ids.includes(t.id!));
+    archived.forEach(t => this.record(createRevision('delete', t, undefined, options)));
+    return added;
+  }
+
+  async loadArchive(): Promise<ArchivedTranslation[]> {
+    return [...this.archived];
+  }
+
+  async unarchive(keys: string[], options: StorageWriteOptions = {}): Promise<Translation[]> {
+    const { archive, restored } = takeFromArchive(this.archived, keys, this.translations);
+
+    this.archived = archive;
+    this.translations.push(...restored);
+    restored.forEach(t => this.record(createRevision('create', undefined, t, options)));
+    return restored;
+  }
+
+  async getComments(translationId?: string | number): Promise<TranslationComment[]> {
+    return filterComments(this.comments, translationId);
+  }
+
+  async addComment(
+    translationId: string | number,
+    comment: CommentInput,
+    options: StorageWriteOptions = {}
+  ): Promise<TranslationComment> {
+    const { comments, added } = appendComment(this.comments, translationId, comment, options);
+    this.comments = comments;
+    return added;
+  }
+
+  async resolveComment(commentId: string, resolved: boolean, options: StorageWriteOptions = {}): Promise<TranslationComment> {
+    const { comments, thread } = resolveThread(this.comments, commentId, resolved, options);
+    this.comments = comments;
+    return thread;
+  }
+
+  private record(revision: TranslationRevision | null): void {
+    if (revision) {
+      this.revisions.push(revision);
+    }
+  }
 }
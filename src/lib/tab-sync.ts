@@ -0,0 +1,111 @@
+'use client';
+
+import type { TranslationEvent, StorageAdapter } from '../types';
+import { SYNC_CHANNEL } from './constants';
+import { translationUtils } from './utils';
+
+export type TabSyncListener = (event: TranslationEvent) => void;
+
+interface TabSyncMessage {
+  tabId: string;
+  event: TranslationEvent;
+}
+
+/**
+ * Channel name for the tabs using a storage, the shared default for
+ * adapters without a storageId.
+ */
+export function getSyncChannel(storage: StorageAdapter): string {
+  return storage.storageId ? `${SYNC_CHANNEL}:${storage.storageId}` : SYNC_CHANNEL;
+}
+
+/**
+ * Tells other tabs of the same origin about storage changes, over a
+ * BroadcastChannel where available and the storage event of a localStorage
+ * key otherwise. Messages from this tab are never delivered back to it.
+ */
+export class TabSync {
+  readonly tabId = translationUtils.generateId();
+  private name: string;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<TabSyncListener>();
+
+  constructor(name: string = SYNC_CHANNEL) {
+    this.name = name;
+  }
+
+  post(event: Omit<TranslationEvent, 'timestamp'>): void {
+    const message: TabSyncMessage = {
+      tabId: this.tabId,
+      event: { ...event, timestamp: new Date().toISOString() }
+    };
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      // Tabs that only write do not keep a channel open
+      const channel = this.channel || new BroadcastChannel(this.name);
+      channel.postMessage(message);
+      if (channel !== this.channel) channel.close();
+      return;
+    }
+
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      // Every message differs by timestamp, so each one fires the storage event
+      localStorage.setItem(this.name, JSON.stringify(message));
+    } catch (error) {
+      console.error('Error posting sync message:', error);
+    }
+  }
+
+  // The channel stays open while there are listeners
+  subscribe(listener: TabSyncListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.open();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  private open(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.name);
+      this.channel.onmessage = message => this.receive(message.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+  }
+
+  private close(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    } else if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== this.name || !event.newValue) return;
+
+    try {
+      this.receive(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error('Invalid sync message:', error);
+    }
+  };
+
+  private receive(message: TabSyncMessage | null): void {
+    if (!message || !message.event || message.tabId === this.tabId) return;
+
+    Array.from(this.listeners).forEach(listener => {
+      try {
+        listener(message.event);
+      } catch (error) {
+        console.error('Error in sync listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import type { Theme } from '../types';
+import { DEFAULT_THEME, DARK_THEME } from './constants';
+
+// Theme values are Tailwind palette names ('blue', 'gray-900') or any CSS
+// color. Both the light and the dark theme are set as --nia-light-* and
+// --nia-dark-* on the root container, styles.css picks one of the two sets
+// for the active color scheme.
+
+const PALETTE = [
+  'slate', 'gray', 'zinc', 'neutral', 'stone', 'red', 'orange', 'amber', 'yellow', 'lime', 'green',
+  'emerald', 'teal', 'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose'
+];
+
+// Shade used for a bare palette name like 'blue'
+const DEFAULT_SHADE = 600;
+
+const THEME_KEYS = Object.keys(DEFAULT_THEME) as (keyof Theme)[];
+
+export function resolveThemeColor(value: string): string {
+  const match = /^([a-z]+)(?:-(\d{2,3}))?$/.exec(value.trim());
+  if (match && PALETTE.includes(match[1])) {
+    return `var(--color-${match[1]}-${match[2] || DEFAULT_SHADE})`;
+  }
+  return value.trim();
+}
+
+/**
+ * Custom properties for the root container's style attribute. Missing values
+ * fall back to DEFAULT_THEME and DARK_THEME.
+ */
+export function themeToCssVariables(
+  theme: Partial<Theme> = {},
+  darkTheme: Partial<Theme> = {}
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  THEME_KEYS.forEach(key => {
+    variables[`--nia-light-${key}`] = resolveThemeColor(theme[key] || DEFAULT_THEME[key]);
+    variables[`--nia-dark-${key}`] = resolveThemeColor(darkTheme[key] || DARK_THEME[key]);
+  });
+
+  return variables;
+}
@@ -0,0 +1,250 @@
+import type {
+  Translation,
+  TranslationEvent,
+  TranslationStatus,
+  TranslationSuggestion,
+  SuggestionOptions,
+  LocaleCode
+} from '../types';
+import { TRANSLATION_MEMORY } from './constants';
+
+// Translation memory: the catalog indexed by its default-locale text, so the
+// values already written for a source text are offered for the same or a
+// similar one. Similarity is the edit distance relative to the longer text.
+
+interface MemoryEntry {
+  key: string;
+  source: string;
+  normalized: string;
+  translations: Record<LocaleCode, string>;
+  status?: Record<LocaleCode, TranslationStatus>;
+}
+
+interface SourceGroup {
+  // Lower-cased, compared for fuzzy matches
+  folded: string;
+  ids: Set<string>;
+}
+
+export class TranslationMemory {
+  private sourceLocale: LocaleCode;
+  private entries = new Map<string, MemoryEntry>();
+  // Entry ids by normalized source text, each text is scored once
+  private sources = new Map<string, SourceGroup>();
+
+  constructor(sourceLocale: LocaleCode, translations: Translation[] = []) {
+    this.sourceLocale = sourceLocale;
+    this.sync(translations);
+  }
+
+  // Translations with a default-locale text
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Adds the translation, or replaces what was indexed for it
+  add(translation: Translation): void {
+    const id = getEntryId(translation);
+    this.remove(id);
+
+    const source = translation.translations[this.sourceLocale] || '';
+    const normalized = normalizeText(source);
+    if (!normalized) return;
+
+    this.entries.set(id, {
+      key: translation.key,
+      source,
+      normalized,
+      translations: { ...translation.translations },
+      ...(translation.status && { status: { ...translation.status } })
+    });
+
+    let group = this.sources.get(normalized);
+    if (!group) {
+      group = { folded: normalized.toLowerCase(), ids: new Set<string>() };
+      this.sources.set(normalized, group);
+    }
+    group.ids.add(id);
+  }
+
+  remove(id: string | number): void {
+    const entry = this.entries.get(String(id));
+    if (!entry) return;
+
+    this.entries.delete(String(id));
+    const group = this.sources.get(entry.normalized);
+    if (group) {
+      group.ids.delete(String(id));
+      if (group.ids.size === 0) this.sources.delete(entry.normalized);
+    }
+  }
+
+  /**
+   * Brings the index in line with the catalog, re-indexing only the
+   * translations whose values changed.
+   */
+  sync(translations: Translation[]): void {
+    const seen = new Set<string>();
+
+    translations.forEach(translation => {
+      const id = getEntryId(translation);
+      seen.add(id);
+
+      const entry = this.entries.get(id);
+      if (!entry || !isIndexed(entry, translation)) this.add(translation);
+    });
+
+    Array.from(this.entries.keys()).forEach(id => {
+      if (!seen.has(id)) this.remove(id);
+    });
+  }
+
+  /**
+   * Follows a change event of the catalog. Returns false for events that do
+   * not carry what changed, e.g. a plain import, after which sync is needed.
+   */
+  applyEvent(event: Pick<TranslationEvent, 'type' | 'translation' | 'translations' | 'ids'>): boolean {
+    switch (event.type) {
+      case 'create':
+      case 'update':
+        if (!event.translation) return false;
+        this.add(event.translation);
+        return true;
+      case 'delete':
+      case 'bulk_delete':
+        if (!event.ids) return false;
+        event.ids.forEach(id => this.remove(id));
+        return true;
+      default:
+        if (!event.translations) return false;
+        event.translations.forEach(translation => this.add(translation));
+        return true;
+    }
+  }
+
+  /**
+   * Values in `locale` of translations whose default-locale text matches
+   * `text`, best first. A value is suggested once, by its best match.
+   */
+  suggest(text: string, locale: LocaleCode, options: SuggestionOptions = {}): TranslationSuggestion[] {
+    const {
+      excludeKey,
+      limit = TRANSLATION_MEMORY.LIMIT,
+      minScore = TRANSLATION_MEMORY.MIN_SCORE
+    } = options;
+    const normalized = normalizeText(text);
+    if (!normalized || locale === this.sourceLocale || normalized.length > TRANSLATION_MEMORY.MAX_TEXT_LENGTH) {
+      return [];
+    }
+
+    const folded = normalized.toLowerCase();
+    const matches: TranslationSuggestion[] = [];
+
+    this.sources.forEach((group, source) => {
+      const exact = source === normalized;
+      const score = exact ? 1 : getFuzzyScore(folded, group.folded, minScore);
+      if (score < minScore) return;
+
+      group.ids.forEach(id => {
+        const entry = this.entries.get(id)!;
+        const value = entry.translations[locale];
+        if (!value || entry.key === excludeKey) return;
+
+        matches.push({
+          key: entry.key,
+          source: entry.source,
+          value,
+          locale,
+          score,
+          exact,
+          ...(entry.status && entry.status[locale] && { status: entry.status[locale] })
+        });
+      });
+    });
+
+    matches.sort((a, b) =>
+      b.score - a.score ||
+      Number(b.status === 'approved') - Number(a.status === 'approved') ||
+      a.key.localeCompare(b.key)
+    );
+
+    const values = new Set<string>();
+    return matches
+      .filter(match => {
+        if (values.has(match.value)) return false;
+        values.add(match.value);
+        return true;
+      })
+      .slice(0, Math.max(0, limit));
+  }
+}
+
+/**
+ * Similarity of two texts from 0 to 1: one minus their edit distance
+ * relative to the longer one.
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - getEditDistance(a, b, longest) / longest;
+}
+
+// Helper functions
+function getEntryId(translation: Translation): string {
+  return String(translation.id !== undefined ? translation.id : translation.key);
+}
+
+function normalizeText(text: string): string {
+  return typeof text === 'string' ? text.trim().replace(/\s+/g, ' ') : '';
+}
+
+function isIndexed(entry: MemoryEntry, translation: Translation): boolean {
+  return entry.key === translation.key &&
+    hasSameValues(entry.translations, translation.translations) &&
+    hasSameValues(entry.status || {}, translation.status || {});
+}
+
+function hasSameValues(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+// Scores below minScore come back as 0. Only exact matches score 1, a text
+// that differs only in case scores 0.99
+function getFuzzyScore(a: string, b: string, minScore: number): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest > TRANSLATION_MEMORY.MAX_TEXT_LENGTH) return 0;
+  // The length difference alone already costs that many edits
+  if (Math.min(a.length, b.length) / longest < minScore) return 0;
+
+  // The epsilon keeps e.g. (1 - 0.9) * 10 from flooring to 0
+  const maxDistance = Math.floor((1 - minScore) * longest + 1e-9);
+  const distance = getEditDistance(a, b, maxDistance);
+  if (distance > maxDistance) return 0;
+
+  return Math.min(0.99, Math.round((1 - distance / longest) * 100) / 100);
+}
+
+// Levenshtein distance, stops early with maxDistance + 1 once it is exceeded
+function getEditDistance(a: string, b: string, maxDistance: number): number {
+  if (a === b) return 0;
+
+  let previous: number[] = [];
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    const current: number[] = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (current[j] < rowMin) rowMin = current[j];
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
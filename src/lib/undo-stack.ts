@@ -0,0 +1,174 @@
+import type { Translation } from '../types';
+import { UNDO_LIMIT } from './constants';
+
+// Session-level undo/redo for the translation managers. Each entry keeps the
+// translations before and after a change, so undoing and redoing are the same
+// operation with the two sides swapped.
+
+export type UndoAction = 'create' | 'update' | 'delete' | 'import' | 'restore';
+
+export interface TranslationChange {
+  // Missing for a created translation
+  before?: Translation;
+  // Missing for a deleted translation
+  after?: Translation;
+}
+
+export interface UndoEntry {
+  action: UndoAction;
+  changes: TranslationChange[];
+}
+
+// Writes used to replay an entry, usually the manager's own create/update/delete
+export interface UndoOperations {
+  create: (translation: Omit<Translation, 'id'>) => Promise<Translation>;
+  update: (id: string | number, updates: Partial<Translation>) => Promise<Translation>;
+  delete: (id: string | number) => Promise<void>;
+}
+
+export class UndoStack {
+  private undoEntries: UndoEntry[] = [];
+  private redoEntries: UndoEntry[] = [];
+  // Recreating a deleted translation can give it a new id, later entries
+  // still refer to the old one
+  private ids = new Map<string, string | number>();
+  private applying = false;
+  private limit: number;
+
+  constructor(limit: number = UNDO_LIMIT) {
+    this.limit = limit;
+  }
+
+  get canUndo(): boolean {
+    return this.undoEntries.length > 0 && !this.applying;
+  }
+
+  get canRedo(): boolean {
+    return this.redoEntries.length > 0 && !this.applying;
+  }
+
+  // Writes made while undoing or redoing call record() too and are ignored
+  record(entry: UndoEntry): void {
+    if (this.applying || entry.changes.length === 0) return;
+
+    this.undoEntries.push(entry);
+    if (this.undoEntries.length > this.limit) {
+      this.undoEntries.shift();
+    }
+    this.redoEntries = [];
+  }
+
+  async undo(operations: UndoOperations): Promise<UndoEntry | null> {
+    return this.move(this.undoEntries, this.redoEntries, operations, true);
+  }
+
+  async redo(operations: UndoOperations): Promise<UndoEntry | null> {
+    return this.move(this.redoEntries, this.undoEntries, operations, false);
+  }
+
+  clear(): void {
+    this.undoEntries = [];
+    this.redoEntries = [];
+    this.ids.clear();
+  }
+
+  private async move(
+    from: UndoEntry[],
+    to: UndoEntry[],
+    operations: UndoOperations,
+    reverse: boolean
+  ): Promise<UndoEntry | null> {
+    const entry = from[from.length - 1];
+    if (!entry || this.applying) return null;
+
+    this.applying = true;
+    try {
+      const changes = reverse ? entry.changes.slice().reverse() : entry.changes;
+      for (const change of changes) {
+        await this.apply(
+          reverse ? change.after : change.before,
+          reverse ? change.before : change.after,
+          operations
+        );
+      }
+    } finally {
+      this.applying = false;
+    }
+
+    // A failed replay leaves the entry where it was so it can be retried
+    from.pop();
+    to.push(entry);
+    return entry;
+  }
+
+  private async apply(
+    current: Translation | undefined,
+    target: Translation | undefined,
+    operations: UndoOperations
+  ): Promise<void> {
+    if (current && !target) {
+      await operations.delete(this.resolveId(current.id!));
+    } else if (!current && target) {
+      const { id, ...translation } = target;
+      const created = await operations.create(translation);
+      if (id !== undefined && created.id !== undefined && created.id !== id) {
+        this.ids.set(String(id), created.id);
+      }
+    } else if (current && target) {
+      await operations.update(this.resolveId(current.id!), {
+        key: target.key,
+        translations: target.translations,
+        status: target.status || {},
+        metadata: target.metadata || {}
+      });
+    }
+  }
+
+  private resolveId(id: string | number): string | number {
+    let resolved = id;
+    while (this.ids.has(String(resolved)) && this.ids.get(String(resolved)) !== resolved) {
+      resolved = this.ids.get(String(resolved))!;
+    }
+    return resolved;
+  }
+}
+
+/**
+ * Changes between two snapshots of the same translations, matched by key.
+ * Pass `keys` to only look at those, e.g. the keys of an import.
+ */
+export function diffSnapshots(
+  before: Translation[],
+  after: Translation[],
+  keys?: string[]
+): TranslationChange[] {
+  const beforeByKey = new Map<string, Translation>();
+  before.forEach(t => beforeByKey.set(t.key, t));
+  const afterByKey = new Map<string, Translation>();
+  after.forEach(t => afterByKey.set(t.key, t));
+
+  const allKeys = keys || Array.from(new Set(before.map(t => t.key).concat(after.map(t => t.key))));
+  const changes: TranslationChange[] = [];
+
+  allKeys.forEach(key => {
+    const previous = beforeByKey.get(key);
+    const next = afterByKey.get(key);
+    if (!previous && !next) return;
+    if (previous && next && JSON.stringify(snapshot(previous)) === JSON.stringify(snapshot(next))) return;
+
+    changes.push({
+      ...(previous && { before: previous }),
+      ...(next && { after: next })
+    });
+  });
+
+  return changes;
+}
+
+function snapshot(translation: Translation) {
+  return {
+    translations: translation.translations,
+    status: translation.status,
+    metadata: translation.metadata
+  };
+}
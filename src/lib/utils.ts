@@ -1,4 +1,17 @@
-import type { Translation } from '../types';
+import type { Translation, TranslationFilter, TranslationStatus } from '../types';
+
+// Query parameters used for TranslationFilter fields
+const FILTER_PARAMS = {
+  locales: 'locales',
+  hasTranslation: 'has_translation',
+  missingTranslation: 'missing_translation',
+  tags: 'tags',
+  updatedFrom: 'updated_from',
+  updatedTo: 'updated_to',
+  unused: 'unused',
+  status: 'status',
+  openComments: 'open_comments'
+} as const;
 
 export const translationUtils = {
   /**
@@ -114,9 +127,10 @@ export const translationUtils = {
   },
 
   /**
-   * Search translations by term
+   * Search translations by term, a substring of the key, a value or the
+   * metadata. Values of other locales than `locales` are skipped when given.
    */
-  searchTranslations(translations: Translation[], searchTerm: string): Translation[] {
+  searchTranslations(translations: Translation[], searchTerm: string, locales?: string[]): Translation[] {
     if (!searchTerm.trim()) {
       return translations;
     }
@@ -130,8 +144,9 @@ export const translationUtils = {
       }
 
       // Search in translation values
-      for (const value of Object.values(translation.translations)) {
-        if (value.toLowerCase().includes(term)) {
+      for (const locale of Object.keys(translation.translations)) {
+        if (locales && !locales.includes(locale)) continue;
+        if (translation.translations[locale].toLowerCase().includes(term)) {
           return true;
         }
       }
@@ -189,14 +204,27 @@ export const translationUtils = {
   /**
    * Filter translations by criteria
    */
-  filterTranslations(translations: Translation[], filters: {
-    hasTranslation?: string[];
-    missingTranslation?: string[];
+  filterTranslations(translations: Translation[], filters: TranslationFilter & {
     keyPattern?: string;
   }): Translation[] {
-    return translations.filter(translation => {
+    const searched = filters.search
+      ? this.searchTranslations(translations, filters.search)
+      : translations;
+    const from = filters.dateRange?.from ? new Date(filters.dateRange.from).getTime() : null;
+    const to = filters.dateRange?.to ? new Date(filters.dateRange.to).getTime() : null;
+
+    return searched.filter(translation => {
+      // Filter by locales: a value in at least one of them
+      if (filters.locales && filters.locales.length > 0) {
+        const hasAny = filters.locales.some(locale => {
+          const value = translation.translations[locale];
+          return value && value.trim();
+        });
+        if (!hasAny) return false;
+      }
+
       // Filter by has translation
-      if (filters.hasTranslation) {
+      if (filters.hasTranslation && filters.hasTranslation.length > 0) {
         const hasAll = filters.hasTranslation.every(locale => {
           const value = translation.translations[locale];
           return value && value.trim();
@@ -205,7 +233,7 @@ export const translationUtils = {
       }
 
       // Filter by missing translation
-      if (filters.missingTranslation) {
+      if (filters.missingTranslation && filters.missingTranslation.length > 0) {
         const missingAny = filters.missingTranslation.some(locale => {
           const value = translation.translations[locale];
           return !value || !value.trim();
@@ -213,6 +241,34 @@ export const translationUtils = {
         if (!missingAny) return false;
       }
 
+      // Filter by tags: any of the given tags
+      if (filters.tags && filters.tags.length > 0) {
+        const tags = translation.metadata?.tags || [];
+        if (!filters.tags.some(tag => tags.includes(tag))) return false;
+      }
+
+      // Filter by last change, either end of the range may be open
+      if (from !== null || to !== null) {
+        const changedAt = translation.updatedAt || translation.createdAt;
+        const time = changedAt ? new Date(changedAt).getTime() : NaN;
+        if (isNaN(time)) return false;
+        if (from !== null && time < from) return false;
+        if (to !== null && time > to) return false;
+      }
+
+      // Filter by review state: a value in any of the states
+      const wanted = filters.status;
+      if (wanted && wanted.length > 0) {
+        const statuses = translation.status || {};
+        const inStatus = Object.keys(statuses).some(locale =>
+          wanted.includes(statuses[locale]) && Boolean(translation.translations[locale])
+        );
+        if (!inStatus) return false;
+      }
+
+      // Filter by unresolved comments, counted into openComments when listing
+      if (filters.openComments && !translation.openComments) return false;
+
       // Filter by key pattern
       if (filters.keyPattern) {
         const pattern = new RegExp(filters.keyPattern, 'i');
@@ -223,6 +279,89 @@ export const translationUtils = {
     });
   },
 
+  /**
+   * Write filter fields into query parameters (comma-separated lists)
+   */
+  filterToSearchParams(filter: TranslationFilter, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+    const setList = (name: string, values?: string[]) => {
+      if (values && values.length > 0) params.set(name, values.join(','));
+    };
+
+    if (filter.search) params.set('search', filter.search);
+    setList(FILTER_PARAMS.locales, filter.locales);
+    setList(FILTER_PARAMS.hasTranslation, filter.hasTranslation);
+    setList(FILTER_PARAMS.missingTranslation, filter.missingTranslation);
+    setList(FILTER_PARAMS.tags, filter.tags);
+    setList(FILTER_PARAMS.status, filter.status);
+    if (filter.dateRange?.from) params.set(FILTER_PARAMS.updatedFrom, filter.dateRange.from);
+    if (filter.dateRange?.to) params.set(FILTER_PARAMS.updatedTo, filter.dateRange.to);
+    if (filter.unused) params.set(FILTER_PARAMS.unused, 'true');
+    if (filter.openComments) params.set(FILTER_PARAMS.openComments, 'true');
+
+    return params;
+  },
+
+  /**
+   * Read filter fields written by filterToSearchParams
+   */
+  filterFromSearchParams(params: URLSearchParams): TranslationFilter {
+    const getList = (name: string) => {
+      const value = params.get(name);
+      return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+    };
+
+    const filter: TranslationFilter = {};
+    const search = params.get('search');
+    const from = params.get(FILTER_PARAMS.updatedFrom);
+    const to = params.get(FILTER_PARAMS.updatedTo);
+
+    if (search) filter.search = search;
+    filter.locales = getList(FILTER_PARAMS.locales);
+    filter.hasTranslation = getList(FILTER_PARAMS.hasTranslation);
+    filter.missingTranslation = getList(FILTER_PARAMS.missingTranslation);
+    filter.tags = getList(FILTER_PARAMS.tags);
+    filter.status = getList(FILTER_PARAMS.status) as TranslationStatus[] | undefined;
+    if (from || to) filter.dateRange = { from: from || '', to: to || '' };
+    if (params.get(FILTER_PARAMS.unused) === 'true') filter.unused = true;
+    if (params.get(FILTER_PARAMS.openComments) === 'true') filter.openComments = true;
+
+    return filter;
+  },
+
+  /**
+   * Number of active filter criteria, search excluded
+   */
+  countActiveFilters(filter: TranslationFilter): number {
+    return [
+      filter.locales,
+      filter.hasTranslation,
+      filter.missingTranslation,
+      filter.tags,
+      filter.status
+    ].filter(values => values && values.length > 0).length +
+      (filter.dateRange && (filter.dateRange.from || filter.dateRange.to) ? 1 : 0) +
+      (filter.unused ? 1 : 0) +
+      (filter.openComments ? 1 : 0);
+  },
+
+  /**
+   * Entity tag for a translation, derived from its version
+   */
+  getETag(translation: Translation): string {
+    return `"${translation.version || 0}"`;
+  },
+
+  /**
+   * Whether an If-Match header value matches the translation's current version
+   */
+  matchesETag(header: string, translation: Translation): boolean {
+    const current = translationUtils.getETag(translation);
+    return header.split(',').some(tag => {
+      const value = tag.trim().replace(/^W\//, '');
+      return value === '*' || value === current;
+    });
+  },
+
   /**
    * Merge translation objects
    */
@@ -0,0 +1,201 @@
+import { escapeXml, parseAttributes, decodeXml, textContent } from './xml';
+
+// XLIFF 1.2 and 2.0 bilingual documents: one source and one target language
+// per file, one unit per translation key.
+
+export type XliffVersion = '1.2' | '2.0';
+
+export interface XliffUnit {
+  key: string;
+  source: string;
+  target?: string;
+  description?: string;
+  context?: string;
+}
+
+export interface XliffDocument {
+  version: XliffVersion;
+  sourceLocale: string;
+  targetLocale: string;
+  units: XliffUnit[];
+}
+
+export const XLIFF_MIME_TYPE = 'application/xliff+xml';
+
+const XLIFF_NAMESPACES: Record<XliffVersion, string> = {
+  '1.2': 'urn:oasis:names:tc:xliff:document:1.2',
+  '2.0': 'urn:oasis:names:tc:xliff:document:2.0'
+};
+
+// Name of the <file> element, next-intl keeps all messages in one catalog per locale
+const XLIFF_FILE_ID = 'messages';
+
+/**
+ * Serialize a bilingual document as XLIFF 1.2 or 2.0.
+ */
+export function writeXliff(document: XliffDocument): string {
+  const body = document.version === '2.0'
+    ? writeXliff20(document)
+    : writeXliff12(document);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}\n`;
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 document. Only the first <file> languages are
+ * read; units of every <file> are returned.
+ */
+export function readXliff(xml: string): XliffDocument {
+  const rootMatch = /<xliff\b([^>]*)>/.exec(xml);
+  if (!rootMatch) {
+    throw new Error('Invalid XLIFF file: missing <xliff> root element');
+  }
+
+  const rootAttributes = parseAttributes(rootMatch[1]);
+  const version: XliffVersion = rootAttributes.version?.startsWith('2') ? '2.0' : '1.2';
+
+  if (version === '2.0') {
+    return {
+      version,
+      sourceLocale: decodeXml(rootAttributes.srcLang || ''),
+      targetLocale: decodeXml(rootAttributes.trgLang || ''),
+      units: readUnits(xml, 'unit')
+    };
+  }
+
+  const fileMatch = /<file\b([^>]*)>/.exec(xml);
+  const fileAttributes = fileMatch ? parseAttributes(fileMatch[1]) : {};
+
+  return {
+    version,
+    sourceLocale: decodeXml(fileAttributes['source-language'] || ''),
+    targetLocale: decodeXml(fileAttributes['target-language'] || ''),
+    units: readUnits(xml, 'trans-unit')
+  };
+}
+
+function writeXliff12({ sourceLocale, targetLocale, units }: XliffDocument): string {
+  const transUnits = units.map(unit => {
+    const id = escapeXml(unit.key);
+    const target = unit.target
+      ? `<target state="translated">${escapeXml(unit.target)}</target>`
+      : '<target state="needs-translation"></target>';
+
+    return [
+      `      <trans-unit id="${id}" resname="${id}" xml:space="preserve">`,
+      `        <source>${escapeXml(unit.source)}</source>`,
+      `        ${target}`,
+      ...notes(unit).map(([from, text]) => `        <note from="${from}">${escapeXml(text)}</note>`),
+      '      </trans-unit>'
+    ].join('\n');
+  });
+
+  return [
+    `<xliff version="1.2" xmlns="${XLIFF_NAMESPACES['1.2']}">`,
+    `  <file original="${XLIFF_FILE_ID}" source-language="${escapeXml(sourceLocale)}" target-language="${escapeXml(targetLocale)}" datatype="plaintext">`,
+    '    <body>',
+    ...transUnits,
+    '    </body>',
+    '  </file>',
+    '</xliff>'
+  ].join('\n');
+}
+
+function writeXliff20({ sourceLocale, targetLocale, units }: XliffDocument): string {
+  const unitElements = units.map((unit, index) => {
+    const unitNotes = notes(unit);
+    const state = unit.target ? 'translated' : 'initial';
+
+    return [
+      // Unit ids must be NMTOKENs, so the key goes into the name attribute
+      `    <unit id="u${index + 1}" name="${escapeXml(unit.key)}">`,
+      ...(unitNotes.length > 0
+        ? [
+            '      <notes>',
+            ...unitNotes.map(([category, text]) => `        <note category="${category}">${escapeXml(text)}</note>`),
+            '      </notes>'
+          ]
+        : []),
+      `      <segment state="${state}">`,
+      `        <source xml:space="preserve">${escapeXml(unit.source)}</source>`,
+      `        <target xml:space="preserve">${escapeXml(unit.target || '')}</target>`,
+      '      </segment>',
+      '    </unit>'
+    ].join('\n');
+  });
+
+  return [
+    `<xliff version="2.0" xmlns="${XLIFF_NAMESPACES['2.0']}" srcLang="${escapeXml(sourceLocale)}" trgLang="${escapeXml(targetLocale)}">`,
+    `  <file id="${XLIFF_FILE_ID}">`,
+    ...unitElements,
+    '  </file>',
+    '</xliff>'
+  ].join('\n');
+}
+
+function notes(unit: XliffUnit): [string, string][] {
+  const result: [string, string][] = [];
+  if (unit.description) result.push(['description', unit.description]);
+  if (unit.context) result.push(['context', unit.context]);
+  return result;
+}
+
+function readUnits(xml: string, tag: 'trans-unit' | 'unit'): XliffUnit[] {
+  const pattern = new RegExp(`<${tag}\\b([^>]*)>([\\s\\S]*?)<\\/${tag}>`, 'g');
+  const units: XliffUnit[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    const attributes = parseAttributes(match[1]);
+    // 1.2 tools keep the key in resname or id, 2.0 exports use name
+    const key = decodeXml(
+      (tag === 'unit' ? attributes.name : attributes.resname) || attributes.id || ''
+    ).trim();
+    if (!key) continue;
+
+    const body = match[2];
+    // A 2.0 unit may hold several segments, their texts are joined
+    const source = elementTexts(body, 'source').join('');
+    const targets = elementTexts(body, 'target');
+    const unit: XliffUnit = { key, source };
+
+    if (targets.length > 0) {
+      unit.target = targets.join('');
+    }
+
+    readNotes(body).forEach(([kind, text]) => {
+      if (kind === 'description' || kind === 'context') {
+        unit[kind] = text;
+      }
+    });
+
+    units.push(unit);
+  }
+
+  return units;
+}
+
+function elementTexts(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}\\b[^>]*?(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, 'g');
+  const texts: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    texts.push(textContent(match[1] || ''));
+  }
+
+  return texts;
+}
+
+function readNotes(xml: string): [string, string][] {
+  const pattern = /<note\b([^>]*?)(?:\/>|>([\s\S]*?)<\/note>)/g;
+  const result: [string, string][] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    const attributes = parseAttributes(match[1]);
+    result.push([attributes.from || attributes.category || '', textContent(match[2] || '')]);
+  }
+
+  return result;
+}
@@ -0,0 +1,283 @@
+import { createZip, readZip } from './zip';
+import { escapeXml, decodeXml, parseAttributes } from './xml';
+
+// Minimal Office Open XML spreadsheet support: string cells only, which is
+// all the translation import/export needs.
+
+export interface XlsxSheet {
+  name: string;
+  rows: string[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Serialize sheets into an .xlsx workbook. The first row of every sheet is
+ * rendered bold as a header.
+ */
+export function writeXlsx(sheets: XlsxSheet[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = uniqueSheetNames(sheets.map(sheet => sheet.name));
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': xmlDocument(
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      names.map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ).join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': xmlDocument(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': xmlDocument(
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      names.map((name, index) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      ).join('') +
+      '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': xmlDocument(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      names.map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      ).join('') +
+      `<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    ),
+    'xl/styles.xml': xmlDocument(
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+    )
+  };
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = worksheetXml(sheet.rows);
+  });
+
+  return createZip(Object.keys(files).map(name => ({
+    name,
+    data: encoder.encode(files[name])
+  })));
+}
+
+/**
+ * Read every worksheet of an .xlsx workbook as rows of strings.
+ */
+export async function readXlsx(buffer: ArrayBuffer | Uint8Array): Promise<XlsxSheet[]> {
+  const decoder = new TextDecoder();
+  const entries = await readZip(buffer);
+  const files: Record<string, string> = {};
+
+  for (const entry of entries) {
+    files[entry.name.replace(/^\//, '')] = decoder.decode(entry.data);
+  }
+
+  const workbook = files['xl/workbook.xml'];
+  if (!workbook) {
+    throw new Error('Invalid XLSX file: workbook not found');
+  }
+
+  const sharedStrings = parseSharedStrings(files['xl/sharedStrings.xml'] || '');
+  const relationships: Record<string, string> = {};
+  const relsXml = files['xl/_rels/workbook.xml.rels'] || '';
+
+  eachElement(relsXml, 'Relationship', attributes => {
+    const target = attributes.Target || '';
+    relationships[attributes.Id] = target.startsWith('/')
+      ? target.slice(1)
+      : `xl/${target}`;
+  });
+
+  const sheets: XlsxSheet[] = [];
+
+  eachElement(workbook, 'sheet', attributes => {
+    const relationshipId = attributes['r:id'] || '';
+    const xml = files[relationships[relationshipId]];
+    if (xml) {
+      sheets.push({
+        name: decodeXml(attributes.name || ''),
+        rows: parseWorksheet(xml, sharedStrings)
+      });
+    }
+  });
+
+  return sheets;
+}
+
+/**
+ * Make a string usable as a worksheet name (max 31 chars, no []:*?/\).
+ */
+export function toSheetName(name: string): string {
+  const cleaned = name.replace(/[\[\]:*?\/\\]/g, '_').replace(/^'+|'+$/g, '').trim();
+  return (cleaned || 'Sheet').slice(0, MAX_SHEET_NAME_LENGTH);
+}
+
+// Helper functions
+function uniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+
+  return names.map(name => {
+    const base = toSheetName(name);
+    let candidate = base;
+    let counter = 2;
+
+    while (used.has(candidate.toLowerCase())) {
+      const suffix = ` (${counter++})`;
+      candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+function worksheetXml(rows: string[][]): string {
+  const rowsXml = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      if (!value) return '';
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      const style = rowIndex === 0 ? ' s="1"' : '';
+      return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${encodeCellText(value)}</t></is></c>`;
+    }).join('');
+
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return xmlDocument(
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rowsXml}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+function parseWorksheet(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  let rowMatch: RegExpExecArray | null;
+  let nextRowIndex = 0;
+
+  while ((rowMatch = rowPattern.exec(xml))) {
+    const rowAttributes = parseAttributes(rowMatch[1]);
+    const rowIndex = rowAttributes.r ? parseInt(rowAttributes.r) - 1 : nextRowIndex;
+    const row: string[] = [];
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let cellMatch: RegExpExecArray | null;
+    let nextColumnIndex = 0;
+
+    while ((cellMatch = cellPattern.exec(rowMatch[2] || ''))) {
+      const attributes = parseAttributes(cellMatch[1]);
+      const content = cellMatch[2] || '';
+      const columnIndex = attributes.r ? columnIndexFromReference(attributes.r) : nextColumnIndex;
+      let value = '';
+
+      if (attributes.t === 's') {
+        const valueMatch = content.match(/<v>([\s\S]*?)<\/v>/);
+        value = valueMatch ? sharedStrings[parseInt(valueMatch[1])] || '' : '';
+      } else if (attributes.t === 'inlineStr') {
+        value = collectText(content);
+      } else {
+        const valueMatch = content.match(/<v>([\s\S]*?)<\/v>/);
+        value = valueMatch ? decodeCellText(valueMatch[1]) : '';
+      }
+
+      while (row.length < columnIndex) row.push('');
+      row[columnIndex] = value;
+      nextColumnIndex = columnIndex + 1;
+    }
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = row;
+    nextRowIndex = rowIndex + 1;
+  }
+
+  return rows;
+}
+
+function parseSharedStrings(xml: string): string[] {
+  const strings: string[] = [];
+  const pattern = /<si\b[^>]*>([\s\S]*?)<\/si>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    strings.push(collectText(match[1]));
+  }
+
+  return strings;
+}
+
+// Concatenate every <t> run (rich text is split across several), skipping phonetic hints
+function collectText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  const pattern = /<t\b[^>]*?(?:\/>|>([\s\S]*?)<\/t>)/g;
+  let text = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(withoutPhonetics))) {
+    text += decodeCellText(match[1] || '');
+  }
+
+  return text;
+}
+
+function eachElement(xml: string, tag: string, callback: (attributes: Record<string, string>) => void): void {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)\\/?>`, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    callback(parseAttributes(match[1]));
+  }
+}
+
+function columnName(index: number): string {
+  let name = '';
+  let current = index + 1;
+
+  while (current > 0) {
+    const remainder = (current - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    current = Math.floor((current - 1) / 26);
+  }
+
+  return name;
+}
+
+function columnIndexFromReference(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64);
+  }
+
+  return index - 1;
+}
+
+function xmlDocument(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+}
+
+// Excel escapes characters such as carriage returns as _xHHHH_, so a
+// literal _xHHHH_ is written with its underscore escaped
+function encodeCellText(value: string): string {
+  return escapeXml(value.replace(/_(x[0-9A-Fa-f]{4}_)/g, '_x005F_$1'));
+}
+
+function decodeCellText(value: string): string {
+  return decodeXml(value).replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
@@ -0,0 +1,66 @@
+// Small XML string helpers shared by the XLSX and XLIFF import/export.
+
+/**
+ * Escape text for use in element content or attribute values.
+ */
+export function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Decode character and predefined entity references.
+ */
+export function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9A-Fa-f]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse the attribute list of a start tag. Values are returned undecoded.
+ */
+export function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    attributes[match[1]] = match[3] !== undefined ? match[3] : match[4];
+  }
+
+  return attributes;
+}
+
+/**
+ * Text content of an element body: CDATA sections are kept verbatim, nested
+ * markup is dropped and entities are decoded.
+ */
+export function textContent(xml: string): string {
+  const cdataPattern = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+  let text = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = cdataPattern.exec(xml))) {
+    text += decodeXml(stripTags(xml.slice(lastIndex, match.index))) + match[1];
+    lastIndex = cdataPattern.lastIndex;
+  }
+
+  return text + decodeXml(stripTags(xml.slice(lastIndex)));
+}
+
+function stripTags(xml: string): string {
+  return xml.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]*>/g, '');
+}
@@ -0,0 +1,27 @@
+// Server-only exports (route handlers, Node storage adapters)
+export { createTranslationRouteHandlers } from '../lib/route-handlers';
+export { FsMessagesStorageAdapter } from '../lib/fs-storage';
+export { TranslationBroadcaster } from '../lib/broadcaster';
+export { extractFromFiles } from '../lib/fs-extract';
+
+// Types
+export type {
+  TranslationRouteHandlersOptions,
+  TranslationRouteHandlers,
+  TranslationRouteHandler
+} from '../lib/route-handlers';
+export type { FsMessagesStorageOptions } from '../lib/fs-storage';
+export type { ExtractFromFilesOptions } from '../lib/fs-extract';
+export type { BroadcastClient, TranslationEventListener } from '../lib/broadcaster';
+export type {
+  StorageAdapter,
+  StorageWriteOptions,
+  Translation,
+  ArchivedTranslation,
+  MessageFileLayout,
+  TranslationEvent,
+  TranslationRevision
+} from '../types';
+
+// Constants
+export { API_ROUTES } from '../lib/constants';
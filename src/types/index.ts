@@ -7,6 +7,12 @@ export interface Translation {
   translations: Record<string, string>;
   createdAt?: string;
   updatedAt?: string;
+  // Bumped by the storage on every write, sent back as If-Match to detect lost updates
+  version?: number;
+  // Per-locale review state, e.g. values imported from fuzzy gettext entries need review
+  status?: Record<string, TranslationStatus>;
+  // Unresolved comment threads, filled in when listing and never stored
+  openComments?: number;
   metadata?: {
     context?: string;
     description?: string;
@@ -14,6 +20,11 @@ export interface Translation {
   };
 }
 
+// draft, needs-review, approved and rejected are the review workflow (see
+// enableReview); 'translated' is a value outside it, e.g. a gettext entry
+// imported without the fuzzy flag
+export type TranslationStatus = 'draft' | 'needs-review' | 'approved' | 'rejected' | 'translated';
+
 // Tree Structure Types
 export interface TreeNode {
   [key: string]: TreeNode | Translation;
@@ -45,9 +56,39 @@ export interface TranslationManagerProps {
   enableExport?: boolean;
   enableImport?: boolean;
   enableBatchOperations?: boolean;
+  enableFiltering?: boolean;
+  // "Unused in code" filter, needs getKeyUsage in the route handlers
+  enableUnusedFilter?: boolean;
+  // Archive action for selected rows and the archive dialog, needs a storage
+  // with archive support
+  enableArchive?: boolean;
+  // Revision list and restore in the expanded table row
+  enableHistory?: boolean;
+  // Layout of the message files, the tree view shows each namespace's file
+  fileLayout?: MessageFileLayout;
+  // Review workflow: edits wait for review, the review queue view and
+  // approved-only exports. Approving needs permissions.canApprove
+  enableReview?: boolean;
+  // Comment threads in the expanded table row, open comment badges and
+  // filter, needs a storage with comment support
+  enableComments?: boolean;
+  // Translation memory suggestions while editing a value, taken from the
+  // translations of similar default-locale texts
+  enableSuggestions?: boolean;
+  enableKeyboardShortcuts?: boolean;
+  // Override or disable (null) single bindings of KEYBOARD_SHORTCUTS
+  keyboardShortcuts?: Partial<ShortcutBindings>;
   pageSize?: number;
+  // 'infinite' appends the next page when scrolling to the end instead of showing PaginationControls
+  paginationMode?: PaginationMode;
+  // Windowed rendering of the table and tree, always on with infinite scrolling
+  virtualize?: boolean;
   permissions?: Permissions;
-  theme?: Theme;
+  // Missing colors fall back to DEFAULT_THEME
+  theme?: Partial<Theme>;
+  // Overrides of DARK_THEME, used while the dark color scheme is active
+  darkTheme?: Partial<Theme>;
+  colorScheme?: ColorScheme;
   className?: string;
   customStyles?: CustomStyles;
   components?: ComponentOverrides;
@@ -75,6 +116,26 @@ export interface TranslationTableProps {
   onSort?: (field: string, order: 'asc' | 'desc') => void;
   customStyles?: CustomStyles;
   enableRTL?: boolean;
+  // Enables the history tab of the expanded row
+  onLoadHistory?: (translation: Translation) => Promise<TranslationRevision[]>;
+  onRestoreRevision?: (translation: Translation, revision: TranslationRevision) => Promise<void>;
+  // Enables the comments tab of the expanded row
+  onLoadComments?: (translation: Translation) => Promise<TranslationComment[]>;
+  onAddComment?: (translation: Translation, comment: CommentInput) => Promise<TranslationComment>;
+  onResolveComment?: (translation: Translation, comment: TranslationComment, resolved: boolean) => Promise<TranslationComment>;
+  // Shows translation memory suggestions below the cell being edited, except
+  // in the default locale and while virtualized
+  onSuggest?: (text: string, locale: LocaleCode, options?: SuggestionOptions) => Promise<TranslationSuggestion[]>;
+  defaultLocale?: string;
+  // Enables arrow-key row navigation, Enter/Tab inline editing and the delete binding
+  shortcuts?: ShortcutBindings;
+  // Only render the rows in view, every row gets the same height
+  virtualized?: boolean;
+  rowHeight?: number;
+  // Height of the scroll container while virtualized
+  height?: number | string;
+  // Called when the last row scrolls into view, used for infinite scrolling
+  onEndReached?: () => void;
 }
 
 export interface TranslationFormProps {
@@ -85,8 +146,25 @@ export interface TranslationFormProps {
   loading?: boolean;
   validation?: ValidationRules;
   mode: 'create' | 'edit';
+  defaultLocale?: string;
   enableRTL?: boolean;
   customStyles?: CustomStyles;
+  // Save and cancel bindings while the form is open
+  shortcuts?: ShortcutBindings;
+  // Set when saving found a newer stored version, opens the merge dialog.
+  // A merged save goes through onSubmit, taking theirs goes through onCancel
+  conflict?: TranslationConflict | null;
+  onDismissConflict?: () => void;
+  // Shows a "Save as draft" button next to save
+  onSaveDraft?: (translation: Translation) => void;
+  // Shows translation memory suggestions below the focused locale
+  onSuggest?: (text: string, locale: LocaleCode, options?: SuggestionOptions) => Promise<TranslationSuggestion[]>;
+}
+
+// A save that found the translation changed since the edit started
+export interface TranslationConflict {
+  // The stored version, undefined when it was deleted
+  theirs?: Translation;
 }
 
 export interface SearchBoxProps {
@@ -99,6 +177,69 @@ export interface SearchBoxProps {
   onClear?: () => void;
 }
 
+export interface FilterPanelProps {
+  value: TranslationFilter;
+  onChange: (filter: TranslationFilter) => void;
+  supportedLocales: string[];
+  availableTags?: string[];
+  // Offer the unused filter, only when the backend can resolve it
+  showUnused?: boolean;
+  // Offer the open comments filter
+  showOpenComments?: boolean;
+  className?: string;
+}
+
+export interface PluralEditorProps {
+  locale: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Message whose plural argument is used while `value` is empty, usually the default locale
+  referenceMessage?: string;
+  dir?: 'ltr' | 'rtl';
+  className?: string;
+}
+
+export interface RevisionHistoryProps {
+  translation: Translation;
+  supportedLocales: string[];
+  onLoad: (translation: Translation) => Promise<TranslationRevision[]>;
+  // Leave out to show the history read-only
+  onRestore?: (translation: Translation, revision: TranslationRevision) => Promise<void>;
+  enableRTL?: boolean;
+  className?: string;
+}
+
+export interface CommentThreadsProps {
+  translation: Translation;
+  supportedLocales: string[];
+  onLoad: (translation: Translation) => Promise<TranslationComment[]>;
+  // Leave out both to show the threads read-only
+  onAdd?: (translation: Translation, comment: CommentInput) => Promise<TranslationComment>;
+  onResolve?: (translation: Translation, comment: TranslationComment, resolved: boolean) => Promise<TranslationComment>;
+  className?: string;
+}
+
+export interface TranslationSuggestionsProps {
+  // Default-locale text to find matches for
+  source: string;
+  locale: LocaleCode;
+  onSuggest: (text: string, locale: LocaleCode, options?: SuggestionOptions) => Promise<TranslationSuggestion[]>;
+  onApply: (value: string) => void;
+  // Key being edited, never suggested to itself
+  excludeKey?: string;
+  enableRTL?: boolean;
+  className?: string;
+}
+
+export interface MessagePreviewProps {
+  messages: Record<string, string>;
+  locales: string[];
+  // Initial sample values, keyed by argument name
+  sampleValues?: Record<string, string>;
+  enableRTL?: boolean;
+  className?: string;
+}
+
 export interface PaginationProps {
   currentPage: number;
   totalPages: number;
@@ -115,13 +256,31 @@ export interface PaginationProps {
 
 export interface ImportExportProps {
   onImport: (data: Translation[]) => void;
-  onExport: () => void;
+  onExport: (format?: ExportOptions['format'], options?: Pick<ExportOptions, 'approvedOnly'>) => void;
+  // Offer exporting only approved values
+  showApprovedOnly?: boolean;
   supportedFormats?: string[];
   loading?: boolean;
   permissions?: Pick<Permissions, 'canImport' | 'canExport'>;
   className?: string;
 }
 
+export interface KeyboardShortcutsHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bindings: ShortcutBindings;
+  // List the arrow/Enter/Tab keys of the table too
+  showTableKeys?: boolean;
+}
+
+export interface UndoRedoControlsProps {
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  className?: string;
+}
+
 export interface TreeViewProps {
   translations: Translation[];
   onEdit?: (translation: Translation) => void;
@@ -131,6 +290,59 @@ export interface TreeViewProps {
   onToggleExpand?: (key: string) => void;
   enableRTL?: boolean;
   customStyles?: CustomStyles;
+  // Only render the nodes in view, see TranslationTableProps
+  virtualized?: boolean;
+  height?: number | string;
+  onEndReached?: () => void;
+  // Label top-level branches with the message file they are stored in
+  fileLayout?: MessageFileLayout;
+}
+
+export interface ReviewQueueProps {
+  // Translations with values waiting for review
+  translations: Translation[];
+  supportedLocales: string[];
+  onApprove: (translation: Translation, locales: string[]) => void;
+  onReject: (translation: Translation, locales: string[]) => void;
+  onEdit?: (translation: Translation) => void;
+  canApprove?: boolean;
+  enableRTL?: boolean;
+  customStyles?: CustomStyles;
+}
+
+export interface InfiniteScrollFooterProps {
+  loadedCount: number;
+  totalCount: number;
+  loading?: boolean;
+  onLoadMore: () => void;
+  className?: string;
+}
+
+export interface ArchiveDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  loadArchive: () => Promise<ArchivedTranslation[]>;
+  // Puts the translations with these keys back into the catalog
+  onRestore: (keys: string[]) => Promise<void>;
+  supportedLocales: LocaleCode[];
+  canRestore?: boolean;
+}
+
+export interface ConflictDialogProps {
+  isOpen: boolean;
+  // What this editor was about to save
+  mine: Translation;
+  // The stored version, undefined when it was deleted elsewhere
+  theirs?: Translation;
+  // The version the edit started from. Locales changed on one side only are
+  // then taken from that side, without it every difference needs a choice
+  base?: Translation;
+  supportedLocales: LocaleCode[];
+  // Mine with the chosen value per locale, on top of theirs' id and version
+  onSave: (merged: Translation) => void;
+  onUseTheirs: () => void;
+  onCancel: () => void;
+  loading?: boolean;
 }
 
 // Configuration Types
@@ -145,6 +357,15 @@ export interface Theme {
   border: string;
 }
 
+export type PaginationMode = 'pages' | 'infinite';
+
+// 'system' follows prefers-color-scheme
+export type ColorScheme = 'light' | 'dark' | 'system';
+
+// How the message files are split: one {locale}.json, or one file per
+// namespace (the first key segment) as {locale}/{ns}.json or {ns}/{locale}.json
+export type MessageFileLayout = 'single' | 'locale/namespace' | 'namespace/locale';
+
 export interface Permissions {
   canCreate: boolean;
   canEdit: boolean;
@@ -153,6 +374,8 @@ export interface Permissions {
   canImport: boolean;
   canBulkEdit?: boolean;
   canBulkDelete?: boolean;
+  // Reviewer role: approve or reject values in the review queue
+  canApprove?: boolean;
 }
 
 export interface ValidationRules {
@@ -162,6 +385,7 @@ export interface ValidationRules {
   requiredLocales?: string[];
   customValidation?: (translation: Translation) => string | null;
   preventDuplicateKeys?: boolean;
+  validateMessageFormat?: boolean;
 }
 
 export interface CustomStyles {
@@ -183,6 +407,7 @@ export interface CustomStyles {
 
 export interface ComponentOverrides {
   SearchBox?: React.ComponentType<SearchBoxProps>;
+  FilterPanel?: React.ComponentType<FilterPanelProps>;
   PaginationControls?: React.ComponentType<PaginationProps>;
   LoadingSpinner?: React.ComponentType<{ size?: 'sm' | 'md' | 'lg' }>;
   ErrorMessage?: React.ComponentType<{ message: string; onRetry?: () => void }>;
@@ -204,12 +429,17 @@ export interface RealTimeConfig {
   onUpdate?: (translation: Translation) => void;
 }
 
+export type RealTimeStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected';
+
 // Hook Types
 export interface UseTranslationManagerOptions {
   apiEndpoint: string;
   pageSize?: number;
   apiHeaders?: Record<string, string>;
   onError?: (error: Error) => void;
+  realTimeUpdates?: RealTimeConfig;
+  // Keep loaded pages and grow the list with loadMore()
+  infinite?: boolean;
 }
 
 export interface UseTranslationManagerReturn {
@@ -224,24 +454,178 @@ export interface UseTranslationManagerReturn {
   };
   searchTerm: string;
   setSearchTerm: (term: string) => void;
+  filters: TranslationFilter;
+  setFilters: (filters: TranslationFilter) => void;
   setPage: (page: number) => void;
   setPageSize: (size: number) => void;
+  // Infinite mode: appends the next page
+  loadMore: () => Promise<void>;
+  hasMore: boolean;
+  loadingMore: boolean;
   createTranslation: (translation: Omit<Translation, 'id'>) => Promise<Translation>;
-  updateTranslation: (id: string | number, translation: Partial<Translation>) => Promise<Translation>;
-  deleteTranslation: (id: string | number) => Promise<void>;
+  // version is sent as If-Match, defaults to the version of the loaded translation
+  updateTranslation: (
+    id: string | number,
+    translation: Partial<Translation>,
+    options?: { version?: number }
+  ) => Promise<Translation>;
+  deleteTranslation: (id: string | number, options?: { version?: number }) => Promise<void>;
   bulkDeleteTranslations: (ids: (string | number)[]) => Promise<void>;
+  // Recoverable removal through the archive endpoints
+  archiveTranslations: (ids: (string | number)[]) => Promise<void>;
+  getArchive: () => Promise<ArchivedTranslation[]>;
+  restoreArchived: (keys: string[]) => Promise<void>;
   importTranslations: (translations: Translation[]) => Promise<void>;
-  exportTranslations: (format?: string) => Promise<Blob>;
+  exportTranslations: (format?: string, options?: Pick<ExportOptions, 'approvedOnly'>) => Promise<Blob>;
   refresh: () => Promise<void>;
+  getHistory: (id: string | number) => Promise<TranslationRevision[]>;
+  restoreRevision: (id: string | number, revisionId: string) => Promise<Translation>;
+  // Comment threads, openComments of the listed translation follows along
+  getComments: (id: string | number) => Promise<TranslationComment[]>;
+  addComment: (id: string | number, comment: CommentInput) => Promise<TranslationComment>;
+  resolveComment: (id: string | number, commentId: string, resolved: boolean) => Promise<TranslationComment>;
+  // Translation memory matches for a default-locale text
+  getSuggestions: (text: string, locale: LocaleCode, options?: SuggestionOptions) => Promise<TranslationSuggestion[]>;
+  // Session undo/redo of create, update, delete, import and restore
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  connectionStatus: RealTimeStatus;
 }
 
+// Keyboard Shortcut Types
+export type ShortcutAction =
+  | 'CREATE_NEW'
+  | 'SAVE'
+  | 'DELETE'
+  | 'SEARCH'
+  | 'EXPORT'
+  | 'IMPORT'
+  | 'REFRESH'
+  | 'ESCAPE'
+  | 'UNDO'
+  | 'REDO'
+  | 'HELP';
+
+// Bindings like 'ctrl+shift+z', null turns an action off
+export type ShortcutBindings = Record<ShortcutAction, string | null>;
+
 // Storage Types
+export interface StorageWriteOptions {
+  // Recorded as the author of the resulting revisions
+  author?: string;
+  // Set when the write brings back the values of an earlier revision
+  restoredFrom?: string;
+}
+
 export interface StorageAdapter {
+  // Where the data is kept, e.g. 'localstorage:my-key'. Tabs only sync with tabs on the same storage
+  readonly storageId?: string;
   load(): Promise<Translation[]>;
-  save(translations: Translation[]): Promise<void>;
-  delete(id: string | number): Promise<void>;
-  create(translation: Omit<Translation, 'id'>): Promise<Translation>;
-  update(id: string | number, translation: Partial<Translation>): Promise<Translation>;
+  save(translations: Translation[], options?: StorageWriteOptions): Promise<void>;
+  delete(id: string | number, options?: StorageWriteOptions): Promise<void>;
+  create(translation: Omit<Translation, 'id'>, options?: StorageWriteOptions): Promise<Translation>;
+  update(id: string | number, translation: Partial<Translation>, options?: StorageWriteOptions): Promise<Translation>;
+  // Revisions of a key, newest first
+  getHistory?(key: string): Promise<TranslationRevision[]>;
+  restoreRevision?(revisionId: string, options?: StorageWriteOptions): Promise<Translation>;
+  // One page without loading the whole catalog, used by StandaloneAPI when present
+  query?(query: StorageQuery): Promise<StorageQueryResult>;
+  getByKey?(key: string): Promise<Translation | undefined>;
+  // Inserts or replaces in one write, translations without an id are created
+  bulkPut?(translations: Translation[], options?: StorageWriteOptions): Promise<Translation[]>;
+  // Moves translations out of the catalog into a recoverable archive
+  archive?(ids: (string | number)[], options?: StorageWriteOptions): Promise<ArchivedTranslation[]>;
+  loadArchive?(): Promise<ArchivedTranslation[]>;
+  // Back into the catalog, keys that exist there again stay archived
+  unarchive?(keys: string[], options?: StorageWriteOptions): Promise<Translation[]>;
+  // Comments of a translation, or of all translations when no id is given, oldest first
+  getComments?(translationId?: string | number): Promise<TranslationComment[]>;
+  addComment?(translationId: string | number, comment: CommentInput, options?: StorageWriteOptions): Promise<TranslationComment>;
+  // Resolves or reopens the thread the comment belongs to
+  resolveComment?(commentId: string, resolved: boolean, options?: StorageWriteOptions): Promise<TranslationComment>;
+}
+
+export interface ArchivedTranslation extends Translation {
+  archivedAt: string;
+  archivedBy?: string;
+}
+
+export interface StorageQuery {
+  page?: number;
+  // Every match when omitted
+  pageSize?: number;
+  // Matches a substring of the key, a value or the metadata, see translationUtils.searchTranslations
+  search?: string;
+  // Limits search matches in values to these locales, keys always match
+  searchLocales?: LocaleCode[];
+  filter?: TranslationFilter;
+  // Defaults to key ascending
+  sort?: SortOptions;
+}
+
+export interface StorageQueryResult {
+  results: Translation[];
+  // Matches across all pages
+  count: number;
+}
+
+// History Types
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface TranslationRevision {
+  id: string;
+  key: string;
+  action: RevisionAction;
+  // Locale values before and after the change; missing for create and delete
+  previous?: Record<string, string>;
+  current?: Record<string, string>;
+  author?: string;
+  timestamp: string;
+  restoredFrom?: string;
+}
+
+// Comment Types
+export interface TranslationComment {
+  id: string;
+  translationId: string | number;
+  // About one locale's value, about the whole key when missing
+  locale?: LocaleCode;
+  // Replies point at the first comment of their thread
+  parentId?: string;
+  body: string;
+  author?: string;
+  createdAt: string;
+  // Kept on the first comment of a thread
+  resolved?: boolean;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+export type CommentInput = Pick<TranslationComment, 'body' | 'locale' | 'parentId'>;
+
+// A translation memory match, see lib/translation-memory
+export interface TranslationSuggestion {
+  key: string;
+  // Default-locale text of the matching translation
+  source: string;
+  // Its value in the requested locale
+  value: string;
+  locale: LocaleCode;
+  // Similarity of the source texts from 0 to 1, only exact matches score 1
+  score: number;
+  exact: boolean;
+  status?: TranslationStatus;
+}
+
+export interface SuggestionOptions {
+  // Key being edited, never suggested to itself
+  excludeKey?: string;
+  // Defaults to TRANSLATION_MEMORY.LIMIT
+  limit?: number;
+  // Lowest score returned, defaults to TRANSLATION_MEMORY.MIN_SCORE
+  minScore?: number;
 }
 
 // Utility Types
@@ -268,13 +652,20 @@ export interface ImportResult {
   updated: number;
   errors: string[];
   warnings: string[];
+  // The stored translations the import wrote, with what they were before
+  // (missing for new keys). Filled in by StandaloneAPI
+  changes?: { before?: Translation; after: Translation }[];
 }
 
 export interface ExportOptions {
-  format: 'json' | 'csv' | 'xlsx';
+  format: 'json' | 'csv' | 'xlsx' | 'xliff' | 'xliff2' | 'po' | 'pot';
   locales?: LocaleCode[];
+  // Locale used as <source> in XLIFF exports and msgid in PO/POT exports
+  sourceLocale?: LocaleCode;
   includeMetadata?: boolean;
   flattenKeys?: boolean;
+  // Leave out values that are not approved
+  approvedOnly?: boolean;
 }
 
 // Error Types
@@ -296,6 +687,22 @@ export class ValidationError extends TranslationError {
   }
 }
 
+export class MessageFormatError extends TranslationError {
+  constructor(message: string, public offset: number) {
+    super(message, 'MESSAGE_FORMAT_ERROR', { offset });
+    this.name = 'MessageFormatError';
+  }
+}
+
+// The stored translation changed since the edit started. current is the
+// stored version, undefined when it was deleted
+export class ConflictError extends TranslationError {
+  constructor(message: string, public current?: Translation) {
+    super(message, 'CONFLICT', current);
+    this.name = 'ConflictError';
+  }
+}
+
 export class APIError extends TranslationError {
   constructor(
     message: string,
@@ -328,6 +735,12 @@ export interface TranslationFilter {
     from: string;
     to: string;
   };
+  // Keys no source file references, resolved by the route handlers
+  unused?: boolean;
+  // A value in one of these review states, in any locale
+  status?: TranslationStatus[];
+  // Translations with unresolved comment threads
+  openComments?: boolean;
 }
 
 // Sort Types